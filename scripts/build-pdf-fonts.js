@@ -0,0 +1,110 @@
+#!/usr/bin/env node
+
+/**
+ * Script to generate the fonts embedded in exported PDFs
+ *
+ * Subsets DejaVu Sans and DejaVu Sans Bold (from the dejavu-fonts-ttf dev
+ * dependency) to Latin, Cyrillic and common punctuation, and writes them
+ * together with their glyph ids and advance widths to
+ * src/utils/pdf-fonts.ts. Re-run with `npm run build:pdf-fonts` after
+ * changing CHARACTER_RANGES.
+ */
+
+const fs = require('fs');
+const path = require('path');
+const fontkit = require('fontkit');
+
+const FONT_DIR = path.join(
+  path.dirname(require.resolve('dejavu-fonts-ttf/package.json')),
+  'ttf'
+);
+const OUTPUT = path.join(__dirname, '..', 'src', 'utils', 'pdf-fonts.ts');
+
+const FACES = [
+  { constant: 'DEJAVU_SANS', file: 'DejaVuSans.ttf' },
+  { constant: 'DEJAVU_SANS_BOLD', file: 'DejaVuSans-Bold.ttf' },
+];
+
+// Inclusive code point ranges kept in the subsets
+const CHARACTER_RANGES = [
+  [0x20, 0x7e], // ASCII
+  [0xa0, 0xff], // Latin-1 Supplement
+  [0x100, 0x17f], // Latin Extended-A
+  [0x400, 0x45f], // Cyrillic
+  [0x490, 0x491], // Ukrainian Ghe with upturn
+  [0x2010, 0x2027], // Dashes, quotes, bullets, ellipsis
+  [0x2030, 0x2030], // Per mille
+  [0x2039, 0x203a], // Single angle quotes
+  [0x20ac, 0x20ac], // Euro
+  [0x20bd, 0x20bd], // Ruble
+  [0x2116, 0x2116], // Numero
+  [0x2122, 0x2122], // Trade mark
+  [0x2190, 0x2193], // Arrows
+  [0x2212, 0x2212], // Minus
+];
+
+function buildFace({ constant, file }) {
+  const font = fontkit.openSync(path.join(FONT_DIR, file));
+  const scale = 1000 / font.unitsPerEm;
+  const subset = font.createSubset();
+  const glyphs = [];
+  const bbox = [Infinity, Infinity, -Infinity, -Infinity];
+
+  for (const [first, last] of CHARACTER_RANGES) {
+    for (let codePoint = first; codePoint <= last; codePoint++) {
+      if (!font.hasGlyphForCodePoint(codePoint)) continue;
+      const glyph = font.glyphForCodePoint(codePoint);
+      const glyphId = subset.includeGlyph(glyph);
+      glyphs.push(codePoint, glyphId, Math.round(glyph.advanceWidth * scale));
+
+      const box = glyph.bbox;
+      if (box.minX < box.maxX) {
+        bbox[0] = Math.min(bbox[0], box.minX);
+        bbox[1] = Math.min(bbox[1], box.minY);
+        bbox[2] = Math.max(bbox[2], box.maxX);
+        bbox[3] = Math.max(bbox[3], box.maxY);
+      }
+    }
+  }
+
+  const data = Buffer.from(subset.encode()).toString('base64');
+  const metrics = {
+    name: font.postscriptName,
+    ascent: Math.round(font.ascent * scale),
+    descent: Math.round(font.descent * scale),
+    // The OS/2 table of these fonts has no cap height; measure "H"
+    capHeight: Math.round(font.glyphForCodePoint(0x48).bbox.maxY * scale),
+    stemV: font['OS/2'].usWeightClass >= 600 ? 120 : 80,
+    bbox: bbox.map((value) => Math.round(value * scale)),
+  };
+
+  console.log(
+    `${file}: ${glyphs.length / 3} characters, ${Math.round(data.length / 1024)} KB base64`
+  );
+
+  return `export const ${constant}: EmbeddedFont = {
+  name: '${metrics.name}',
+  ascent: ${metrics.ascent},
+  descent: ${metrics.descent},
+  capHeight: ${metrics.capHeight},
+  stemV: ${metrics.stemV},
+  bbox: [${metrics.bbox.join(', ')}],
+  glyphs: [${glyphs.join(', ')}],
+  data: '${data}',
+};
+`;
+}
+
+const header = `/**
+ * DejaVu Sans subsets embedded in exported PDFs
+ *
+ * Generated by scripts/build-pdf-fonts.js; do not edit. DejaVu fonts are
+ * free to embed and modify under the Bitstream Vera license (see the
+ * dejavu-fonts-ttf package).
+ */
+
+import { EmbeddedFont } from './pdf-writer';
+`;
+
+fs.writeFileSync(OUTPUT, [header, ...FACES.map(buildFace)].join('\n'), 'utf8');
+console.log(`Wrote ${path.relative(process.cwd(), OUTPUT)}`);
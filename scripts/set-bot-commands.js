@@ -3,80 +3,78 @@
 /**
  * Script to set Telegram bot commands via API
  * Sets commands for both staging and production bots
+ *
+ * Commands are declared in the Worker's command registry; the menu for every
+ * supported language is fetched from the deployed Worker's /commands route.
  */
 
 const https = require('https');
 
-// Load environment variables based on target environment
-const targetEnvironment = process.argv[2]; // staging, production, or undefined for both
-
-// Load the appropriate .env file
-if (targetEnvironment === 'staging') {
-  require('dotenv').config({ path: '.env.staging' });
-} else if (targetEnvironment === 'production') {
-  require('dotenv').config({ path: '.env.production' });
-} else {
-  // For both environments, load both files (staging takes precedence for conflicts)
-  require('dotenv').config({ path: '.env' });
-  require('dotenv').config({ path: '.env.staging', override: false });
-}
-
-// Bot commands in Russian as requested
-const BOT_COMMANDS = [
-  {
-    command: 'start',
-    description: 'Запустить бота',
-  },
-  {
-    command: 'help',
-    description: 'Показать справку',
-  },
-  {
-    command: 'send_resume',
-    description: 'Отправить резюме',
-  },
-  {
-    command: 'send_job_ad',
-    description: 'Отправить вакансию',
-  },
-  {
-    command: 'get_logs',
-    description: 'Получить логи',
-  },
-  {
-    command: 'show_structured_resume_text',
-    description: 'Показать структурированное резюме',
-  },
-  {
-    command: 'structure_my_resume',
-    description: 'Структурировать мое резюме',
-  },
-  {
-    command: 'show_raw_text_resume',
-    description: 'Показать сырой текст резюме (отладка)',
-  },
-  {
-    command: 'clear_resume',
-    description: 'Очистить данные резюме',
-  },
-];
-
 // Environment configuration
 const ENVIRONMENTS = {
   staging: {
     name: 'staging',
     botTokenEnv: 'TELEGRAM_BOT_TOKEN_STAGING',
     botUsername: 'job_search_help_staging_bot',
+    workerUrl:
+      'https://help-with-job-search-telegram-bot-staging.vova-likes-smoothy.workers.dev',
     description: 'Staging bot',
   },
   production: {
     name: 'production',
     botTokenEnv: 'TELEGRAM_BOT_PRODUCTION_TOKEN',
     botUsername: 'job_search_help_bot',
+    workerUrl:
+      'https://help-with-job-search-telegram-bot.vova-likes-smoothy.workers.dev',
     description: 'Production bot',
   },
 };
 
+/**
+ * Load the .env files for the target environment
+ */
+function loadEnvironmentFiles(targetEnvironment) {
+  if (targetEnvironment === 'staging') {
+    require('dotenv').config({ path: '.env.staging' });
+  } else if (targetEnvironment === 'production') {
+    require('dotenv').config({ path: '.env.production' });
+  } else {
+    // For both environments, load both files (staging takes precedence for conflicts)
+    require('dotenv').config({ path: '.env' });
+    require('dotenv').config({ path: '.env.staging', override: false });
+  }
+}
+
+/**
+ * Fetch the generated command menu from the Worker
+ * Returns { defaultLanguage, commands: { <language>: [{ command, description }] } }
+ */
+function fetchBotCommands(workerUrl) {
+  return new Promise((resolve, reject) => {
+    https
+      .get(`${workerUrl}/commands`, (res) => {
+        let body = '';
+
+        res.on('data', (chunk) => {
+          body += chunk;
+        });
+
+        res.on('end', () => {
+          if (res.statusCode !== 200) {
+            reject(new Error(`Worker returned ${res.statusCode}: ${body}`));
+            return;
+          }
+          try {
+            resolve(JSON.parse(body));
+          } catch (error) {
+            reject(new Error(`Failed to parse commands: ${body}`));
+          }
+        });
+      })
+      .on('error', reject);
+  });
+}
+
 /**
  * Make HTTPS request to Telegram API
  */
@@ -123,7 +121,7 @@ function makeTelegramRequest(url, data) {
 }
 
 /**
- * Set commands for a specific bot
+ * Set commands for a specific bot: the default menu plus one per language
  */
 async function setBotCommands(botToken, environment) {
   const url = `https://api.telegram.org/bot${botToken}/setMyCommands`;
@@ -131,15 +129,20 @@ async function setBotCommands(botToken, environment) {
   console.log(`🔧 Setting commands for ${environment.description}...`);
 
   try {
-    const response = await makeTelegramRequest(url, {
-      commands: BOT_COMMANDS,
-    });
+    const menu = await fetchBotCommands(environment.workerUrl);
+    const defaultCommands = menu.commands[menu.defaultLanguage] || [];
+
+    await makeTelegramRequest(url, { commands: defaultCommands });
+    for (const [language, commands] of Object.entries(menu.commands)) {
+      await makeTelegramRequest(url, { commands, language_code: language });
+    }
 
     console.log(`✅ Commands set successfully for ${environment.description}`);
     console.log(`🤖 Bot: @${environment.botUsername}`);
     console.log(
-      `📋 Commands: ${BOT_COMMANDS.map((cmd) => `/${cmd.command}`).join(', ')}`
+      `📋 Commands: ${defaultCommands.map((cmd) => `/${cmd.command}`).join(', ')}`
     );
+    console.log(`🌐 Languages: ${Object.keys(menu.commands).join(', ')}`);
     console.log('');
 
     return true;
@@ -168,6 +171,7 @@ function getBotToken(envVar) {
  */
 async function main() {
   const targetEnvironment = process.argv[2]; // staging, production, or undefined for both
+  loadEnvironmentFiles(targetEnvironment);
 
   console.log('🚀 Setting Telegram bot commands...');
   console.log('');
@@ -220,4 +224,4 @@ if (require.main === module) {
   });
 }
 
-module.exports = { setBotCommands, BOT_COMMANDS, ENVIRONMENTS };
+module.exports = { setBotCommands, fetchBotCommands, ENVIRONMENTS };
@@ -5,87 +5,17 @@
  * This script will help you get the secret and set the commands
  */
 
-const https = require('https');
-
-// Bot commands
-const BOT_COMMANDS = [
-  { command: 'start', description: 'Запустить бота' },
-  { command: 'help', description: 'Показать справку' },
-  { command: 'send_resume', description: 'Отправить резюме' },
-  { command: 'send_job_ad', description: 'Отправить вакансию' },
-  { command: 'get_logs', description: 'Получить логи' },
-  {
-    command: 'show_structured_resume_text',
-    description: 'Показать структурированное резюме',
-  },
-  { command: 'structure_my_resume', description: 'Структурировать мое резюме' },
-  {
-    command: 'show_raw_text_resume',
-    description: 'Показать сырой текст резюме (отладка)',
-  },
-];
+// Commands come from the Worker's command registry
+const {
+  setBotCommands: setEnvironmentCommands,
+  ENVIRONMENTS,
+} = require('./set-bot-commands');
 
 /**
- * Make HTTPS request to Telegram API
- */
-function makeTelegramRequest(url, data) {
-  return new Promise((resolve, reject) => {
-    const postData = JSON.stringify(data);
-    const options = {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Content-Length': Buffer.byteLength(postData),
-      },
-    };
-
-    const req = https.request(url, options, (res) => {
-      let body = '';
-      res.on('data', (chunk) => {
-        body += chunk;
-      });
-      res.on('end', () => {
-        try {
-          const response = JSON.parse(body);
-          if (response.ok) {
-            resolve(response);
-          } else {
-            reject(new Error(`Telegram API error: ${response.description}`));
-          }
-        } catch (error) {
-          reject(new Error(`Failed to parse response: ${body}`));
-        }
-      });
-    });
-
-    req.on('error', (error) => reject(error));
-    req.write(postData);
-    req.end();
-  });
-}
-
-/**
- * Set bot commands using Telegram API
+ * Set bot commands for the production bot
  */
 async function setBotCommands(botToken) {
-  const url = `https://api.telegram.org/bot${botToken}/setMyCommands`;
-
-  console.log('🔧 Setting commands for Production bot...');
-
-  try {
-    const response = await makeTelegramRequest(url, { commands: BOT_COMMANDS });
-
-    console.log('✅ Commands set successfully for Production bot');
-    console.log('🤖 Bot: @job_search_help_bot');
-    console.log(
-      `📋 Commands: ${BOT_COMMANDS.map((cmd) => `/${cmd.command}`).join(', ')}`
-    );
-
-    return true;
-  } catch (error) {
-    console.error('❌ Failed to set commands:', error.message);
-    return false;
-  }
+  return setEnvironmentCommands(botToken, ENVIRONMENTS.production);
 }
 
 /**
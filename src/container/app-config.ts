@@ -0,0 +1,179 @@
+/**
+ * Application configuration loader
+ *
+ * Resolves config.json for the current environment: defaults, then the
+ * environment section, then overrides from Worker vars. The result is
+ * validated once so services can rely on its types and ranges.
+ */
+
+import { Env } from '../index';
+import {
+  AppConfig,
+  ApplicationConfig,
+  Environment,
+  WorkerConfig,
+} from '../types/config';
+import config from '../../config.json';
+
+const ENVIRONMENTS: readonly Environment[] = [
+  'development',
+  'staging',
+  'production',
+];
+
+// Numeric application settings that Worker vars can override
+const NUMERIC_OVERRIDES = {
+  SESSION_TIMEOUT_HOURS: 'sessionTimeoutHours',
+  MAX_FILE_SIZE_MB: 'maxFileSizeMB',
+  RATE_LIMIT_PER_MINUTE: 'rateLimitPerMinute',
+  AI_RATE_LIMIT_PER_MINUTE: 'aiRateLimitPerMinute',
+} as const;
+
+/**
+ * Build and validate the configuration for the Worker environment
+ */
+export function loadAppConfig(env: Env): AppConfig {
+  const environment = env.ENVIRONMENT || 'development';
+  if (!ENVIRONMENTS.includes(environment as Environment)) {
+    throw new Error(
+      `Invalid configuration: unknown environment "${environment}"`
+    );
+  }
+
+  const errors: string[] = [];
+  const appConfig = applyEnvOverrides(
+    resolveSections(environment as Environment),
+    env,
+    errors
+  );
+  errors.push(...validate(appConfig));
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid configuration: ${errors.join('; ')}`);
+  }
+  return appConfig;
+}
+
+/**
+ * Merge per-environment sections over their defaults
+ */
+function resolveSections(environment: Environment): AppConfig {
+  return {
+    environment,
+    worker: { ...config.workers[environment] },
+    application: {
+      ...config.application.defaults,
+      ...config.application[environment],
+    },
+    ai: { ...config.ai.defaults },
+    localization: {
+      ...config.localization,
+      supportedLanguages: [...config.localization.supportedLanguages],
+    },
+    admin: {
+      ...config.admin[environment],
+      userIds: [...config.admin[environment].userIds],
+    },
+  };
+}
+
+/**
+ * Worker vars (wrangler [vars] or secrets) take precedence over config.json
+ */
+function applyEnvOverrides(
+  appConfig: AppConfig,
+  env: Env,
+  errors: string[]
+): AppConfig {
+  const worker: WorkerConfig = { ...appConfig.worker };
+  const application: ApplicationConfig = { ...appConfig.application };
+  const ai = { ...appConfig.ai };
+
+  if (env.BOT_USERNAME) worker.botUsername = env.BOT_USERNAME;
+  if (env.WORKER_NAME) worker.name = env.WORKER_NAME;
+  if (env.AI_MODEL) ai.model = env.AI_MODEL;
+
+  for (const variable of Object.keys(
+    NUMERIC_OVERRIDES
+  ) as (keyof typeof NUMERIC_OVERRIDES)[]) {
+    const value = env[variable];
+    if (value === undefined || value === '') continue;
+    const parsed = Number(value);
+    if (Number.isNaN(parsed)) {
+      errors.push(`${variable} must be a number`);
+      continue;
+    }
+    application[NUMERIC_OVERRIDES[variable]] = parsed;
+  }
+
+  if (env.DEBUG_LOGGING !== undefined && env.DEBUG_LOGGING !== '') {
+    application.debugLogging = ['true', '1', 'yes'].includes(
+      env.DEBUG_LOGGING.toLowerCase()
+    );
+  }
+
+  let admin = appConfig.admin;
+  if (env.ADMIN_USER_IDS) {
+    const userIds = env.ADMIN_USER_IDS.split(',')
+      .map((id) => id.trim())
+      .filter(Boolean)
+      .map(Number);
+    admin = { ...admin, userIds };
+  }
+
+  return { ...appConfig, worker, application, ai, admin };
+}
+
+/**
+ * Range and presence checks for values services depend on
+ */
+function validate(appConfig: AppConfig): string[] {
+  const errors: string[] = [];
+  const positive: [string, number][] = [
+    [
+      'application.sessionTimeoutHours',
+      appConfig.application.sessionTimeoutHours,
+    ],
+    ['application.maxFileSizeMB', appConfig.application.maxFileSizeMB],
+    [
+      'application.rateLimitPerMinute',
+      appConfig.application.rateLimitPerMinute,
+    ],
+    [
+      'application.aiRateLimitPerMinute',
+      appConfig.application.aiRateLimitPerMinute,
+    ],
+    ['ai.maxTokens', appConfig.ai.maxTokens],
+    ['ai.requestTimeoutSeconds', appConfig.ai.requestTimeoutSeconds],
+  ];
+  for (const [path, value] of positive) {
+    if (!Number.isFinite(value) || value <= 0) {
+      errors.push(`${path} must be a positive number`);
+    }
+  }
+
+  if (appConfig.ai.temperature < 0 || appConfig.ai.temperature > 2) {
+    errors.push('ai.temperature must be between 0 and 2');
+  }
+  if (!/^[a-z0-9_]{5,32}$/i.test(appConfig.worker.botUsername)) {
+    errors.push('worker.botUsername must be a Telegram username');
+  }
+  if (!appConfig.admin.userIds.every((id) => Number.isSafeInteger(id))) {
+    errors.push('admin.userIds must be Telegram user IDs');
+  }
+  if (!appConfig.worker.name) {
+    errors.push('worker.name is required');
+  }
+  if (!appConfig.ai.model) {
+    errors.push('ai.model is required');
+  }
+  if (
+    !appConfig.localization.supportedLanguages.includes(
+      appConfig.localization.defaultLanguage
+    )
+  ) {
+    errors.push('localization.defaultLanguage must be a supported language');
+  }
+
+  return errors;
+}
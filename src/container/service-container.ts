@@ -3,45 +3,172 @@
  * Creates all services with their dependencies
  */
 
+import { AIService } from '../services/ai';
+import { MatchAnalysisService } from '../services/analysis';
+import { CallbackRouter } from '../services/callback-router';
+import { CommandRegistry } from '../services/command-registry';
+import { CoverLetterService } from '../services/cover-letter';
+import { DocumentService } from '../services/document';
+import { ExportService } from '../services/export';
+import { StandardExportTemplate } from '../services/export-template';
+import { I18nService } from '../services/i18n';
+import { InterviewPrepService } from '../services/interview-prep';
+import { JobAdService } from '../services/job-ad';
+import { JobLibraryService } from '../services/job-library';
 import { LoggingService } from '../services/logging';
+import { MockInterviewService } from '../services/mock-interview';
+import { RateLimitService } from '../services/rate-limit';
+import { ResumeService } from '../services/resume';
+import { ResumeLibraryService } from '../services/resume-library';
 import { Env } from '../index';
 import { SessionService } from '../services/session';
+import { ResumeTailoringService } from '../services/tailoring';
 import { TelegramService } from '../services/telegram';
+import { TelegramApiClient } from '../services/telegram-client';
+import { UpdateDeduplicationService } from '../services/update-deduplication';
+import { AdminApiHandler } from '../handlers/admin-api';
 import { ConversationHandler } from '../handlers/conversation';
 import { WebhookHandler } from '../handlers/webhook';
+import { AppConfig } from '../types/config';
+import { loadAppConfig } from './app-config';
 
 export interface Services {
+  config: AppConfig;
   sessionService: SessionService;
   telegramService: TelegramService;
   loggingService: LoggingService;
+  aiService: AIService;
+  analysisService: MatchAnalysisService;
+  documentService: DocumentService;
+  resumeService: ResumeService;
+  jobAdService: JobAdService;
+  jobLibraryService: JobLibraryService;
+  resumeLibraryService: ResumeLibraryService;
+  coverLetterService: CoverLetterService;
+  tailoringService: ResumeTailoringService;
+  interviewPrepService: InterviewPrepService;
+  mockInterviewService: MockInterviewService;
+  exportService: ExportService;
+  i18nService: I18nService;
+  commandRegistry: CommandRegistry;
+  callbackRouter: CallbackRouter;
+  updateDeduplicationService: UpdateDeduplicationService;
+  rateLimitService: RateLimitService;
   conversationHandler: ConversationHandler;
   webhookHandler: WebhookHandler;
+  adminApiHandler: AdminApiHandler;
 }
 
 /**
  * Create all services with their dependencies
  */
-export async function createServices(env: Env): Promise<Services> {
+export async function createServices(
+  env: Env,
+  config: AppConfig = loadAppConfig(env)
+): Promise<Services> {
   // Initialize core services
-  const sessionService = new SessionService(env.SESSIONS);
-  const telegramService = new TelegramService(env.TELEGRAM_BOT_TOKEN || '');
-  const loggingService = new LoggingService(env.LOGS_DB);
+  const sessionService = new SessionService(
+    env.SESSIONS,
+    config.application.sessionTimeoutHours * 3600
+  );
+  const telegramService = new TelegramService(
+    new TelegramApiClient(env.TELEGRAM_BOT_TOKEN || '')
+  );
+  const loggingService = new LoggingService(
+    env.LOGS_DB,
+    config.application.debugLogging
+  );
+  const i18nService = new I18nService(config.localization);
+  const aiService = new AIService(env.AI, config.ai);
+  const analysisService = new MatchAnalysisService(aiService);
+  const documentService = new DocumentService(env.AI);
+  const resumeService = new ResumeService(aiService, sessionService);
+  const jobAdService = new JobAdService(aiService, sessionService);
+  const jobLibraryService = new JobLibraryService(
+    env.SESSIONS,
+    sessionService,
+    i18nService
+  );
+  const resumeLibraryService = new ResumeLibraryService(
+    env.SESSIONS,
+    sessionService,
+    i18nService
+  );
+  const coverLetterService = new CoverLetterService(aiService);
+  const tailoringService = new ResumeTailoringService(aiService, resumeService);
+  const interviewPrepService = new InterviewPrepService(aiService);
+  const mockInterviewService = new MockInterviewService(aiService);
+  const exportService = new ExportService([new StandardExportTemplate()]);
+  const commandRegistry = new CommandRegistry(config.worker.botUsername);
+  const callbackRouter = new CallbackRouter();
+  const rateLimitService = new RateLimitService(env.SESSIONS, {
+    general: config.application.rateLimitPerMinute,
+    ai: config.application.aiRateLimitPerMinute,
+  });
 
   // Initialize handlers
   const conversationHandler = new ConversationHandler(
     sessionService,
     telegramService,
     loggingService,
-    env.AI
+    analysisService,
+    documentService,
+    resumeService,
+    jobAdService,
+    jobLibraryService,
+    resumeLibraryService,
+    coverLetterService,
+    tailoringService,
+    interviewPrepService,
+    mockInterviewService,
+    exportService,
+    i18nService,
+    commandRegistry,
+    callbackRouter,
+    rateLimitService,
+    config
   );
 
-  const webhookHandler = new WebhookHandler(conversationHandler);
+  const updateDeduplicationService = new UpdateDeduplicationService(
+    env.SESSIONS
+  );
+  const webhookHandler = WebhookHandler.createWithRateLimit(
+    conversationHandler,
+    rateLimitService,
+    env.WEBHOOK_SECRET,
+    loggingService,
+    updateDeduplicationService
+  );
+  const adminApiHandler = new AdminApiHandler(
+    loggingService,
+    sessionService,
+    env.ADMIN_API_TOKEN
+  );
 
   return {
+    config,
     sessionService,
     telegramService,
     loggingService,
+    aiService,
+    analysisService,
+    documentService,
+    resumeService,
+    jobAdService,
+    jobLibraryService,
+    resumeLibraryService,
+    coverLetterService,
+    tailoringService,
+    interviewPrepService,
+    mockInterviewService,
+    exportService,
+    i18nService,
+    commandRegistry,
+    callbackRouter,
+    updateDeduplicationService,
+    rateLimitService,
     conversationHandler,
     webhookHandler,
+    adminApiHandler,
   };
 }
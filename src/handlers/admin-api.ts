@@ -0,0 +1,227 @@
+/**
+ * Admin HTTP API handler
+ *
+ * JSON endpoints under /admin for inspecting logs and user sessions,
+ * authenticated with a bearer token (the ADMIN_API_TOKEN secret).
+ */
+
+import { LogEntry, LogFilter, LoggingService } from '../services/logging';
+import { SessionService } from '../services/session';
+import { timingSafeEqual } from '../utils/hash';
+import { jsonResponse, RouteParams } from '../utils/router';
+
+const LOG_LEVELS: readonly LogEntry['level'][] = [
+  'INFO',
+  'ERROR',
+  'DEBUG',
+  'WARN',
+];
+const MAX_LOG_LIMIT = 500;
+const MAX_SUMMARY_HOURS = 720;
+
+/**
+ * Invalid query or path parameter, reported as 400
+ */
+class BadRequestError extends Error {}
+
+export class AdminApiHandler {
+  private loggingService: LoggingService;
+  private sessionService: SessionService;
+  private apiToken: string | undefined;
+
+  constructor(
+    loggingService: LoggingService,
+    sessionService: SessionService,
+    apiToken?: string
+  ) {
+    this.loggingService = loggingService;
+    this.sessionService = sessionService;
+    this.apiToken = apiToken;
+  }
+
+  /**
+   * Check the bearer token, then run the endpoint; errors become JSON
+   */
+  async handle(
+    request: Request,
+    params: RouteParams,
+    endpoint: (url: URL, params: RouteParams) => Promise<Response>
+  ): Promise<Response> {
+    if (!this.apiToken) {
+      return jsonResponse(
+        {
+          error: 'Service Unavailable',
+          message: 'The admin API is not configured.',
+        },
+        503
+      );
+    }
+
+    const header = request.headers.get('Authorization') ?? '';
+    const token = header.startsWith('Bearer ') ? header.slice(7) : '';
+    if (!timingSafeEqual(token, this.apiToken)) {
+      const url = new URL(request.url);
+      await this.loggingService.log(
+        'WARN',
+        'SECURITY',
+        `Refused admin API request ${request.method} ${url.pathname}`,
+        { method: request.method, path: url.pathname }
+      );
+      return jsonResponse(
+        { error: 'Unauthorized', message: 'A valid bearer token is required.' },
+        401
+      );
+    }
+
+    try {
+      return await endpoint(new URL(request.url), params);
+    } catch (error) {
+      if (error instanceof BadRequestError) {
+        return jsonResponse(
+          { error: 'Bad Request', message: error.message },
+          400
+        );
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * GET /admin/logs?userId=&level=&eventType=&since=&until=&limit=
+   */
+  async listLogs(url: URL): Promise<Response> {
+    const query = url.searchParams;
+    const level = query.get('level')?.toUpperCase();
+    if (level && !LOG_LEVELS.includes(level as LogEntry['level'])) {
+      throw new BadRequestError(
+        `level must be one of ${LOG_LEVELS.join(', ')}`
+      );
+    }
+
+    const filter: LogFilter = {
+      limit: this.parseInteger(query.get('limit'), 'limit', 50, MAX_LOG_LIMIT),
+    };
+    const userId = this.parseUserId(query.get('userId'));
+    if (userId !== undefined) filter.userId = userId;
+    if (level) filter.level = level as LogEntry['level'];
+    const eventType = query.get('eventType');
+    if (eventType) filter.eventType = eventType;
+    const since = this.parseDate(query.get('since'), 'since');
+    if (since) filter.since = since;
+    const until = this.parseDate(query.get('until'), 'until');
+    if (until) filter.until = until;
+
+    const logs = await this.loggingService.queryLogs(filter);
+    return jsonResponse({ count: logs.length, logs });
+  }
+
+  /**
+   * GET /admin/logs/summary?hours=
+   */
+  async getLogSummary(url: URL): Promise<Response> {
+    const hours = this.parseInteger(
+      url.searchParams.get('hours'),
+      'hours',
+      24,
+      MAX_SUMMARY_HOURS
+    );
+    const stats = await this.loggingService.getLogStats(hours);
+    const total = stats.reduce((sum, stat) => sum + stat.count, 0);
+    return jsonResponse({ hours, total, stats });
+  }
+
+  /**
+   * POST /admin/logs/cleanup?daysToKeep=
+   */
+  async cleanupLogs(url: URL): Promise<Response> {
+    const daysToKeep = this.parseInteger(
+      url.searchParams.get('daysToKeep'),
+      'daysToKeep',
+      7,
+      365
+    );
+    const deleted = await this.loggingService.cleanupOldLogs(daysToKeep);
+    return jsonResponse({ daysToKeep, deleted });
+  }
+
+  /**
+   * GET /admin/sessions/:userId
+   */
+  async getSession(_url: URL, params: RouteParams): Promise<Response> {
+    const userId = this.requireUserId(params['userId']);
+    const session = await this.sessionService.getSession(userId);
+    if (!session) {
+      return jsonResponse(
+        { error: 'Not Found', message: `User ${userId} has no session.` },
+        404
+      );
+    }
+    return jsonResponse({ session });
+  }
+
+  /**
+   * DELETE /admin/sessions/:userId
+   */
+  async resetSession(_url: URL, params: RouteParams): Promise<Response> {
+    const userId = this.requireUserId(params['userId']);
+    const session = await this.sessionService.getSession(userId);
+    if (!session) {
+      return jsonResponse(
+        { error: 'Not Found', message: `User ${userId} has no session.` },
+        404
+      );
+    }
+
+    const deleted = await this.sessionService.deleteSession(userId);
+    await this.loggingService.log(
+      'INFO',
+      'ADMIN_ACTION',
+      `Admin API reset the session of user ${userId}`,
+      { action: 'reset_session', targetUserId: userId, deleted }
+    );
+    return jsonResponse({ userId, deleted }, deleted ? 200 : 500);
+  }
+
+  private requireUserId(value: string | undefined): number {
+    const userId = this.parseUserId(value ?? '');
+    if (userId === undefined) {
+      throw new BadRequestError('userId is required');
+    }
+    return userId;
+  }
+
+  private parseUserId(value: string | null): number | undefined {
+    if (!value) return undefined;
+    const userId = Number(value);
+    if (!Number.isSafeInteger(userId) || userId <= 0) {
+      throw new BadRequestError('userId must be a Telegram user ID');
+    }
+    return userId;
+  }
+
+  private parseInteger(
+    value: string | null,
+    name: string,
+    fallback: number,
+    max: number
+  ): number {
+    if (!value) return fallback;
+    const parsed = Number(value);
+    if (!Number.isInteger(parsed) || parsed < 1 || parsed > max) {
+      throw new BadRequestError(`${name} must be an integer from 1 to ${max}`);
+    }
+    return parsed;
+  }
+
+  /**
+   * ISO timestamp for comparisons with the stored ones
+   */
+  private parseDate(value: string | null, name: string): string | undefined {
+    if (!value) return undefined;
+    const date = new Date(value);
+    if (Number.isNaN(date.getTime())) {
+      throw new BadRequestError(`${name} must be a date`);
+    }
+    return date.toISOString();
+  }
+}
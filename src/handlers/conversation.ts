@@ -3,27 +3,174 @@
  * Supports only two commands: /send_resume and /send_job_ad
  */
 
+import { AIError } from '../services/ai';
+import { MatchAnalysisService } from '../services/analysis';
+import {
+  COVER_LETTER_LANGUAGES,
+  COVER_LETTER_LENGTHS,
+  COVER_LETTER_TONES,
+  CoverLetterService,
+} from '../services/cover-letter';
+import { CallbackRouter } from '../services/callback-router';
+import { CommandRegistry } from '../services/command-registry';
+import { DocumentError, DocumentService } from '../services/document';
+import {
+  EXPORT_FORMATS,
+  EXPORT_KINDS,
+  ExportService,
+} from '../services/export';
+import { I18nService, Translator } from '../services/i18n';
+import { InterviewPrepService } from '../services/interview-prep';
+import { JobAdService } from '../services/job-ad';
+import { JobLibraryService } from '../services/job-library';
+import { LibraryFullError, LibraryUnavailableError } from '../services/library';
 import { LoggingService } from '../services/logging';
+import { MockInterviewService } from '../services/mock-interview';
+import { RateLimitService } from '../services/rate-limit';
+import { ResumeService } from '../services/resume';
+import { ResumeLibraryService } from '../services/resume-library';
 import { SessionService } from '../services/session';
+import { ResumeTailoringService } from '../services/tailoring';
 import { TelegramService } from '../services/telegram';
-import { TelegramMessage } from '../types/telegram';
+import { TelegramApiError } from '../services/telegram-client';
+import { MatchReport } from '../types/analysis';
+import { CallbackContext } from '../types/callback';
+import { CommandArgsResult } from '../types/command';
+import { AppConfig } from '../types/config';
+import { CoverLetter, CoverLetterOptions } from '../types/cover-letter';
+import { ExportDocument, ExportFormat, ExportKind } from '../types/export';
+import { InterviewPrep } from '../types/interview';
+import { ResumeEntry } from '../types/library';
+import { RateLimitResult, RateLimitScope } from '../types/rate-limit';
+import { ConversationState } from '../types/session';
+import { ResumeTailoring } from '../types/tailoring';
+import { sha256Hex } from '../utils/hash';
+import { asEnum } from '../utils/validation';
+import {
+  InlineKeyboardButton,
+  InlineKeyboardMarkup,
+  SendDocumentOptions,
+  TelegramCallbackQuery,
+  TelegramMessage,
+  TelegramPhotoSize,
+} from '../types/telegram';
+
+// Longest recognised text shown back to the user for confirmation
+const OCR_PREVIEW_LENGTH = 3500;
+
+// Accepted to finish input whatever the interface language
+const DONE_WORDS = ['готово', 'done', 'готов', 'ok'];
+
+// Longest period /stats summarizes
+const MAX_STATS_HOURS = 720;
+
+/**
+ * "Part 2/3" header for text sent in several messages
+ */
+function partLabel(t: Translator): (part: number, total: number) => string {
+  return (part, total) => t('common.part', { part, total });
+}
+
+/**
+ * What /export should produce; missing parts are chosen with buttons
+ */
+interface ExportRequest {
+  kind?: ExportKind;
+  format?: ExportFormat;
+}
+
+/**
+ * Optional document kind and format of /export, in any order
+ */
+function parseExportArgs(args: string[]): CommandArgsResult<ExportRequest> {
+  const request: ExportRequest = {};
+  for (const arg of args) {
+    const kind = asEnum(arg, EXPORT_KINDS);
+    const format = asEnum(arg, EXPORT_FORMATS);
+    if (kind && !request.kind) {
+      request.kind = kind;
+    } else if (format && !request.format) {
+      request.format = format;
+    } else {
+      return { error: 'export.usage' };
+    }
+  }
+  return { value: request };
+}
+
+/**
+ * Single numeric Telegram user ID argument of the admin commands
+ */
+function parseUserIdArg(args: string[]): CommandArgsResult<number> {
+  const userId = Number(args[0]);
+  return args.length === 1 && Number.isSafeInteger(userId) && userId > 0
+    ? { value: userId }
+    : { error: 'admin.userIdRequired' };
+}
 
 export class ConversationHandler {
   private sessionService: SessionService;
   private telegramService: TelegramService;
   private loggingService: LoggingService;
-  private ai: any; // Cloudflare AI binding
+  private analysisService: MatchAnalysisService;
+  private documentService: DocumentService;
+  private resumeService: ResumeService;
+  private jobAdService: JobAdService;
+  private jobLibraryService: JobLibraryService;
+  private resumeLibraryService: ResumeLibraryService;
+  private coverLetterService: CoverLetterService;
+  private tailoringService: ResumeTailoringService;
+  private interviewPrepService: InterviewPrepService;
+  private mockInterviewService: MockInterviewService;
+  private exportService: ExportService;
+  private i18nService: I18nService;
+  private commandRegistry: CommandRegistry;
+  private callbackRouter: CallbackRouter;
+  private rateLimitService: RateLimitService;
+  private config: AppConfig;
 
   constructor(
     sessionService: SessionService,
     telegramService: TelegramService,
     loggingService: LoggingService,
-    ai?: any
+    analysisService: MatchAnalysisService,
+    documentService: DocumentService,
+    resumeService: ResumeService,
+    jobAdService: JobAdService,
+    jobLibraryService: JobLibraryService,
+    resumeLibraryService: ResumeLibraryService,
+    coverLetterService: CoverLetterService,
+    tailoringService: ResumeTailoringService,
+    interviewPrepService: InterviewPrepService,
+    mockInterviewService: MockInterviewService,
+    exportService: ExportService,
+    i18nService: I18nService,
+    commandRegistry: CommandRegistry,
+    callbackRouter: CallbackRouter,
+    rateLimitService: RateLimitService,
+    config: AppConfig
   ) {
     this.sessionService = sessionService;
     this.telegramService = telegramService;
     this.loggingService = loggingService;
-    this.ai = ai;
+    this.analysisService = analysisService;
+    this.documentService = documentService;
+    this.resumeService = resumeService;
+    this.jobAdService = jobAdService;
+    this.jobLibraryService = jobLibraryService;
+    this.resumeLibraryService = resumeLibraryService;
+    this.coverLetterService = coverLetterService;
+    this.tailoringService = tailoringService;
+    this.interviewPrepService = interviewPrepService;
+    this.mockInterviewService = mockInterviewService;
+    this.exportService = exportService;
+    this.i18nService = i18nService;
+    this.commandRegistry = commandRegistry;
+    this.callbackRouter = callbackRouter;
+    this.rateLimitService = rateLimitService;
+    this.config = config;
+    this.registerCommands();
+    this.registerCallbacks();
   }
 
   /**
@@ -38,12 +185,19 @@ export class ConversationHandler {
       return;
     }
 
+    let t = this.i18nService.getTranslator(
+      this.i18nService.resolveLocale(message.from?.language_code)
+    );
+
     try {
+      await this.ensureSession(userId, chatId, message.from?.language_code);
+      t = await this.getTranslator(userId);
+
       // Log the message
       await this.loggingService.logUserMessage(
         userId,
         chatId,
-        message.text || 'document',
+        message.text || (message.photo ? 'photo' : 'document'),
         {
           messageId: message.message_id,
         }
@@ -60,18 +214,17 @@ export class ConversationHandler {
         await this.handleTextMessage(message, chatId, userId);
       } else if (message.document) {
         await this.handleDocumentMessage(message, chatId, userId);
+      } else if (message.photo && message.photo.length > 0) {
+        await this.handlePhotoMessage(message.photo, chatId, userId);
       } else {
         await this.telegramService.sendMessage({
           chat_id: chatId,
-          text: 'Пожалуйста, отправьте текст, PDF файл или используйте команды /send_resume или /send_job_ad',
+          text: t('common.unsupportedMessage'),
         });
       }
     } catch (error) {
       console.error('💥 MESSAGE HANDLER ERROR:', error);
-      await this.telegramService.sendMessage({
-        chat_id: chatId,
-        text: '❌ Что-то пошло не так. Пожалуйста, попробуйте ещё раз.',
-      });
+      await this.reportError(chatId, userId, error, t);
     }
   }
 
@@ -83,6 +236,7 @@ export class ConversationHandler {
     chatId: number,
     userId: number
   ): Promise<void> {
+    const t = await this.getTranslator(userId);
     const text = message.text!;
 
     // Get current session state
@@ -98,14 +252,192 @@ export class ConversationHandler {
         await this.handleJobAdText(text, chatId, userId);
         break;
 
+      case 'renaming_job_ad':
+        await this.handleJobAdRename(text, chatId, userId);
+        break;
+
+      case 'renaming_resume':
+        await this.handleResumeRename(text, chatId, userId);
+        break;
+
+      case 'editing_cover_letter':
+        await this.handleCoverLetterEdit(text, chatId, userId);
+        break;
+
+      case 'mock_interview':
+        await this.handleMockInterviewAnswer(text, chatId, userId);
+        break;
+
       default:
         await this.telegramService.sendMessage({
           chat_id: chatId,
-          text: 'Используйте команды /send_resume или /send_job_ad для начала.',
+          text: t('common.useCommands'),
         });
     }
   }
 
+  /**
+   * Declare bot commands; /help and the bot menu are generated from them
+   */
+  private registerCommands(): void {
+    this.commandRegistry
+      .register({
+        name: 'start',
+        description: 'command.start',
+        handler: ({ chatId, t }) => this.sendWelcomeMessage(chatId, t),
+      })
+      .register({
+        name: 'help',
+        description: 'command.help',
+        handler: ({ chatId, t, isAdmin }) =>
+          this.sendHelpMessage(chatId, t, isAdmin),
+      })
+      .register({
+        name: 'send_resume',
+        description: 'command.send_resume',
+        handler: ({ chatId, userId }) =>
+          this.startResumeCollection(chatId, userId),
+      })
+      .register({
+        name: 'send_job_ad',
+        description: 'command.send_job_ad',
+        handler: ({ chatId, userId }) =>
+          this.startJobAdCollection(chatId, userId),
+      })
+      .register({
+        name: 'show_structured_resume_text',
+        description: 'command.show_structured_resume_text',
+        handler: ({ chatId, userId }) =>
+          this.showStructuredResume(chatId, userId),
+      })
+      .register({
+        name: 'structure_my_resume',
+        description: 'command.structure_my_resume',
+        handler: ({ chatId, userId }) =>
+          this.showStructuredResume(chatId, userId),
+      })
+      .register({
+        name: 'show_structured_job_ad',
+        description: 'command.show_structured_job_ad',
+        handler: ({ chatId, userId }) =>
+          this.showStructuredJobAd(chatId, userId),
+      })
+      .register({
+        name: 'show_raw_text_resume',
+        description: 'command.show_raw_text_resume',
+        visibleInMenu: false,
+        handler: ({ chatId, userId }) => this.showRawTextResume(chatId, userId),
+      })
+      .register({
+        name: 'clear_resume',
+        description: 'command.clear_resume',
+        handler: ({ chatId, userId }) => this.clearResumeData(chatId, userId),
+      })
+      .register({
+        name: 'analyze_match',
+        description: 'command.analyze_match',
+        handler: ({ chatId, userId }) => this.analyzeMatch(chatId, userId),
+      })
+      .register({
+        name: 'jobs',
+        description: 'command.jobs',
+        handler: ({ chatId, userId }) => this.showJobLibrary(chatId, userId),
+      })
+      .register({
+        name: 'resumes',
+        description: 'command.resumes',
+        handler: ({ chatId, userId }) => this.showResumeLibrary(chatId, userId),
+      })
+      .register({
+        name: 'cover_letter',
+        description: 'command.cover_letter',
+        handler: ({ chatId, userId }) => this.startCoverLetter(chatId, userId),
+      })
+      .register({
+        name: 'tailor_resume',
+        description: 'command.tailor_resume',
+        handler: ({ chatId, userId }) =>
+          this.startResumeTailoring(chatId, userId),
+      })
+      .register({
+        name: 'interview_prep',
+        description: 'command.interview_prep',
+        handler: ({ chatId, userId }) =>
+          this.startInterviewPrep(chatId, userId),
+      })
+      .register({
+        name: 'mock_interview',
+        description: 'command.mock_interview',
+        handler: ({ chatId, userId }) =>
+          this.startMockInterview(chatId, userId),
+      })
+      .register({
+        name: 'stop_interview',
+        description: 'command.stop_interview',
+        handler: ({ chatId, userId }) =>
+          this.finishMockInterview(chatId, userId),
+      })
+      .register<ExportRequest>({
+        name: 'export',
+        description: 'command.export',
+        parseArgs: parseExportArgs,
+        handler: ({ chatId, userId }, request) =>
+          this.startExport(chatId, userId, request),
+      })
+      .register({
+        name: 'language',
+        description: 'command.language',
+        handler: ({ chatId, userId }) => this.showLanguageMenu(chatId, userId),
+      })
+      .register({
+        name: 'get_logs',
+        description: 'command.get_logs',
+        adminOnly: true,
+        handler: ({ chatId, t }) => this.sendLogs(chatId, t),
+      })
+      .register<number>({
+        name: 'stats',
+        description: 'command.stats',
+        adminOnly: true,
+        parseArgs: (args) => {
+          if (args.length === 0) return { value: 24 };
+          const hours = Number(args[0]);
+          return args.length === 1 &&
+            Number.isInteger(hours) &&
+            hours >= 1 &&
+            hours <= MAX_STATS_HOURS
+            ? { value: hours }
+            : { error: 'admin.statsUsage' };
+        },
+        handler: ({ chatId, t }, hours) =>
+          this.sendLogSummary(chatId, hours, t),
+      })
+      .register<number>({
+        name: 'user_logs',
+        description: 'command.user_logs',
+        adminOnly: true,
+        parseArgs: parseUserIdArg,
+        handler: ({ chatId, t }, targetUserId) =>
+          this.sendUserLogs(chatId, targetUserId, t),
+      })
+      .register<number>({
+        name: 'session',
+        description: 'command.session',
+        adminOnly: true,
+        parseArgs: parseUserIdArg,
+        handler: ({ chatId, t }, targetUserId) =>
+          this.sendSessionSummary(chatId, targetUserId, t),
+      })
+      .register<number>({
+        name: 'reset_session',
+        description: 'command.reset_session',
+        adminOnly: true,
+        parseArgs: parseUserIdArg,
+        handler: ({ chatId, userId, t }, targetUserId) =>
+          this.resetUserSession(chatId, userId, targetUserId, t),
+      });
+  }
+
   /**
    * Handle commands
    */
@@ -114,47 +446,289 @@ export class ConversationHandler {
     chatId: number,
     userId: number
   ): Promise<void> {
+    const t = await this.getTranslator(userId);
     console.log(`🔍 COMMAND DEBUG: Received command: "${command}"`);
-    const parts = command.trim().split(/\s+/);
-    const cmd = parts[0]?.toLowerCase() || '';
-    console.log(`🔍 COMMAND DEBUG: Processed command: "${cmd}"`);
 
-    switch (cmd) {
-      case '/start':
-        await this.sendWelcomeMessage(chatId);
-        break;
+    const result = await this.commandRegistry.dispatch(command, {
+      chatId,
+      userId,
+      t,
+      isAdmin: this.isAdmin(userId),
+    });
 
-      case '/help':
-        await this.sendHelpMessage(chatId);
-        break;
+    switch (result.status) {
+      case 'unknown': {
+        const lines = [t('commands.unknown', { command: result.command })];
+        if (result.suggestions.length > 0) {
+          lines.push(
+            t('commands.suggestions', {
+              commands: result.suggestions.map((name) => `/${name}`).join(', '),
+            })
+          );
+        }
+        lines.push(t('commands.seeHelp'));
+        await this.telegramService.sendMessage({
+          chat_id: chatId,
+          text: lines.join('\n'),
+        });
+        return;
+      }
 
-      case '/send_resume':
-        await this.startResumeCollection(chatId, userId);
-        break;
+      case 'forbidden':
+        await this.loggingService.logSecurityEvent(
+          userId,
+          chatId,
+          `Refused admin command /${result.command}`,
+          { command: result.command }
+        );
+        await this.telegramService.sendMessage({
+          chat_id: chatId,
+          text: t('commands.forbidden', { command: result.command }),
+        });
+        return;
 
-      case '/send_job_ad':
-        await this.startJobAdCollection(chatId, userId);
-        break;
+      case 'invalid_args':
+        await this.telegramService.sendMessage({
+          chat_id: chatId,
+          text: t(result.error),
+        });
+        return;
+    }
+  }
 
-      case '/get_logs':
-        await this.sendLogs(chatId);
-        break;
+  /**
+   * Declare inline button handlers and the buttons that stay active
+   */
+  private registerCallbacks(): void {
+    this.callbackRouter
+      .register('resume_done', ({ chatId, userId }) =>
+        this.finishResumeCollection(chatId, userId)
+      )
+      .register('job_done', ({ chatId, userId }) =>
+        this.finishJobAdCollection(chatId, userId)
+      )
+      .register('analyze_match', ({ chatId, userId }) =>
+        this.analyzeMatch(chatId, userId)
+      )
+      .register('ocr_confirm', ({ chatId, userId }) =>
+        this.confirmRecognizedText(chatId, userId)
+      )
+      .register('ocr_discard', ({ chatId, userId }) =>
+        this.discardRecognizedText(chatId, userId)
+      )
+      .register(
+        'jobs',
+        ({ chatId, userId }, args) =>
+          this.handleJobLibraryCallback(chatId, userId, args),
+        // Lists stay usable after opening an entry
+        { keepKeyboard: ([action]) => action === 'open' }
+      )
+      .register(
+        'resumes',
+        ({ chatId, userId }, args) =>
+          this.handleResumeLibraryCallback(chatId, userId, args),
+        { keepKeyboard: ([action]) => action === 'open' }
+      )
+      .register(
+        'cover',
+        ({ chatId, userId }, args) =>
+          this.handleCoverLetterCallback(chatId, userId, args),
+        {
+          // Both download formats can be requested
+          keepKeyboard: ([action]) => action === 'txt' || action === 'md',
+        }
+      )
+      .register('tailor', ({ chatId, userId }, args) =>
+        this.handleTailoringCallback(chatId, userId, args)
+      )
+      .register(
+        'prep',
+        ({ chatId, userId, messageId }, args) =>
+          this.handleInterviewPrepCallback(chatId, userId, args, messageId),
+        // Pages are edited in place together with their buttons
+        { keepKeyboard: true }
+      )
+      .register('lang', ({ chatId, userId }, args) =>
+        this.handleLanguageCallback(chatId, userId, args)
+      )
+      .register(
+        'export',
+        ({ chatId, userId }, [kind, format]) => {
+          const request: ExportRequest = {};
+          const exportKind = asEnum(kind, EXPORT_KINDS);
+          const exportFormat = asEnum(format, EXPORT_FORMATS);
+          if (exportKind) request.kind = exportKind;
+          if (exportFormat) request.format = exportFormat;
+          return this.startExport(chatId, userId, request);
+        },
+        // Several formats can be downloaded from one menu
+        { keepKeyboard: (args) => args.length === 2 }
+      );
+  }
 
-      case '/show_structured_resume_text':
-      case '/structure_my_resume':
-        await this.showStructuredResume(chatId, userId);
-        break;
+  /**
+   * Handle a pressed inline button: answer the callback so the client stops
+   * its spinner, disable used buttons, then run the registered handler
+   */
+  async handleCallbackQuery(query: TelegramCallbackQuery): Promise<void> {
+    const userId = query.from.id;
+    const chatId = query.message?.chat.id;
+    const messageId = query.message?.message_id;
+    const t = await this.getTranslator(userId);
+
+    const context: CallbackContext = { chatId: chatId ?? userId, userId };
+    if (messageId !== undefined) {
+      context.messageId = messageId;
+    }
+    const match =
+      chatId !== undefined
+        ? this.callbackRouter.match(query.data ?? '', context)
+        : null;
+
+    if (!match) {
+      await this.answerCallback(query.id, t('callbacks.expired'));
+      await this.disableKeyboard(chatId, messageId);
+      return;
+    }
 
-      case '/show_raw_text_resume':
-        await this.showRawTextResume(chatId, userId);
-        break;
+    await this.answerCallback(query.id);
+    // Removed before running the handler so slow actions are not repeated
+    if (!match.keepKeyboard) {
+      await this.disableKeyboard(chatId, messageId);
+    }
 
-      case '/clear_resume':
-        await this.clearResumeData(chatId, userId);
-        break;
+    try {
+      await match.run();
+    } catch (error) {
+      console.error(`💥 CALLBACK ERROR (${match.action}):`, error);
+      await this.reportError(context.chatId, userId, error, t);
+    }
+  }
 
-      default:
-        await this.sendHelpMessage(chatId);
+  /**
+   * Upload a file, telling the user when Telegram rejects it
+   */
+  private async sendFile(
+    options: SendDocumentOptions,
+    t: Translator
+  ): Promise<void> {
+    try {
+      await this.telegramService.sendDocument(options);
+    } catch (error) {
+      if (!(error instanceof TelegramApiError) || error.botBlocked) throw error;
+      console.error('Error sending file:', error);
+      await this.telegramService.sendMessage({
+        chat_id: options.chat_id,
+        text: t('common.fileSendFailed'),
+      });
+    }
+  }
+
+  /**
+   * Stop the button spinner. A query Telegram considers too old is
+   * rejected with 400, but the pressed action still runs.
+   */
+  private async answerCallback(queryId: string, text?: string): Promise<void> {
+    try {
+      await this.telegramService.answerCallbackQuery(
+        text === undefined
+          ? { callback_query_id: queryId }
+          : { callback_query_id: queryId, text }
+      );
+    } catch (error) {
+      if (!(error instanceof TelegramApiError) || error.errorCode !== 400) {
+        throw error;
+      }
+    }
+  }
+
+  /**
+   * Tell the user that handling their update failed, unless they blocked
+   * the bot and nothing can be delivered
+   */
+  private async reportError(
+    chatId: number,
+    userId: number,
+    error: unknown,
+    t: Translator
+  ): Promise<void> {
+    if (error instanceof TelegramApiError && error.botBlocked) {
+      await this.loggingService.log(
+        'WARN',
+        'BOT_BLOCKED',
+        `Telegram refused ${error.method} for chat ${chatId}`,
+        { description: error.description },
+        userId,
+        chatId
+      );
+      return;
+    }
+    await this.telegramService.sendMessage({
+      chat_id: chatId,
+      text: t('common.error'),
+    });
+  }
+
+  /**
+   * Admins are listed per environment in config.json (or ADMIN_USER_IDS);
+   * an empty list means nobody can run admin commands
+   */
+  private isAdmin(userId: number): boolean {
+    return this.config.admin.userIds.includes(userId);
+  }
+
+  /**
+   * Count a model call against the stricter AI quota; false (after telling
+   * the user) when it is used up
+   */
+  private async checkAIRateLimit(
+    chatId: number,
+    userId: number
+  ): Promise<boolean> {
+    const result = await this.rateLimitService.check(userId, 'ai');
+    if (!result.allowed) {
+      await this.sendRateLimitNotice(chatId, userId, 'ai', result);
+    }
+    return result.allowed;
+  }
+
+  /**
+   * Ask the user to slow down
+   */
+  async sendRateLimitNotice(
+    chatId: number,
+    userId: number,
+    scope: RateLimitScope,
+    result: RateLimitResult
+  ): Promise<void> {
+    const t = await this.getTranslator(userId);
+    await this.telegramService.sendMessage({
+      chat_id: chatId,
+      text: t(scope === 'ai' ? 'rateLimit.ai' : 'rateLimit.general', {
+        limit: result.limit,
+        seconds: result.retryAfterSeconds,
+      }),
+    });
+  }
+
+  /**
+   * Remove the inline keyboard from a message whose buttons were used
+   */
+  private async disableKeyboard(
+    chatId: number | undefined,
+    messageId: number | undefined
+  ): Promise<void> {
+    if (chatId === undefined || messageId === undefined) return;
+    try {
+      await this.telegramService.editMessageReplyMarkup({
+        chat_id: chatId,
+        message_id: messageId,
+      });
+    } catch (error) {
+      // Already without buttons, or too old to edit: nothing to remove
+      if (!(error instanceof TelegramApiError) || error.errorCode !== 400) {
+        throw error;
+      }
     }
   }
 
@@ -163,8 +737,20 @@ export class ConversationHandler {
    */
   private async startResumeCollection(
     chatId: number,
-    userId: number
+    userId: number,
+    newVersion: boolean = false
   ): Promise<void> {
+    const t = await this.getTranslator(userId);
+    if (newVersion && (await this.resumeLibraryService.isFull(userId))) {
+      await this.sendLibraryFull(
+        chatId,
+        'resumes.full',
+        this.resumeLibraryService.maxEntries,
+        t
+      );
+      return;
+    }
+
     // Create or get session
     let session = await this.sessionService.getSession(userId);
     if (!session) {
@@ -174,10 +760,22 @@ export class ConversationHandler {
 
     // Set state to collecting resume
     await this.sessionService.updateState(userId, 'collecting_resume');
+    await this.sessionService.setNewEntryPending(userId, newVersion);
+
+    // Text is added to the active version; a new version or the first one
+    // is created on first input
+    const active = newVersion
+      ? null
+      : await this.resumeLibraryService.getActive(userId);
+    const target = newVersion
+      ? t('collect.resumeNewTarget')
+      : active
+        ? t('collect.resumeTarget', { title: active.title })
+        : '';
 
     await this.telegramService.sendMessage({
       chat_id: chatId,
-      text: '📄 Отправьте ваше резюме. Можно отправить текст в нескольких сообщениях или прикрепить PDF файл.\n\nКогда закончите, скажите "готово".',
+      text: t('collect.resumePrompt') + target,
     });
   }
 
@@ -188,6 +786,17 @@ export class ConversationHandler {
     chatId: number,
     userId: number
   ): Promise<void> {
+    const t = await this.getTranslator(userId);
+    if (await this.jobLibraryService.isFull(userId)) {
+      await this.sendLibraryFull(
+        chatId,
+        'jobs.full',
+        this.jobLibraryService.maxEntries,
+        t
+      );
+      return;
+    }
+
     // Create or get session
     let session = await this.sessionService.getSession(userId);
     if (!session) {
@@ -195,12 +804,15 @@ export class ConversationHandler {
       await this.sessionService.saveSession(session);
     }
 
-    // Set state to collecting job ad
+    // Set state to collecting job ad. Each /send_job_ad starts a new library
+    // entry, created once text arrives so abandoned prompts leave nothing
+    // behind.
     await this.sessionService.updateState(userId, 'collecting_job_ad');
+    await this.sessionService.setNewEntryPending(userId, true);
 
     await this.telegramService.sendMessage({
       chat_id: chatId,
-      text: '💼 Отправьте текст вакансии. Можно отправить в нескольких сообщениях или прикрепить PDF файл.\n\nКогда закончите, скажите "готово".',
+      text: t('collect.jobAdPrompt'),
     });
   }
 
@@ -212,27 +824,50 @@ export class ConversationHandler {
     chatId: number,
     userId: number
   ): Promise<void> {
+    const t = await this.getTranslator(userId);
     // Check if this is a "done" command
-    if (['готово', 'done', 'готов', 'ok'].includes(text.trim().toLowerCase())) {
-      await this.sessionService.updateState(userId, 'idle');
+    if (DONE_WORDS.includes(text.trim().toLowerCase())) {
+      await this.finishResumeCollection(chatId, userId);
+      return;
+    }
+
+    // Append text to the active resume version
+    const added = await this.appendCollectedText(
+      chatId,
+      userId,
+      'collecting_resume',
+      text,
+      t
+    );
+    if (!added) return;
+
+    await this.telegramService.sendMessage({
+      chat_id: chatId,
+      text: t('collect.resumeAppended'),
+      reply_markup: this.getCollectionDoneKeyboard('collecting_resume', t),
+    });
+  }
+
+  /**
+   * Finish resume collection
+   */
+  private async finishResumeCollection(
+    chatId: number,
+    userId: number
+  ): Promise<void> {
+    const t = await this.getTranslator(userId);
+    await this.sessionService.updateState(userId, 'idle');
+    if (await this.sessionService.takeNewEntryPending(userId)) {
       await this.telegramService.sendMessage({
         chat_id: chatId,
-        text: '✅ Резюме получено! Используйте /send_job_ad для отправки вакансии.',
+        text: t('collect.nothingAdded'),
       });
       return;
     }
 
-    // Append text to resume
-    await this.sessionService.appendResumeText(userId, text);
-
     await this.telegramService.sendMessage({
       chat_id: chatId,
-      text: '✅ Добавлено к резюме. Продолжайте или нажмите кнопку:',
-      reply_markup: {
-        inline_keyboard: [
-          [{ text: '✅ Готово с резюме', callback_data: 'resume_done' }],
-        ],
-      },
+      text: t('collect.resumeDone'),
     });
   }
 
@@ -244,361 +879,2734 @@ export class ConversationHandler {
     chatId: number,
     userId: number
   ): Promise<void> {
+    const t = await this.getTranslator(userId);
     // Check if this is a "done" command
-    if (['готово', 'done', 'готов', 'ok'].includes(text.trim().toLowerCase())) {
-      await this.sessionService.updateState(userId, 'idle');
+    if (DONE_WORDS.includes(text.trim().toLowerCase())) {
+      await this.finishJobAdCollection(chatId, userId);
+      return;
+    }
+
+    // Append text to job ad
+    const added = await this.appendCollectedText(
+      chatId,
+      userId,
+      'collecting_job_ad',
+      text,
+      t
+    );
+    if (!added) return;
+
+    await this.telegramService.sendMessage({
+      chat_id: chatId,
+      text: t('collect.jobAdAppended'),
+      reply_markup: this.getCollectionDoneKeyboard('collecting_job_ad', t),
+    });
+  }
+
+  /**
+   * Finish job ad collection and parse the ad into its structured form
+   */
+  private async finishJobAdCollection(
+    chatId: number,
+    userId: number
+  ): Promise<void> {
+    const t = await this.getTranslator(userId);
+    await this.sessionService.updateState(userId, 'idle');
+    if (await this.sessionService.takeNewEntryPending(userId)) {
       await this.telegramService.sendMessage({
         chat_id: chatId,
-        text: '✅ Вакансия получена! Теперь вы можете начать новую сессию.',
+        text: t('collect.nothingAdded'),
       });
       return;
     }
 
-    // Append text to job ad
-    await this.sessionService.appendJobAdText(userId, text);
-
     await this.telegramService.sendMessage({
       chat_id: chatId,
-      text: '✅ Добавлено к вакансии. Продолжайте или нажмите кнопку:',
+      text: t('collect.jobAdDone'),
       reply_markup: {
         inline_keyboard: [
-          [{ text: '✅ Готово с вакансией', callback_data: 'job_done' }],
+          [
+            {
+              text: t('collect.analyzeButton'),
+              callback_data: this.callbackRouter.encode('analyze_match'),
+            },
+          ],
         ],
       },
     });
-  }
 
-  /**
-   * Send logs to admin
-   */
-  private async sendLogs(chatId: number): Promise<void> {
+    // The ad is kept either way; /show_structured_job_ad parses it later
+    if (!(await this.checkAIRateLimit(chatId, userId))) return;
+
+    const startTime = Date.now();
+
     try {
-      // Get environment from process or default
-      const environment = process.env.ENVIRONMENT || 'development';
+      const structuredJobAd =
+        await this.jobAdService.getStructuredJobAd(userId);
+      if (!structuredJobAd) {
+        return;
+      }
+      await this.jobLibraryService.rememberActiveView(userId);
 
-      // Get formatted logs (limit to 20 for readability)
-      const logsMessage = await this.loggingService.getFormattedRecentLogs(
-        20,
-        environment
+      await this.loggingService.logAIAnalysis(
+        userId,
+        chatId,
+        true,
+        Date.now() - startTime,
+        { type: 'structure_job_ad' }
       );
 
       await this.telegramService.sendMessage({
         chat_id: chatId,
-        text: logsMessage,
+        text: t('collect.jobAdParsed', {
+          title:
+            this.jobAdService.formatJobAdTitle(structuredJobAd) ||
+            t('collect.untitled'),
+          count: structuredJobAd.mustHaveRequirements.length,
+        }),
       });
     } catch (error) {
-      console.error('Error sending logs:', error);
-      await this.telegramService.sendMessage({
-        chat_id: chatId,
-        text: '❌ Не удалось получить логи. Попробуйте позже.',
-      });
+      // Parsing is retried on demand by /show_structured_job_ad
+      console.error('Error parsing job ad:', error);
+      await this.loggingService.logAIAnalysis(
+        userId,
+        chatId,
+        false,
+        Date.now() - startTime,
+        { type: 'structure_job_ad', error: String(error) }
+      );
     }
   }
 
   /**
-   * Send welcome message
+   * Show saved job ads with selection buttons
    */
-  private async sendWelcomeMessage(chatId: number): Promise<void> {
+  private async showJobLibrary(chatId: number, userId: number): Promise<void> {
+    const t = await this.getTranslator(userId);
+    const { entries, activeId } = await this.jobLibraryService.list(userId);
+
+    if (entries.length === 0) {
+      await this.telegramService.sendMessage({
+        chat_id: chatId,
+        text: t('jobs.empty'),
+      });
+      return;
+    }
+
+    const lines = entries.map((entry, index) => {
+      const marker = entry.id === activeId ? '▶️' : '▫️';
+      const date = new Date(entry.createdAt).toLocaleDateString(t.locale);
+      return `${marker} ${index + 1}. ${entry.title} (${date})`;
+    });
+
     await this.telegramService.sendMessage({
       chat_id: chatId,
-      text: '👋 Привет!\n\nКоманды:\n/send_resume - отправить резюме\n/send_job_ad - отправить вакансию\n/show_raw_text_resume - показать сырой текст резюме (отладка)\n/get_logs - получить логи\n/help - помощь',
+      text: t('jobs.list', { count: entries.length, lines: lines.join('\n') }),
+      reply_markup: {
+        inline_keyboard: [
+          ...entries.map((entry) => [
+            {
+              text: `${entry.id === activeId ? '▶️ ' : ''}${entry.title}`,
+              callback_data: this.callbackRouter.encode(
+                'jobs',
+                'open',
+                entry.id
+              ),
+            },
+          ]),
+          [
+            {
+              text: t('jobs.new'),
+              callback_data: this.callbackRouter.encode('jobs', 'new'),
+            },
+          ],
+        ],
+      },
     });
   }
 
   /**
-   * Handle document uploads (PDF files)
+   * Handle job library inline buttons ("jobs:<action>[:<id>]")
    */
-  private async handleDocumentMessage(
-    message: TelegramMessage,
+  private async handleJobLibraryCallback(
     chatId: number,
-    userId: number
+    userId: number,
+    args: string[]
   ): Promise<void> {
-    const document = message.document!;
-    const fileName = document.file_name || 'document';
-    const fileSize = document.file_size || 0;
+    const t = await this.getTranslator(userId);
+    const [action, id = ''] = args;
 
-    // Check file size (limit to 10MB)
-    if (fileSize > 10 * 1024 * 1024) {
-      await this.telegramService.sendMessage({
-        chat_id: chatId,
-        text: '❌ Файл слишком большой. Максимальный размер: 10MB.',
-      });
-      return;
-    }
+    switch (action) {
+      case 'list':
+        await this.showJobLibrary(chatId, userId);
+        return;
 
-    // Check file type (only PDF for now)
-    if (!document.mime_type?.includes('pdf')) {
-      await this.telegramService.sendMessage({
-        chat_id: chatId,
-        text: '❌ Поддерживаются только PDF файлы.',
-      });
-      return;
-    }
+      case 'new':
+        await this.startJobAdCollection(chatId, userId);
+        return;
 
-    try {
-      // Get current session state
-      const session = await this.sessionService.getSession(userId);
-      const state = session?.state || 'idle';
+      case 'open':
+        await this.showJobAdEntry(chatId, userId, id);
+        return;
 
-      if (state !== 'collecting_resume' && state !== 'collecting_job_ad') {
+      case 'select': {
+        const entry = await this.jobLibraryService.select(userId, id);
         await this.telegramService.sendMessage({
           chat_id: chatId,
-          text: '❌ Сначала используйте команду /send_resume или /send_job_ad',
+          text: entry
+            ? t('jobs.selected', { title: entry.title })
+            : t('jobs.notFound'),
         });
         return;
       }
 
-      // Send processing message
-      await this.telegramService.sendMessage({
-        chat_id: chatId,
-        text: `⏳ Обрабатываю файл ${fileName}...`,
-      });
-
-      // Download file from Telegram
-      const fileInfo = await this.telegramService.getFile(document.file_id);
-      if (!fileInfo?.file_path) {
-        throw new Error('Не удалось получить информацию о файле');
-      }
-
-      const fileContent = await this.telegramService.downloadFile(
-        fileInfo.file_path
-      );
-      if (!fileContent) {
-        throw new Error('Не удалось скачать файл');
-      }
-
-      // Process PDF with Cloudflare AI
-      const extractedText = await this.processPDFFile(fileContent, fileName);
-
-      if (!extractedText || extractedText.trim().length === 0) {
-        throw new Error('Не удалось извлечь текст из PDF файла');
+      case 'rename': {
+        const entry = await this.jobLibraryService.get(userId, id);
+        if (!entry) break;
+        const session = await this.sessionService.getSession(userId);
+        if (!session) break;
+        session.state = 'renaming_job_ad';
+        session.renamingJobAdId = id;
+        await this.sessionService.saveSession(session);
+        await this.telegramService.sendMessage({
+          chat_id: chatId,
+          text: t('common.renamePrompt', { title: entry.title }),
+        });
+        return;
       }
 
-      // Add to session based on current state
-      if (state === 'collecting_resume') {
-        await this.sessionService.appendResumeText(userId, extractedText);
+      case 'delete': {
+        const entry = await this.jobLibraryService.get(userId, id);
+        if (!entry) break;
         await this.telegramService.sendMessage({
           chat_id: chatId,
-          text: `✅ PDF "${fileName}" обработан (${extractedText.length} символов).\nПродолжайте или нажмите кнопку:`,
+          text: t('jobs.deletePrompt', { title: entry.title }),
           reply_markup: {
             inline_keyboard: [
-              [{ text: '✅ Готово с резюме', callback_data: 'resume_done' }],
+              [
+                {
+                  text: t('common.confirmDelete'),
+                  callback_data: this.callbackRouter.encode(
+                    'jobs',
+                    'del_ok',
+                    id
+                  ),
+                },
+                {
+                  text: t('common.cancel'),
+                  callback_data: this.callbackRouter.encode('jobs', 'open', id),
+                },
+              ],
             ],
           },
         });
-      } else if (state === 'collecting_job_ad') {
-        await this.sessionService.appendJobAdText(userId, extractedText);
+        return;
+      }
+
+      case 'del_ok': {
+        const deleted = await this.jobLibraryService.delete(userId, id);
+        if (!deleted) break;
         await this.telegramService.sendMessage({
           chat_id: chatId,
-          text: `✅ PDF "${fileName}" обработан (${extractedText.length} символов).\nПродолжайте или нажмите кнопку:`,
+          text: t('jobs.deleted'),
           reply_markup: {
             inline_keyboard: [
-              [{ text: '✅ Готово с вакансией', callback_data: 'job_done' }],
+              [
+                {
+                  text: t('jobs.toList'),
+                  callback_data: this.callbackRouter.encode('jobs', 'list'),
+                },
+              ],
             ],
           },
         });
+        return;
       }
-    } catch (error) {
-      console.error('Error processing document:', error);
-      await this.telegramService.sendMessage({
-        chat_id: chatId,
-        text: `❌ Не удалось обработать файл: ${error instanceof Error ? error.message : 'Неизвестная ошибка'}`,
-      });
     }
+
+    await this.telegramService.sendMessage({
+      chat_id: chatId,
+      text: t('jobs.notFoundReopen'),
+    });
   }
 
   /**
-   * Process PDF file - simplified approach
+   * Show a single saved job ad with management buttons
    */
-  private async processPDFFile(
-    fileContent: ArrayBuffer,
-    fileName: string
-  ): Promise<string> {
-    try {
-      console.log(
-        `PDF received: ${fileName}, size: ${fileContent.byteLength} bytes`
-      );
-
-      // For now, we'll ask users to send text instead of PDFs
-      // This is more reliable than trying to process PDFs with AI
-      return `📄 PDF файл "${fileName}" получен (${Math.round(fileContent.byteLength / 1024)} KB).
-
-⚠️ Автоматическое извлечение текста из PDF пока не работает стабильно.
+  private async showJobAdEntry(
+    chatId: number,
+    userId: number,
+    id: string
+  ): Promise<void> {
+    const t = await this.getTranslator(userId);
+    const { entries, activeId } = await this.jobLibraryService.list(userId);
+    const entry = entries.find((e) => e.id === id);
 
-💡 **Рекомендация**: Скопируйте текст из PDF и отправьте его как обычное сообщение.
+    if (!entry) {
+      await this.telegramService.sendMessage({
+        chat_id: chatId,
+        text: t('jobs.notFoundReopen'),
+      });
+      return;
+    }
 
-Или используйте онлайн конвертер:
-• https://smallpdf.com/ru/online-pdf-to-text
-• https://www.ilovepdf.com/ru/pdf_to_text
+    const isActive = entry.id === activeId;
+    const preview =
+      entry.text.length > 500 ? entry.text.slice(0, 500) + '…' : entry.text;
 
-После конвертации просто вставьте текст в чат.`;
-    } catch (error) {
-      console.error('Error processing PDF:', error);
-      return `PDF файл "${fileName}" принят, но возникла ошибка при обработке. Попробуйте отправить текст вручную.`;
-    }
+    await this.telegramService.sendMessage({
+      chat_id: chatId,
+      text: t('jobs.entry', {
+        title: entry.title,
+        active: isActive ? t('common.active') : '',
+        date: new Date(entry.createdAt).toLocaleString(t.locale),
+        characters: t('common.characters', { count: entry.text.length }),
+        preview: preview || t('common.empty'),
+      }),
+      reply_markup: {
+        inline_keyboard: [
+          ...(isActive
+            ? []
+            : [
+                [
+                  {
+                    text: t('common.makeActive'),
+                    callback_data: this.callbackRouter.encode(
+                      'jobs',
+                      'select',
+                      entry.id
+                    ),
+                  },
+                ],
+              ]),
+          [
+            {
+              text: t('common.rename'),
+              callback_data: this.callbackRouter.encode(
+                'jobs',
+                'rename',
+                entry.id
+              ),
+            },
+            {
+              text: t('common.delete'),
+              callback_data: this.callbackRouter.encode(
+                'jobs',
+                'delete',
+                entry.id
+              ),
+            },
+          ],
+          [
+            {
+              text: t('common.backToList'),
+              callback_data: this.callbackRouter.encode('jobs', 'list'),
+            },
+          ],
+        ],
+      },
+    });
   }
 
   /**
-   * Send help message
+   * Handle the new title for a saved job ad
    */
-  private async sendHelpMessage(chatId: number): Promise<void> {
+  private async handleJobAdRename(
+    text: string,
+    chatId: number,
+    userId: number
+  ): Promise<void> {
+    const t = await this.getTranslator(userId);
+    const session = await this.sessionService.getSession(userId);
+    const id = session?.renamingJobAdId;
+
+    if (session) {
+      delete session.renamingJobAdId;
+      session.state = 'idle';
+      await this.sessionService.saveSession(session);
+    }
+
+    const entry = id
+      ? await this.jobLibraryService.rename(userId, id, text)
+      : null;
+
     await this.telegramService.sendMessage({
       chat_id: chatId,
-        text: '🤖 Команды:\n\n/send_resume - отправить резюме\n/send_job_ad - отправить вакансию\n/show_structured_resume_text - показать структурированное резюме\n/structure_my_resume - структурировать мое резюме\n/show_raw_text_resume - показать сырой текст резюме (отладка)\n/clear_resume - очистить данные резюме\n/get_logs - получить логи\n\n📝 **Рекомендация**: Отправляйте резюме как текст (не PDF) для лучшей обработки.\nЗавершите словом "готово" или кнопкой.',
+      text: entry
+        ? t('jobs.renamed', { title: entry.title })
+        : t('jobs.notFoundReopen'),
     });
   }
 
   /**
-   * Show structured resume text
+   * Show resume versions with selection buttons
    */
-  private async showStructuredResume(
+  private async showResumeLibrary(
     chatId: number,
     userId: number
   ): Promise<void> {
-    const session = await this.sessionService.getSession(userId);
-    if (!session || !session.resumeText) {
+    const t = await this.getTranslator(userId);
+    const { entries, activeId } = await this.resumeLibraryService.list(userId);
+
+    if (entries.length === 0) {
       await this.telegramService.sendMessage({
         chat_id: chatId,
-        text: '❌ Резюме не найдено. Пожалуйста, сначала отправьте резюме используя /send_resume',
+        text: t('resumes.empty'),
       });
       return;
     }
 
-    // Process the resume text to extract structured information
+    const lines = entries.map((entry, index) => {
+      const marker = entry.id === activeId ? '▶️' : '▫️';
+      const date = new Date(entry.updatedAt).toLocaleDateString(t.locale);
+      return `${marker} ${index + 1}. ${entry.title} (${date})`;
+    });
+
     await this.telegramService.sendMessage({
       chat_id: chatId,
-      text: '⏳ Обрабатываю ваше резюме... Это может занять несколько секунд.',
+      text: t('resumes.list', {
+        count: entries.length,
+        lines: lines.join('\n'),
+      }),
+      reply_markup: {
+        inline_keyboard: [
+          ...entries.map((entry) => [
+            {
+              text: `${entry.id === activeId ? '▶️ ' : ''}${entry.title}`,
+              callback_data: this.callbackRouter.encode(
+                'resumes',
+                'open',
+                entry.id
+              ),
+            },
+          ]),
+          [
+            {
+              text: t('resumes.new'),
+              callback_data: this.callbackRouter.encode('resumes', 'new'),
+            },
+          ],
+        ],
+      },
     });
+  }
 
-    try {
-      // Use AI to extract structured information
-      if (!this.ai) {
-        throw new Error('AI service not available');
-      }
+  /**
+   * Handle resume library inline buttons ("resumes:<action>[:<id>]")
+   */
+  private async handleResumeLibraryCallback(
+    chatId: number,
+    userId: number,
+    args: string[]
+  ): Promise<void> {
+    const t = await this.getTranslator(userId);
+    const [action, id = ''] = args;
 
-      const response = await this.ai.run('@cf/meta/llama-3.1-8b-instruct', {
-        messages: [
-          {
-            role: 'user',
-            content: `Extract and structure the following information from this resume in Russian:
+    switch (action) {
+      case 'list':
+        await this.showResumeLibrary(chatId, userId);
+        return;
+
+      case 'new':
+        await this.startResumeCollection(chatId, userId, true);
+        return;
 
-${session.resumeText}
+      case 'open':
+        await this.showResumeEntry(chatId, userId, id);
+        return;
 
-Please format the response with:
-1. 🎯 Желаемые позиции: (desired positions)
-2. 📝 Краткое резюме: (brief summary)
-3. 🛠️ Навыки: (skills with proficiency levels)
-4. 💼 Опыт работы: (work experience with dates and responsibilities)
+      case 'select': {
+        const entry = await this.resumeLibraryService.select(userId, id);
+        await this.telegramService.sendMessage({
+          chat_id: chatId,
+          text: entry
+            ? t('resumes.selected', { title: entry.title })
+            : t('resumes.notFound'),
+        });
+        return;
+      }
 
-Use emojis and clear sections.`,
+      case 'dup': {
+        let copy: ResumeEntry | null;
+        try {
+          copy = await this.resumeLibraryService.duplicate(userId, id);
+        } catch (error) {
+          if (!(error instanceof LibraryFullError)) throw error;
+          await this.sendLibraryFull(chatId, 'resumes.full', error.limit, t);
+          return;
+        }
+        if (!copy) break;
+        await this.telegramService.sendMessage({
+          chat_id: chatId,
+          text: t('resumes.duplicated', { title: copy.title }),
+          reply_markup: {
+            inline_keyboard: [
+              [
+                {
+                  text: t('common.rename'),
+                  callback_data: this.callbackRouter.encode(
+                    'resumes',
+                    'rename',
+                    copy.id
+                  ),
+                },
+                {
+                  text: t('common.backToList'),
+                  callback_data: this.callbackRouter.encode('resumes', 'list'),
+                },
+              ],
+            ],
           },
-        ],
-      });
+        });
+        return;
+      }
 
-      if (!response || !response.response) {
-        throw new Error('Failed to process resume');
+      case 'rename': {
+        const entry = await this.resumeLibraryService.get(userId, id);
+        if (!entry) break;
+        const session = await this.sessionService.getSession(userId);
+        if (!session) break;
+        session.state = 'renaming_resume';
+        session.renamingResumeId = id;
+        await this.sessionService.saveSession(session);
+        await this.telegramService.sendMessage({
+          chat_id: chatId,
+          text: t('common.renamePrompt', { title: entry.title }),
+        });
+        return;
       }
 
-      const structuredMessage = response.response;
+      case 'delete': {
+        const entry = await this.resumeLibraryService.get(userId, id);
+        if (!entry) break;
+        await this.telegramService.sendMessage({
+          chat_id: chatId,
+          text: t('resumes.deletePrompt', { title: entry.title }),
+          reply_markup: {
+            inline_keyboard: [
+              [
+                {
+                  text: t('common.confirmDelete'),
+                  callback_data: this.callbackRouter.encode(
+                    'resumes',
+                    'del_ok',
+                    id
+                  ),
+                },
+                {
+                  text: t('common.cancel'),
+                  callback_data: this.callbackRouter.encode(
+                    'resumes',
+                    'open',
+                    id
+                  ),
+                },
+              ],
+            ],
+          },
+        });
+        return;
+      }
 
-      // Send the structured resume with a header
-      await this.telegramService.sendMessage({
-        chat_id: chatId,
-        text: `📋 Структурированное резюме:\n\n${structuredMessage}`,
-      });
-    } catch (error) {
-      console.error('Error processing resume:', error);
+      case 'del_ok': {
+        const deleted = await this.resumeLibraryService.delete(userId, id);
+        if (!deleted) break;
+        await this.telegramService.sendMessage({
+          chat_id: chatId,
+          text: t('resumes.deleted'),
+          reply_markup: {
+            inline_keyboard: [
+              [
+                {
+                  text: t('resumes.toList'),
+                  callback_data: this.callbackRouter.encode('resumes', 'list'),
+                },
+              ],
+            ],
+          },
+        });
+        return;
+      }
+    }
+
+    await this.telegramService.sendMessage({
+      chat_id: chatId,
+      text: t('resumes.notFoundReopen'),
+    });
+  }
+
+  /**
+   * Show a single resume version with management buttons
+   */
+  private async showResumeEntry(
+    chatId: number,
+    userId: number,
+    id: string
+  ): Promise<void> {
+    const t = await this.getTranslator(userId);
+    const { entries, activeId } = await this.resumeLibraryService.list(userId);
+    const entry = entries.find((e) => e.id === id);
+
+    if (!entry) {
       await this.telegramService.sendMessage({
         chat_id: chatId,
-        text: `❌ Не удалось обработать резюме: ${error instanceof Error ? error.message : 'Неизвестная ошибка'}. Пожалуйста, попробуйте позже.`,
+        text: t('resumes.notFoundReopen'),
       });
+      return;
     }
+
+    const isActive = entry.id === activeId;
+    const preview =
+      entry.text.length > 500 ? entry.text.slice(0, 500) + '…' : entry.text;
+
+    await this.telegramService.sendMessage({
+      chat_id: chatId,
+      text: t('resumes.entry', {
+        title: entry.title,
+        active: isActive ? t('common.active') : '',
+        date: new Date(entry.updatedAt).toLocaleString(t.locale),
+        characters: t('common.characters', { count: entry.text.length }),
+        preview: preview || t('common.empty'),
+      }),
+      reply_markup: {
+        inline_keyboard: [
+          ...(isActive
+            ? []
+            : [
+                [
+                  {
+                    text: t('common.makeActive'),
+                    callback_data: this.callbackRouter.encode(
+                      'resumes',
+                      'select',
+                      entry.id
+                    ),
+                  },
+                ],
+              ]),
+          [
+            {
+              text: t('resumes.duplicate'),
+              callback_data: this.callbackRouter.encode(
+                'resumes',
+                'dup',
+                entry.id
+              ),
+            },
+            {
+              text: t('common.rename'),
+              callback_data: this.callbackRouter.encode(
+                'resumes',
+                'rename',
+                entry.id
+              ),
+            },
+          ],
+          [
+            {
+              text: t('common.delete'),
+              callback_data: this.callbackRouter.encode(
+                'resumes',
+                'delete',
+                entry.id
+              ),
+            },
+            {
+              text: t('common.backToList'),
+              callback_data: this.callbackRouter.encode('resumes', 'list'),
+            },
+          ],
+        ],
+      },
+    });
   }
 
   /**
-   * Show raw text resume for debugging
+   * Handle the new title for a resume version
    */
-  private async showRawTextResume(
+  private async handleResumeRename(
+    text: string,
     chatId: number,
     userId: number
   ): Promise<void> {
-    console.log(
-      `🔍 SHOW RAW TEXT DEBUG: Starting showRawTextResume for user ${userId}`
-    );
+    const t = await this.getTranslator(userId);
     const session = await this.sessionService.getSession(userId);
+    const id = session?.renamingResumeId;
 
-    if (!session || !session.resumeText) {
-      await this.telegramService.sendMessage({
-        chat_id: chatId,
-        text: '❌ Резюме не найдено. Пожалуйста, сначала отправьте резюме используя /send_resume',
-      });
+    if (session) {
+      delete session.renamingResumeId;
+      session.state = 'idle';
+      await this.sessionService.saveSession(session);
+    }
+
+    const entry = id
+      ? await this.resumeLibraryService.rename(userId, id, text)
+      : null;
+
+    await this.telegramService.sendMessage({
+      chat_id: chatId,
+      text: entry
+        ? t('resumes.renamed', { title: entry.title })
+        : t('resumes.notFoundReopen'),
+    });
+  }
+
+  /**
+   * Create a session for new or returning users and restore library views.
+   * The Telegram client language is remembered for localization.
+   */
+  private async ensureSession(
+    userId: number,
+    chatId: number,
+    languageCode?: string
+  ): Promise<void> {
+    const existing = await this.sessionService.getSession(userId);
+    if (existing) {
+      if (languageCode && existing.languageCode !== languageCode) {
+        existing.languageCode = languageCode;
+        await this.sessionService.saveSession(existing);
+      }
       return;
     }
 
-    const rawText = session.resumeText;
-    const textLength = rawText.length;
-    const wordCount = rawText
-      .split(/\s+/)
-      .filter((word) => word.length > 0).length;
+    const session = this.sessionService.createSession(userId, chatId);
+    if (languageCode) {
+      session.languageCode = languageCode;
+    }
+    // Saved only once hydrated, so a failed library read is retried
+    await this.jobLibraryService.hydrateSession(session);
+    await this.resumeLibraryService.hydrateSession(session);
+    await this.sessionService.saveSession(session);
+  }
 
-    // Telegram has a 4096 character limit per message, so we need to split long text
-    const maxLength = 4000; // Leave some buffer for formatting
+  /**
+   * Send logs to admin
+   */
+  private async sendLogs(chatId: number, t: Translator): Promise<void> {
+    try {
+      // Get formatted logs (limit to 20 for readability)
+      const logsMessage = await this.loggingService.getFormattedRecentLogs(
+        20,
+        this.config.environment
+      );
 
-    if (textLength <= maxLength) {
-      // Send the full text in one message
-      await this.telegramService.sendMessage({
+      await this.telegramService.sendLongMessage({
         chat_id: chatId,
-        text: `🔍 Сырой текст резюме (для отладки)\n\n📊 Статистика:\n• Символов: ${textLength}\n• Слов: ${wordCount}\n\n📄 Текст:\n\n${rawText}`,
+        text: logsMessage,
+        partLabel: partLabel(t),
       });
-    } else {
-      // Send statistics first
+    } catch (error) {
+      console.error('Error sending logs:', error);
       await this.telegramService.sendMessage({
         chat_id: chatId,
-        text: `🔍 Сырой текст резюме (для отладки)\n\n📊 Статистика:\n• Символов: ${textLength}\n• Слов: ${wordCount}\n\n⚠️ Текст слишком длинный, отправляю частями...`,
+        text: t('logs.failed'),
       });
-
-      // Split text into chunks
-      const chunks = [];
-      for (let i = 0; i < rawText.length; i += maxLength) {
-        chunks.push(rawText.slice(i, i + maxLength));
-      }
-
-      // Send each chunk
-      for (let i = 0; i < chunks.length; i++) {
-        const chunkNumber = i + 1;
-        const totalChunks = chunks.length;
-
-        await this.telegramService.sendMessage({
-          chat_id: chatId,
-          text: `📄 Часть ${chunkNumber}/${totalChunks}:\n\n${chunks[i]}`,
-        });
-
-        // Small delay between messages to avoid rate limiting
-        if (i < chunks.length - 1) {
-          await new Promise((resolve) => setTimeout(resolve, 500));
-        }
-      }
     }
   }
 
   /**
-   * Clear resume data for debugging
+   * Send the log summary for the last hours (/stats)
    */
-  private async clearResumeData(chatId: number, userId: number): Promise<void> {
+  private async sendLogSummary(
+    chatId: number,
+    hours: number,
+    t: Translator
+  ): Promise<void> {
+    const summary = await this.loggingService.getAdminLogSummary(hours);
+    await this.telegramService.sendLongMessage({
+      chat_id: chatId,
+      text: summary,
+      partLabel: partLabel(t),
+    });
+  }
+
+  /**
+   * Send one user's recent logs (/user_logs)
+   */
+  private async sendUserLogs(
+    chatId: number,
+    targetUserId: number,
+    t: Translator
+  ): Promise<void> {
     try {
-      // Clear resume text from session
-      await this.sessionService.clearResumeText(userId);
+      const logsMessage =
+        await this.loggingService.getFormattedUserLogs(targetUserId);
+      await this.telegramService.sendLongMessage({
+        chat_id: chatId,
+        text: logsMessage,
+        partLabel: partLabel(t),
+      });
+    } catch (error) {
+      console.error('Error sending user logs:', error);
+      await this.telegramService.sendMessage({
+        chat_id: chatId,
+        text: t('logs.failed'),
+      });
+    }
+  }
 
+  /**
+   * Send the state of a user's session (/session)
+   */
+  private async sendSessionSummary(
+    chatId: number,
+    targetUserId: number,
+    t: Translator
+  ): Promise<void> {
+    const session = await this.sessionService.getSession(targetUserId);
+    if (!session) {
       await this.telegramService.sendMessage({
         chat_id: chatId,
-        text: '🗑️ Данные резюме очищены. Теперь вы можете загрузить новое резюме с помощью /send_resume',
+        text: t('admin.sessionNotFound', { userId: targetUserId }),
       });
-    } catch (error) {
-      console.error('Error clearing resume data:', error);
+      return;
+    }
+
+    // Long texts are summarized by size; the user's content stays private
+    const lines = [
+      `🗂️ Session of user ${session.userId} (chat ${session.chatId})`,
+      `State: ${session.state}`,
+      `Locale: ${session.locale ?? 'auto'} (Telegram: ${session.languageCode ?? '-'})`,
+      `Created: ${session.createdAt}`,
+      `Last activity: ${session.lastActivity}`,
+      `Resume text: ${session.resumeText?.length ?? 0} chars`,
+      `Job ad text: ${session.jobAdText?.length ?? 0} chars`,
+      `Structured resume: ${session.structuredResume ? session.structuredResume.createdAt : '-'}`,
+      `Structured job ad: ${session.structuredJobAd ? session.structuredJobAd.createdAt : '-'}`,
+      `Pending OCR text: ${session.pendingOcrText ? 'yes' : 'no'}`,
+      `Cover letter: ${session.coverLetter ? 'yes' : 'no'}`,
+      `Match report: ${session.matchReport ? session.matchReport.createdAt : '-'}`,
+      `Resume tailoring: ${session.resumeTailoring ? `${session.resumeTailoring.suggestions.length} suggestions` : '-'}`,
+      `Interview prep: ${session.interviewPrep ? 'yes' : 'no'}`,
+      `Mock interview: ${session.mockInterview ? 'running' : 'no'}`,
+    ];
+    await this.telegramService.sendLongMessage({
+      chat_id: chatId,
+      text: lines.join('\n'),
+      partLabel: partLabel(t),
+    });
+  }
+
+  /**
+   * Delete a user's session (/reset_session); resume and job ad libraries
+   * are kept
+   */
+  private async resetUserSession(
+    chatId: number,
+    adminUserId: number,
+    targetUserId: number,
+    t: Translator
+  ): Promise<void> {
+    const session = await this.sessionService.getSession(targetUserId);
+    if (!session) {
       await this.telegramService.sendMessage({
         chat_id: chatId,
-        text: '❌ Не удалось очистить данные резюме.',
+        text: t('admin.sessionNotFound', { userId: targetUserId }),
       });
+      return;
+    }
+
+    const deleted = await this.sessionService.deleteSession(targetUserId);
+    await this.loggingService.log(
+      'INFO',
+      'ADMIN_ACTION',
+      `Admin ${adminUserId} reset the session of user ${targetUserId}`,
+      { action: 'reset_session', targetUserId, deleted },
+      adminUserId,
+      chatId
+    );
+    await this.telegramService.sendMessage({
+      chat_id: chatId,
+      text: deleted
+        ? t('admin.sessionReset', { userId: targetUserId })
+        : t('common.error'),
+    });
+  }
+
+  /**
+   * Tell the user a slow step has started and show "typing…" until the
+   * next message
+   */
+  private async sendProgress(chatId: number, text: string): Promise<void> {
+    await this.telegramService.sendMessage({ chat_id: chatId, text });
+    await this.telegramService.sendChatAction({
+      chat_id: chatId,
+      action: 'typing',
+    });
+  }
+
+  /**
+   * Send welcome message
+   */
+  private async sendWelcomeMessage(
+    chatId: number,
+    t: Translator
+  ): Promise<void> {
+    await this.telegramService.sendMessage({
+      chat_id: chatId,
+      text: t('start.welcome'),
+    });
+  }
+
+  /**
+   * Handle document uploads (PDF and DOCX files)
+   */
+  private async handleDocumentMessage(
+    message: TelegramMessage,
+    chatId: number,
+    userId: number
+  ): Promise<void> {
+    const t = await this.getTranslator(userId);
+    const document = message.document!;
+    const fileName = document.file_name || 'document';
+    const fileSize = document.file_size || 0;
+
+    // Check file size against the configured limit
+    const maxSizeMB = this.config.application.maxFileSizeMB;
+    if (fileSize > maxSizeMB * 1024 * 1024) {
+      await this.telegramService.sendMessage({
+        chat_id: chatId,
+        text: t('document.tooLarge', { maxSize: maxSizeMB }),
+      });
+      return;
+    }
+
+    // Reject obviously unsupported types before downloading
+    if (!this.documentService.isSupportedMimeType(document.mime_type)) {
+      await this.telegramService.sendMessage({
+        chat_id: chatId,
+        text: t('document.unsupported'),
+      });
+      return;
+    }
+
+    try {
+      // Get current session state
+      const session = await this.sessionService.getSession(userId);
+      const state = session?.state || 'idle';
+
+      if (state !== 'collecting_resume' && state !== 'collecting_job_ad') {
+        await this.telegramService.sendMessage({
+          chat_id: chatId,
+          text: t('common.startCollectionFirst'),
+        });
+        return;
+      }
+
+      // Send processing message
+      await this.sendProgress(chatId, t('document.processing', { fileName }));
+
+      // Download file from Telegram
+      const fileInfo = await this.telegramService.getFile(document.file_id);
+      if (!fileInfo.file_path) {
+        throw new Error(t('document.fileInfoFailed'));
+      }
+
+      const fileContent = await this.telegramService.downloadFile(
+        fileInfo.file_path
+      );
+
+      // Detect the format from file contents and extract text; once the AI
+      // quota is used up PDFs go to the built-in parser instead
+      const extractedText = await this.documentService.extractText(
+        fileContent,
+        fileName,
+        document.mime_type,
+        async () => (await this.rateLimitService.check(userId, 'ai')).allowed
+      );
+
+      if (!extractedText || extractedText.trim().length === 0) {
+        throw new Error(t('document.extractFailed'));
+      }
+
+      // Add to session based on current state
+      const added = await this.appendCollectedText(
+        chatId,
+        userId,
+        state,
+        extractedText,
+        t
+      );
+      if (!added) return;
+      await this.telegramService.sendMessage({
+        chat_id: chatId,
+        text: t('document.processed', {
+          fileName,
+          count: extractedText.length,
+        }),
+        reply_markup: this.getCollectionDoneKeyboard(state, t),
+      });
+    } catch (error) {
+      console.error('Error processing document:', error);
+      await this.telegramService.sendMessage({
+        chat_id: chatId,
+        text: t('document.failed', { error: this.describeError(error, t) }),
+      });
+    }
+  }
+
+  /**
+   * Handle photos and screenshots by recognising text on them
+   */
+  private async handlePhotoMessage(
+    photo: TelegramPhotoSize[],
+    chatId: number,
+    userId: number
+  ): Promise<void> {
+    const t = await this.getTranslator(userId);
+    try {
+      const session = await this.sessionService.getSession(userId);
+      const state = session?.state || 'idle';
+
+      if (state !== 'collecting_resume' && state !== 'collecting_job_ad') {
+        await this.telegramService.sendMessage({
+          chat_id: chatId,
+          text: t('common.startCollectionFirst'),
+        });
+        return;
+      }
+
+      // Telegram sends several sizes; recognise the largest one
+      const largest = photo.reduce((best, size) =>
+        size.width * size.height > best.width * best.height ? size : best
+      );
+
+      if (!(await this.checkAIRateLimit(chatId, userId))) return;
+
+      await this.sendProgress(chatId, t('photo.recognizing'));
+
+      const fileInfo = await this.telegramService.getFile(largest.file_id);
+      if (!fileInfo.file_path) {
+        throw new Error(t('document.fileInfoFailed'));
+      }
+
+      const fileContent = await this.telegramService.downloadFile(
+        fileInfo.file_path
+      );
+
+      const startTime = Date.now();
+      const recognizedText =
+        await this.documentService.extractImageText(fileContent);
+      await this.loggingService.logAIAnalysis(
+        userId,
+        chatId,
+        true,
+        Date.now() - startTime,
+        { type: 'ocr', textLength: recognizedText.length }
+      );
+
+      await this.sessionService.setPendingOcrText(userId, recognizedText);
+
+      const preview =
+        recognizedText.length > OCR_PREVIEW_LENGTH
+          ? recognizedText.slice(0, OCR_PREVIEW_LENGTH) + '…'
+          : recognizedText;
+
+      await this.telegramService.sendMessage({
+        chat_id: chatId,
+        text: t('photo.recognized', {
+          count: recognizedText.length,
+          preview,
+        }),
+        reply_markup: this.getOcrKeyboard(t),
+      });
+    } catch (error) {
+      console.error('Error processing photo:', error);
+      await this.telegramService.sendMessage({
+        chat_id: chatId,
+        text: t('photo.failed', { error: this.describeError(error, t) }),
+      });
+    }
+  }
+
+  /**
+   * Append confirmed recognised text to the buffer being collected
+   */
+  private async confirmRecognizedText(
+    chatId: number,
+    userId: number
+  ): Promise<void> {
+    const t = await this.getTranslator(userId);
+    const session = await this.sessionService.getSession(userId);
+    const state = session?.state || 'idle';
+
+    if (!session?.pendingOcrText) {
+      await this.telegramService.sendMessage({
+        chat_id: chatId,
+        text: t('photo.nothingToAdd'),
+      });
+      return;
+    }
+
+    // Keep the text so it can be added once collection has started
+    if (state !== 'collecting_resume' && state !== 'collecting_job_ad') {
+      await this.telegramService.sendMessage({
+        chat_id: chatId,
+        text: t('photo.notCollecting'),
+        reply_markup: this.getOcrKeyboard(t),
+      });
+      return;
+    }
+
+    // The text stays pending when the library is full
+    const text = session.pendingOcrText;
+    const added = await this.appendCollectedText(
+      chatId,
+      userId,
+      state,
+      text,
+      t
+    );
+    if (!added) return;
+    await this.sessionService.takePendingOcrText(userId);
+
+    await this.telegramService.sendMessage({
+      chat_id: chatId,
+      text: t('photo.added', { count: text.length }),
+      reply_markup: this.getCollectionDoneKeyboard(state, t),
+    });
+  }
+
+  private getOcrKeyboard(t: Translator): InlineKeyboardMarkup {
+    return {
+      inline_keyboard: [
+        [
+          {
+            text: t('photo.add'),
+            callback_data: this.callbackRouter.encode('ocr_confirm'),
+          },
+          {
+            text: t('photo.cancel'),
+            callback_data: this.callbackRouter.encode('ocr_discard'),
+          },
+        ],
+      ],
+    };
+  }
+
+  /**
+   * Drop recognised text the user rejected
+   */
+  private async discardRecognizedText(
+    chatId: number,
+    userId: number
+  ): Promise<void> {
+    const t = await this.getTranslator(userId);
+    await this.sessionService.takePendingOcrText(userId);
+    await this.telegramService.sendMessage({
+      chat_id: chatId,
+      text: t('photo.discarded'),
+    });
+  }
+
+  /**
+   * Append text to the resume or job ad depending on collection state. The
+   * first text after /send_job_ad or "New version" creates the entry.
+   * Returns false when the library is full and the user was told so.
+   */
+  private async appendCollectedText(
+    chatId: number,
+    userId: number,
+    state: ConversationState,
+    text: string,
+    t: Translator
+  ): Promise<boolean> {
+    const library =
+      state === 'collecting_resume'
+        ? this.resumeLibraryService
+        : this.jobLibraryService;
+    try {
+      // Cleared only once created, so a full library keeps the request
+      const session = await this.sessionService.getSession(userId);
+      if (session?.newEntryPending) {
+        await library.create(userId, { text: text + '\n' });
+        await this.sessionService.setNewEntryPending(userId, false);
+      } else {
+        await library.appendToActive(userId, text);
+      }
+      return true;
+    } catch (error) {
+      if (!(error instanceof LibraryFullError)) throw error;
+      await this.sendLibraryFull(
+        chatId,
+        state === 'collecting_resume' ? 'resumes.full' : 'jobs.full',
+        error.limit,
+        t
+      );
+      return false;
+    }
+  }
+
+  private async sendLibraryFull(
+    chatId: number,
+    key: 'jobs.full' | 'resumes.full',
+    limit: number,
+    t: Translator
+  ): Promise<void> {
+    await this.telegramService.sendMessage({
+      chat_id: chatId,
+      text: t(key, { limit }),
+    });
+  }
+
+  /**
+   * "Done" button for the buffer being collected
+   */
+  private getCollectionDoneKeyboard(
+    state: ConversationState,
+    t: Translator
+  ): InlineKeyboardMarkup {
+    return state === 'collecting_resume'
+      ? {
+          inline_keyboard: [
+            [
+              {
+                text: t('collect.resumeDoneButton'),
+                callback_data: this.callbackRouter.encode('resume_done'),
+              },
+            ],
+          ],
+        }
+      : {
+          inline_keyboard: [
+            [
+              {
+                text: t('collect.jobAdDoneButton'),
+                callback_data: this.callbackRouter.encode('job_done'),
+              },
+            ],
+          ],
+        };
+  }
+
+  /**
+   * Send help message
+   */
+  private async sendHelpMessage(
+    chatId: number,
+    t: Translator,
+    isAdmin = false
+  ): Promise<void> {
+    await this.telegramService.sendLongMessage({
+      chat_id: chatId,
+      text: `${t('help.header')}\n\n${this.commandRegistry.formatCommandList(t, isAdmin)}\n\n${t('help.footer')}`,
+    });
+  }
+
+  /**
+   * Show structured resume text
+   */
+  private async showStructuredResume(
+    chatId: number,
+    userId: number
+  ): Promise<void> {
+    const t = await this.getTranslator(userId);
+    const session = await this.sessionService.getSession(userId);
+    if (!session || !session.resumeText) {
+      await this.telegramService.sendMessage({
+        chat_id: chatId,
+        text: t('common.resumeNotFound'),
+      });
+      return;
+    }
+
+    // Process the resume text to extract structured information
+    if (!(await this.checkAIRateLimit(chatId, userId))) return;
+
+    await this.sendProgress(chatId, t('resume.processing'));
+
+    const startTime = Date.now();
+
+    try {
+      // Parsed once per resume text and cached in the session
+      const structuredResume =
+        await this.resumeService.getStructuredResume(userId);
+      if (!structuredResume) {
+        throw new Error(t('resume.notFound'));
+      }
+      await this.resumeLibraryService.rememberActiveView(userId);
+
+      await this.loggingService.logAIAnalysis(
+        userId,
+        chatId,
+        true,
+        Date.now() - startTime,
+        { type: 'structure_resume' }
+      );
+
+      // Send the structured resume with a header
+      await this.telegramService.sendLongMessage({
+        chat_id: chatId,
+        text: t('resume.structured', {
+          resume: this.resumeService.formatStructuredResume(
+            structuredResume,
+            t
+          ),
+        }),
+      });
+    } catch (error) {
+      console.error('Error processing resume:', error);
+      await this.loggingService.logAIAnalysis(
+        userId,
+        chatId,
+        false,
+        Date.now() - startTime,
+        { type: 'structure_resume', error: String(error) }
+      );
+      await this.telegramService.sendMessage({
+        chat_id: chatId,
+        text: t('resume.failed', { error: this.describeError(error, t) }),
+      });
+    }
+  }
+
+  /**
+   * Show structured job ad
+   */
+  private async showStructuredJobAd(
+    chatId: number,
+    userId: number
+  ): Promise<void> {
+    const t = await this.getTranslator(userId);
+    const session = await this.sessionService.getSession(userId);
+    if (!session || !session.jobAdText) {
+      await this.telegramService.sendMessage({
+        chat_id: chatId,
+        text: t('common.jobAdNotFound'),
+      });
+      return;
+    }
+
+    if (!(await this.checkAIRateLimit(chatId, userId))) return;
+
+    await this.sendProgress(chatId, t('jobAd.processing'));
+
+    const startTime = Date.now();
+
+    try {
+      // Parsed once per job ad text and cached in the session
+      const structuredJobAd =
+        await this.jobAdService.getStructuredJobAd(userId);
+      if (!structuredJobAd) {
+        throw new Error(t('jobAd.notFound'));
+      }
+      await this.jobLibraryService.rememberActiveView(userId);
+
+      await this.loggingService.logAIAnalysis(
+        userId,
+        chatId,
+        true,
+        Date.now() - startTime,
+        { type: 'structure_job_ad' }
+      );
+
+      await this.telegramService.sendLongMessage({
+        chat_id: chatId,
+        text: t('jobAd.structured', {
+          jobAd: this.jobAdService.formatStructuredJobAd(structuredJobAd, t),
+        }),
+      });
+    } catch (error) {
+      console.error('Error processing job ad:', error);
+      await this.loggingService.logAIAnalysis(
+        userId,
+        chatId,
+        false,
+        Date.now() - startTime,
+        { type: 'structure_job_ad', error: String(error) }
+      );
+      await this.telegramService.sendMessage({
+        chat_id: chatId,
+        text: t('jobAd.failed', { error: this.describeError(error, t) }),
+      });
+    }
+  }
+
+  /**
+   * Show raw text resume for debugging
+   */
+  private async showRawTextResume(
+    chatId: number,
+    userId: number
+  ): Promise<void> {
+    const t = await this.getTranslator(userId);
+    console.log(
+      `🔍 SHOW RAW TEXT DEBUG: Starting showRawTextResume for user ${userId}`
+    );
+    const session = await this.sessionService.getSession(userId);
+
+    if (!session || !session.resumeText) {
+      await this.telegramService.sendMessage({
+        chat_id: chatId,
+        text: t('common.resumeNotFound'),
+      });
+      return;
+    }
+
+    const rawText = session.resumeText;
+    const textLength = rawText.length;
+    const wordCount = rawText
+      .split(/\s+/)
+      .filter((word) => word.length > 0).length;
+    const stats = t('resume.raw', {
+      characters: textLength,
+      words: wordCount,
+    });
+
+    await this.telegramService.sendLongMessage({
+      chat_id: chatId,
+      text: stats + t('resume.rawText', { text: rawText }),
+      partLabel: partLabel(t),
+    });
+  }
+
+  /**
+   * Clear resume data for debugging
+   */
+  private async clearResumeData(chatId: number, userId: number): Promise<void> {
+    const t = await this.getTranslator(userId);
+    try {
+      // Clear the text of the active resume version
+      await this.resumeLibraryService.setActiveText(userId, '');
+
+      await this.telegramService.sendMessage({
+        chat_id: chatId,
+        text: t('resume.cleared'),
+      });
+    } catch (error) {
+      console.error('Error clearing resume data:', error);
+      await this.telegramService.sendMessage({
+        chat_id: chatId,
+        text: t('resume.clearFailed'),
+      });
+    }
+  }
+
+  /**
+   * Analyze how well the resume matches the job ad
+   */
+  private async analyzeMatch(chatId: number, userId: number): Promise<void> {
+    const t = await this.getTranslator(userId);
+    const session = await this.sessionService.getSession(userId);
+
+    if (!session?.resumeText) {
+      await this.telegramService.sendMessage({
+        chat_id: chatId,
+        text: t('common.resumeNotFound'),
+      });
+      return;
+    }
+
+    if (!session.jobAdText) {
+      await this.telegramService.sendMessage({
+        chat_id: chatId,
+        text: t('common.jobAdNotFound'),
+      });
+      return;
+    }
+
+    if (!(await this.checkAIRateLimit(chatId, userId))) return;
+
+    await this.sendProgress(chatId, t('match.processing'));
+
+    const startTime = Date.now();
+
+    try {
+      const analysis = await this.analysisService.analyzeMatch(
+        session.resumeText,
+        session.jobAdText,
+        t.locale
+      );
+
+      await this.loggingService.logAIAnalysis(
+        userId,
+        chatId,
+        true,
+        Date.now() - startTime,
+        {
+          type: 'match',
+          overallScore: analysis.overallScore,
+          resumeLength: session.resumeText.length,
+          jobAdLength: session.jobAdText.length,
+        }
+      );
+
+      const structuredJobAd = session.structuredJobAd?.data;
+      const matchReport: MatchReport = {
+        analysis,
+        createdAt: new Date().toISOString(),
+      };
+      if (structuredJobAd) {
+        matchReport.jobTitle =
+          this.jobAdService.formatJobAdTitle(structuredJobAd);
+      }
+      await this.sessionService.saveMatchReport(userId, matchReport);
+
+      await this.telegramService.sendLongMessage({
+        chat_id: chatId,
+        text: this.analysisService.formatAnalysis(analysis, t),
+        reply_markup: {
+          inline_keyboard: [
+            [
+              {
+                text: t('export.kind.match'),
+                callback_data: this.callbackRouter.encode('export', 'match'),
+              },
+            ],
+          ],
+        },
+      });
+    } catch (error) {
+      console.error('Error analyzing match:', error);
+      await this.loggingService.logAIAnalysis(
+        userId,
+        chatId,
+        false,
+        Date.now() - startTime,
+        { type: 'match', error: String(error) }
+      );
+      await this.telegramService.sendMessage({
+        chat_id: chatId,
+        text: t('match.failed', { error: this.describeError(error, t) }),
+      });
+    }
+  }
+
+  /**
+   * Start cover letter generation by asking for the tone
+   */
+  private async startCoverLetter(
+    chatId: number,
+    userId: number
+  ): Promise<void> {
+    const t = await this.getTranslator(userId);
+    const session = await this.sessionService.getSession(userId);
+
+    if (!session?.resumeText) {
+      await this.telegramService.sendMessage({
+        chat_id: chatId,
+        text: t('common.resumeNotFound'),
+      });
+      return;
+    }
+
+    if (!session.jobAdText) {
+      await this.telegramService.sendMessage({
+        chat_id: chatId,
+        text: t('common.jobAdNotFound'),
+      });
+      return;
+    }
+
+    await this.sessionService.updateCoverLetterOptions(userId, null);
+    await this.telegramService.sendMessage({
+      chat_id: chatId,
+      text: t('coverLetter.chooseTone'),
+      reply_markup: {
+        inline_keyboard: [
+          COVER_LETTER_TONES.map((tone) => ({
+            text: t(`coverLetter.tone.${tone}`),
+            callback_data: this.callbackRouter.encode('cover', 'tone', tone),
+          })),
+        ],
+      },
+    });
+  }
+
+  /**
+   * Handle cover letter inline buttons ("cover:<action>[:<value>]")
+   */
+  private async handleCoverLetterCallback(
+    chatId: number,
+    userId: number,
+    args: string[]
+  ): Promise<void> {
+    const t = await this.getTranslator(userId);
+    const [action, value] = args;
+
+    switch (action) {
+      case 'tone': {
+        const tone = asEnum(value, COVER_LETTER_TONES);
+        if (!tone) break;
+        await this.sessionService.updateCoverLetterOptions(userId, { tone });
+        await this.telegramService.sendMessage({
+          chat_id: chatId,
+          text: t('coverLetter.chooseLanguage'),
+          reply_markup: {
+            inline_keyboard: [
+              COVER_LETTER_LANGUAGES.map((language) => ({
+                text: t(`coverLetter.language.${language}`),
+                callback_data: this.callbackRouter.encode(
+                  'cover',
+                  'lang',
+                  language
+                ),
+              })),
+            ],
+          },
+        });
+        return;
+      }
+
+      case 'lang': {
+        const language = asEnum(value, COVER_LETTER_LANGUAGES);
+        if (!language) break;
+        await this.sessionService.updateCoverLetterOptions(userId, {
+          language,
+        });
+        await this.telegramService.sendMessage({
+          chat_id: chatId,
+          text: t('coverLetter.chooseLength'),
+          reply_markup: {
+            inline_keyboard: [
+              COVER_LETTER_LENGTHS.map((length) => ({
+                text: t(`coverLetter.length.${length}`),
+                callback_data: this.callbackRouter.encode(
+                  'cover',
+                  'len',
+                  length
+                ),
+              })),
+            ],
+          },
+        });
+        return;
+      }
+
+      case 'len': {
+        const length = asEnum(value, COVER_LETTER_LENGTHS);
+        if (!length) break;
+        const options = await this.sessionService.updateCoverLetterOptions(
+          userId,
+          { length }
+        );
+        if (!options.tone || !options.language) break;
+        await this.generateCoverLetter(chatId, userId, {
+          tone: options.tone,
+          language: options.language,
+          length,
+        });
+        return;
+      }
+
+      case 'new':
+        await this.startCoverLetter(chatId, userId);
+        return;
+
+      case 'txt':
+      case 'md': {
+        const session = await this.sessionService.getSession(userId);
+        const letter = session?.coverLetter;
+        if (!letter) break;
+        await this.sendFile(
+          {
+            chat_id: chatId,
+            document:
+              action === 'md'
+                ? {
+                    fileName: this.coverLetterService.getFileName(letter, 'md'),
+                    content: this.coverLetterService.toMarkdown(letter),
+                    mimeType: 'text/markdown',
+                  }
+                : {
+                    fileName: this.coverLetterService.getFileName(
+                      letter,
+                      'txt'
+                    ),
+                    content: letter.text,
+                    mimeType: 'text/plain',
+                  },
+            caption: t('coverLetter.caption'),
+          },
+          t
+        );
+        return;
+      }
+    }
+
+    await this.telegramService.sendMessage({
+      chat_id: chatId,
+      text: t('coverLetter.notFound'),
+    });
+  }
+
+  /**
+   * Generate the first draft with the chosen options
+   */
+  private async generateCoverLetter(
+    chatId: number,
+    userId: number,
+    options: CoverLetterOptions
+  ): Promise<void> {
+    const t = await this.getTranslator(userId);
+    const session = await this.sessionService.getSession(userId);
+    if (!session?.resumeText || !session.jobAdText) {
+      await this.telegramService.sendMessage({
+        chat_id: chatId,
+        text: t('common.resumeAndJobAdRequired'),
+      });
+      return;
+    }
+
+    if (!(await this.checkAIRateLimit(chatId, userId))) return;
+
+    await this.sendProgress(chatId, t('coverLetter.generating'));
+
+    const startTime = Date.now();
+
+    try {
+      const structuredJobAd = session.structuredJobAd?.data;
+      const jobTitle = structuredJobAd
+        ? this.jobAdService.formatJobAdTitle(structuredJobAd)
+        : undefined;
+      const letter = await this.coverLetterService.generate(
+        session.resumeText,
+        session.jobAdText,
+        options,
+        jobTitle || undefined
+      );
+
+      await this.sessionService.saveCoverLetter(userId, letter);
+      await this.sessionService.updateState(userId, 'editing_cover_letter');
+      await this.loggingService.logAIAnalysis(
+        userId,
+        chatId,
+        true,
+        Date.now() - startTime,
+        { type: 'cover_letter', ...options }
+      );
+
+      await this.sendCoverLetter(chatId, letter, t);
+    } catch (error) {
+      console.error('Error generating cover letter:', error);
+      await this.loggingService.logAIAnalysis(
+        userId,
+        chatId,
+        false,
+        Date.now() - startTime,
+        { type: 'cover_letter', error: String(error) }
+      );
+      await this.telegramService.sendMessage({
+        chat_id: chatId,
+        text: t('coverLetter.failed', { error: this.describeError(error, t) }),
+      });
+    }
+  }
+
+  /**
+   * Apply a follow-up instruction to the current cover letter
+   */
+  private async handleCoverLetterEdit(
+    text: string,
+    chatId: number,
+    userId: number
+  ): Promise<void> {
+    const t = await this.getTranslator(userId);
+    if (DONE_WORDS.includes(text.trim().toLowerCase())) {
+      await this.sessionService.updateState(userId, 'idle');
+      await this.telegramService.sendMessage({
+        chat_id: chatId,
+        text: t('coverLetter.saved'),
+      });
+      return;
+    }
+
+    const session = await this.sessionService.getSession(userId);
+    if (!session?.coverLetter || !session.resumeText) {
+      await this.sessionService.updateState(userId, 'idle');
+      await this.telegramService.sendMessage({
+        chat_id: chatId,
+        text: t('coverLetter.notFound'),
+      });
+      return;
+    }
+
+    if (!(await this.checkAIRateLimit(chatId, userId))) return;
+
+    await this.sendProgress(chatId, t('coverLetter.revising'));
+
+    const startTime = Date.now();
+
+    try {
+      const letter = await this.coverLetterService.revise(
+        session.coverLetter,
+        text,
+        session.resumeText
+      );
+
+      await this.sessionService.saveCoverLetter(userId, letter);
+      await this.loggingService.logAIAnalysis(
+        userId,
+        chatId,
+        true,
+        Date.now() - startTime,
+        { type: 'cover_letter_revision', revision: letter.revisions }
+      );
+
+      await this.sendCoverLetter(chatId, letter, t);
+    } catch (error) {
+      console.error('Error revising cover letter:', error);
+      await this.loggingService.logAIAnalysis(
+        userId,
+        chatId,
+        false,
+        Date.now() - startTime,
+        { type: 'cover_letter_revision', error: String(error) }
+      );
+      await this.telegramService.sendMessage({
+        chat_id: chatId,
+        text: t('coverLetter.reviseFailed', {
+          error: this.describeError(error, t),
+        }),
+      });
+    }
+  }
+
+  /**
+   * Send the letter with download and edit buttons
+   */
+  private async sendCoverLetter(
+    chatId: number,
+    letter: CoverLetter,
+    t: Translator
+  ): Promise<void> {
+    const version =
+      letter.revisions > 0
+        ? t('coverLetter.revision', { count: letter.revisions })
+        : '';
+    const options = [
+      t(`coverLetter.tone.${letter.options.tone}`),
+      t(`coverLetter.language.${letter.options.language}`),
+      t(`coverLetter.length.${letter.options.length}`),
+    ].join(' · ');
+
+    await this.telegramService.sendLongMessage({
+      chat_id: chatId,
+      text: t('coverLetter.letter', { version, options, text: letter.text }),
+      reply_markup: {
+        inline_keyboard: [
+          [
+            {
+              text: t('coverLetter.downloadTxt'),
+              callback_data: this.callbackRouter.encode('cover', 'txt'),
+            },
+            {
+              text: t('coverLetter.downloadMd'),
+              callback_data: this.callbackRouter.encode('cover', 'md'),
+            },
+          ],
+          [
+            {
+              text: t('coverLetter.otherOptions'),
+              callback_data: this.callbackRouter.encode('cover', 'new'),
+            },
+          ],
+        ],
+      },
+    });
+  }
+
+  /**
+   * Suggest bullet rewrites of the active resume for the active job ad
+   */
+  private async startResumeTailoring(
+    chatId: number,
+    userId: number
+  ): Promise<void> {
+    const t = await this.getTranslator(userId);
+    const session = await this.sessionService.getSession(userId);
+
+    if (!session?.resumeText) {
+      await this.telegramService.sendMessage({
+        chat_id: chatId,
+        text: t('common.resumeNotFound'),
+      });
+      return;
+    }
+
+    if (!session.jobAdText) {
+      await this.telegramService.sendMessage({
+        chat_id: chatId,
+        text: t('common.jobAdNotFound'),
+      });
+      return;
+    }
+
+    if (!(await this.checkAIRateLimit(chatId, userId))) return;
+
+    await this.sendProgress(chatId, t('tailor.processing'));
+
+    const startTime = Date.now();
+
+    try {
+      const resume = await this.resumeService.getStructuredResume(userId);
+      const entry = await this.resumeLibraryService.getActive(userId);
+      if (!resume || !entry) {
+        throw new Error(t('resume.notFound'));
+      }
+      await this.resumeLibraryService.rememberActiveView(userId);
+
+      const suggestions = await this.tailoringService.suggestRewrites(
+        resume,
+        session.jobAdText,
+        t.locale
+      );
+
+      await this.loggingService.logAIAnalysis(
+        userId,
+        chatId,
+        true,
+        Date.now() - startTime,
+        { type: 'tailor_resume', suggestions: suggestions.length }
+      );
+
+      if (suggestions.length === 0) {
+        await this.telegramService.sendMessage({
+          chat_id: chatId,
+          text: resume.experience.some((job) => job.achievements.length > 0)
+            ? t('tailor.noSuggestions')
+            : t('tailor.noBullets'),
+        });
+        return;
+      }
+
+      const tailoring: ResumeTailoring = {
+        resumeId: entry.id,
+        resumeText: entry.text,
+        resume,
+        suggestions,
+        createdAt: new Date().toISOString(),
+      };
+      const structuredJobAd = session.structuredJobAd?.data;
+      const jobTitle =
+        structuredJobAd && this.jobAdService.formatJobAdTitle(structuredJobAd);
+      if (jobTitle) {
+        tailoring.jobTitle = jobTitle;
+      }
+
+      await this.sessionService.saveResumeTailoring(userId, tailoring);
+      await this.telegramService.sendMessage({
+        chat_id: chatId,
+        text: t('tailor.found', {
+          count: suggestions.length,
+          title: entry.title,
+        }),
+      });
+      await this.showNextTailoringSuggestion(chatId, tailoring, t);
+    } catch (error) {
+      console.error('Error tailoring resume:', error);
+      await this.loggingService.logAIAnalysis(
+        userId,
+        chatId,
+        false,
+        Date.now() - startTime,
+        { type: 'tailor_resume', error: String(error) }
+      );
+      await this.telegramService.sendMessage({
+        chat_id: chatId,
+        text: t('tailor.failed', { error: this.describeError(error, t) }),
+      });
+    }
+  }
+
+  /**
+   * Handle tailoring inline buttons ("tailor:<action>[:<index>]")
+   */
+  private async handleTailoringCallback(
+    chatId: number,
+    userId: number,
+    args: string[]
+  ): Promise<void> {
+    const t = await this.getTranslator(userId);
+    const [action, value = ''] = args;
+    const session = await this.sessionService.getSession(userId);
+    const tailoring = session?.resumeTailoring;
+
+    if (!tailoring) {
+      await this.telegramService.sendMessage({
+        chat_id: chatId,
+        text: t('tailor.expired'),
+      });
+      return;
+    }
+
+    switch (action) {
+      case 'acc':
+      case 'rej': {
+        const suggestion = tailoring.suggestions[Number(value)];
+        if (suggestion) {
+          suggestion.decision = action === 'acc' ? 'accepted' : 'rejected';
+          await this.sessionService.saveResumeTailoring(userId, tailoring);
+        }
+        await this.showNextTailoringSuggestion(chatId, tailoring, t);
+        return;
+      }
+
+      case 'save':
+        await this.saveTailoredResume(chatId, userId, tailoring);
+        return;
+
+      case 'cancel':
+        await this.sessionService.saveResumeTailoring(userId, null);
+        await this.telegramService.sendMessage({
+          chat_id: chatId,
+          text: t('tailor.cancelled'),
+        });
+        return;
+    }
+  }
+
+  /**
+   * Show the first suggestion without a decision, or the summary
+   */
+  private async showNextTailoringSuggestion(
+    chatId: number,
+    tailoring: ResumeTailoring,
+    t: Translator
+  ): Promise<void> {
+    const index = tailoring.suggestions.findIndex((s) => !s.decision);
+    const text =
+      index >= 0 && this.tailoringService.formatSuggestion(tailoring, index, t);
+
+    if (text) {
+      await this.telegramService.sendMessage({
+        chat_id: chatId,
+        text,
+        reply_markup: {
+          inline_keyboard: [
+            [
+              {
+                text: t('tailor.accept'),
+                callback_data: this.callbackRouter.encode(
+                  'tailor',
+                  'acc',
+                  index
+                ),
+              },
+              {
+                text: t('tailor.reject'),
+                callback_data: this.callbackRouter.encode(
+                  'tailor',
+                  'rej',
+                  index
+                ),
+              },
+            ],
+          ],
+        },
+      });
+      return;
+    }
+
+    const accepted = tailoring.suggestions.filter(
+      (s) => s.decision === 'accepted'
+    );
+    if (accepted.length === 0) {
+      await this.telegramService.sendMessage({
+        chat_id: chatId,
+        text: t('tailor.allRejected'),
+      });
+      return;
+    }
+
+    await this.telegramService.sendLongMessage({
+      chat_id: chatId,
+      text: t('tailor.summary', {
+        count: accepted.length,
+        total: tailoring.suggestions.length,
+        changes: accepted.map((s) => `• ${s.rewritten}`).join('\n'),
+      }),
+      reply_markup: {
+        inline_keyboard: [
+          [
+            {
+              text: t('tailor.saveButton'),
+              callback_data: this.callbackRouter.encode('tailor', 'save'),
+            },
+            {
+              text: t('tailor.cancelButton'),
+              callback_data: this.callbackRouter.encode('tailor', 'cancel'),
+            },
+          ],
+        ],
+      },
+    });
+  }
+
+  /**
+   * Write accepted suggestions into a new resume version
+   */
+  private async saveTailoredResume(
+    chatId: number,
+    userId: number,
+    tailoring: ResumeTailoring
+  ): Promise<void> {
+    const t = await this.getTranslator(userId);
+    const base = await this.resumeLibraryService.get(
+      userId,
+      tailoring.resumeId
+    );
+    const { text, resume } = this.tailoringService.applySuggestions(
+      tailoring,
+      t
+    );
+    const title = `${base?.title ?? t('tailor.defaultResumeTitle')} → ${tailoring.jobTitle ?? t('tailor.defaultJobTitle')}`;
+
+    let entry: ResumeEntry;
+    try {
+      entry = await this.resumeLibraryService.create(userId, {
+        title: title.slice(0, 100),
+        text,
+        structuredResume: {
+          sourceHash: await sha256Hex(text),
+          data: resume,
+          createdAt: new Date().toISOString(),
+        },
+      });
+    } catch (error) {
+      if (!(error instanceof LibraryFullError)) throw error;
+      // The suggestions stay saved, so the user can retry after deleting
+      await this.sendLibraryFull(chatId, 'resumes.full', error.limit, t);
+      return;
+    }
+    await this.sessionService.saveResumeTailoring(userId, null);
+
+    await this.telegramService.sendMessage({
+      chat_id: chatId,
+      text: t('tailor.saved', { title: entry.title }),
+    });
+  }
+
+  /**
+   * Generate likely interview questions for the active resume and job ad
+   */
+  private async startInterviewPrep(
+    chatId: number,
+    userId: number
+  ): Promise<void> {
+    const t = await this.getTranslator(userId);
+    const session = await this.sessionService.getSession(userId);
+
+    if (!session?.resumeText) {
+      await this.telegramService.sendMessage({
+        chat_id: chatId,
+        text: t('common.resumeNotFound'),
+      });
+      return;
+    }
+
+    if (!session.jobAdText) {
+      await this.telegramService.sendMessage({
+        chat_id: chatId,
+        text: t('common.jobAdNotFound'),
+      });
+      return;
+    }
+
+    if (!(await this.checkAIRateLimit(chatId, userId))) return;
+
+    await this.sendProgress(chatId, t('prep.processing'));
+
+    const startTime = Date.now();
+
+    try {
+      // Requirements from the structured job ad give stable grouping;
+      // questions are still generated from the raw text when parsing fails
+      const structuredJobAd = await this.jobAdService
+        .getStructuredJobAd(userId)
+        .catch((error) => {
+          console.error('Error parsing job ad for interview prep:', error);
+          return null;
+        });
+      if (structuredJobAd) {
+        await this.jobLibraryService.rememberActiveView(userId);
+      }
+
+      const prep = await this.interviewPrepService.generate(
+        session.resumeText,
+        session.jobAdText,
+        t.locale,
+        structuredJobAd
+      );
+      await this.sessionService.saveInterviewPrep(userId, prep);
+
+      await this.loggingService.logAIAnalysis(
+        userId,
+        chatId,
+        true,
+        Date.now() - startTime,
+        {
+          type: 'interview_prep',
+          topics: prep.topics.length,
+          questions: prep.topics.reduce((n, t) => n + t.questions.length, 0),
+        }
+      );
+
+      await this.telegramService.sendMessage({
+        chat_id: chatId,
+        ...this.getInterviewPrepPage(prep, 0, t),
+      });
+    } catch (error) {
+      console.error('Error preparing interview questions:', error);
+      await this.loggingService.logAIAnalysis(
+        userId,
+        chatId,
+        false,
+        Date.now() - startTime,
+        { type: 'interview_prep', error: String(error) }
+      );
+      await this.telegramService.sendMessage({
+        chat_id: chatId,
+        text: t('prep.failed', { error: this.describeError(error, t) }),
+      });
+    }
+  }
+
+  /**
+   * Handle interview prep pagination ("prep:page:<n>")
+   */
+  private async handleInterviewPrepCallback(
+    chatId: number,
+    userId: number,
+    args: string[],
+    messageId?: number
+  ): Promise<void> {
+    const t = await this.getTranslator(userId);
+    const [action, value = ''] = args;
+    const session = await this.sessionService.getSession(userId);
+    const prep = session?.interviewPrep;
+    const page = Number(value);
+
+    if (
+      action !== 'page' ||
+      !prep ||
+      !Number.isInteger(page) ||
+      page < 0 ||
+      page >= this.interviewPrepService.getPageCount(prep)
+    ) {
+      await this.telegramService.sendMessage({
+        chat_id: chatId,
+        text: t('prep.expired'),
+      });
+      return;
+    }
+
+    const content = this.getInterviewPrepPage(prep, page, t);
+    if (messageId !== undefined) {
+      try {
+        await this.telegramService.editMessageText({
+          chat_id: chatId,
+          message_id: messageId,
+          ...content,
+        });
+        return;
+      } catch (error) {
+        if (!(error instanceof TelegramApiError) || error.errorCode !== 400) {
+          throw error;
+        }
+        // A repeated tap asks for the page already shown
+        if (error.notModified) return;
+      }
+    }
+
+    // Old messages cannot always be edited, send the page anew then
+    await this.telegramService.sendMessage({ chat_id: chatId, ...content });
+  }
+
+  /**
+   * Page text with previous/next buttons
+   */
+  private getInterviewPrepPage(
+    prep: InterviewPrep,
+    page: number,
+    t: Translator
+  ): { text: string; reply_markup: InlineKeyboardMarkup } {
+    const pageCount = this.interviewPrepService.getPageCount(prep);
+    const navigation: InlineKeyboardButton[] = [];
+    if (page > 0) {
+      navigation.push({
+        text: t('prep.previous'),
+        callback_data: this.callbackRouter.encode('prep', 'page', page - 1),
+      });
+    }
+    if (page < pageCount - 1) {
+      navigation.push({
+        text: t('prep.next'),
+        callback_data: this.callbackRouter.encode('prep', 'page', page + 1),
+      });
+    }
+
+    return {
+      text: this.interviewPrepService.formatPage(prep, page, t),
+      reply_markup: { inline_keyboard: navigation.length ? [navigation] : [] },
+    };
+  }
+
+  /**
+   * Start a mock interview for the active job ad
+   */
+  private async startMockInterview(
+    chatId: number,
+    userId: number
+  ): Promise<void> {
+    const t = await this.getTranslator(userId);
+    const session = await this.sessionService.getSession(userId);
+
+    if (!session?.resumeText) {
+      await this.telegramService.sendMessage({
+        chat_id: chatId,
+        text: t('common.resumeNotFound'),
+      });
+      return;
+    }
+
+    if (!session.jobAdText) {
+      await this.telegramService.sendMessage({
+        chat_id: chatId,
+        text: t('common.jobAdNotFound'),
+      });
+      return;
+    }
+
+    if (!(await this.checkAIRateLimit(chatId, userId))) return;
+
+    await this.sendProgress(chatId, t('mock.preparing'));
+
+    const startTime = Date.now();
+
+    try {
+      const structuredJobAd = session.structuredJobAd?.data;
+      const jobTitle = structuredJobAd
+        ? this.jobAdService.formatJobAdTitle(structuredJobAd)
+        : undefined;
+      const interview = await this.mockInterviewService.start(
+        session.resumeText,
+        session.jobAdText,
+        t.locale,
+        jobTitle || undefined
+      );
+
+      await this.sessionService.saveMockInterview(userId, interview);
+      await this.sessionService.updateState(userId, 'mock_interview');
+      await this.loggingService.logAIAnalysis(
+        userId,
+        chatId,
+        true,
+        Date.now() - startTime,
+        { type: 'mock_interview_start' }
+      );
+
+      await this.telegramService.sendMessage({
+        chat_id: chatId,
+        text: t('mock.started', {
+          jobTitle: interview.jobTitle ? `: ${interview.jobTitle}` : '',
+          count: interview.maxQuestions,
+          question: interview.turns[0]?.question ?? '',
+        }),
+      });
+    } catch (error) {
+      console.error('Error starting mock interview:', error);
+      await this.loggingService.logAIAnalysis(
+        userId,
+        chatId,
+        false,
+        Date.now() - startTime,
+        { type: 'mock_interview_start', error: String(error) }
+      );
+      await this.telegramService.sendMessage({
+        chat_id: chatId,
+        text: t('mock.startFailed', { error: this.describeError(error, t) }),
+      });
+    }
+  }
+
+  /**
+   * Score the answer and ask the next question
+   */
+  private async handleMockInterviewAnswer(
+    text: string,
+    chatId: number,
+    userId: number
+  ): Promise<void> {
+    const t = await this.getTranslator(userId);
+    const session = await this.sessionService.getSession(userId);
+    const interview = session?.mockInterview;
+    const turn = interview && this.mockInterviewService.currentTurn(interview);
+
+    if (!session?.resumeText || !session.jobAdText || !interview || !turn) {
+      await this.finishMockInterview(chatId, userId);
+      return;
+    }
+
+    if (!(await this.checkAIRateLimit(chatId, userId))) return;
+
+    await this.sendProgress(chatId, t('mock.evaluating'));
+
+    const startTime = Date.now();
+
+    try {
+      const evaluation = await this.mockInterviewService.answer(
+        interview,
+        text,
+        session.resumeText,
+        session.jobAdText,
+        t.locale
+      );
+
+      turn.answer = text;
+      turn.score = evaluation.score;
+      turn.feedback = evaluation.feedback;
+      if (evaluation.nextQuestion) {
+        interview.turns.push({ question: evaluation.nextQuestion });
+      }
+      await this.sessionService.saveMockInterview(userId, interview);
+
+      await this.loggingService.logAIAnalysis(
+        userId,
+        chatId,
+        true,
+        Date.now() - startTime,
+        {
+          type: 'mock_interview_answer',
+          question: interview.turns.indexOf(turn) + 1,
+          score: evaluation.score,
+        }
+      );
+
+      const feedback =
+        t('mock.score', { score: evaluation.score }) +
+        (evaluation.feedback ? `\n💬 ${evaluation.feedback}` : '');
+      if (!evaluation.nextQuestion) {
+        await this.telegramService.sendLongMessage({
+          chat_id: chatId,
+          text: feedback,
+        });
+        await this.finishMockInterview(chatId, userId);
+        return;
+      }
+
+      await this.telegramService.sendLongMessage({
+        chat_id: chatId,
+        text: `${feedback}\n\n${t('mock.question', {
+          number: interview.turns.length,
+          total: interview.maxQuestions,
+          question: evaluation.nextQuestion,
+        })}`,
+      });
+    } catch (error) {
+      console.error('Error evaluating interview answer:', error);
+      await this.loggingService.logAIAnalysis(
+        userId,
+        chatId,
+        false,
+        Date.now() - startTime,
+        { type: 'mock_interview_answer', error: String(error) }
+      );
+      await this.telegramService.sendMessage({
+        chat_id: chatId,
+        text: t('mock.answerFailed'),
+      });
+    }
+  }
+
+  /**
+   * End the mock interview and send the debrief
+   */
+  private async finishMockInterview(
+    chatId: number,
+    userId: number
+  ): Promise<void> {
+    const t = await this.getTranslator(userId);
+    const session = await this.sessionService.getSession(userId);
+    const interview = session?.mockInterview;
+
+    if (session?.state === 'mock_interview') {
+      await this.sessionService.updateState(userId, 'idle');
+    }
+
+    if (!interview) {
+      await this.telegramService.sendMessage({
+        chat_id: chatId,
+        text: t('mock.notRunning'),
+      });
+      return;
+    }
+
+    await this.sessionService.saveMockInterview(userId, null);
+
+    const answered = this.mockInterviewService.getAnsweredTurns(interview);
+    if (answered.length === 0 || !session?.resumeText || !session.jobAdText) {
+      await this.telegramService.sendMessage({
+        chat_id: chatId,
+        text: t('mock.stopped'),
+      });
+      return;
+    }
+
+    await this.telegramService.sendLongMessage({
+      chat_id: chatId,
+      text: t('mock.finished', {
+        average: this.mockInterviewService.getAverageScore(interview),
+        scores: this.mockInterviewService.formatScores(interview),
+      }),
+    });
+
+    const startTime = Date.now();
+
+    try {
+      const debrief = await this.mockInterviewService.debrief(
+        interview,
+        session.resumeText,
+        session.jobAdText,
+        t.locale
+      );
+
+      await this.loggingService.logAIAnalysis(
+        userId,
+        chatId,
+        true,
+        Date.now() - startTime,
+        {
+          type: 'mock_interview_debrief',
+          questions: answered.length,
+          averageScore: this.mockInterviewService.getAverageScore(interview),
+        }
+      );
+
+      await this.telegramService.sendLongMessage({
+        chat_id: chatId,
+        text: t('mock.debrief', { debrief }),
+      });
+    } catch (error) {
+      console.error('Error writing interview debrief:', error);
+      await this.loggingService.logAIAnalysis(
+        userId,
+        chatId,
+        false,
+        Date.now() - startTime,
+        { type: 'mock_interview_debrief', error: String(error) }
+      );
+      await this.telegramService.sendMessage({
+        chat_id: chatId,
+        text: t('mock.debriefFailed'),
+      });
+    }
+  }
+
+  /**
+   * /export: send the file, or ask with buttons for what is missing
+   */
+  private async startExport(
+    chatId: number,
+    userId: number,
+    request: ExportRequest
+  ): Promise<void> {
+    const t = await this.getTranslator(userId);
+    const { kind, format } = request;
+
+    if (kind && format) {
+      await this.sendExport(chatId, userId, kind, format, t);
+      return;
+    }
+
+    if (kind) {
+      await this.telegramService.sendMessage({
+        chat_id: chatId,
+        text: t('export.chooseFormat'),
+        reply_markup: {
+          inline_keyboard: [
+            EXPORT_FORMATS.map((option) => ({
+              text: t(`export.format.${option}`),
+              callback_data: this.callbackRouter.encode('export', kind, option),
+            })),
+          ],
+        },
+      });
+      return;
+    }
+
+    const available = await this.getExportableKinds(userId);
+    if (available.length === 0) {
+      await this.telegramService.sendMessage({
+        chat_id: chatId,
+        text: t('export.nothing'),
+      });
+      return;
+    }
+
+    await this.telegramService.sendMessage({
+      chat_id: chatId,
+      text: t('export.choose'),
+      reply_markup: {
+        inline_keyboard: available.map((option) => [
+          {
+            text: t(`export.kind.${option}`),
+            // A format given with the command skips the format menu
+            callback_data: format
+              ? this.callbackRouter.encode('export', option, format)
+              : this.callbackRouter.encode('export', option),
+          },
+        ]),
+      },
+    });
+  }
+
+  /**
+   * Render a document and upload it
+   */
+  private async sendExport(
+    chatId: number,
+    userId: number,
+    kind: ExportKind,
+    format: ExportFormat,
+    t: Translator
+  ): Promise<void> {
+    const document = await this.getExportDocument(userId, kind, t);
+    if (!document) {
+      await this.telegramService.sendMessage({
+        chat_id: chatId,
+        text: t(`export.${kind}NotFound`),
+      });
+      return;
+    }
+
+    await this.telegramService.sendChatAction({
+      chat_id: chatId,
+      action: 'upload_document',
+    });
+
+    try {
+      await this.sendFile(
+        {
+          chat_id: chatId,
+          document: this.exportService.render(document, format),
+          caption: t('export.caption', { title: document.title }),
+        },
+        t
+      );
+    } catch (error) {
+      console.error('Error exporting document:', error);
+      await this.telegramService.sendMessage({
+        chat_id: chatId,
+        text: t('export.failed'),
+      });
+    }
+  }
+
+  /**
+   * Documents built from stored results only; exporting never calls the
+   * model
+   */
+  private async getExportDocument(
+    userId: number,
+    kind: ExportKind,
+    t: Translator
+  ): Promise<ExportDocument | null> {
+    if (kind === 'resume') {
+      const resume = await this.resumeService.getCachedStructuredResume(userId);
+      return resume ? this.exportService.resumeDocument(resume, t) : null;
+    }
+
+    const session = await this.sessionService.getSession(userId);
+    if (kind === 'match') {
+      return session?.matchReport
+        ? this.exportService.matchDocument(session.matchReport, t)
+        : null;
+    }
+    return session?.coverLetter
+      ? this.exportService.coverLetterDocument(session.coverLetter, t)
+      : null;
+  }
+
+  private async getExportableKinds(userId: number): Promise<ExportKind[]> {
+    const session = await this.sessionService.getSession(userId);
+    const resume = await this.resumeService.getCachedStructuredResume(userId);
+    const available: Record<ExportKind, boolean> = {
+      resume: resume !== null,
+      match: Boolean(session?.matchReport),
+      cover: Boolean(session?.coverLetter),
+    };
+    return EXPORT_KINDS.filter((kind) => available[kind]);
+  }
+
+  /**
+   * Let the user pick the interface language
+   */
+  private async showLanguageMenu(
+    chatId: number,
+    userId: number
+  ): Promise<void> {
+    const t = await this.getTranslator(userId);
+    await this.telegramService.sendMessage({
+      chat_id: chatId,
+      text: t('language.prompt'),
+      reply_markup: {
+        inline_keyboard: [
+          this.i18nService.getSupportedLocales().map((locale) => ({
+            text: t(`language.name.${locale}`),
+            callback_data: this.callbackRouter.encode('lang', locale),
+          })),
+          [
+            {
+              text: t('language.auto'),
+              callback_data: this.callbackRouter.encode('lang', 'auto'),
+            },
+          ],
+        ],
+      },
+    });
+  }
+
+  /**
+   * Handle language buttons ("lang:<locale>" or "lang:auto")
+   */
+  private async handleLanguageCallback(
+    chatId: number,
+    userId: number,
+    args: string[]
+  ): Promise<void> {
+    const [value] = args;
+    const locale = asEnum(value, this.i18nService.getSupportedLocales());
+    await this.sessionService.setLocale(userId, locale ?? null);
+
+    const t = await this.getTranslator(userId);
+    await this.telegramService.sendMessage({
+      chat_id: chatId,
+      text: t(locale ? 'language.changed' : 'language.reset'),
+    });
+  }
+
+  /**
+   * Translator for the language chosen with /language, or else the
+   * Telegram client language
+   */
+  private async getTranslator(userId: number): Promise<Translator> {
+    const session = await this.sessionService.getSession(userId);
+    return this.i18nService.getSessionTranslator(session);
+  }
+
+  /**
+   * Localized reason for a failure, shown inside the error messages
+   */
+  private describeError(error: unknown, t: Translator): string {
+    if (error instanceof DocumentError) {
+      return t(`document.error.${error.reason}`);
+    }
+    if (error instanceof TelegramApiError) {
+      if (error.method === 'getFile') return t('document.fileInfoFailed');
+      if (error.method === 'downloadFile') return t('document.downloadFailed');
+      return t('common.unknownError');
+    }
+    if (error instanceof LibraryUnavailableError) {
+      return t('common.storageUnavailable');
+    }
+    if (error instanceof AIError) {
+      return t(
+        error.reason === 'unavailable'
+          ? 'common.aiUnavailable'
+          : 'common.aiInvalidResponse'
+      );
     }
+    return error instanceof Error ? error.message : t('common.unknownError');
   }
 }
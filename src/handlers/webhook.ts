@@ -3,22 +3,33 @@
  */
 
 import { LoggingService } from '../services/logging';
+import { RateLimitService } from '../services/rate-limit';
+import { UpdateDeduplicationService } from '../services/update-deduplication';
 import { TelegramUpdate } from '../types/telegram';
+import { timingSafeEqual } from '../utils/hash';
 import { ConversationHandler } from './conversation';
 
+const SECRET_HEADER = 'X-Telegram-Bot-Api-Secret-Token';
+
 export class WebhookHandler {
   private conversationHandler: ConversationHandler;
   private webhookSecret: string | undefined;
   private loggingService: LoggingService | undefined;
+  private deduplicationService: UpdateDeduplicationService | undefined;
+  private rateLimitService: RateLimitService | undefined;
 
   constructor(
     conversationHandler: ConversationHandler,
     webhookSecret?: string,
-    loggingService?: LoggingService
+    loggingService?: LoggingService,
+    deduplicationService?: UpdateDeduplicationService,
+    rateLimitService?: RateLimitService
   ) {
     this.conversationHandler = conversationHandler;
     this.webhookSecret = webhookSecret;
     this.loggingService = loggingService;
+    this.deduplicationService = deduplicationService;
+    this.rateLimitService = rateLimitService;
   }
 
   /**
@@ -49,26 +60,24 @@ export class WebhookHandler {
         return new Response('Method not allowed', { status: 405 });
       }
 
-      // Validate webhook secret if configured
-      if (this.webhookSecret) {
-        const secretHeader = request.headers.get(
-          'X-Telegram-Bot-Api-Secret-Token'
+      // Without a secret anyone could post forged updates, so refuse them
+      if (!this.webhookSecret) {
+        await this.loggingService?.logError(
+          'WEBHOOK_AUTH',
+          'Webhook secret is not configured',
+          new Error('WEBHOOK_SECRET is not set')
         );
-        console.log('🔐 WEBHOOK SECRET DEBUG:', {
-          configured: !!this.webhookSecret,
-          received: secretHeader,
-          match: secretHeader === this.webhookSecret,
-        });
-        // Temporarily disable secret validation for testing
-        console.log('⚠️ WEBHOOK SECRET VALIDATION DISABLED FOR TESTING');
-        // if (secretHeader !== this.webhookSecret) {
-        //   await this.loggingService?.logError(
-        //     'WEBHOOK_AUTH',
-        //     'Invalid webhook secret',
-        //     new Error('Unauthorized webhook request')
-        //   );
-        //   return new Response('Unauthorized', { status: 401 });
-        // }
+        return new Response('Webhook secret not configured', { status: 503 });
+      }
+
+      const secretHeader = request.headers.get(SECRET_HEADER) ?? '';
+      if (!timingSafeEqual(secretHeader, this.webhookSecret)) {
+        await this.loggingService?.logError(
+          'WEBHOOK_AUTH',
+          'Invalid webhook secret',
+          new Error('Unauthorized webhook request')
+        );
+        return new Response('Unauthorized', { status: 401 });
       }
 
       // Parse request body
@@ -108,6 +117,26 @@ export class WebhookHandler {
         return new Response('Bad request', { status: 400 });
       }
 
+      // Telegram retries updates it considers undelivered
+      if (
+        this.deduplicationService &&
+        !(await this.deduplicationService.markProcessed(update.update_id))
+      ) {
+        await this.loggingService?.log(
+          'INFO',
+          'WEBHOOK_DUPLICATE',
+          `Skipped duplicate update ${update.update_id}`,
+          { updateId: update.update_id }
+        );
+        return new Response('OK', { status: 200 });
+      }
+
+      // Over-limit updates are still acknowledged with 200: any other
+      // status makes Telegram deliver the same update again
+      if (!(await this.checkRateLimit(update))) {
+        return new Response('OK', { status: 200 });
+      }
+
       // Process the update
       await this.processUpdate(update);
 
@@ -151,42 +180,9 @@ export class WebhookHandler {
 
       // Handle callback query updates (for inline keyboards)
       if (update.callback_query) {
-        try {
-          const data = update.callback_query.data || '';
-          const chatId = update.callback_query.message?.chat.id;
-          const userId = update.callback_query.from.id;
-
-          if (!chatId || !userId) return;
-
-          // Handle done buttons
-          if (data === 'resume_done') {
-            await this.conversationHandler['sessionService'].updateState(
-              userId,
-              'idle'
-            );
-            await this.conversationHandler['telegramService'].sendMessage({
-              chat_id: chatId,
-              text: '✅ Резюме получено! Используйте /send_job_ad для отправки вакансии.',
-            });
-          } else if (data === 'job_done') {
-            await this.conversationHandler['sessionService'].updateState(
-              userId,
-              'idle'
-            );
-            await this.conversationHandler['telegramService'].sendMessage({
-              chat_id: chatId,
-              text: '✅ Вакансия получена! Теперь вы можете начать новую сессию.',
-            });
-          } else {
-            // Unknown callback - just acknowledge
-            await this.conversationHandler['telegramService'].sendMessage({
-              chat_id: chatId,
-              text: '✅ Получено',
-            });
-          }
-        } catch (e) {
-          console.error('Error handling callback query:', e);
-        }
+        await this.conversationHandler.handleCallbackQuery(
+          update.callback_query
+        );
         return;
       }
 
@@ -245,41 +241,32 @@ export class WebhookHandler {
   }
 
   /**
-   * Rate limiting check (basic implementation)
+   * Count the update against the sender's quota; false when over the limit
    */
-  private async checkRateLimit(
-    userId: number,
-    kv: KVNamespace,
-    limitPerMinute: number = 10
-  ): Promise<boolean> {
-    try {
-      const key = `rate_limit:${userId}`;
-      const now = Date.now();
-      const windowStart = now - 60000; // 1 minute window
-
-      // Get current request timestamps
-      const requestsData = await kv.get(key);
-      let requests: number[] = requestsData ? JSON.parse(requestsData) : [];
-
-      // Filter out old requests
-      requests = requests.filter((timestamp) => timestamp > windowStart);
-
-      // Check if limit exceeded
-      if (requests.length >= limitPerMinute) {
-        return false;
-      }
-
-      // Add current request
-      requests.push(now);
-
-      // Save updated requests
-      await kv.put(key, JSON.stringify(requests), { expirationTtl: 60 });
-
-      return true;
-    } catch (error) {
-      console.error('Rate limiting error:', error);
-      return true; // Allow on error
+  private async checkRateLimit(update: TelegramUpdate): Promise<boolean> {
+    const { userId, chatId } = this.extractUserInfo(update);
+    if (!this.rateLimitService || userId === undefined) return true;
+
+    const result = await this.rateLimitService.check(userId, 'general');
+    if (result.allowed) return true;
+
+    await this.loggingService?.log(
+      'WARN',
+      'RATE_LIMITED',
+      `Rate limit exceeded for user ${userId}`,
+      { limit: result.limit, retryAfterSeconds: result.retryAfterSeconds },
+      userId,
+      chatId
+    );
+    if (result.notify && chatId !== undefined) {
+      // The notice is best effort; the update is acknowledged either way
+      await this.conversationHandler
+        .sendRateLimitNotice(chatId, userId, 'general', result)
+        .catch((error: unknown) =>
+          console.error('Failed to send rate limit notice:', error)
+        );
     }
+    return false;
   }
 
   /**
@@ -288,7 +275,7 @@ export class WebhookHandler {
   private headersToObject(headers: Headers): Record<string, string> {
     const result: Record<string, string> = {};
     headers.forEach((value, key) => {
-      result[key] = value;
+      result[key] = key === SECRET_HEADER.toLowerCase() ? '[redacted]' : value;
     });
     return result;
   }
@@ -298,49 +285,17 @@ export class WebhookHandler {
    */
   static createWithRateLimit(
     conversationHandler: ConversationHandler,
-    kv: KVNamespace,
+    rateLimitService: RateLimitService,
     webhookSecret?: string,
-    rateLimitPerMinute: number = 10,
-    loggingService?: LoggingService
+    loggingService?: LoggingService,
+    deduplicationService?: UpdateDeduplicationService
   ): WebhookHandler {
-    const handler = new WebhookHandler(
+    return new WebhookHandler(
       conversationHandler,
       webhookSecret,
-      loggingService
+      loggingService,
+      deduplicationService,
+      rateLimitService
     );
-
-    // Override handleWebhook to include rate limiting
-    const originalHandleWebhook = handler.handleWebhook.bind(handler);
-
-    handler.handleWebhook = async function (
-      request: Request
-    ): Promise<Response> {
-      try {
-        // Only apply rate limiting to POST requests with JSON bodies
-        if (request.method === 'POST') {
-          const update: TelegramUpdate = await request.clone().json();
-          const userInfo = handler.extractUserInfo(update);
-
-          if (userInfo.userId) {
-            const allowed = await handler.checkRateLimit(
-              userInfo.userId,
-              kv,
-              rateLimitPerMinute
-            );
-            if (!allowed) {
-              console.log(`Rate limit exceeded for user ${userInfo.userId}`);
-              return new Response('Rate limit exceeded', { status: 429 });
-            }
-          }
-        }
-
-        return originalHandleWebhook(request);
-      } catch (error) {
-        console.error('Rate limit check error:', error);
-        return originalHandleWebhook(request);
-      }
-    };
-
-    return handler;
   }
 }
@@ -0,0 +1,406 @@
+/**
+ * English messages, the base catalog every other locale must cover
+ */
+
+import { Message } from '../types/i18n';
+
+export const en = {
+  // Common
+  'common.error': '❌ Something went wrong. Please try again.',
+  'common.unknownError': 'Unknown error',
+  'common.unsupportedMessage':
+    'Please send text, a PDF/DOCX file or a photo, or use /send_resume or /send_job_ad',
+  'common.useCommands': 'Use /send_resume or /send_job_ad to get started.',
+  'common.resumeNotFound':
+    '❌ Resume not found. Please send your resume first with /send_resume',
+  'common.jobAdNotFound':
+    '❌ Job ad not found. Please send the job ad first with /send_job_ad',
+  'common.resumeAndJobAdRequired':
+    '❌ A resume and a job ad are needed. Use /send_resume and /send_job_ad',
+  'common.startCollectionFirst': '❌ Use /send_resume or /send_job_ad first',
+  'common.active': ' (active)',
+  'common.empty': '(empty)',
+  'common.characters': '📊 Characters: {count}',
+  'common.backToList': '⬅️ Back to list',
+  'common.makeActive': '▶️ Make active',
+  'common.copyTitle': '{title} (copy)',
+  'common.rename': '✏️ Rename',
+  'common.delete': '🗑️ Delete',
+  'common.confirmDelete': '🗑️ Yes, delete',
+  'common.cancel': '↩️ Cancel',
+  'common.renamePrompt': '✏️ Send a new title for “{title}”.',
+  'common.fileSendFailed':
+    '❌ Could not send the file. Please try again later.',
+  'common.part': '📄 Part {part}/{total}:',
+  'common.storageUnavailable': 'saved documents could not be loaded',
+  'common.aiUnavailable': 'the AI service is not available',
+  'common.aiInvalidResponse': 'the AI returned an unexpected answer',
+
+  // Welcome and help
+  'start.welcome':
+    '👋 Hi!\n\nSend your resume with /send_resume and a job ad with /send_job_ad, then run /analyze_match.\n\nAll commands: /help',
+  'help.header': '🤖 Commands:',
+  'help.footer':
+    '📝 **Tip**: Send your resume as text, DOCX or a text PDF (not a scan).\nFinish with the word "done" or the button.',
+  'commands.unknown': '❓ Unknown command /{command}.',
+  'commands.suggestions': 'Did you mean: {commands}',
+  'commands.seeHelp': 'All commands: /help',
+  'commands.forbidden':
+    '⛔ The /{command} command is only available to admins.',
+  'callbacks.expired': 'This button is no longer active.',
+  'rateLimit.general':
+    '⏳ You are sending messages too fast. Please wait {seconds} s and try again.',
+  'rateLimit.ai':
+    '⏳ AI requests are limited to {limit} per minute. Please try again in {seconds} s.',
+
+  // Command descriptions for /help and the bot menu
+  'command.start': 'Start the bot',
+  'command.help': 'Show help',
+  'command.send_resume': 'Send your resume',
+  'command.send_job_ad': 'Send a job ad',
+  'command.show_structured_resume_text': 'Show the structured resume',
+  'command.structure_my_resume': 'Structure my resume',
+  'command.show_structured_job_ad': 'Show the structured job ad',
+  'command.show_raw_text_resume': 'Show raw resume text (debug)',
+  'command.clear_resume': 'Clear resume data',
+  'command.analyze_match': 'Analyze how the resume matches the job ad',
+  'command.jobs': 'Saved job ads',
+  'command.resumes': 'Resume versions',
+  'command.cover_letter': 'Cover letter',
+  'command.tailor_resume': 'Tailor the resume to the job ad',
+  'command.interview_prep': 'Interview preparation questions',
+  'command.mock_interview': 'Mock interview',
+  'command.stop_interview': 'Finish the mock interview',
+  'command.language': 'Change the language',
+  'command.export': 'Export the resume, match report or cover letter',
+  'command.get_logs': 'Get logs',
+  'command.stats': 'Log summary for the last hours',
+  'command.user_logs': "Show a user's logs",
+  'command.session': "Show a user's session",
+  'command.reset_session': "Reset a user's session",
+
+  // Language
+  'language.prompt': '🌐 Choose the bot language:',
+  'language.auto': '🔄 Automatic',
+  'language.changed': '✅ Language set to English.',
+  'language.reset':
+    '✅ The language now follows your Telegram settings: English.',
+  'language.name.en': '🇬🇧 English',
+  'language.name.ru': '🇷🇺 Русский',
+
+  // Resume and job ad collection
+  'collect.resumePrompt':
+    '📄 Send your resume. You can send the text in several messages or attach a PDF/DOCX file or a screenshot.\n\nWhen you are done, say "done".',
+  'collect.resumeTarget':
+    '\n\nThe text will be added to the “{title}” version. All versions: /resumes',
+  'collect.resumeNewTarget':
+    '\n\nThe text will be saved as a new version. All versions: /resumes',
+  'collect.jobAdPrompt':
+    '💼 New job ad. Send the job ad text. You can send it in several messages or attach a PDF/DOCX file or a screenshot.\n\nWhen you are done, say "done". All job ads: /jobs',
+  'collect.resumeDone':
+    '✅ Resume received! Use /send_job_ad to send a job ad.',
+  'collect.resumeAppended':
+    '✅ Added to the resume. Continue or press the button:',
+  'collect.jobAdAppended':
+    '✅ Added to the job ad. Continue or press the button:',
+  'collect.resumeDoneButton': '✅ Done with the resume',
+  'collect.jobAdDoneButton': '✅ Done with the job ad',
+  'collect.jobAdDone': '✅ Job ad received! You can now start a new session.',
+  'collect.analyzeButton': '📊 Match analysis',
+  'collect.jobAdParsed':
+    '🧾 Job ad parsed: {title}\nMust-have requirements: {count}\n\nDetails: /show_structured_job_ad',
+  'collect.untitled': 'untitled',
+  'collect.nothingAdded': 'ℹ️ Nothing was sent, so nothing was saved.',
+
+  // Documents and photos
+  'document.tooLarge': '❌ The file is too large. Maximum size: {maxSize}MB.',
+  'document.unsupported': '❌ Only PDF and DOCX files are supported.',
+  'document.processing': '⏳ Processing {fileName}...',
+  'document.fileInfoFailed': 'Could not get file information',
+  'document.downloadFailed': 'Could not download the file',
+  'document.extractFailed': 'Could not extract text from the file',
+  'document.processed':
+    '✅ File "{fileName}" processed ({count} characters).\nContinue or press the button:',
+  'document.failed': '❌ Could not process the file: {error}',
+  'document.error.legacyDoc':
+    'The old .doc format is not supported. Save the file as DOCX or PDF.',
+  'document.error.corrupted':
+    'The file is damaged or does not match its format.',
+  'document.error.unsupported': 'Unsupported file format. Send a PDF or DOCX.',
+  'document.error.docxUnreadable':
+    'Could not read the DOCX file. It may be damaged.',
+  'document.error.docxEmpty': 'The DOCX file contains no text.',
+  'document.error.pdfEncrypted':
+    'The PDF is password-protected. Remove the protection or send the text as a message.',
+  'document.error.pdfScanned':
+    'The PDF looks like a scan without a text layer. Send a text version or paste the text into a message.',
+  'document.error.pdfEmpty': 'The PDF contains no text.',
+  'document.error.ocrUnavailable': 'Image recognition is not available.',
+  'document.error.ocrFailed':
+    'Could not recognize text in the image. Try a sharper photo.',
+  'photo.recognizing': '⏳ Recognizing text in the image...',
+  'photo.recognized':
+    '🔍 Recognized text ({count} characters):\n\n{preview}\n\nAdd it?',
+  'photo.add': '✅ Add',
+  'photo.cancel': '❌ Cancel',
+  'photo.failed': '❌ Could not process the image: {error}',
+  'photo.nothingToAdd': '❌ There is no recognized text to add.',
+  'photo.notCollecting':
+    '❌ Use /send_resume or /send_job_ad first, then press "Add" again. The recognized text is kept.',
+  'photo.added':
+    '✅ Text from the image added ({count} characters).\nContinue or press the button:',
+  'photo.discarded':
+    '🗑️ Recognized text discarded. You can send another image or text.',
+
+  // Job ad library
+  'jobs.empty':
+    '💼 You have no saved job ads yet. Use /send_job_ad to add the first one.',
+  'jobs.list':
+    '💼 Your job ads ({count}):\n\n{lines}\n\n▶️ — the active job ad, used for analysis.',
+  'jobs.new': '➕ New job ad',
+  'jobs.selected':
+    '▶️ Active job ad: “{title}”. It will be used in /analyze_match.',
+  'jobs.notFound': '❌ Job ad not found.',
+  'jobs.notFoundReopen': '❌ Job ad not found. Open the list again: /jobs',
+  'jobs.deletePrompt': '🗑️ Delete the job ad “{title}”?',
+  'jobs.deleted': '🗑️ Job ad deleted.',
+  'jobs.toList': '💼 To the job ad list',
+  'jobs.entry':
+    '📌 {title}{active}\n🕐 Added: {date}\n{characters}\n\n{preview}',
+  'jobs.renamed': '✅ Job ad renamed: “{title}”.',
+  'jobs.defaultTitle': 'Job ad {index}',
+  'jobs.full':
+    '❌ You already have {limit} saved job ads, the maximum. Delete one in /jobs to add another.',
+
+  // Resume library
+  'resumes.empty':
+    '📄 You have no saved resumes yet. Use /send_resume to add the first one.',
+  'resumes.list':
+    '📄 Resume versions ({count}):\n\n{lines}\n\n▶️ — the active version, used for analysis and /send_resume.',
+  'resumes.new': '➕ New version',
+  'resumes.selected':
+    '▶️ Active version: “{title}”. It will be used in /analyze_match.',
+  'resumes.notFound': '❌ Resume version not found.',
+  'resumes.notFoundReopen':
+    '❌ Resume version not found. Open the list again: /resumes',
+  'resumes.duplicated':
+    '📑 Created the copy “{title}”, it is now active. Extend it with /send_resume or rename it.',
+  'resumes.duplicate': '📑 Duplicate',
+  'resumes.deletePrompt': '🗑️ Delete the resume version “{title}”?',
+  'resumes.deleted': '🗑️ Resume version deleted.',
+  'resumes.toList': '📄 To the version list',
+  'resumes.entry':
+    '📄 {title}{active}\n🕐 Updated: {date}\n{characters}\n\n{preview}',
+  'resumes.renamed': '✅ Resume version renamed: “{title}”.',
+  'resumes.firstTitle': 'Main resume',
+  'resumes.defaultTitle': 'Resume {index}',
+  'resumes.full':
+    '❌ You already have {limit} resume versions, the maximum. Delete one in /resumes to add another.',
+
+  // Logs
+  'logs.failed': '❌ Could not get the logs. Please try again later.',
+  'admin.statsUsage': '❌ Usage: /stats [hours], from 1 to 720 hours.',
+  'admin.userIdRequired':
+    '❌ Pass a numeric Telegram user ID, e.g. /session 123456789',
+  'admin.sessionNotFound': 'ℹ️ User {userId} has no session.',
+  'admin.sessionReset': '✅ The session of user {userId} was reset.',
+
+  // Structured resume and job ad
+  'resume.processing':
+    '⏳ Processing your resume... This may take a few seconds.',
+  'resume.structured': '📋 Structured resume:\n\n{resume}',
+  'resume.failed':
+    '❌ Could not process the resume: {error}. Please try again later.',
+  'resume.notFound': 'Resume not found',
+  'resume.desiredPositions': '🎯 Desired positions:',
+  'resume.summary': '📝 Summary:',
+  'resume.skills': '🛠️ Skills:',
+  'resume.experience': '💼 Experience:',
+  'resume.education': '🎓 Education:',
+  'resume.languages': '🌍 Languages:',
+  'resume.skillLevel.beginner': 'beginner',
+  'resume.skillLevel.intermediate': 'intermediate',
+  'resume.skillLevel.advanced': 'advanced',
+  'resume.skillLevel.expert': 'expert',
+  'resume.present': 'present',
+  'resume.raw':
+    '🔍 Raw resume text (for debugging)\n\n📊 Statistics:\n• Characters: {characters}\n• Words: {words}',
+  'resume.rawText': '\n\n📄 Text:\n\n{text}',
+  'resume.cleared':
+    '🗑️ Resume data cleared. You can now upload a new resume with /send_resume',
+  'resume.clearFailed': '❌ Could not clear the resume data.',
+  'jobAd.processing':
+    '⏳ Processing the job ad... This may take a few seconds.',
+  'jobAd.structured': '📋 Structured job ad:\n\n{jobAd}',
+  'jobAd.failed':
+    '❌ Could not process the job ad: {error}. Please try again later.',
+  'jobAd.notFound': 'Job ad not found',
+  'jobAd.untitled': 'Untitled',
+  'jobAd.level': '📈 Level: {level}',
+  'jobAd.seniority.intern': 'intern',
+  'jobAd.seniority.junior': 'junior',
+  'jobAd.seniority.middle': 'middle',
+  'jobAd.seniority.senior': 'senior',
+  'jobAd.seniority.lead': 'lead',
+  'jobAd.seniority.principal': 'principal',
+  'jobAd.seniority.unknown': 'not specified',
+  'jobAd.remote.onsite': 'on-site',
+  'jobAd.remote.hybrid': 'hybrid',
+  'jobAd.remote.remote': 'remote',
+  'jobAd.remote.unknown': 'not specified',
+  'jobAd.salaryFrom': 'from {amount}',
+  'jobAd.salaryTo': 'up to {amount}',
+  'jobAd.salaryPeriod.hour': 'per hour',
+  'jobAd.salaryPeriod.month': 'per month',
+  'jobAd.salaryPeriod.year': 'per year',
+  'jobAd.salaryGross': '(before tax)',
+  'jobAd.salaryNet': '(after tax)',
+  'jobAd.mustHave': '✅ Required:',
+  'jobAd.niceToHave': '➕ Nice to have:',
+  'jobAd.responsibilities': '🧩 Responsibilities:',
+
+  // Match analysis
+  'match.processing':
+    '⏳ Comparing the resume with the job ad... This may take a few seconds.',
+  'match.title': '📊 Match analysis',
+  'match.score': '🎯 Overall score: {score}/100',
+  'match.matched': '✅ Matched requirements:',
+  'match.missing': '❌ Missing requirements:',
+  'match.suggestions': '💡 Recommendations:',
+  'match.failed':
+    '❌ Could not run the analysis: {error}. Please try again later.',
+
+  // Cover letter
+  'coverLetter.chooseTone':
+    '✉️ Cover letter for the active job ad.\n\n1️⃣ Choose the tone:',
+  'coverLetter.chooseLanguage': '2️⃣ Choose the letter language:',
+  'coverLetter.chooseLength': '3️⃣ Choose the letter length:',
+  'coverLetter.tone.formal': '🎩 Formal',
+  'coverLetter.tone.friendly': '😊 Friendly',
+  'coverLetter.tone.concise': '⚡ Concise',
+  'coverLetter.language.ru': '🇷🇺 Russian',
+  'coverLetter.language.en': '🇬🇧 English',
+  'coverLetter.length.short': 'Short',
+  'coverLetter.length.medium': 'Medium',
+  'coverLetter.length.long': 'Detailed',
+  'coverLetter.caption': '✉️ Cover letter',
+  'coverLetter.notFound': '❌ Letter not found. Start again: /cover_letter',
+  'coverLetter.generating':
+    '⏳ Writing the cover letter... This may take a few seconds.',
+  'coverLetter.failed':
+    '❌ Could not write the letter: {error}. Please try again later.',
+  'coverLetter.saved': '✅ Letter saved. New letter: /cover_letter',
+  'coverLetter.revising': '⏳ Applying your changes to the letter...',
+  'coverLetter.reviseFailed':
+    '❌ Could not change the letter: {error}. Try putting it differently.',
+  'coverLetter.revision': ' (revision {count})',
+  'coverLetter.letter':
+    '✉️ Cover letter{version}\n{options}\n\n{text}\n\n✏️ Write what to change (for example: “make it shorter” or “mention Kubernetes”), or say "done".',
+  'coverLetter.downloadTxt': '📄 Download .txt',
+  'coverLetter.downloadMd': '📝 Download .md',
+  'coverLetter.otherOptions': '🔄 Other options',
+
+  // Resume tailoring
+  'tailor.processing':
+    '⏳ Matching the wording to the job ad... This may take up to a minute.',
+  'tailor.noSuggestions':
+    '👍 The resume wording already matches the job ad well, no suggestions.',
+  'tailor.noBullets':
+    '❌ No achievement bullets found in the work experience. Add them and try again.',
+  'tailor.found': {
+    one: '✨ Found {count} suggestion. Accept or reject it — accepted changes are saved as a new resume version, the current version “{title}” stays unchanged.',
+    other:
+      '✨ Found {count} suggestions. Accept or reject each one — accepted changes are saved as a new resume version, the current version “{title}” stays unchanged.',
+  },
+  'tailor.failed':
+    '❌ Could not prepare suggestions: {error}. Please try again later.',
+  'tailor.expired':
+    '❌ The suggestions are outdated. Run again: /tailor_resume',
+  'tailor.cancelled': '🗑️ Suggestions cancelled, the resume is unchanged.',
+  'tailor.suggestion': '✏️ Suggestion {number}/{total}',
+  'tailor.before': '➖ Before:',
+  'tailor.after': '➕ After:',
+  'tailor.changes': '🔍 Changes:',
+  'tailor.accept': '✅ Accept',
+  'tailor.reject': '❌ Reject',
+  'tailor.allRejected': '📋 All suggestions rejected, the resume is unchanged.',
+  'tailor.summary':
+    '📋 Accepted changes: {count} of {total}.\n\n{changes}\n\nSave them as a new resume version?',
+  'tailor.saveButton': '💾 Save new version',
+  'tailor.cancelButton': '🗑️ Cancel',
+  'tailor.defaultResumeTitle': 'Resume',
+  'tailor.defaultJobTitle': 'job ad',
+  'tailor.saved':
+    '💾 Saved the new version “{title}”, it is now active. The previous version is available in /resumes.\n\nCheck the match: /analyze_match',
+
+  // Interview preparation
+  'prep.processing':
+    '⏳ Preparing interview questions... This may take up to a minute.',
+  'prep.failed':
+    '❌ Could not prepare the questions: {error}. Please try again later.',
+  'prep.expired':
+    '❌ The questions are outdated. Generate them again: /interview_prep',
+  'prep.title': '🎤 Interview preparation{jobTitle}\nTopic {page}/{total}',
+  'prep.evidence': '📎 Resume evidence: {evidence}',
+  'prep.noEvidence':
+    '⚠️ No direct evidence in the resume — prepare an example in advance',
+  'prep.legend': '🛠️ — technical question, 🤝 — behavioral',
+  'prep.previous': '⬅️ Back',
+  'prep.next': 'Next ➡️',
+
+  // Mock interview
+  'mock.preparing': '⏳ Preparing the interview...',
+  'mock.started':
+    '🎙️ Mock interview{jobTitle}\n\nI will ask up to {count} questions one by one and score each answer. Answer as you would in a real interview. Finish early: /stop_interview\n\n❓ Question 1/{count}:\n{question}',
+  'mock.startFailed':
+    '❌ Could not start the interview: {error}. Please try again later.',
+  'mock.evaluating': '⏳ Scoring your answer...',
+  'mock.score': '📊 Score: {score}/10',
+  'mock.question': '❓ Question {number}/{total}:\n{question}',
+  'mock.answerFailed':
+    '❌ Could not score the answer. Send it again or finish the interview: /stop_interview',
+  'mock.notRunning':
+    'ℹ️ There is no interview in progress. Start one: /mock_interview',
+  'mock.stopped': '🛑 Interview stopped. Start again: /mock_interview',
+  'mock.finished':
+    '🏁 Interview finished!\n\n🎯 Average score: {average}/10\n\n{scores}\n\n⏳ Preparing the debrief...',
+  'mock.debrief': '📝 Interview debrief\n\n{debrief}',
+  'mock.debriefFailed':
+    '❌ Could not prepare the debrief, but the scores per question are above.',
+
+  // Export
+  'export.usage': '❌ Usage: /export [resume|match|cover] [pdf|html|md]',
+  'export.choose': '📤 What would you like to export?',
+  'export.chooseFormat': '📤 Choose the file format:',
+  'export.nothing':
+    'ℹ️ Nothing to export yet. Structure your resume (/structure_my_resume), analyze the match (/analyze_match) or write a cover letter (/cover_letter) first.',
+  'export.kind.resume': '📄 Resume',
+  'export.kind.match': '📊 Match report',
+  'export.kind.cover': '✉️ Cover letter',
+  'export.format.pdf': 'PDF',
+  'export.format.html': 'HTML',
+  'export.format.md': 'Markdown',
+  'export.resumeNotFound':
+    '❌ There is no structured resume yet. Run /structure_my_resume first.',
+  'export.matchNotFound':
+    '❌ There is no match report yet. Run /analyze_match first.',
+  'export.coverNotFound':
+    '❌ There is no cover letter yet. Write one: /cover_letter',
+  'export.caption': '📤 {title}',
+  'export.failed': '❌ Could not create the file. Please try again later.',
+  'export.resume.title': 'Resume',
+  'export.resume.summary': 'Summary',
+  'export.resume.skills': 'Skills',
+  'export.resume.experience': 'Experience',
+  'export.resume.education': 'Education',
+  'export.resume.languages': 'Languages',
+  'export.match.title': 'Match report',
+  'export.match.score': 'Overall score: {score}/100',
+  'export.match.matched': 'Matched requirements',
+  'export.match.missing': 'Missing requirements',
+  'export.match.suggestions': 'Recommendations',
+  'export.cover.title': 'Cover letter',
+  'export.footer': 'Generated on {date}',
+} satisfies Record<string, Message>;
+
+export type MessageKey = keyof typeof en;
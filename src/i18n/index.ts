@@ -0,0 +1,14 @@
+/**
+ * Message catalogs by locale
+ */
+
+import { Locale, Message } from '../types/i18n';
+import { en, MessageKey } from './en';
+import { ru } from './ru';
+
+export type { MessageKey };
+
+export const catalogs: Record<Locale, Record<MessageKey, Message>> = {
+  en,
+  ru,
+};
@@ -0,0 +1,412 @@
+/**
+ * Russian messages
+ */
+
+import { Message } from '../types/i18n';
+import { MessageKey } from './en';
+
+export const ru: Record<MessageKey, Message> = {
+  // Common
+  'common.error': '❌ Что-то пошло не так. Пожалуйста, попробуйте ещё раз.',
+  'common.unknownError': 'Неизвестная ошибка',
+  'common.unsupportedMessage':
+    'Пожалуйста, отправьте текст, PDF/DOCX файл, фото или используйте команды /send_resume или /send_job_ad',
+  'common.useCommands':
+    'Используйте команды /send_resume или /send_job_ad для начала.',
+  'common.resumeNotFound':
+    '❌ Резюме не найдено. Пожалуйста, сначала отправьте резюме используя /send_resume',
+  'common.jobAdNotFound':
+    '❌ Вакансия не найдена. Пожалуйста, сначала отправьте вакансию используя /send_job_ad',
+  'common.resumeAndJobAdRequired':
+    '❌ Нужны резюме и вакансия. Используйте /send_resume и /send_job_ad',
+  'common.startCollectionFirst':
+    '❌ Сначала используйте команду /send_resume или /send_job_ad',
+  'common.active': ' (активная)',
+  'common.empty': '(пусто)',
+  'common.characters': '📊 Символов: {count}',
+  'common.backToList': '⬅️ К списку',
+  'common.makeActive': '▶️ Сделать активной',
+  'common.copyTitle': '{title} (копия)',
+  'common.rename': '✏️ Переименовать',
+  'common.delete': '🗑️ Удалить',
+  'common.confirmDelete': '🗑️ Да, удалить',
+  'common.cancel': '↩️ Отмена',
+  'common.renamePrompt': '✏️ Отправьте новое название для «{title}».',
+  'common.fileSendFailed':
+    '❌ Не удалось отправить файл. Пожалуйста, попробуйте позже.',
+  'common.part': '📄 Часть {part}/{total}:',
+  'common.storageUnavailable': 'не удалось загрузить сохранённые документы',
+  'common.aiUnavailable': 'сервис ИИ недоступен',
+  'common.aiInvalidResponse': 'ИИ вернул неожиданный ответ',
+
+  // Welcome and help
+  'start.welcome':
+    '👋 Привет!\n\nОтправьте резюме командой /send_resume и вакансию командой /send_job_ad, затем запустите /analyze_match.\n\nВсе команды: /help',
+  'help.header': '🤖 Команды:',
+  'help.footer':
+    '📝 **Рекомендация**: Отправляйте резюме как текст, DOCX или текстовый PDF (не скан).\nЗавершите словом "готово" или кнопкой.',
+  'commands.unknown': '❓ Неизвестная команда /{command}.',
+  'commands.suggestions': 'Возможно, вы имели в виду: {commands}',
+  'commands.seeHelp': 'Все команды: /help',
+  'commands.forbidden':
+    '⛔ Команда /{command} доступна только администраторам.',
+  'callbacks.expired': 'Эта кнопка больше не активна.',
+  'rateLimit.general':
+    '⏳ Вы отправляете сообщения слишком часто. Подождите {seconds} с и попробуйте снова.',
+  'rateLimit.ai':
+    '⏳ Не больше {limit} AI-запросов в минуту. Попробуйте снова через {seconds} с.',
+
+  // Command descriptions for /help and the bot menu
+  'command.start': 'Запустить бота',
+  'command.help': 'Показать справку',
+  'command.send_resume': 'Отправить резюме',
+  'command.send_job_ad': 'Отправить вакансию',
+  'command.show_structured_resume_text': 'Показать структурированное резюме',
+  'command.structure_my_resume': 'Структурировать мое резюме',
+  'command.show_structured_job_ad': 'Показать структурированную вакансию',
+  'command.show_raw_text_resume': 'Показать сырой текст резюме (отладка)',
+  'command.clear_resume': 'Очистить данные резюме',
+  'command.analyze_match': 'Анализ соответствия резюме и вакансии',
+  'command.jobs': 'Сохранённые вакансии',
+  'command.resumes': 'Версии резюме',
+  'command.cover_letter': 'Сопроводительное письмо',
+  'command.tailor_resume': 'Адаптировать резюме под вакансию',
+  'command.interview_prep': 'Вопросы для подготовки к собеседованию',
+  'command.mock_interview': 'Пробное собеседование',
+  'command.stop_interview': 'Завершить пробное собеседование',
+  'command.language': 'Сменить язык',
+  'command.export': 'Скачать резюме, анализ или письмо файлом',
+  'command.get_logs': 'Получить логи',
+  'command.stats': 'Сводка логов за последние часы',
+  'command.user_logs': 'Логи пользователя',
+  'command.session': 'Сессия пользователя',
+  'command.reset_session': 'Сбросить сессию пользователя',
+
+  // Language
+  'language.prompt': '🌐 Выберите язык бота:',
+  'language.auto': '🔄 Автоматически',
+  'language.changed': '✅ Язык изменён на русский.',
+  'language.reset': '✅ Язык теперь берётся из настроек Telegram: русский.',
+  'language.name.en': '🇬🇧 English',
+  'language.name.ru': '🇷🇺 Русский',
+
+  // Resume and job ad collection
+  'collect.resumePrompt':
+    '📄 Отправьте ваше резюме. Можно отправить текст в нескольких сообщениях или прикрепить PDF/DOCX файл или скриншот.\n\nКогда закончите, скажите "готово".',
+  'collect.resumeTarget':
+    '\n\nТекст будет добавлен к версии «{title}». Все версии: /resumes',
+  'collect.resumeNewTarget':
+    '\n\nТекст будет сохранён как новая версия. Все версии: /resumes',
+  'collect.jobAdPrompt':
+    '💼 Новая вакансия. Отправьте текст вакансии. Можно отправить в нескольких сообщениях или прикрепить PDF/DOCX файл или скриншот.\n\nКогда закончите, скажите "готово". Все вакансии: /jobs',
+  'collect.resumeDone':
+    '✅ Резюме получено! Используйте /send_job_ad для отправки вакансии.',
+  'collect.resumeAppended':
+    '✅ Добавлено к резюме. Продолжайте или нажмите кнопку:',
+  'collect.jobAdAppended':
+    '✅ Добавлено к вакансии. Продолжайте или нажмите кнопку:',
+  'collect.resumeDoneButton': '✅ Готово с резюме',
+  'collect.jobAdDoneButton': '✅ Готово с вакансией',
+  'collect.jobAdDone':
+    '✅ Вакансия получена! Теперь вы можете начать новую сессию.',
+  'collect.analyzeButton': '📊 Анализ соответствия',
+  'collect.jobAdParsed':
+    '🧾 Вакансия разобрана: {title}\nОбязательных требований: {count}\n\nПодробнее: /show_structured_job_ad',
+  'collect.untitled': 'без названия',
+  'collect.nothingAdded':
+    'ℹ️ Ничего не отправлено, поэтому ничего не сохранено.',
+
+  // Documents and photos
+  'document.tooLarge':
+    '❌ Файл слишком большой. Максимальный размер: {maxSize}MB.',
+  'document.unsupported': '❌ Поддерживаются только PDF и DOCX файлы.',
+  'document.processing': '⏳ Обрабатываю файл {fileName}...',
+  'document.fileInfoFailed': 'Не удалось получить информацию о файле',
+  'document.downloadFailed': 'Не удалось скачать файл',
+  'document.extractFailed': 'Не удалось извлечь текст из файла',
+  'document.processed':
+    '✅ Файл "{fileName}" обработан ({count} символов).\nПродолжайте или нажмите кнопку:',
+  'document.failed': '❌ Не удалось обработать файл: {error}',
+  'document.error.legacyDoc':
+    'Старый формат .doc не поддерживается. Сохраните файл как DOCX или PDF.',
+  'document.error.corrupted':
+    'Файл повреждён или не соответствует своему формату.',
+  'document.error.unsupported':
+    'Неподдерживаемый формат файла. Отправьте PDF или DOCX.',
+  'document.error.docxUnreadable':
+    'Не удалось прочитать DOCX файл. Возможно, он повреждён.',
+  'document.error.docxEmpty': 'DOCX файл не содержит текста.',
+  'document.error.pdfEncrypted':
+    'PDF защищён паролем. Снимите защиту или отправьте текст сообщением.',
+  'document.error.pdfScanned':
+    'PDF похож на скан без текстового слоя. Отправьте текстовую версию или скопируйте текст в сообщение.',
+  'document.error.pdfEmpty': 'PDF не содержит текста.',
+  'document.error.ocrUnavailable': 'Распознавание изображений недоступно.',
+  'document.error.ocrFailed':
+    'Не удалось распознать текст на изображении. Попробуйте более чёткий снимок.',
+  'photo.recognizing': '⏳ Распознаю текст на изображении...',
+  'photo.recognized':
+    '🔍 Распознанный текст ({count} символов):\n\n{preview}\n\nДобавить его?',
+  'photo.add': '✅ Добавить',
+  'photo.cancel': '❌ Отменить',
+  'photo.failed': '❌ Не удалось обработать изображение: {error}',
+  'photo.nothingToAdd': '❌ Нет распознанного текста для добавления.',
+  'photo.notCollecting':
+    '❌ Сначала используйте /send_resume или /send_job_ad, затем снова нажмите «Добавить». Распознанный текст сохранён.',
+  'photo.added':
+    '✅ Текст с изображения добавлен ({count} символов).\nПродолжайте или нажмите кнопку:',
+  'photo.discarded':
+    '🗑️ Распознанный текст отброшен. Можно отправить другое изображение или текст.',
+
+  // Job ad library
+  'jobs.empty':
+    '💼 У вас пока нет сохранённых вакансий. Используйте /send_job_ad, чтобы добавить первую.',
+  'jobs.list':
+    '💼 Ваши вакансии ({count}):\n\n{lines}\n\n▶️ — активная вакансия, она используется для анализа.',
+  'jobs.new': '➕ Новая вакансия',
+  'jobs.selected':
+    '▶️ Активная вакансия: «{title}». Она будет использоваться в /analyze_match.',
+  'jobs.notFound': '❌ Вакансия не найдена.',
+  'jobs.notFoundReopen':
+    '❌ Вакансия не найдена. Откройте список заново: /jobs',
+  'jobs.deletePrompt': '🗑️ Удалить вакансию «{title}»?',
+  'jobs.deleted': '🗑️ Вакансия удалена.',
+  'jobs.toList': '💼 К списку вакансий',
+  'jobs.entry':
+    '📌 {title}{active}\n🕐 Добавлена: {date}\n{characters}\n\n{preview}',
+  'jobs.renamed': '✅ Вакансия переименована: «{title}».',
+  'jobs.defaultTitle': 'Вакансия {index}',
+  'jobs.full':
+    '❌ У вас уже {limit} сохранённых вакансий — это максимум. Удалите одну в /jobs, чтобы добавить новую.',
+
+  // Resume library
+  'resumes.empty':
+    '📄 У вас пока нет сохранённых резюме. Используйте /send_resume, чтобы добавить первое.',
+  'resumes.list':
+    '📄 Версии резюме ({count}):\n\n{lines}\n\n▶️ — активная версия, она используется для анализа и /send_resume.',
+  'resumes.new': '➕ Новая версия',
+  'resumes.selected':
+    '▶️ Активная версия: «{title}». Она будет использоваться в /analyze_match.',
+  'resumes.notFound': '❌ Версия резюме не найдена.',
+  'resumes.notFoundReopen':
+    '❌ Версия резюме не найдена. Откройте список заново: /resumes',
+  'resumes.duplicated':
+    '📑 Создана копия «{title}», она стала активной. Дополните её через /send_resume или переименуйте.',
+  'resumes.duplicate': '📑 Дублировать',
+  'resumes.deletePrompt': '🗑️ Удалить версию резюме «{title}»?',
+  'resumes.deleted': '🗑️ Версия резюме удалена.',
+  'resumes.toList': '📄 К списку версий',
+  'resumes.entry':
+    '📄 {title}{active}\n🕐 Изменена: {date}\n{characters}\n\n{preview}',
+  'resumes.renamed': '✅ Версия резюме переименована: «{title}».',
+  'resumes.firstTitle': 'Основное резюме',
+  'resumes.defaultTitle': 'Резюме {index}',
+  'resumes.full':
+    '❌ У вас уже {limit} версий резюме — это максимум. Удалите одну в /resumes, чтобы добавить новую.',
+
+  // Logs
+  'logs.failed': '❌ Не удалось получить логи. Попробуйте позже.',
+  'admin.statsUsage': '❌ Использование: /stats [часы], от 1 до 720 часов.',
+  'admin.userIdRequired':
+    '❌ Укажите числовой ID пользователя Telegram, например /session 123456789',
+  'admin.sessionNotFound': 'ℹ️ У пользователя {userId} нет сессии.',
+  'admin.sessionReset': '✅ Сессия пользователя {userId} сброшена.',
+
+  // Structured resume and job ad
+  'resume.processing':
+    '⏳ Обрабатываю ваше резюме... Это может занять несколько секунд.',
+  'resume.structured': '📋 Структурированное резюме:\n\n{resume}',
+  'resume.failed':
+    '❌ Не удалось обработать резюме: {error}. Пожалуйста, попробуйте позже.',
+  'resume.notFound': 'Резюме не найдено',
+  'resume.desiredPositions': '🎯 Желаемые позиции:',
+  'resume.summary': '📝 Краткое резюме:',
+  'resume.skills': '🛠️ Навыки:',
+  'resume.experience': '💼 Опыт работы:',
+  'resume.education': '🎓 Образование:',
+  'resume.languages': '🌍 Языки:',
+  'resume.skillLevel.beginner': 'начальный',
+  'resume.skillLevel.intermediate': 'средний',
+  'resume.skillLevel.advanced': 'продвинутый',
+  'resume.skillLevel.expert': 'эксперт',
+  'resume.present': 'по настоящее время',
+  'resume.raw':
+    '🔍 Сырой текст резюме (для отладки)\n\n📊 Статистика:\n• Символов: {characters}\n• Слов: {words}',
+  'resume.rawText': '\n\n📄 Текст:\n\n{text}',
+  'resume.cleared':
+    '🗑️ Данные резюме очищены. Теперь вы можете загрузить новое резюме с помощью /send_resume',
+  'resume.clearFailed': '❌ Не удалось очистить данные резюме.',
+  'jobAd.processing':
+    '⏳ Обрабатываю вакансию... Это может занять несколько секунд.',
+  'jobAd.structured': '📋 Структурированная вакансия:\n\n{jobAd}',
+  'jobAd.failed':
+    '❌ Не удалось обработать вакансию: {error}. Пожалуйста, попробуйте позже.',
+  'jobAd.notFound': 'Вакансия не найдена',
+  'jobAd.untitled': 'Без названия',
+  'jobAd.level': '📈 Уровень: {level}',
+  'jobAd.seniority.intern': 'стажёр',
+  'jobAd.seniority.junior': 'junior',
+  'jobAd.seniority.middle': 'middle',
+  'jobAd.seniority.senior': 'senior',
+  'jobAd.seniority.lead': 'lead',
+  'jobAd.seniority.principal': 'principal',
+  'jobAd.seniority.unknown': 'не указано',
+  'jobAd.remote.onsite': 'офис',
+  'jobAd.remote.hybrid': 'гибрид',
+  'jobAd.remote.remote': 'удалённо',
+  'jobAd.remote.unknown': 'не указано',
+  'jobAd.salaryFrom': 'от {amount}',
+  'jobAd.salaryTo': 'до {amount}',
+  'jobAd.salaryPeriod.hour': 'в час',
+  'jobAd.salaryPeriod.month': 'в месяц',
+  'jobAd.salaryPeriod.year': 'в год',
+  'jobAd.salaryGross': '(до вычета налогов)',
+  'jobAd.salaryNet': '(на руки)',
+  'jobAd.mustHave': '✅ Обязательные требования:',
+  'jobAd.niceToHave': '➕ Будет плюсом:',
+  'jobAd.responsibilities': '🧩 Обязанности:',
+
+  // Match analysis
+  'match.processing':
+    '⏳ Сравниваю резюме с вакансией... Это может занять несколько секунд.',
+  'match.title': '📊 Анализ соответствия',
+  'match.score': '🎯 Общая оценка: {score}/100',
+  'match.matched': '✅ Совпадающие требования:',
+  'match.missing': '❌ Недостающие требования:',
+  'match.suggestions': '💡 Рекомендации:',
+  'match.failed':
+    '❌ Не удалось выполнить анализ: {error}. Пожалуйста, попробуйте позже.',
+
+  // Cover letter
+  'coverLetter.chooseTone':
+    '✉️ Сопроводительное письмо для активной вакансии.\n\n1️⃣ Выберите тон письма:',
+  'coverLetter.chooseLanguage': '2️⃣ Выберите язык письма:',
+  'coverLetter.chooseLength': '3️⃣ Выберите объём письма:',
+  'coverLetter.tone.formal': '🎩 Официальный',
+  'coverLetter.tone.friendly': '😊 Дружелюбный',
+  'coverLetter.tone.concise': '⚡ Лаконичный',
+  'coverLetter.language.ru': '🇷🇺 Русский',
+  'coverLetter.language.en': '🇬🇧 English',
+  'coverLetter.length.short': 'Короткое',
+  'coverLetter.length.medium': 'Среднее',
+  'coverLetter.length.long': 'Подробное',
+  'coverLetter.caption': '✉️ Сопроводительное письмо',
+  'coverLetter.notFound': '❌ Письмо не найдено. Начните заново: /cover_letter',
+  'coverLetter.generating':
+    '⏳ Пишу сопроводительное письмо... Это может занять несколько секунд.',
+  'coverLetter.failed':
+    '❌ Не удалось написать письмо: {error}. Пожалуйста, попробуйте позже.',
+  'coverLetter.saved': '✅ Письмо сохранено. Новое письмо: /cover_letter',
+  'coverLetter.revising': '⏳ Вношу изменения в письмо...',
+  'coverLetter.reviseFailed':
+    '❌ Не удалось изменить письмо: {error}. Попробуйте сформулировать иначе.',
+  'coverLetter.revision': ' (правка {count})',
+  'coverLetter.letter':
+    '✉️ Сопроводительное письмо{version}\n{options}\n\n{text}\n\n✏️ Напишите, что изменить (например: «сделай короче» или «упомяни Kubernetes»), или скажите "готово".',
+  'coverLetter.downloadTxt': '📄 Скачать .txt',
+  'coverLetter.downloadMd': '📝 Скачать .md',
+  'coverLetter.otherOptions': '🔄 Другие параметры',
+
+  // Resume tailoring
+  'tailor.processing':
+    '⏳ Подбираю формулировки под вакансию... Это может занять до минуты.',
+  'tailor.noSuggestions':
+    '👍 Формулировки резюме уже хорошо соответствуют вакансии, предложений нет.',
+  'tailor.noBullets':
+    '❌ В резюме не найдено пунктов с достижениями в опыте работы. Добавьте их и попробуйте снова.',
+  'tailor.found': {
+    one: '✨ Найдено {count} предложение. Примите или отклоните его — принятые изменения сохранятся как новая версия резюме, текущая версия «{title}» не изменится.',
+    few: '✨ Найдено {count} предложения. Примите или отклоните каждое — принятые изменения сохранятся как новая версия резюме, текущая версия «{title}» не изменится.',
+    many: '✨ Найдено {count} предложений. Примите или отклоните каждое — принятые изменения сохранятся как новая версия резюме, текущая версия «{title}» не изменится.',
+    other:
+      '✨ Найдено предложений: {count}. Примите или отклоните каждое — принятые изменения сохранятся как новая версия резюме, текущая версия «{title}» не изменится.',
+  },
+  'tailor.failed':
+    '❌ Не удалось подготовить предложения: {error}. Пожалуйста, попробуйте позже.',
+  'tailor.expired': '❌ Предложения устарели. Запустите заново: /tailor_resume',
+  'tailor.cancelled': '🗑️ Предложения отменены, резюме не изменено.',
+  'tailor.suggestion': '✏️ Предложение {number}/{total}',
+  'tailor.before': '➖ Было:',
+  'tailor.after': '➕ Стало:',
+  'tailor.changes': '🔍 Изменения:',
+  'tailor.accept': '✅ Принять',
+  'tailor.reject': '❌ Отклонить',
+  'tailor.allRejected': '📋 Все предложения отклонены, резюме не изменено.',
+  'tailor.summary':
+    '📋 Принято изменений: {count} из {total}.\n\n{changes}\n\nСохранить их как новую версию резюме?',
+  'tailor.saveButton': '💾 Сохранить новую версию',
+  'tailor.cancelButton': '🗑️ Отменить',
+  'tailor.defaultResumeTitle': 'Резюме',
+  'tailor.defaultJobTitle': 'вакансия',
+  'tailor.saved':
+    '💾 Сохранена новая версия «{title}», она стала активной. Предыдущая версия доступна в /resumes.\n\nПроверить соответствие: /analyze_match',
+
+  // Interview preparation
+  'prep.processing':
+    '⏳ Готовлю вопросы для собеседования... Это может занять до минуты.',
+  'prep.failed':
+    '❌ Не удалось подготовить вопросы: {error}. Пожалуйста, попробуйте позже.',
+  'prep.expired': '❌ Вопросы устарели. Сгенерируйте заново: /interview_prep',
+  'prep.title': '🎤 Подготовка к собеседованию{jobTitle}\nТема {page}/{total}',
+  'prep.evidence': '📎 Опора в резюме: {evidence}',
+  'prep.noEvidence':
+    '⚠️ В резюме нет прямого подтверждения — подготовьте пример заранее',
+  'prep.legend': '🛠️ — технический вопрос, 🤝 — поведенческий',
+  'prep.previous': '⬅️ Назад',
+  'prep.next': 'Далее ➡️',
+
+  // Mock interview
+  'mock.preparing': '⏳ Готовлю собеседование...',
+  'mock.started':
+    '🎙️ Пробное собеседование{jobTitle}\n\nЯ задам до {count} вопросов по одному и оценю каждый ответ. Отвечайте так, как ответили бы на настоящем собеседовании. Завершить досрочно: /stop_interview\n\n❓ Вопрос 1/{count}:\n{question}',
+  'mock.startFailed':
+    '❌ Не удалось начать собеседование: {error}. Пожалуйста, попробуйте позже.',
+  'mock.evaluating': '⏳ Оцениваю ответ...',
+  'mock.score': '📊 Оценка: {score}/10',
+  'mock.question': '❓ Вопрос {number}/{total}:\n{question}',
+  'mock.answerFailed':
+    '❌ Не удалось оценить ответ. Отправьте его ещё раз или завершите собеседование: /stop_interview',
+  'mock.notRunning':
+    'ℹ️ Сейчас нет активного собеседования. Начать: /mock_interview',
+  'mock.stopped':
+    '🛑 Собеседование остановлено. Начать заново: /mock_interview',
+  'mock.finished':
+    '🏁 Собеседование завершено!\n\n🎯 Средняя оценка: {average}/10\n\n{scores}\n\n⏳ Готовлю разбор...',
+  'mock.debrief': '📝 Разбор собеседования\n\n{debrief}',
+  'mock.debriefFailed':
+    '❌ Не удалось подготовить разбор, но оценки по вопросам сохранены выше.',
+
+  // Export
+  'export.usage': '❌ Формат: /export [resume|match|cover] [pdf|html|md]',
+  'export.choose': '📤 Что экспортировать?',
+  'export.chooseFormat': '📤 Выберите формат файла:',
+  'export.nothing':
+    'ℹ️ Пока нечего экспортировать. Сначала структурируйте резюме (/structure_my_resume), проведите анализ соответствия (/analyze_match) или напишите сопроводительное письмо (/cover_letter).',
+  'export.kind.resume': '📄 Резюме',
+  'export.kind.match': '📊 Анализ соответствия',
+  'export.kind.cover': '✉️ Сопроводительное письмо',
+  'export.format.pdf': 'PDF',
+  'export.format.html': 'HTML',
+  'export.format.md': 'Markdown',
+  'export.resumeNotFound':
+    '❌ Структурированного резюме пока нет. Сначала выполните /structure_my_resume',
+  'export.matchNotFound':
+    '❌ Анализа соответствия пока нет. Сначала выполните /analyze_match',
+  'export.coverNotFound':
+    '❌ Сопроводительного письма пока нет. Напишите его: /cover_letter',
+  'export.caption': '📤 {title}',
+  'export.failed': '❌ Не удалось создать файл. Попробуйте позже.',
+  'export.resume.title': 'Резюме',
+  'export.resume.summary': 'О себе',
+  'export.resume.skills': 'Навыки',
+  'export.resume.experience': 'Опыт работы',
+  'export.resume.education': 'Образование',
+  'export.resume.languages': 'Языки',
+  'export.match.title': 'Анализ соответствия',
+  'export.match.score': 'Общая оценка: {score}/100',
+  'export.match.matched': 'Совпадающие требования',
+  'export.match.missing': 'Недостающие требования',
+  'export.match.suggestions': 'Рекомендации',
+  'export.cover.title': 'Сопроводительное письмо',
+  'export.footer': 'Создано {date}',
+};
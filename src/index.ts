@@ -5,7 +5,14 @@
  * that analyzes resume-job description compatibility using AI.
  */
 
+import { loadAppConfig } from './container/app-config';
 import { createServices } from './container/service-container';
+import { AdminApiHandler } from './handlers/admin-api';
+import { TelegramService } from './services/telegram';
+import { TelegramApiClient } from './services/telegram-client';
+import { CloudflareAIService } from './types/ai';
+import { AppConfig } from './types/config';
+import { jsonResponse, RouteParams, Router } from './utils/router';
 
 export interface Env {
   // Telegram Configuration
@@ -14,39 +21,23 @@ export interface Env {
   // Cloudflare Workers Configuration
   SESSIONS: KVNamespace;
   LOGS_DB?: D1Database;
-  AI?: any; // Cloudflare AI binding for PDF processing
+  AI?: CloudflareAIService; // Cloudflare AI binding for PDF processing and analysis
 
   // Environment Configuration
   ENVIRONMENT?: string;
   WEBHOOK_SECRET?: string;
-}
+  ADMIN_API_TOKEN?: string; // Bearer token for the /admin API
 
-/**
- * Get bot username based on environment
- */
-function getBotUsername(environment: string): string {
-  switch (environment) {
-    case 'staging':
-      return 'job_search_help_staging_bot';
-    case 'production':
-      return 'job_search_help_bot';
-    default:
-      return 'development_bot';
-  }
-}
-
-/**
- * Get worker name based on environment
- */
-function getWorkerName(environment: string): string {
-  switch (environment) {
-    case 'staging':
-      return 'help-with-job-search-telegram-bot-staging';
-    case 'production':
-      return 'help-with-job-search-telegram-bot';
-    default:
-      return 'help-with-job-search-telegram-bot-dev';
-  }
+  // Overrides for config.json values
+  BOT_USERNAME?: string;
+  WORKER_NAME?: string;
+  AI_MODEL?: string;
+  SESSION_TIMEOUT_HOURS?: string;
+  MAX_FILE_SIZE_MB?: string;
+  RATE_LIMIT_PER_MINUTE?: string;
+  AI_RATE_LIMIT_PER_MINUTE?: string;
+  DEBUG_LOGGING?: string;
+  ADMIN_USER_IDS?: string; // Comma-separated Telegram user IDs
 }
 
 // Configuration now handled by service container
@@ -64,6 +55,222 @@ async function initializeServices(env: Env) {
   return services;
 }
 
+/**
+ * Health check endpoint
+ */
+async function handleHealth(request: Request, env: Env): Promise<Response> {
+  const url = new URL(request.url);
+
+  const appConfig = loadAppConfig(env);
+  const environment = appConfig.environment;
+
+  // Build configuration object for validation
+  const configuration = {
+    environment,
+    telegram: {
+      botUsername: appConfig.worker.botUsername,
+      webhookUrl: `${url.origin}/webhook`,
+      webhookSecretPresent: !!env.WEBHOOK_SECRET,
+    },
+    infrastructure: {
+      workerName: appConfig.worker.name,
+      workerUrl: url.origin,
+    },
+    security: {
+      authRequired: true,
+      debugLogging: appConfig.application.debugLogging,
+    },
+  };
+
+  return new Response(
+    JSON.stringify({
+      status: 'healthy',
+      timestamp: new Date().toISOString(),
+      message: 'Simplified bot is running',
+      configuration,
+    }),
+    {
+      headers: { 'Content-Type': 'application/json' },
+    }
+  );
+}
+
+/**
+ * Environment validation endpoint
+ */
+async function handleValidateEnvironment(
+  _request: Request,
+  env: Env
+): Promise<Response> {
+  const environment = env.ENVIRONMENT || 'development';
+
+  // Validate config.json with the environment overrides
+  let configuration = { status: 'success', message: 'Valid' };
+  let appConfig: AppConfig | null = null;
+  try {
+    appConfig = loadAppConfig(env);
+  } catch (error) {
+    configuration = { status: 'error', message: String(error) };
+  }
+
+  // Test Telegram connectivity by asking the Bot API who the token belongs to
+  let telegramConnectivity = {
+    status: 'warning',
+    message: 'No token configured',
+  };
+  if (env.TELEGRAM_BOT_TOKEN) {
+    const bot = await new TelegramService(
+      new TelegramApiClient(env.TELEGRAM_BOT_TOKEN)
+    )
+      .getMe()
+      .catch((error: unknown) => {
+        console.error('getMe failed:', error);
+        return null;
+      });
+    if (!bot) {
+      telegramConnectivity = {
+        status: 'error',
+        message: 'getMe failed; check TELEGRAM_BOT_TOKEN',
+      };
+    } else if (appConfig && bot.username !== appConfig.worker.botUsername) {
+      telegramConnectivity = {
+        status: 'warning',
+        message: `Token belongs to @${bot.username}, config expects @${appConfig.worker.botUsername}`,
+      };
+    } else {
+      telegramConnectivity = {
+        status: 'success',
+        message: `Connected as @${bot.username}`,
+      };
+    }
+  }
+
+  // Test OpenAI connectivity (simple check)
+  let openaiConnectivity = { status: 'unknown', message: 'Not tested' };
+  try {
+    // We don't have direct access to OpenAI token in this simplified version
+    openaiConnectivity = {
+      status: 'info',
+      message: 'OpenAI not configured in this version',
+    };
+  } catch (error) {
+    openaiConnectivity = { status: 'error', message: String(error) };
+  }
+
+  // The webhook refuses every update until its secret is set
+  const webhookAccessibility = env.WEBHOOK_SECRET
+    ? { status: 'success', message: 'Endpoint accessible' }
+    : {
+        status: 'error',
+        message: 'WEBHOOK_SECRET is not set; updates are rejected',
+      };
+
+  const validation = {
+    overallStatus:
+      configuration.status === 'success'
+        ? webhookAccessibility.status
+        : configuration.status,
+    validation: {
+      configuration,
+      telegramConnectivity,
+      openaiConnectivity,
+      webhookAccessibility,
+    },
+    recommendations: [] as string[],
+  };
+
+  // Add recommendations based on environment
+  if (environment === 'staging') {
+    validation.recommendations.push('Test bot commands after deployment');
+    validation.recommendations.push('Verify webhook is properly configured');
+  }
+
+  return new Response(JSON.stringify(validation), {
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+/**
+ * Bot menu for setMyCommands, generated from the command registry
+ */
+async function handleCommands(_request: Request, env: Env): Promise<Response> {
+  const { commandRegistry, i18nService } = await initializeServices(env);
+  const commands = Object.fromEntries(
+    i18nService
+      .getSupportedLocales()
+      .map((locale) => [
+        locale,
+        commandRegistry.getMenuCommands(i18nService.getTranslator(locale)),
+      ])
+  );
+
+  return new Response(
+    JSON.stringify({
+      defaultLanguage: i18nService.resolveLocale(),
+      commands,
+    }),
+    {
+      headers: { 'Content-Type': 'application/json' },
+    }
+  );
+}
+
+/**
+ * Telegram webhook endpoint
+ */
+async function handleWebhook(request: Request, env: Env): Promise<Response> {
+  const services = await initializeServices(env);
+  return await services.webhookHandler.handleWebhook(request);
+}
+
+/**
+ * Admin API endpoint behind bearer token authentication
+ */
+function adminRoute(
+  endpoint: (
+    handler: AdminApiHandler,
+    url: URL,
+    params: RouteParams
+  ) => Promise<Response>
+) {
+  return async (
+    request: Request,
+    env: Env,
+    params: RouteParams
+  ): Promise<Response> => {
+    const { adminApiHandler } = await initializeServices(env);
+    return adminApiHandler.handle(request, params, (url, routeParams) =>
+      endpoint(adminApiHandler, url, routeParams)
+    );
+  };
+}
+
+const router = new Router<Env>()
+  .all('/health', handleHealth)
+  .all('/validate-environment', handleValidateEnvironment)
+  .all('/commands', handleCommands)
+  .all('/webhook', handleWebhook)
+  .get(
+    '/admin/logs',
+    adminRoute((handler, url) => handler.listLogs(url))
+  )
+  .get(
+    '/admin/logs/summary',
+    adminRoute((handler, url) => handler.getLogSummary(url))
+  )
+  .post(
+    '/admin/logs/cleanup',
+    adminRoute((handler, url) => handler.cleanupLogs(url))
+  )
+  .get(
+    '/admin/sessions/:userId',
+    adminRoute((handler, url, params) => handler.getSession(url, params))
+  )
+  .delete(
+    '/admin/sessions/:userId',
+    adminRoute((handler, url, params) => handler.resetSession(url, params))
+  );
+
 /**
  * Main Worker request handler
  */
@@ -74,124 +281,16 @@ export default {
     _ctx: ExecutionContext
   ): Promise<Response> {
     try {
-      const url = new URL(request.url);
-
-      // Health check endpoint
-      if (url.pathname === '/health') {
-        // Get environment from wrangler vars or default to development
-        const environment = env.ENVIRONMENT || 'development';
-
-        // Build configuration object for validation
-        const configuration = {
-          environment,
-          telegram: {
-            botUsername: getBotUsername(environment),
-            webhookUrl: `${url.origin}/webhook`,
-            webhookSecretPresent: !!env.WEBHOOK_SECRET,
-          },
-          infrastructure: {
-            workerName: getWorkerName(environment),
-            workerUrl: url.origin,
-          },
-          security: {
-            authRequired: true,
-            debugLogging:
-              environment === 'staging' || environment === 'development',
-          },
-        };
-
-        return new Response(
-          JSON.stringify({
-            status: 'healthy',
-            timestamp: new Date().toISOString(),
-            message: 'Simplified bot is running',
-            configuration,
-          }),
-          {
-            headers: { 'Content-Type': 'application/json' },
-          }
-        );
-      }
-
-      // Environment validation endpoint
-      if (url.pathname === '/validate-environment') {
-        const environment = env.ENVIRONMENT || 'development';
-
-        // Test Telegram connectivity (simple check)
-        let telegramConnectivity = { status: 'unknown', message: 'Not tested' };
-        try {
-          if (env.TELEGRAM_BOT_TOKEN) {
-            telegramConnectivity = {
-              status: 'success',
-              message: 'Token present',
-            };
-          } else {
-            telegramConnectivity = {
-              status: 'warning',
-              message: 'No token configured',
-            };
-          }
-        } catch (error) {
-          telegramConnectivity = { status: 'error', message: String(error) };
-        }
-
-        // Test OpenAI connectivity (simple check)
-        let openaiConnectivity = { status: 'unknown', message: 'Not tested' };
-        try {
-          // We don't have direct access to OpenAI token in this simplified version
-          openaiConnectivity = {
-            status: 'info',
-            message: 'OpenAI not configured in this version',
-          };
-        } catch (error) {
-          openaiConnectivity = { status: 'error', message: String(error) };
-        }
-
-        // Test webhook accessibility
-        let webhookAccessibility = {
-          status: 'success',
-          message: 'Endpoint accessible',
-        };
-
-        const validation = {
-          overallStatus: 'success',
-          validation: {
-            telegramConnectivity,
-            openaiConnectivity,
-            webhookAccessibility,
-          },
-          recommendations: [] as string[],
-        };
-
-        // Add recommendations based on environment
-        if (environment === 'staging') {
-          validation.recommendations.push('Test bot commands after deployment');
-          validation.recommendations.push(
-            'Verify webhook is properly configured'
-          );
-        }
-
-        return new Response(JSON.stringify(validation), {
-          headers: { 'Content-Type': 'application/json' },
-        });
-      }
-
-      // Telegram webhook endpoint
-      if (url.pathname === '/webhook') {
-        const services = await initializeServices(env);
-        return await services.webhookHandler.handleWebhook(request);
-      }
+      const response = await router.handle(request, env);
+      if (response) return response;
 
       // Default response for unhandled routes
-      return new Response(
-        JSON.stringify({
+      return jsonResponse(
+        {
           error: 'Not Found',
           message: 'The requested endpoint was not found.',
-        }),
-        {
-          status: 404,
-          headers: { 'Content-Type': 'application/json' },
-        }
+        },
+        404
       );
     } catch (error) {
       console.error('Worker error:', error);
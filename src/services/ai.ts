@@ -0,0 +1,210 @@
+/**
+ * Thin wrapper around the Cloudflare AI binding for text generation
+ */
+
+import { CloudflareAIService, JsonSchema, ValidationResult } from '../types/ai';
+import { AIConfig } from '../types/config';
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface ChatOptions {
+  maxTokens?: number;
+  temperature?: number;
+}
+
+export interface StructuredOptions extends ChatOptions {
+  maxRepairAttempts?: number;
+}
+
+// Text model response interface; JSON mode may return a parsed object
+interface TextGenerationResult {
+  response?: string | Record<string, unknown>;
+}
+
+export const DEFAULT_TEXT_MODEL = '@cf/meta/llama-3.1-8b-instruct';
+
+const DEFAULT_AI_CONFIG: AIConfig = {
+  model: DEFAULT_TEXT_MODEL,
+  maxTokens: 1024,
+  temperature: 0.3,
+  requestTimeoutSeconds: 30,
+};
+
+export type AIErrorReason = 'unavailable' | 'invalidResponse';
+
+/**
+ * The model is not configured or returned unusable output; the handler
+ * shows a localized message for the reason
+ */
+export class AIError extends Error {
+  readonly reason: AIErrorReason;
+
+  constructor(reason: AIErrorReason, message: string) {
+    super(message);
+    this.name = 'AIError';
+    this.reason = reason;
+  }
+}
+
+export class AIService {
+  private ai: CloudflareAIService | undefined;
+  private config: AIConfig;
+
+  /**
+   * config supplies the model, the defaults for options services leave
+   * out and the request timeout
+   */
+  constructor(ai?: CloudflareAIService, config: AIConfig = DEFAULT_AI_CONFIG) {
+    this.ai = ai;
+    this.config = config;
+  }
+
+  /**
+   * Check whether the AI binding is configured
+   */
+  isAvailable(): boolean {
+    return !!this.ai;
+  }
+
+  /**
+   * Run a chat completion and return the generated text
+   */
+  async chat(
+    messages: ChatMessage[],
+    options: ChatOptions = {}
+  ): Promise<string> {
+    const response = await this.run(messages, options);
+    return typeof response === 'string' ? response : JSON.stringify(response);
+  }
+
+  /**
+   * Generate JSON constrained by a schema, validate it and ask the model to
+   * repair invalid output. Falls back to the locally repaired value when the
+   * model cannot fix the remaining problems.
+   */
+  async generateStructured<T>(
+    messages: ChatMessage[],
+    schema: JsonSchema,
+    validate: (raw: unknown) => ValidationResult<T>,
+    options: StructuredOptions = {}
+  ): Promise<T> {
+    const maxRepairAttempts = options.maxRepairAttempts ?? 2;
+    const conversation = [...messages];
+    let lastResult: ValidationResult<T> = { errors: ['No output'] };
+
+    for (let attempt = 0; attempt <= maxRepairAttempts; attempt++) {
+      const response = await this.run(conversation, options, schema);
+      const rawText =
+        typeof response === 'string' ? response : JSON.stringify(response);
+
+      try {
+        const raw =
+          typeof response === 'string'
+            ? AIService.extractJson(response)
+            : response;
+        lastResult = validate(raw);
+      } catch (error) {
+        lastResult = { errors: [`Invalid JSON: ${String(error)}`] };
+      }
+
+      if (lastResult.value && lastResult.errors.length === 0) {
+        return lastResult.value;
+      }
+
+      console.warn(
+        `Structured output attempt ${attempt + 1} has problems:`,
+        lastResult.errors
+      );
+
+      conversation.push(
+        { role: 'assistant', content: rawText },
+        {
+          role: 'user',
+          content: `The JSON above does not match the required schema:\n${lastResult.errors
+            .map((e) => `- ${e}`)
+            .join('\n')}\n\nReturn the corrected JSON object only.`,
+        }
+      );
+    }
+
+    if (lastResult.value) {
+      return lastResult.value;
+    }
+
+    throw new AIError('invalidResponse', 'AI returned invalid structured data');
+  }
+
+  private async run(
+    messages: ChatMessage[],
+    options: ChatOptions,
+    schema?: JsonSchema
+  ): Promise<string | Record<string, unknown>> {
+    if (!this.ai) {
+      throw new AIError('unavailable', 'AI service not available');
+    }
+
+    const result = (await this.withTimeout(
+      this.ai.run(this.config.model, {
+        messages,
+        max_tokens: options.maxTokens ?? this.config.maxTokens,
+        temperature: options.temperature ?? this.config.temperature,
+        ...(schema && {
+          response_format: { type: 'json_schema', json_schema: schema },
+        }),
+      })
+    )) as TextGenerationResult | null;
+
+    if (!result?.response) {
+      throw new AIError('invalidResponse', 'Empty response from AI model');
+    }
+
+    return result.response;
+  }
+
+  /**
+   * Give up on a model call after requestTimeoutSeconds
+   */
+  private async withTimeout<T>(request: Promise<T>): Promise<T> {
+    const seconds = this.config.requestTimeoutSeconds;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(
+        () =>
+          reject(
+            new AIError('unavailable', `AI request timed out after ${seconds}s`)
+          ),
+        seconds * 1000
+      );
+    });
+
+    try {
+      return await Promise.race([request, timeout]);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  /**
+   * Extract the first JSON object from model output.
+   * Models often wrap JSON in prose or markdown fences.
+   */
+  static extractJson(text: string): unknown {
+    const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/);
+    const candidate = fenced?.[1] ?? text;
+
+    const start = candidate.indexOf('{');
+    const end = candidate.lastIndexOf('}');
+    if (start === -1 || end <= start) {
+      throw new AIError('invalidResponse', 'AI response does not contain JSON');
+    }
+
+    try {
+      return JSON.parse(candidate.slice(start, end + 1));
+    } catch (error) {
+      throw new AIError('invalidResponse', `Invalid JSON: ${String(error)}`);
+    }
+  }
+}
@@ -0,0 +1,125 @@
+/**
+ * Resume vs job ad match analysis service
+ */
+
+import { MatchAnalysis } from '../types/analysis';
+import { Locale } from '../types/i18n';
+import { AIError, AIService } from './ai';
+import { LOCALE_NAMES, Translator } from './i18n';
+
+// Keep prompts within the model context window
+const MAX_INPUT_CHARS = 6000;
+
+export class MatchAnalysisService {
+  private aiService: AIService;
+
+  constructor(aiService: AIService) {
+    this.aiService = aiService;
+  }
+
+  /**
+   * Compare resume with job ad and return a structured fit report
+   */
+  async analyzeMatch(
+    resumeText: string,
+    jobAdText: string,
+    locale: Locale
+  ): Promise<MatchAnalysis> {
+    const response = await this.aiService.chat(
+      [
+        {
+          role: 'system',
+          content:
+            'You are an experienced technical recruiter. You compare resumes with job descriptions and answer strictly with JSON.',
+        },
+        {
+          role: 'user',
+          content: `Compare the resume with the job ad and evaluate how well the candidate fits.
+
+Answer in ${LOCALE_NAMES[locale]} with a single JSON object of this shape:
+{
+  "overallScore": number from 0 to 100,
+  "summary": "one or two sentences about the overall fit",
+  "matchedRequirements": ["job requirement the resume covers", ...],
+  "missingRequirements": ["job requirement the resume does not cover", ...],
+  "suggestions": ["concrete change to the resume or next step", ...]
+}
+
+JOB AD:
+${jobAdText.slice(0, MAX_INPUT_CHARS)}
+
+RESUME:
+${resumeText.slice(0, MAX_INPUT_CHARS)}`,
+        },
+      ],
+      { maxTokens: 1500, temperature: 0.2 }
+    );
+
+    return this.normalizeAnalysis(AIService.extractJson(response));
+  }
+
+  /**
+   * Validate model output and fill in safe defaults
+   */
+  private normalizeAnalysis(raw: unknown): MatchAnalysis {
+    if (typeof raw !== 'object' || raw === null) {
+      throw new AIError('invalidResponse', 'Invalid analysis format');
+    }
+
+    const data = raw as Record<string, unknown>;
+    const score = Number(data['overallScore']);
+    if (!Number.isFinite(score)) {
+      throw new AIError('invalidResponse', 'Analysis does not contain a score');
+    }
+
+    return {
+      overallScore: Math.min(100, Math.max(0, Math.round(score))),
+      summary: typeof data['summary'] === 'string' ? data['summary'] : '',
+      matchedRequirements: this.toStringList(data['matchedRequirements']),
+      missingRequirements: this.toStringList(data['missingRequirements']),
+      suggestions: this.toStringList(data['suggestions']),
+    };
+  }
+
+  private toStringList(value: unknown): string[] {
+    if (!Array.isArray(value)) return [];
+    return value
+      .filter((item): item is string => typeof item === 'string')
+      .map((item) => item.trim())
+      .filter((item) => item.length > 0);
+  }
+
+  /**
+   * Format analysis for a Telegram message
+   */
+  formatAnalysis(analysis: MatchAnalysis, t: Translator): string {
+    const filled = Math.round(analysis.overallScore / 10);
+    const bar = '🟩'.repeat(filled) + '⬜'.repeat(10 - filled);
+
+    let text = `${t('match.title')}\n\n${t('match.score', { score: analysis.overallScore })}\n${bar}\n`;
+
+    if (analysis.summary) {
+      text += `\n📝 ${analysis.summary}\n`;
+    }
+
+    if (analysis.matchedRequirements.length > 0) {
+      text += `\n${t('match.matched')}\n`;
+      text += analysis.matchedRequirements.map((r) => `• ${r}`).join('\n');
+      text += '\n';
+    }
+
+    if (analysis.missingRequirements.length > 0) {
+      text += `\n${t('match.missing')}\n`;
+      text += analysis.missingRequirements.map((r) => `• ${r}`).join('\n');
+      text += '\n';
+    }
+
+    if (analysis.suggestions.length > 0) {
+      text += `\n${t('match.suggestions')}\n`;
+      text += analysis.suggestions.map((s) => `• ${s}`).join('\n');
+      text += '\n';
+    }
+
+    return text;
+  }
+}
@@ -0,0 +1,98 @@
+/**
+ * Inline keyboard callback router
+ *
+ * Encodes button payloads as "<action>[:<arg>...]" and dispatches pressed
+ * buttons to the handler registered for the action.
+ */
+
+import {
+  CallbackAction,
+  CallbackContext,
+  CallbackHandler,
+  CallbackMatch,
+  CallbackPayloads,
+  CallbackRouteOptions,
+} from '../types/callback';
+
+// Telegram rejects callback_data longer than 64 bytes
+const MAX_CALLBACK_DATA_BYTES = 64;
+const SEPARATOR = ':';
+
+interface CallbackRoute {
+  action: CallbackAction;
+  handler: CallbackHandler;
+  keepKeyboard: (args: string[]) => boolean;
+}
+
+export class CallbackRouter {
+  private routes = new Map<string, CallbackRoute>();
+  private encoder = new TextEncoder();
+
+  /**
+   * Handle every button whose payload starts with the action
+   */
+  register<A extends CallbackAction>(
+    action: A,
+    handler: CallbackHandler,
+    options: CallbackRouteOptions = {}
+  ): this {
+    if (this.routes.has(action)) {
+      throw new Error(`Callback already registered: ${action}`);
+    }
+    this.routes.set(action, {
+      action,
+      handler,
+      keepKeyboard: this.toPredicate(options.keepKeyboard),
+    });
+    return this;
+  }
+
+  /**
+   * Build callback_data for a button
+   */
+  encode<A extends CallbackAction>(
+    action: A,
+    ...args: CallbackPayloads[A]
+  ): string {
+    const parts = args.map(String);
+    if (parts.some((part) => part.includes(SEPARATOR))) {
+      throw new Error(`Callback argument contains "${SEPARATOR}": ${action}`);
+    }
+
+    const data = [action, ...parts].join(SEPARATOR);
+    if (this.encoder.encode(data).length > MAX_CALLBACK_DATA_BYTES) {
+      throw new Error(`Callback data exceeds 64 bytes: ${data}`);
+    }
+    return data;
+  }
+
+  /**
+   * Split callback_data into action and arguments
+   */
+  decode(data: string): { action: string; args: string[] } {
+    const [action = '', ...args] = data.split(SEPARATOR);
+    return { action, args };
+  }
+
+  /**
+   * Find the handler for a pressed button, or null for unknown payloads
+   * (e.g. buttons left over from an earlier version of the bot)
+   */
+  match(data: string, context: CallbackContext): CallbackMatch | null {
+    const { action, args } = this.decode(data);
+    const route = this.routes.get(action);
+    if (!route) return null;
+
+    return {
+      action: route.action,
+      keepKeyboard: route.keepKeyboard(args),
+      run: () => route.handler(context, args),
+    };
+  }
+
+  private toPredicate(
+    option: boolean | ((args: string[]) => boolean) = false
+  ): (args: string[]) => boolean {
+    return typeof option === 'function' ? option : () => option;
+  }
+}
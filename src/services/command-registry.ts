@@ -0,0 +1,201 @@
+/**
+ * Bot command registry
+ *
+ * Single source of truth for commands: dispatch, the /help text and the
+ * setMyCommands menu are all generated from the registered definitions.
+ */
+
+import {
+  CommandContext,
+  CommandDefinition,
+  CommandDispatchResult,
+  ParsedCommand,
+} from '../types/command';
+import { MessageKey } from '../i18n';
+import { BotCommand } from '../types/telegram';
+import { Translator } from './i18n';
+
+// Unknown commands within this edit distance get "did you mean" hints
+const MAX_SUGGESTION_DISTANCE = 2;
+const MAX_SUGGESTIONS = 3;
+
+interface RegisteredCommand {
+  name: string;
+  description: MessageKey;
+  adminOnly: boolean;
+  visibleInMenu: boolean;
+  run: (
+    context: CommandContext,
+    args: string[]
+  ) => Promise<MessageKey | undefined>;
+}
+
+export class CommandRegistry {
+  private commands = new Map<string, RegisteredCommand>();
+  private botUsername: string | undefined;
+
+  constructor(botUsername?: string) {
+    this.botUsername = botUsername?.replace(/^@/, '').toLowerCase();
+  }
+
+  /**
+   * Add a command; its arguments are parsed before the handler runs
+   */
+  register<TArgs = void>(definition: CommandDefinition<TArgs>): this {
+    const name = definition.name.toLowerCase();
+    if (!/^[a-z0-9_]{1,32}$/.test(name)) {
+      throw new Error(`Invalid command name: ${definition.name}`);
+    }
+    if (this.commands.has(name)) {
+      throw new Error(`Command already registered: /${name}`);
+    }
+
+    this.commands.set(name, {
+      name,
+      description: definition.description,
+      adminOnly: definition.adminOnly ?? false,
+      visibleInMenu: definition.visibleInMenu ?? true,
+      run: async (context, args) => {
+        if (!definition.parseArgs) {
+          await definition.handler(context, undefined as TArgs);
+          return undefined;
+        }
+        const parsed = definition.parseArgs(args);
+        if ('error' in parsed) {
+          return parsed.error;
+        }
+        await definition.handler(context, parsed.value);
+        return undefined;
+      },
+    });
+    return this;
+  }
+
+  /**
+   * Split "/cmd@botname arg1 arg2" into its parts, or null for plain text
+   */
+  parse(text: string): ParsedCommand | null {
+    const match = /^\/([a-z0-9_]+)(?:@([a-z0-9_]+))?(?:\s+([\s\S]*))?$/i.exec(
+      text.trim()
+    );
+    if (!match?.[1]) return null;
+
+    const parsed: ParsedCommand = {
+      name: match[1].toLowerCase(),
+      args: match[3]?.trim() ? match[3].trim().split(/\s+/) : [],
+    };
+    if (match[2]) {
+      parsed.botUsername = match[2].toLowerCase();
+    }
+    return parsed;
+  }
+
+  /**
+   * Run the command found in the text
+   */
+  async dispatch(
+    text: string,
+    context: CommandContext
+  ): Promise<CommandDispatchResult> {
+    const parsed = this.parse(text);
+    if (!parsed) {
+      return { status: 'unknown', command: text.trim(), suggestions: [] };
+    }
+
+    if (this.isForOtherBot(parsed)) {
+      return { status: 'ignored' };
+    }
+
+    const command = this.commands.get(parsed.name);
+    if (!command) {
+      return {
+        status: 'unknown',
+        command: parsed.name,
+        suggestions: this.suggest(parsed.name, context.isAdmin),
+      };
+    }
+    if (command.adminOnly && !context.isAdmin) {
+      return { status: 'forbidden', command: command.name };
+    }
+
+    const error = await command.run(context, parsed.args);
+    return error
+      ? { status: 'invalid_args', command: command.name, error }
+      : { status: 'handled' };
+  }
+
+  /**
+   * Closest command names for a mistyped command
+   */
+  suggest(name: string, isAdmin: boolean): string[] {
+    return this.getAvailable(isAdmin)
+      .map((command) => ({
+        name: command.name,
+        distance: command.name.startsWith(name)
+          ? 0
+          : this.editDistance(name, command.name),
+      }))
+      .filter((candidate) => candidate.distance <= MAX_SUGGESTION_DISTANCE)
+      .sort((a, b) => a.distance - b.distance)
+      .slice(0, MAX_SUGGESTIONS)
+      .map((candidate) => candidate.name);
+  }
+
+  /**
+   * "/command - description" lines for the /help text
+   */
+  formatCommandList(t: Translator, isAdmin: boolean): string {
+    return this.getAvailable(isAdmin)
+      .map((command) => `/${command.name} - ${t(command.description)}`)
+      .join('\n');
+  }
+
+  /**
+   * setMyCommands payload in the translator's language
+   */
+  getMenuCommands(t: Translator): BotCommand[] {
+    return this.getAvailable(false)
+      .filter((command) => command.visibleInMenu)
+      .map((command) => ({
+        command: command.name,
+        description: t(command.description).slice(0, 256),
+      }));
+  }
+
+  /**
+   * In groups "/cmd@otherbot" is meant for another bot
+   */
+  private isForOtherBot(parsed: ParsedCommand): boolean {
+    return (
+      !!parsed.botUsername &&
+      !!this.botUsername &&
+      parsed.botUsername !== this.botUsername
+    );
+  }
+
+  private getAvailable(isAdmin: boolean): RegisteredCommand[] {
+    return [...this.commands.values()].filter(
+      (command) => isAdmin || !command.adminOnly
+    );
+  }
+
+  /**
+   * Levenshtein distance between two short strings
+   */
+  private editDistance(a: string, b: string): number {
+    let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+    for (let i = 1; i <= a.length; i++) {
+      const current = [i];
+      for (let j = 1; j <= b.length; j++) {
+        const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+        current[j] = Math.min(
+          (previous[j] ?? 0) + 1,
+          (current[j - 1] ?? 0) + 1,
+          (previous[j - 1] ?? 0) + cost
+        );
+      }
+      previous = current;
+    }
+    return previous[b.length] ?? 0;
+  }
+}
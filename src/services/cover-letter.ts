@@ -0,0 +1,189 @@
+/**
+ * Cover letter generation service
+ */
+
+import {
+  CoverLetter,
+  CoverLetterLanguage,
+  CoverLetterLength,
+  CoverLetterOptions,
+  CoverLetterTone,
+} from '../types/cover-letter';
+import { AIError, AIService, ChatMessage } from './ai';
+
+// Keep prompts within the model context window
+const MAX_INPUT_CHARS = 5000;
+
+export const COVER_LETTER_TONES: readonly CoverLetterTone[] = [
+  'formal',
+  'friendly',
+  'concise',
+];
+
+export const COVER_LETTER_LANGUAGES: readonly CoverLetterLanguage[] = [
+  'ru',
+  'en',
+];
+
+export const COVER_LETTER_LENGTHS: readonly CoverLetterLength[] = [
+  'short',
+  'medium',
+  'long',
+];
+
+const TONE_INSTRUCTIONS: Record<CoverLetterTone, string> = {
+  formal: 'Use a formal, professional business tone.',
+  friendly: 'Use a warm, friendly but still professional tone.',
+  concise: 'Be direct and concise, no filler phrases.',
+};
+
+const LENGTH_WORDS: Record<CoverLetterLength, string> = {
+  short: '80-120',
+  medium: '150-220',
+  long: '250-350',
+};
+
+const LANGUAGE_NAMES: Record<CoverLetterLanguage, string> = {
+  ru: 'Russian',
+  en: 'English',
+};
+
+export class CoverLetterService {
+  private aiService: AIService;
+
+  constructor(aiService: AIService) {
+    this.aiService = aiService;
+  }
+
+  /**
+   * Write a cover letter for the job ad based on the resume
+   */
+  async generate(
+    resumeText: string,
+    jobAdText: string,
+    options: CoverLetterOptions,
+    jobTitle?: string
+  ): Promise<CoverLetter> {
+    const text = await this.aiService.chat(
+      [
+        this.systemMessage(),
+        {
+          role: 'user',
+          content: `Write a cover letter for this job ad based on the candidate's resume.
+
+${this.describeOptions(options)}
+Highlight the candidate's experience that matches the key requirements. Do not invent facts that are not in the resume. Answer with the letter text only, without a subject line or comments.
+
+JOB AD:
+${jobAdText.slice(0, MAX_INPUT_CHARS)}
+
+RESUME:
+${resumeText.slice(0, MAX_INPUT_CHARS)}`,
+        },
+      ],
+      { maxTokens: 1200, temperature: 0.6 }
+    );
+
+    const now = new Date().toISOString();
+    const letter: CoverLetter = {
+      text: this.cleanLetter(text),
+      options,
+      revisions: 0,
+      createdAt: now,
+      updatedAt: now,
+    };
+    if (jobTitle) {
+      letter.jobTitle = jobTitle;
+    }
+    return letter;
+  }
+
+  /**
+   * Rewrite the letter following a user instruction
+   * (e.g. "make it shorter", "mention Kubernetes")
+   */
+  async revise(
+    letter: CoverLetter,
+    instruction: string,
+    resumeText: string
+  ): Promise<CoverLetter> {
+    const text = await this.aiService.chat(
+      [
+        this.systemMessage(),
+        {
+          role: 'user',
+          content: `Here is a cover letter and the candidate's resume. Rewrite the letter following the user's instruction. Keep everything the instruction does not ask to change. ${this.describeOptions(letter.options)}
+Do not invent facts that are not in the resume or the instruction. Answer with the full updated letter text only.
+
+INSTRUCTION:
+${instruction.slice(0, 500)}
+
+LETTER:
+${letter.text}
+
+RESUME:
+${resumeText.slice(0, MAX_INPUT_CHARS)}`,
+        },
+      ],
+      { maxTokens: 1200, temperature: 0.4 }
+    );
+
+    return {
+      ...letter,
+      text: this.cleanLetter(text),
+      revisions: letter.revisions + 1,
+      updatedAt: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * Markdown version of the letter for download
+   */
+  toMarkdown(letter: CoverLetter): string {
+    const heading =
+      letter.options.language === 'en'
+        ? 'Cover letter'
+        : 'Сопроводительное письмо';
+    const title = letter.jobTitle ? `${heading}: ${letter.jobTitle}` : heading;
+    return `# ${title}\n\n${letter.text}\n`;
+  }
+
+  /**
+   * File name for the downloaded letter
+   */
+  getFileName(letter: CoverLetter, extension: 'txt' | 'md'): string {
+    const slug = (letter.jobTitle ?? '')
+      .toLowerCase()
+      .replace(/[^\p{L}\p{N}]+/gu, '_')
+      .replace(/^_+|_+$/g, '')
+      .slice(0, 40);
+    return `cover_letter${slug ? `_${slug}` : ''}.${extension}`;
+  }
+
+  private systemMessage(): ChatMessage {
+    return {
+      role: 'system',
+      content:
+        'You are an experienced career consultant who writes persuasive, honest cover letters tailored to a specific job.',
+    };
+  }
+
+  private describeOptions(options: CoverLetterOptions): string {
+    return `Write in ${LANGUAGE_NAMES[options.language]}. ${TONE_INSTRUCTIONS[options.tone]} Length: ${LENGTH_WORDS[options.length]} words.`;
+  }
+
+  /**
+   * Strip wrappers models sometimes add around the letter
+   */
+  private cleanLetter(text: string): string {
+    const letter = text
+      .trim()
+      .replace(/^```\w*\n?|```$/g, '')
+      .replace(/^(?:here is|вот)[^\n]*:\s*\n/i, '')
+      .trim();
+    if (!letter) {
+      throw new AIError('invalidResponse', 'AI returned an empty cover letter');
+    }
+    return letter;
+  }
+}
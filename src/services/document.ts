@@ -0,0 +1,272 @@
+/**
+ * Document text extraction service
+ */
+
+import { CloudflareAIService } from '../types/ai';
+import { DOCX_DOCUMENT_PATH, extractDocxText } from '../utils/docx-parser';
+import { extractPdfText } from '../utils/pdf-parser';
+import { isZip, listZipEntries } from '../utils/zip';
+
+export type DocumentType = 'pdf' | 'docx';
+
+export const PDF_MIME_TYPE = 'application/pdf';
+export const DOCX_MIME_TYPE =
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+
+// Telegram clients sometimes report these for DOCX/PDF uploads
+const GENERIC_MIME_TYPES = [
+  'application/octet-stream',
+  'application/zip',
+  'application/x-zip-compressed',
+];
+
+// Legacy .doc (OLE compound file) signature
+const OLE_SIGNATURE = [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1];
+
+// Fewer letters than this means the document has no usable text layer
+const MIN_TEXT_LETTERS = 20;
+
+// Image-to-text model used for photos and screenshots
+export const OCR_MODEL = '@cf/llava-hf/llava-1.5-7b-hf';
+
+// Image-to-text model response interface
+interface ImageToTextResult {
+  description?: string;
+}
+
+export type DocumentErrorReason =
+  | 'legacyDoc'
+  | 'corrupted'
+  | 'unsupported'
+  | 'docxUnreadable'
+  | 'docxEmpty'
+  | 'pdfEncrypted'
+  | 'pdfScanned'
+  | 'pdfEmpty'
+  | 'ocrUnavailable'
+  | 'ocrFailed';
+
+/**
+ * The file or image has no readable text; the handler shows a localized
+ * message for the reason
+ */
+export class DocumentError extends Error {
+  readonly reason: DocumentErrorReason;
+
+  constructor(reason: DocumentErrorReason, message: string) {
+    super(message);
+    this.name = 'DocumentError';
+    this.reason = reason;
+  }
+}
+
+export class DocumentService {
+  private ai: CloudflareAIService | undefined;
+
+  constructor(ai?: CloudflareAIService) {
+    this.ai = ai;
+  }
+
+  /**
+   * Check the reported MIME type before downloading the file
+   */
+  isSupportedMimeType(mimeType?: string): boolean {
+    if (!mimeType) return true;
+    return (
+      mimeType === PDF_MIME_TYPE ||
+      mimeType === DOCX_MIME_TYPE ||
+      GENERIC_MIME_TYPES.includes(mimeType)
+    );
+  }
+
+  /**
+   * Detect document type from magic bytes; file names are never trusted
+   */
+  detectDocumentType(content: ArrayBuffer): DocumentType | null {
+    const header = new Uint8Array(content, 0, Math.min(5, content.byteLength));
+
+    if (new TextDecoder().decode(header) === '%PDF-') {
+      return 'pdf';
+    }
+
+    if (isZip(content)) {
+      try {
+        const entries = listZipEntries(content);
+        if (entries.some((entry) => entry.name === DOCX_DOCUMENT_PATH)) {
+          return 'docx';
+        }
+      } catch (error) {
+        console.error('Failed to read ZIP directory:', error);
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Extract text from a supported document (PDF or DOCX).
+   * aiAllowed is asked right before a model call and may veto it.
+   */
+  async extractText(
+    content: ArrayBuffer,
+    fileName: string,
+    mimeType?: string,
+    aiAllowed?: () => Promise<boolean>
+  ): Promise<string> {
+    const type = this.detectDocumentType(content);
+
+    if (type === 'pdf') {
+      return this.extractPdfText(content, fileName, aiAllowed);
+    }
+
+    if (type === 'docx') {
+      return this.extractDocxText(content, fileName);
+    }
+
+    const header = new Uint8Array(content, 0, Math.min(8, content.byteLength));
+    if (OLE_SIGNATURE.every((byte, i) => header[i] === byte)) {
+      throw new DocumentError('legacyDoc', 'Legacy .doc is not supported');
+    }
+
+    // Declared as PDF/DOCX, but the contents say otherwise
+    if (mimeType === PDF_MIME_TYPE || mimeType === DOCX_MIME_TYPE) {
+      throw new DocumentError(
+        'corrupted',
+        'File contents do not match its declared type'
+      );
+    }
+
+    throw new DocumentError('unsupported', 'Unsupported file format');
+  }
+
+  /**
+   * Extract text from a DOCX file, keeping paragraphs, lists and tables
+   */
+  async extractDocxText(
+    content: ArrayBuffer,
+    fileName: string
+  ): Promise<string> {
+    console.log(
+      `DOCX received: ${fileName}, size: ${content.byteLength} bytes`
+    );
+
+    let text: string;
+    try {
+      text = await extractDocxText(content);
+    } catch (error) {
+      console.error('Error parsing DOCX:', error);
+      throw new DocumentError('docxUnreadable', 'Could not read DOCX file');
+    }
+
+    if (!this.hasEnoughText(text)) {
+      throw new DocumentError('docxEmpty', 'DOCX file has no text');
+    }
+
+    return text;
+  }
+
+  /**
+   * Extract text from a PDF file.
+   * Uses Cloudflare AI toMarkdown when available and allowed, otherwise the
+   * built-in parser. Throws a DocumentError for scanned, encrypted or empty PDFs.
+   */
+  async extractPdfText(
+    content: ArrayBuffer,
+    fileName: string,
+    aiAllowed?: () => Promise<boolean>
+  ): Promise<string> {
+    console.log(`PDF received: ${fileName}, size: ${content.byteLength} bytes`);
+
+    const aiText = await this.extractWithAI(
+      content,
+      fileName,
+      'application/pdf',
+      aiAllowed
+    );
+    if (aiText && this.hasEnoughText(aiText)) {
+      return aiText;
+    }
+
+    const parsed = await extractPdfText(content);
+
+    if (parsed.encrypted) {
+      throw new DocumentError('pdfEncrypted', 'PDF is encrypted');
+    }
+
+    if (!this.hasEnoughText(parsed.text)) {
+      throw parsed.hasImages
+        ? new DocumentError('pdfScanned', 'PDF has no text layer')
+        : new DocumentError('pdfEmpty', 'PDF has no text');
+    }
+
+    return parsed.text;
+  }
+
+  /**
+   * Convert a file to Markdown with Cloudflare AI, returning null on failure
+   */
+  private async extractWithAI(
+    content: ArrayBuffer,
+    fileName: string,
+    mimeType: string,
+    aiAllowed?: () => Promise<boolean>
+  ): Promise<string | null> {
+    if (!this.ai?.toMarkdown) {
+      return null;
+    }
+
+    if (aiAllowed && !(await aiAllowed())) {
+      return null;
+    }
+
+    try {
+      const results = await this.ai.toMarkdown([
+        { name: fileName, blob: new Blob([content], { type: mimeType }) },
+      ]);
+      const markdown = results[0]?.data ?? results[0]?.markdown ?? '';
+      return this.stripMarkdownMetadata(markdown).trim() || null;
+    } catch (error) {
+      console.error('AI document conversion failed:', error);
+      return null;
+    }
+  }
+
+  /**
+   * toMarkdown prefixes PDF output with a metadata section; keep only contents
+   */
+  private stripMarkdownMetadata(markdown: string): string {
+    const contentsIndex = markdown.indexOf('## Contents');
+    if (contentsIndex === -1) {
+      return markdown;
+    }
+    return markdown.slice(contentsIndex + '## Contents'.length);
+  }
+
+  private hasEnoughText(text: string): boolean {
+    const letters = text.match(/\p{L}/gu)?.length ?? 0;
+    return letters >= MIN_TEXT_LETTERS;
+  }
+
+  /**
+   * Recognise text on a photo or screenshot with an image-to-text model
+   */
+  async extractImageText(content: ArrayBuffer): Promise<string> {
+    if (!this.ai) {
+      throw new DocumentError('ocrUnavailable', 'AI binding not configured');
+    }
+
+    const result = (await this.ai.run(OCR_MODEL, {
+      image: [...new Uint8Array(content)],
+      prompt:
+        'Transcribe all text visible in this image exactly as written, preserving line breaks and the original language. Output only the transcribed text without any comments.',
+      max_tokens: 2048,
+    })) as ImageToTextResult | null;
+
+    const text = result?.description?.trim() ?? '';
+    if (!this.hasEnoughText(text)) {
+      throw new DocumentError('ocrFailed', 'No text recognized in image');
+    }
+
+    return text;
+  }
+}
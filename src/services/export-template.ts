@@ -0,0 +1,176 @@
+/**
+ * Standard export template
+ *
+ * Plain single-column layout used for every export format. Branded layouts
+ * implement ExportTemplate (or extend this class and override the styles)
+ * and are registered with the ExportService.
+ */
+
+import { ExportBlock, ExportDocument, ExportTemplate } from '../types/export';
+import { PdfTextStyle, PdfWriter } from '../utils/pdf-writer';
+
+export interface PdfStyles {
+  title: PdfTextStyle;
+  subtitle: PdfTextStyle;
+  heading: PdfTextStyle;
+  subheading: PdfTextStyle;
+  meta: PdfTextStyle;
+  paragraph: PdfTextStyle;
+  listItem: PdfTextStyle;
+  footer: PdfTextStyle;
+}
+
+const ACCENT: [number, number, number] = [0.12, 0.31, 0.55];
+const MUTED: [number, number, number] = [0.4, 0.4, 0.4];
+
+export class StandardExportTemplate implements ExportTemplate {
+  readonly id: string = 'standard';
+
+  protected pdfStyles: PdfStyles = {
+    title: { size: 20, bold: true, color: ACCENT, spaceAfter: 2 },
+    subtitle: { size: 12, color: MUTED, spaceAfter: 4 },
+    heading: {
+      size: 13,
+      bold: true,
+      color: ACCENT,
+      spaceBefore: 14,
+      spaceAfter: 4,
+    },
+    subheading: { size: 11, bold: true, spaceBefore: 6 },
+    meta: { size: 9.5, color: MUTED, spaceAfter: 2 },
+    paragraph: { size: 10.5, spaceAfter: 4 },
+    listItem: { size: 10.5, indent: 12, spaceAfter: 1 },
+    footer: { size: 8.5, color: MUTED, spaceBefore: 16 },
+  };
+
+  protected css: string = [
+    'body { font-family: -apple-system, "Segoe UI", Helvetica, Arial, sans-serif; max-width: 760px; margin: 40px auto; padding: 0 16px; color: #222; line-height: 1.5; }',
+    'h1 { color: #1f4f8c; margin-bottom: 0; }',
+    'h2 { color: #1f4f8c; border-bottom: 1px solid #ddd; padding-bottom: 4px; margin-top: 28px; }',
+    'h3 { margin-bottom: 0; }',
+    '.subtitle, .meta, footer { color: #666; }',
+    '.meta { margin-top: 0; font-size: 0.9em; }',
+    'footer { margin-top: 40px; font-size: 0.8em; }',
+  ].join('\n');
+
+  toMarkdown(document: ExportDocument): string {
+    const lines = [`# ${document.title}`];
+    if (document.subtitle) lines.push('', `_${document.subtitle}_`);
+
+    for (const section of document.sections) {
+      if (section.heading) lines.push('', `## ${section.heading}`);
+      for (const block of section.blocks) {
+        lines.push('', ...this.markdownBlock(block));
+      }
+    }
+
+    lines.push('', '---', '', `_${document.footer}_`, '');
+    return lines.join('\n');
+  }
+
+  toHtml(document: ExportDocument): string {
+    const body = [`<h1>${escapeHtml(document.title)}</h1>`];
+    if (document.subtitle) {
+      body.push(`<p class="subtitle">${escapeHtml(document.subtitle)}</p>`);
+    }
+
+    for (const section of document.sections) {
+      body.push('<section>');
+      if (section.heading) {
+        body.push(`<h2>${escapeHtml(section.heading)}</h2>`);
+      }
+      body.push(...section.blocks.map((block) => this.htmlBlock(block)));
+      body.push('</section>');
+    }
+    body.push(`<footer>${escapeHtml(document.footer)}</footer>`);
+
+    return [
+      '<!DOCTYPE html>',
+      `<html lang="${escapeHtml(document.language)}">`,
+      '<head>',
+      '<meta charset="utf-8">',
+      '<meta name="viewport" content="width=device-width, initial-scale=1">',
+      `<title>${escapeHtml(document.title)}</title>`,
+      `<style>\n${this.css}\n</style>`,
+      '</head>',
+      '<body>',
+      ...body,
+      '</body>',
+      '</html>',
+      '',
+    ].join('\n');
+  }
+
+  toPdf(document: ExportDocument): Uint8Array<ArrayBuffer> {
+    const styles = this.pdfStyles;
+    const pdf = new PdfWriter({
+      title: document.title,
+      language: document.language,
+    });
+
+    pdf.text(document.title, styles.title);
+    if (document.subtitle) pdf.text(document.subtitle, styles.subtitle);
+    pdf.rule(ACCENT);
+
+    for (const section of document.sections) {
+      if (section.heading) pdf.text(section.heading, styles.heading);
+      for (const block of section.blocks) {
+        switch (block.type) {
+          case 'paragraph':
+            pdf.text(block.text, styles.paragraph);
+            break;
+          case 'subheading':
+            pdf.text(block.text, styles.subheading);
+            if (block.meta) pdf.text(block.meta, styles.meta);
+            break;
+          case 'list':
+            for (const item of block.items) {
+              pdf.text(`• ${item}`, styles.listItem);
+            }
+            pdf.space(3);
+            break;
+        }
+      }
+    }
+
+    pdf.text(document.footer, styles.footer);
+    return pdf.toBytes();
+  }
+
+  protected markdownBlock(block: ExportBlock): string[] {
+    switch (block.type) {
+      case 'paragraph':
+        return [block.text];
+      case 'subheading':
+        return block.meta
+          ? [`### ${block.text}`, '', `_${block.meta}_`]
+          : [`### ${block.text}`];
+      case 'list':
+        return block.items.map((item) => `- ${item}`);
+    }
+  }
+
+  protected htmlBlock(block: ExportBlock): string {
+    switch (block.type) {
+      case 'paragraph':
+        return `<p>${escapeHtml(block.text).replace(/\n/g, '<br>')}</p>`;
+      case 'subheading':
+        return (
+          `<h3>${escapeHtml(block.text)}</h3>` +
+          (block.meta ? `\n<p class="meta">${escapeHtml(block.meta)}</p>` : '')
+        );
+      case 'list':
+        return `<ul>\n${block.items
+          .map((item) => `<li>${escapeHtml(item)}</li>`)
+          .join('\n')}\n</ul>`;
+    }
+  }
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
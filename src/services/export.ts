@@ -0,0 +1,275 @@
+/**
+ * Document export service
+ *
+ * Turns the structured resume, the latest match report and the cover letter
+ * into layout-neutral documents, then renders them with a template as
+ * Markdown, HTML or PDF files ready for sendDocument.
+ */
+
+import { MessageKey } from '../i18n';
+import { MatchReport } from '../types/analysis';
+import { CoverLetter } from '../types/cover-letter';
+import {
+  ExportBlock,
+  ExportDocument,
+  ExportFormat,
+  ExportKind,
+  ExportSection,
+  ExportTemplate,
+} from '../types/export';
+import { StructuredResume } from '../types/resume';
+import { InputFile } from '../types/telegram';
+import { Translator } from './i18n';
+
+export const EXPORT_KINDS: readonly ExportKind[] = ['resume', 'match', 'cover'];
+export const EXPORT_FORMATS: readonly ExportFormat[] = ['pdf', 'html', 'md'];
+
+const MIME_TYPES: Record<ExportFormat, string> = {
+  md: 'text/markdown',
+  html: 'text/html',
+  pdf: 'application/pdf',
+};
+
+export class ExportService {
+  private templates = new Map<string, ExportTemplate>();
+  private defaultTemplateId: string;
+
+  /**
+   * The first template is the default
+   */
+  constructor(templates: ExportTemplate[]) {
+    const [first] = templates;
+    if (!first) {
+      throw new Error('ExportService needs at least one template');
+    }
+    for (const template of templates) {
+      this.templates.set(template.id, template);
+    }
+    this.defaultTemplateId = first.id;
+  }
+
+  /**
+   * Render a document as a file in the given format
+   */
+  render(
+    document: ExportDocument,
+    format: ExportFormat,
+    templateId: string = this.defaultTemplateId
+  ): InputFile {
+    const template = this.templates.get(templateId);
+    if (!template) {
+      throw new Error(`Unknown export template: ${templateId}`);
+    }
+
+    const content =
+      format === 'pdf'
+        ? template.toPdf(document)
+        : format === 'html'
+          ? template.toHtml(document)
+          : template.toMarkdown(document);
+    return {
+      fileName: `${document.fileName}.${format}`,
+      content,
+      mimeType: MIME_TYPES[format],
+    };
+  }
+
+  resumeDocument(resume: StructuredResume, t: Translator): ExportDocument {
+    const { contacts } = resume;
+    const sections: ExportSection[] = [];
+
+    const contactLines = [
+      contacts.location,
+      contacts.email,
+      contacts.phone,
+      ...contacts.links,
+    ].filter((line): line is string => Boolean(line));
+    if (contactLines.length > 0) {
+      sections.push({ blocks: [{ type: 'list', items: contactLines }] });
+    }
+
+    if (resume.summary) {
+      sections.push({
+        heading: t('export.resume.summary'),
+        blocks: [{ type: 'paragraph', text: resume.summary }],
+      });
+    }
+
+    if (resume.skills.length > 0) {
+      sections.push({
+        heading: t('export.resume.skills'),
+        blocks: [
+          {
+            type: 'list',
+            items: resume.skills.map((skill) =>
+              skill.level
+                ? `${skill.name} (${t(`resume.skillLevel.${skill.level}`)})`
+                : skill.name
+            ),
+          },
+        ],
+      });
+    }
+
+    if (resume.experience.length > 0) {
+      const blocks: ExportBlock[] = [];
+      for (const job of resume.experience) {
+        const text = [job.position, job.company].filter(Boolean).join(' — ');
+        const period = this.formatPeriod(job.startDate, job.endDate, t);
+        blocks.push(
+          period
+            ? { type: 'subheading', text, meta: period }
+            : { type: 'subheading', text }
+        );
+        if (job.description) {
+          blocks.push({ type: 'paragraph', text: job.description });
+        }
+        if (job.achievements.length > 0) {
+          blocks.push({ type: 'list', items: job.achievements });
+        }
+      }
+      sections.push({ heading: t('export.resume.experience'), blocks });
+    }
+
+    if (resume.education.length > 0) {
+      sections.push({
+        heading: t('export.resume.education'),
+        blocks: [
+          {
+            type: 'list',
+            items: resume.education.map((edu) => {
+              const details = [edu.degree, edu.field]
+                .filter(Boolean)
+                .join(', ');
+              return `${edu.institution}${details ? ` — ${details}` : ''}${edu.endDate ? ` (${edu.endDate})` : ''}`;
+            }),
+          },
+        ],
+      });
+    }
+
+    if (resume.languages.length > 0) {
+      sections.push({
+        heading: t('export.resume.languages'),
+        blocks: [
+          {
+            type: 'list',
+            items: resume.languages.map(
+              (lang) =>
+                `${lang.language}${lang.level ? ` — ${lang.level}` : ''}`
+            ),
+          },
+        ],
+      });
+    }
+
+    const title = contacts.name || t('export.resume.title');
+    const document = this.createDocument('resume', title, sections, t);
+    if (resume.desiredPositions.length > 0) {
+      document.subtitle = resume.desiredPositions.join(' · ');
+    }
+    return document;
+  }
+
+  matchDocument(report: MatchReport, t: Translator): ExportDocument {
+    const { analysis } = report;
+    const sections: ExportSection[] = [
+      {
+        blocks: [
+          {
+            type: 'paragraph',
+            text: t('export.match.score', { score: analysis.overallScore }),
+          },
+          ...(analysis.summary
+            ? [{ type: 'paragraph' as const, text: analysis.summary }]
+            : []),
+        ],
+      },
+    ];
+
+    const lists: [MessageKey, string[]][] = [
+      ['export.match.matched', analysis.matchedRequirements],
+      ['export.match.missing', analysis.missingRequirements],
+      ['export.match.suggestions', analysis.suggestions],
+    ];
+    for (const [heading, items] of lists) {
+      if (items.length > 0) {
+        sections.push({
+          heading: t(heading),
+          blocks: [{ type: 'list', items }],
+        });
+      }
+    }
+
+    const document = this.createDocument(
+      'match',
+      t('export.match.title'),
+      sections,
+      t,
+      report.jobTitle
+    );
+    if (report.jobTitle) document.subtitle = report.jobTitle;
+    return document;
+  }
+
+  coverLetterDocument(letter: CoverLetter, t: Translator): ExportDocument {
+    const paragraphs = letter.text
+      .split(/\n\s*\n/)
+      .map((paragraph) => paragraph.trim())
+      .filter(Boolean);
+
+    const document = this.createDocument(
+      'cover',
+      t('export.cover.title'),
+      [
+        {
+          blocks: paragraphs.map((text) => ({ type: 'paragraph', text })),
+        },
+      ],
+      t,
+      letter.jobTitle
+    );
+    // The letter may be in another language than the interface
+    document.language = letter.options.language;
+    if (letter.jobTitle) document.subtitle = letter.jobTitle;
+    return document;
+  }
+
+  private createDocument(
+    kind: ExportKind,
+    title: string,
+    sections: ExportSection[],
+    t: Translator,
+    fileNameHint?: string
+  ): ExportDocument {
+    const slug = this.slugify(fileNameHint ?? title);
+    return {
+      kind,
+      title,
+      sections,
+      footer: t('export.footer', {
+        date: new Date().toLocaleDateString(t.locale),
+      }),
+      language: t.locale,
+      fileName: `${kind}${slug ? `_${slug}` : ''}`,
+    };
+  }
+
+  private slugify(text: string): string {
+    return text
+      .toLowerCase()
+      .replace(/[^\p{L}\p{N}]+/gu, '_')
+      .replace(/^_+|_+$/g, '')
+      .slice(0, 40);
+  }
+
+  private formatPeriod(
+    startDate: string | undefined,
+    endDate: string | undefined,
+    t: Translator
+  ): string {
+    if (!startDate && !endDate) return '';
+    const end = endDate === 'present' ? t('resume.present') : endDate;
+    return [startDate ?? '…', end ?? '…'].join(' — ');
+  }
+}
@@ -0,0 +1,113 @@
+/**
+ * Localization service
+ *
+ * Picks the user's locale and renders catalog messages with {name}
+ * interpolation and plural forms chosen by the "count" parameter.
+ */
+
+import { catalogs, MessageKey } from '../i18n';
+import {
+  Locale,
+  LocalizationConfig,
+  Message,
+  MessageParams,
+} from '../types/i18n';
+import { UserSession } from '../types/session';
+
+/**
+ * Locale names for instructions in AI prompts, e.g. "Answer in Russian"
+ */
+export const LOCALE_NAMES: Record<Locale, string> = {
+  en: 'English',
+  ru: 'Russian',
+};
+
+/**
+ * Message lookup bound to one locale
+ */
+export interface Translator {
+  (key: MessageKey, params?: MessageParams): string;
+  locale: Locale;
+}
+
+export class I18nService {
+  private supported: Locale[];
+  private defaultLocale: Locale;
+  private fallbackLocale: Locale;
+
+  constructor(config: LocalizationConfig) {
+    this.supported = config.supportedLanguages.filter(
+      (language): language is Locale => language in catalogs
+    );
+    this.fallbackLocale = this.toLocale(config.fallbackLanguage) ?? 'en';
+    this.defaultLocale =
+      this.toLocale(config.defaultLanguage) ?? this.fallbackLocale;
+  }
+
+  /**
+   * First supported locale among the candidates (an explicit choice, then
+   * Telegram's language_code such as "ru" or "en-US"), or the default one
+   */
+  resolveLocale(...candidates: (string | undefined)[]): Locale {
+    for (const candidate of candidates) {
+      const locale = candidate && this.toLocale(candidate);
+      if (locale) return locale;
+    }
+    return this.defaultLocale;
+  }
+
+  getSupportedLocales(): readonly Locale[] {
+    return this.supported;
+  }
+
+  /**
+   * Render a message, falling back to the fallback locale for missing keys
+   */
+  t(locale: Locale, key: MessageKey, params: MessageParams = {}): string {
+    const message = catalogs[locale][key] ?? catalogs[this.fallbackLocale][key];
+    return this.interpolate(this.selectForm(locale, message, params), params);
+  }
+
+  getTranslator(locale: Locale): Translator {
+    return Object.assign(
+      (key: MessageKey, params?: MessageParams) => this.t(locale, key, params),
+      { locale }
+    );
+  }
+
+  /**
+   * Translator for the locale chosen with /language, else the Telegram one
+   */
+  getSessionTranslator(session: UserSession | null): Translator {
+    return this.getTranslator(
+      this.resolveLocale(session?.locale, session?.languageCode)
+    );
+  }
+
+  private toLocale(language: string): Locale | undefined {
+    const primary = language.toLowerCase().split(/[-_]/)[0] ?? '';
+    return this.supported.find((locale) => locale === primary);
+  }
+
+  private selectForm(
+    locale: Locale,
+    message: Message,
+    params: MessageParams
+  ): string {
+    if (typeof message === 'string') return message;
+
+    const count = Number(params['count'] ?? 0);
+    const form = new Intl.PluralRules(locale).select(count);
+    return (
+      (form === 'one' || form === 'few' || form === 'many'
+        ? message[form]
+        : undefined) ?? message.other
+    );
+  }
+
+  private interpolate(text: string, params: MessageParams): string {
+    return text.replace(/\{(\w+)\}/g, (match, name: string) =>
+      name in params ? String(params[name]) : match
+    );
+  }
+}
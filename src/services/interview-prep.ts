@@ -0,0 +1,198 @@
+/**
+ * Interview preparation question generator
+ */
+
+import { JsonSchema, ValidationResult } from '../types/ai';
+import {
+  InterviewPrep,
+  InterviewQuestion,
+  InterviewQuestionType,
+  InterviewTopic,
+} from '../types/interview';
+import { Locale } from '../types/i18n';
+import { StructuredJobAd } from '../types/job-ad';
+import { asEnum, asString, isRecord } from '../utils/validation';
+import { AIService } from './ai';
+import { LOCALE_NAMES, Translator } from './i18n';
+
+// Keep prompts within the model context window
+const MAX_INPUT_CHARS = 5000;
+const MAX_TOPICS = 8;
+const MAX_QUESTIONS_PER_TOPIC = 4;
+
+const QUESTION_TYPES: readonly InterviewQuestionType[] = [
+  'technical',
+  'behavioral',
+];
+
+const QUESTION_TYPE_ICONS: Record<InterviewQuestionType, string> = {
+  technical: '🛠️',
+  behavioral: '🤝',
+};
+
+const INTERVIEW_PREP_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    topics: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          requirement: { type: 'string' },
+          questions: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                question: { type: 'string' },
+                type: { type: 'string', enum: QUESTION_TYPES },
+                evidence: { type: 'string' },
+              },
+              required: ['question', 'type'],
+            },
+          },
+        },
+        required: ['requirement', 'questions'],
+      },
+    },
+  },
+  required: ['topics'],
+};
+
+export class InterviewPrepService {
+  private aiService: AIService;
+
+  constructor(aiService: AIService) {
+    this.aiService = aiService;
+  }
+
+  /**
+   * Generate likely interview questions grouped by job requirement
+   */
+  async generate(
+    resumeText: string,
+    jobAdText: string,
+    locale: Locale,
+    jobAd?: StructuredJobAd | null
+  ): Promise<InterviewPrep> {
+    const requirements = jobAd
+      ? [...jobAd.mustHaveRequirements, ...jobAd.niceToHaveRequirements]
+      : [];
+    const grouping =
+      requirements.length > 0
+        ? `Group the questions by these requirements (pick the ${MAX_TOPICS} most important ones):\n${requirements.map((r) => `- ${r}`).join('\n')}`
+        : `Group the questions by the ${MAX_TOPICS} most important requirements of the job ad.`;
+
+    const topics = await this.aiService.generateStructured(
+      [
+        {
+          role: 'system',
+          content:
+            'You are an experienced interviewer and career coach. You answer strictly with JSON matching the schema.',
+        },
+        {
+          role: 'user',
+          content: `Prepare a candidate for an interview for this job. Write likely technical and behavioral questions, up to ${MAX_QUESTIONS_PER_TOPIC} per requirement. For every question put into "evidence" the concrete fact from the resume (project, result, technology) the candidate can use in the answer; leave it empty when the resume has nothing relevant. Write questions and evidence in ${LOCALE_NAMES[locale]}.
+
+${grouping}
+
+JOB AD:
+${jobAdText.slice(0, MAX_INPUT_CHARS)}
+
+RESUME:
+${resumeText.slice(0, MAX_INPUT_CHARS)}`,
+        },
+      ],
+      INTERVIEW_PREP_SCHEMA,
+      (raw) => this.validateTopics(raw),
+      { maxTokens: 3000, temperature: 0.4 }
+    );
+
+    const prep: InterviewPrep = { topics, createdAt: new Date().toISOString() };
+    const jobTitle = jobAd?.title;
+    if (jobTitle) {
+      prep.jobTitle = jobTitle;
+    }
+    return prep;
+  }
+
+  /**
+   * Validate model output, dropping empty topics and questions
+   */
+  validateTopics(raw: unknown): ValidationResult<InterviewTopic[]> {
+    if (!isRecord(raw) || !Array.isArray(raw['topics'])) {
+      return { errors: ['"topics" must be an array'] };
+    }
+
+    const topics: InterviewTopic[] = [];
+    for (const item of raw['topics']) {
+      if (!isRecord(item)) continue;
+      const requirement = asString(item['requirement']);
+      const rawQuestions = Array.isArray(item['questions'])
+        ? item['questions']
+        : [];
+      if (!requirement) continue;
+
+      const questions: InterviewQuestion[] = [];
+      for (const rawQuestion of rawQuestions) {
+        const text = isRecord(rawQuestion)
+          ? asString(rawQuestion['question'])
+          : asString(rawQuestion);
+        if (!text) continue;
+        const question: InterviewQuestion = {
+          question: text,
+          type:
+            (isRecord(rawQuestion) &&
+              asEnum(rawQuestion['type'], QUESTION_TYPES)) ||
+            'technical',
+        };
+        const evidence = isRecord(rawQuestion)
+          ? asString(rawQuestion['evidence'])
+          : undefined;
+        if (evidence) question.evidence = evidence;
+        questions.push(question);
+      }
+
+      if (questions.length > 0) {
+        topics.push({
+          requirement,
+          questions: questions.slice(0, MAX_QUESTIONS_PER_TOPIC),
+        });
+      }
+    }
+
+    return {
+      value: topics.slice(0, MAX_TOPICS),
+      errors: topics.length === 0 ? ['No topics with questions'] : [],
+    };
+  }
+
+  /**
+   * Number of pages; every requirement gets its own page
+   */
+  getPageCount(prep: InterviewPrep): number {
+    return prep.topics.length;
+  }
+
+  /**
+   * Format one page of questions for a Telegram message
+   */
+  formatPage(prep: InterviewPrep, page: number, t: Translator): string {
+    const topic = prep.topics[page];
+    if (!topic) return '';
+
+    const title = t('prep.title', {
+      jobTitle: prep.jobTitle ? `: ${prep.jobTitle}` : '',
+      page: page + 1,
+      total: prep.topics.length,
+    });
+    const questions = topic.questions.map((q, index) => {
+      const evidence = q.evidence
+        ? t('prep.evidence', { evidence: q.evidence })
+        : t('prep.noEvidence');
+      return `${index + 1}. ${QUESTION_TYPE_ICONS[q.type]} ${q.question}\n   ${evidence}`;
+    });
+
+    return `${title}\n\n📌 ${topic.requirement}\n\n${questions.join('\n\n')}\n\n${t('prep.legend')}`;
+  }
+}
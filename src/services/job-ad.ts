@@ -0,0 +1,279 @@
+/**
+ * Structured job ad parsing service
+ */
+
+import { JsonSchema, ValidationResult } from '../types/ai';
+import {
+  RemotePolicy,
+  SalaryRange,
+  Seniority,
+  StructuredJobAd,
+} from '../types/job-ad';
+import { sha256Hex } from '../utils/hash';
+import {
+  asEnum,
+  asNumber,
+  asString,
+  asStringList,
+  isRecord,
+} from '../utils/validation';
+import { AIService } from './ai';
+import { Translator } from './i18n';
+import { SessionService } from './session';
+
+const REMOTE_POLICIES: readonly RemotePolicy[] = [
+  'onsite',
+  'hybrid',
+  'remote',
+  'unknown',
+];
+
+const SENIORITY_LEVELS: readonly Seniority[] = [
+  'intern',
+  'junior',
+  'middle',
+  'senior',
+  'lead',
+  'principal',
+  'unknown',
+];
+
+const SALARY_PERIODS: readonly NonNullable<SalaryRange['period']>[] = [
+  'hour',
+  'month',
+  'year',
+];
+
+// Keep prompts within the model context window
+const MAX_INPUT_CHARS = 8000;
+
+const JOB_AD_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    title: { type: 'string' },
+    company: { type: 'string' },
+    location: { type: 'string' },
+    remotePolicy: { type: 'string', enum: REMOTE_POLICIES },
+    salary: {
+      type: 'object',
+      properties: {
+        min: { type: 'number' },
+        max: { type: 'number' },
+        currency: { type: 'string', description: 'ISO 4217 code' },
+        period: { type: 'string', enum: SALARY_PERIODS },
+        gross: { type: 'boolean' },
+      },
+    },
+    seniority: { type: 'string', enum: SENIORITY_LEVELS },
+    mustHaveRequirements: { type: 'array', items: { type: 'string' } },
+    niceToHaveRequirements: { type: 'array', items: { type: 'string' } },
+    responsibilities: { type: 'array', items: { type: 'string' } },
+  },
+  required: [
+    'title',
+    'remotePolicy',
+    'seniority',
+    'mustHaveRequirements',
+    'niceToHaveRequirements',
+    'responsibilities',
+  ],
+};
+
+export class JobAdService {
+  private aiService: AIService;
+  private sessionService: SessionService;
+
+  constructor(aiService: AIService, sessionService: SessionService) {
+    this.aiService = aiService;
+    this.sessionService = sessionService;
+  }
+
+  /**
+   * Get the structured job ad for the user's current job ad text.
+   * Returns the cached version while the job ad text is unchanged.
+   */
+  async getStructuredJobAd(userId: number): Promise<StructuredJobAd | null> {
+    const session = await this.sessionService.getSession(userId);
+    if (!session?.jobAdText) {
+      return null;
+    }
+
+    const sourceHash = await sha256Hex(session.jobAdText);
+    if (session.structuredJobAd?.sourceHash === sourceHash) {
+      return session.structuredJobAd.data;
+    }
+
+    const data = await this.parseJobAd(session.jobAdText);
+    await this.sessionService.saveStructuredJobAd(userId, {
+      sourceHash,
+      data,
+      createdAt: new Date().toISOString(),
+    });
+
+    return data;
+  }
+
+  /**
+   * Parse job ad text into the structured model with AI
+   */
+  async parseJobAd(jobAdText: string): Promise<StructuredJobAd> {
+    return this.aiService.generateStructured(
+      [
+        {
+          role: 'system',
+          content:
+            'You extract structured data from job postings. Answer strictly with JSON matching the schema. Do not invent facts that are not in the posting.',
+        },
+        {
+          role: 'user',
+          content: `Extract structured information from this job ad. Keep the ad's original language for free-text fields. Put explicitly required skills and experience into mustHaveRequirements and "would be a plus" items into niceToHaveRequirements. Use "unknown" when remote policy or seniority is not stated. Omit salary when it is not mentioned.
+
+JOB AD:
+${jobAdText.slice(0, MAX_INPUT_CHARS)}`,
+        },
+      ],
+      JOB_AD_SCHEMA,
+      (raw) => this.validateStructuredJobAd(raw),
+      { maxTokens: 2000, temperature: 0.1 }
+    );
+  }
+
+  /**
+   * Validate model output, repairing what can be fixed locally
+   */
+  validateStructuredJobAd(raw: unknown): ValidationResult<StructuredJobAd> {
+    if (!isRecord(raw)) {
+      return { errors: ['Root value must be a JSON object'] };
+    }
+
+    const errors: string[] = [];
+    const title = asString(raw['title']);
+    if (!title) {
+      errors.push('"title" is required');
+    }
+
+    const jobAd: StructuredJobAd = {
+      title: title ?? '',
+      remotePolicy: asEnum(raw['remotePolicy'], REMOTE_POLICIES) ?? 'unknown',
+      seniority: asEnum(raw['seniority'], SENIORITY_LEVELS) ?? 'unknown',
+      mustHaveRequirements: asStringList(raw['mustHaveRequirements']),
+      niceToHaveRequirements: asStringList(raw['niceToHaveRequirements']),
+      responsibilities: asStringList(raw['responsibilities']),
+    };
+
+    const company = asString(raw['company']);
+    const location = asString(raw['location']);
+    if (company) jobAd.company = company;
+    if (location) jobAd.location = location;
+
+    if (isRecord(raw['salary'])) {
+      const salary = this.validateSalary(raw['salary']);
+      if (salary.min !== undefined && salary.max !== undefined) {
+        if (salary.min > salary.max) {
+          [salary.min, salary.max] = [salary.max, salary.min];
+        }
+      }
+      if (salary.min !== undefined || salary.max !== undefined) {
+        jobAd.salary = salary;
+      }
+    }
+
+    if (
+      jobAd.mustHaveRequirements.length === 0 &&
+      jobAd.niceToHaveRequirements.length === 0 &&
+      jobAd.responsibilities.length === 0
+    ) {
+      errors.push('Job ad has no requirements or responsibilities');
+    }
+
+    return { value: jobAd, errors };
+  }
+
+  private validateSalary(raw: Record<string, unknown>): SalaryRange {
+    const salary: SalaryRange = {};
+    const min = asNumber(raw['min']);
+    const max = asNumber(raw['max']);
+    const currency = asString(raw['currency'])?.toUpperCase();
+    const period = asEnum(raw['period'], SALARY_PERIODS);
+    if (min !== undefined && min > 0) salary.min = min;
+    if (max !== undefined && max > 0) salary.max = max;
+    if (currency) salary.currency = currency;
+    if (period) salary.period = period;
+    if (typeof raw['gross'] === 'boolean') salary.gross = raw['gross'];
+    return salary;
+  }
+
+  /**
+   * Short one-line description, e.g. for confirmations and lists
+   */
+  formatJobAdTitle(jobAd: StructuredJobAd): string {
+    return [jobAd.title, jobAd.company].filter(Boolean).join(' — ');
+  }
+
+  /**
+   * Format structured job ad for a Telegram message
+   */
+  formatStructuredJobAd(jobAd: StructuredJobAd, t: Translator): string {
+    const sections: string[] = [];
+
+    const header = [
+      `📌 ${this.formatJobAdTitle(jobAd) || t('jobAd.untitled')}`,
+    ];
+    if (jobAd.seniority !== 'unknown') {
+      header.push(
+        t('jobAd.level', { level: t(`jobAd.seniority.${jobAd.seniority}`) })
+      );
+    }
+    const place = [jobAd.location, t(`jobAd.remote.${jobAd.remotePolicy}`)]
+      .filter(Boolean)
+      .join(', ');
+    header.push(`📍 ${place}`);
+    if (jobAd.salary) {
+      header.push(`💰 ${this.formatSalary(jobAd.salary, t)}`);
+    }
+    sections.push(header.join('\n'));
+
+    if (jobAd.mustHaveRequirements.length > 0) {
+      sections.push(
+        `${t('jobAd.mustHave')}\n${jobAd.mustHaveRequirements.map((r) => `• ${r}`).join('\n')}`
+      );
+    }
+
+    if (jobAd.niceToHaveRequirements.length > 0) {
+      sections.push(
+        `${t('jobAd.niceToHave')}\n${jobAd.niceToHaveRequirements.map((r) => `• ${r}`).join('\n')}`
+      );
+    }
+
+    if (jobAd.responsibilities.length > 0) {
+      sections.push(
+        `${t('jobAd.responsibilities')}\n${jobAd.responsibilities.map((r) => `• ${r}`).join('\n')}`
+      );
+    }
+
+    return sections.join('\n\n');
+  }
+
+  private formatSalary(salary: SalaryRange, t: Translator): string {
+    const amount = (value: number): string => value.toLocaleString(t.locale);
+
+    let range: string;
+    if (salary.min !== undefined && salary.max !== undefined) {
+      range = `${amount(salary.min)} – ${amount(salary.max)}`;
+    } else if (salary.min !== undefined) {
+      range = t('jobAd.salaryFrom', { amount: amount(salary.min) });
+    } else {
+      range = t('jobAd.salaryTo', { amount: amount(salary.max ?? 0) });
+    }
+
+    return [
+      range,
+      salary.currency,
+      salary.period && t(`jobAd.salaryPeriod.${salary.period}`),
+      salary.gross === true && t('jobAd.salaryGross'),
+      salary.gross === false && t('jobAd.salaryNet'),
+    ]
+      .filter(Boolean)
+      .join(' ');
+  }
+}
@@ -0,0 +1,82 @@
+/**
+ * Saved job ad library service
+ *
+ * The session fields jobAdText and structuredJobAd are kept as a view of
+ * the active entry so analysis commands keep reading them from the session.
+ */
+
+import { JobAdEntry } from '../types/library';
+import { UserSession } from '../types/session';
+import { I18nService, Translator } from './i18n';
+import { LibraryService } from './library';
+import { SessionService } from './session';
+
+export class JobLibraryService extends LibraryService<JobAdEntry> {
+  constructor(
+    kv: KVNamespace,
+    sessionService: SessionService,
+    i18nService: I18nService
+  ) {
+    super(kv, sessionService, i18nService, 'jobs');
+  }
+
+  protected defaultTitle(index: number, t: Translator): string {
+    return t('jobs.defaultTitle', { index });
+  }
+
+  protected override onRenamed(entry: JobAdEntry): void {
+    entry.customTitle = true;
+  }
+
+  protected resetDerivedData(entry: JobAdEntry): void {
+    delete entry.structuredJobAd;
+  }
+
+  protected setView(session: UserSession, entry: JobAdEntry | null): void {
+    if (entry?.text) {
+      session.jobAdText = entry.text;
+    } else {
+      delete session.jobAdText;
+    }
+
+    if (entry?.structuredJobAd) {
+      session.structuredJobAd = entry.structuredJobAd;
+    } else {
+      delete session.structuredJobAd;
+    }
+  }
+
+  /**
+   * Store the structured job ad cached in the session on the entry and use
+   * its title unless the user renamed the entry
+   */
+  protected captureView(session: UserSession, entry: JobAdEntry): void {
+    if (!session.structuredJobAd) return;
+
+    entry.structuredJobAd = session.structuredJobAd;
+    const { title, company } = session.structuredJobAd.data;
+    if (!entry.customTitle && title) {
+      entry.title = [title, company].filter(Boolean).join(' — ').slice(0, 100);
+    }
+  }
+
+  protected importFromSession(session: UserSession): JobAdEntry | null {
+    if (!session.jobAdText) return null;
+
+    const now = new Date().toISOString();
+    const entry: JobAdEntry = {
+      id: this.createId(),
+      title: this.defaultTitle(
+        1,
+        this.i18nService.getSessionTranslator(session)
+      ),
+      text: session.jobAdText,
+      createdAt: now,
+      updatedAt: now,
+    };
+    if (session.structuredJobAd) {
+      entry.structuredJobAd = session.structuredJobAd;
+    }
+    return entry;
+  }
+}
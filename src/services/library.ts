@@ -0,0 +1,414 @@
+/**
+ * Generic per-user document library backed by KV
+ *
+ * Entries live in a single KV value per user. Selected session fields are
+ * kept as a view of the active entry so existing commands keep reading
+ * them from the session; subclasses define which fields form the view.
+ */
+
+import { Library, LibraryEntry } from '../types/library';
+import { UserSession } from '../types/session';
+import { I18nService, Translator } from './i18n';
+import { SessionService } from './session';
+
+/**
+ * The library already holds the maximum number of entries
+ */
+export class LibraryFullError extends Error {
+  readonly limit: number;
+
+  constructor(limit: number) {
+    super(`Library is full (${limit} entries)`);
+    this.name = 'LibraryFullError';
+    this.limit = limit;
+  }
+}
+
+/**
+ * The stored library could not be read; it must not be overwritten
+ */
+export class LibraryUnavailableError extends Error {
+  constructor(prefix: string) {
+    super(`Could not read ${prefix} library`);
+    this.name = 'LibraryUnavailableError';
+  }
+}
+
+export abstract class LibraryService<T extends LibraryEntry> {
+  protected kv: KVNamespace;
+  protected sessionService: SessionService;
+  protected i18nService: I18nService;
+  private prefix: string;
+  readonly maxEntries: number;
+
+  constructor(
+    kv: KVNamespace,
+    sessionService: SessionService,
+    i18nService: I18nService,
+    prefix: string,
+    maxEntries: number = 20
+  ) {
+    this.kv = kv;
+    this.sessionService = sessionService;
+    this.i18nService = i18nService;
+    this.prefix = prefix;
+    this.maxEntries = maxEntries;
+  }
+
+  /**
+   * Title for a newly created entry, in the user's language
+   */
+  protected abstract defaultTitle(index: number, t: Translator): string;
+
+  /**
+   * Copy the entry into the session view (null clears the view)
+   */
+  protected abstract setView(session: UserSession, entry: T | null): void;
+
+  /**
+   * Copy data derived in the session (e.g. AI caches) back into the entry
+   */
+  protected abstract captureView(session: UserSession, entry: T): void;
+
+  /**
+   * Build an entry from session data saved before libraries existed
+   */
+  protected abstract importFromSession(session: UserSession): T | null;
+
+  /**
+   * Forget data derived from the entry text after it changes
+   */
+  protected abstract resetDerivedData(entry: T): void;
+
+  /**
+   * List entries, newest first
+   */
+  async list(userId: number): Promise<{ entries: T[]; activeId?: string }> {
+    const library = await this.getLibrary(userId);
+    const entries = [...library.entries].sort((a, b) =>
+      b.createdAt.localeCompare(a.createdAt)
+    );
+    return library.activeId
+      ? { entries, activeId: library.activeId }
+      : { entries };
+  }
+
+  /**
+   * Get entry by ID
+   */
+  async get(userId: number, id: string): Promise<T | null> {
+    const library = await this.getLibrary(userId);
+    return this.findEntry(library, id) ?? null;
+  }
+
+  /**
+   * Get the active entry
+   */
+  async getActive(userId: number): Promise<T | null> {
+    const library = await this.getLibrary(userId);
+    return this.findActiveEntry(library) ?? null;
+  }
+
+  /**
+   * Whether a new entry would exceed the limit
+   */
+  async isFull(userId: number): Promise<boolean> {
+    const library = await this.getLibrary(userId);
+    return library.entries.length >= this.maxEntries;
+  }
+
+  /**
+   * Create an entry and make it active; throws LibraryFullError at the
+   * limit, entries are never dropped to make room
+   */
+  async create(userId: number, fields: Partial<T> = {}): Promise<T> {
+    const library = await this.getLibrary(userId);
+    if (library.entries.length >= this.maxEntries) {
+      throw new LibraryFullError(this.maxEntries);
+    }
+
+    const now = new Date().toISOString();
+    const entry = {
+      text: '',
+      ...fields,
+      id: this.createId(),
+      title:
+        fields.title ??
+        this.defaultTitle(
+          library.entries.length + 1,
+          await this.getTranslator(userId)
+        ),
+      createdAt: now,
+      updatedAt: now,
+    } as T;
+
+    this.addEntry(library, entry);
+    await this.saveLibrary(userId, library);
+    await this.applyView(userId, entry);
+    return entry;
+  }
+
+  /**
+   * Append text to the active entry, creating one when there is none
+   */
+  async appendToActive(userId: number, text: string): Promise<boolean> {
+    const library = await this.getLibrary(userId);
+    const entry = this.findActiveEntry(library);
+    if (!entry) {
+      await this.create(userId, { text: text + '\n' } as Partial<T>);
+      return true;
+    }
+
+    return this.updateText(userId, library, entry, entry.text + text + '\n');
+  }
+
+  /**
+   * Replace the text of the active entry
+   */
+  async setActiveText(userId: number, text: string): Promise<boolean> {
+    const library = await this.getLibrary(userId);
+    const entry = this.findActiveEntry(library);
+    if (!entry) return false;
+
+    return this.updateText(userId, library, entry, text);
+  }
+
+  /**
+   * Make entry active and load it into the session view
+   */
+  async select(userId: number, id: string): Promise<T | null> {
+    const library = await this.getLibrary(userId);
+    const entry = this.findEntry(library, id);
+    if (!entry) return null;
+
+    // Keep AI caches of the entry being switched away from
+    await this.rememberView(userId, library);
+
+    library.activeId = id;
+    await this.saveLibrary(userId, library);
+    await this.applyView(userId, entry);
+    return entry;
+  }
+
+  /**
+   * Rename entry
+   */
+  async rename(userId: number, id: string, title: string): Promise<T | null> {
+    const library = await this.getLibrary(userId);
+    const entry = this.findEntry(library, id);
+    if (!entry) return null;
+
+    entry.title = title.trim().slice(0, 100);
+    entry.updatedAt = new Date().toISOString();
+    this.onRenamed(entry);
+    await this.saveLibrary(userId, library);
+    return entry;
+  }
+
+  /**
+   * Called after the user renames an entry
+   */
+  protected onRenamed(_entry: T): void {}
+
+  /**
+   * Copy entry under a new title and make the copy active
+   */
+  async duplicate(
+    userId: number,
+    id: string,
+    title?: string
+  ): Promise<T | null> {
+    const source = await this.get(userId, id);
+    if (!source) return null;
+
+    const {
+      id: _id,
+      createdAt: _createdAt,
+      updatedAt: _updatedAt,
+      ...fields
+    } = source;
+    const t = await this.getTranslator(userId);
+    return this.create(userId, {
+      ...fields,
+      title: (title ?? t('common.copyTitle', { title: source.title })).slice(
+        0,
+        100
+      ),
+    } as Partial<T>);
+  }
+
+  /**
+   * Delete entry; the session view follows the newly active entry
+   */
+  async delete(userId: number, id: string): Promise<boolean> {
+    const library = await this.getLibrary(userId);
+    const entry = this.findEntry(library, id);
+    if (!entry) return false;
+
+    const wasActive = library.activeId === id;
+    library.entries = library.entries.filter((e) => e.id !== id);
+
+    if (wasActive) {
+      // The most recently updated entry becomes active
+      const latest = [...library.entries].sort((a, b) =>
+        b.updatedAt.localeCompare(a.updatedAt)
+      )[0];
+      if (latest) {
+        library.activeId = latest.id;
+      } else {
+        delete library.activeId;
+      }
+    }
+
+    await this.saveLibrary(userId, library);
+    if (wasActive) {
+      await this.applyView(userId, this.findActiveEntry(library) ?? null);
+    }
+    return true;
+  }
+
+  /**
+   * Store data derived in the session view on the active entry; the data
+   * stays in the session when the library cannot be read
+   */
+  async rememberActiveView(userId: number): Promise<void> {
+    let library: Library<T>;
+    try {
+      library = await this.getLibrary(userId);
+    } catch (error) {
+      if (!(error instanceof LibraryUnavailableError)) throw error;
+      return;
+    }
+    if (await this.rememberView(userId, library)) {
+      await this.saveLibrary(userId, library);
+    }
+  }
+
+  /**
+   * Restore the session view of the active entry (e.g. after session
+   * expiry); the caller saves the session
+   */
+  async hydrateSession(session: UserSession): Promise<void> {
+    const library = await this.getLibrary(session.userId, session);
+    const entry = this.findActiveEntry(library);
+    if (entry) {
+      this.setView(session, entry);
+    }
+  }
+
+  private async updateText(
+    userId: number,
+    library: Library<T>,
+    entry: T,
+    text: string
+  ): Promise<boolean> {
+    entry.text = text;
+    entry.updatedAt = new Date().toISOString();
+    this.resetDerivedData(entry);
+
+    const saved = await this.saveLibrary(userId, library);
+    await this.applyView(userId, entry);
+    return saved;
+  }
+
+  private async rememberView(
+    userId: number,
+    library: Library<T>
+  ): Promise<boolean> {
+    const entry = this.findActiveEntry(library);
+    const session = await this.sessionService.getSession(userId);
+    if (!entry || !session) return false;
+
+    this.captureView(session, entry);
+    return true;
+  }
+
+  /**
+   * Load library, importing data that only exists in the session. Throws
+   * LibraryUnavailableError instead of returning an empty library that a
+   * later save would write over the stored one.
+   */
+  private async getLibrary(
+    userId: number,
+    knownSession?: UserSession
+  ): Promise<Library<T>> {
+    let library: Library<T> = { entries: [] };
+    try {
+      const data = await this.kv.get(`${this.prefix}:${userId}`);
+      if (data) {
+        library = JSON.parse(data) as Library<T>;
+      }
+    } catch (error) {
+      console.error(`Error getting ${this.prefix} library:`, error);
+      throw new LibraryUnavailableError(this.prefix);
+    }
+
+    if (library.entries.length > 0) {
+      return library;
+    }
+
+    const session =
+      knownSession ?? (await this.sessionService.getSession(userId));
+    const imported = session ? this.importFromSession(session) : null;
+    if (imported) {
+      this.addEntry(library, imported);
+      await this.saveLibrary(userId, library);
+    }
+
+    return library;
+  }
+
+  /**
+   * Save library. Libraries outlive sessions, so no TTL is set.
+   */
+  private async saveLibrary(
+    userId: number,
+    library: Library<T>
+  ): Promise<boolean> {
+    try {
+      await this.kv.put(`${this.prefix}:${userId}`, JSON.stringify(library));
+      return true;
+    } catch (error) {
+      console.error(`Error saving ${this.prefix} library:`, error);
+      return false;
+    }
+  }
+
+  private async applyView(userId: number, entry: T | null): Promise<void> {
+    const session = await this.sessionService.getSession(userId);
+    if (!session) return;
+
+    this.setView(session, entry);
+    await this.sessionService.saveSession(session);
+  }
+
+  private findEntry(library: Library<T>, id: string): T | undefined {
+    return library.entries.find((entry) => entry.id === id);
+  }
+
+  private findActiveEntry(library: Library<T>): T | undefined {
+    return library.activeId
+      ? this.findEntry(library, library.activeId)
+      : undefined;
+  }
+
+  /**
+   * Add entry and make it active
+   */
+  private addEntry(library: Library<T>, entry: T): void {
+    library.entries.push(entry);
+    library.activeId = entry.id;
+  }
+
+  protected async getTranslator(userId: number): Promise<Translator> {
+    const session = await this.sessionService.getSession(userId);
+    return this.i18nService.getSessionTranslator(session);
+  }
+
+  /**
+   * Create a short random ID that fits into callback data
+   */
+  protected createId(): string {
+    return crypto.randomUUID().replace(/-/g, '').slice(0, 8);
+  }
+}
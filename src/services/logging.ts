@@ -14,12 +14,35 @@ export interface LogEntry {
   error_details?: string | undefined;
 }
 
+/**
+ * Filters for querying stored log entries
+ */
+export interface LogFilter {
+  userId?: number;
+  level?: LogEntry['level'];
+  eventType?: string;
+  since?: string; // ISO timestamp, inclusive
+  until?: string; // ISO timestamp, exclusive
+  limit?: number;
+}
+
+/**
+ * Entry count per level and event type
+ */
+export interface LogStat {
+  level: string;
+  event_type: string;
+  count: number;
+}
+
 export class LoggingService {
   private db: D1Database | undefined;
+  private debugLogging: boolean;
   private isInitialized = false;
 
-  constructor(db?: D1Database) {
+  constructor(db?: D1Database, debugLogging: boolean = true) {
     this.db = db;
+    this.debugLogging = debugLogging;
   }
 
   /**
@@ -87,8 +110,8 @@ export class LoggingService {
       console.log(logMessage, data);
     }
 
-    // Log to database if available
-    if (this.db) {
+    // Log to database if available; DEBUG entries only when enabled
+    if (this.db && (level !== 'DEBUG' || this.debugLogging)) {
       try {
         await this.db
           .prepare(
@@ -192,6 +215,18 @@ export class LoggingService {
     );
   }
 
+  /**
+   * Log a security event such as a refused privileged action
+   */
+  async logSecurityEvent(
+    userId: number,
+    chatId: number,
+    message: string,
+    details?: Record<string, unknown>
+  ): Promise<void> {
+    await this.log('WARN', 'SECURITY', message, details, userId, chatId);
+  }
+
   /**
    * Log AI analysis
    */
@@ -284,32 +319,77 @@ export class LoggingService {
   }
 
   /**
-   * Clear old logs (cleanup)
+   * Get logs matching the filter, newest first
    */
-  async cleanupOldLogs(daysToKeep: number = 7): Promise<void> {
-    if (!this.db) return;
+  async queryLogs(filter: LogFilter = {}): Promise<LogEntry[]> {
+    if (!this.db) return [];
+
+    const conditions: string[] = [];
+    const values: (string | number)[] = [];
+    if (filter.userId !== undefined) {
+      conditions.push('user_id = ?');
+      values.push(filter.userId);
+    }
+    if (filter.level) {
+      conditions.push('level = ?');
+      values.push(filter.level);
+    }
+    if (filter.eventType) {
+      conditions.push('event_type = ?');
+      values.push(filter.eventType);
+    }
+    if (filter.since) {
+      conditions.push('timestamp >= ?');
+      values.push(filter.since);
+    }
+    if (filter.until) {
+      conditions.push('timestamp < ?');
+      values.push(filter.until);
+    }
+
+    const where = conditions.length ? `WHERE ${conditions.join(' AND ')}` : '';
+    const result = await this.db
+      .prepare(
+        `SELECT * FROM user_logs ${where} ORDER BY timestamp DESC LIMIT ?`
+      )
+      .bind(...values, filter.limit ?? 50)
+      .all();
+
+    return (result.results as unknown[]).map((row) => row as LogEntry);
+  }
+
+  /**
+   * Clear old logs (cleanup); returns the number of deleted entries
+   */
+  async cleanupOldLogs(daysToKeep: number = 7): Promise<number> {
+    if (!this.db) return 0;
 
     try {
       const cutoffDate = new Date();
       cutoffDate.setDate(cutoffDate.getDate() - daysToKeep);
 
-      await this.db
+      // timestamp holds ISO strings; created_at uses SQLite's format and
+      // does not compare with them
+      const result = await this.db
         .prepare(
           `
         DELETE FROM user_logs 
-        WHERE created_at < ?
+        WHERE timestamp < ?
       `
         )
         .bind(cutoffDate.toISOString())
         .run();
+      const deleted = result.meta.changes ?? 0;
 
       await this.log(
         'INFO',
         'CLEANUP',
-        `Cleaned up logs older than ${daysToKeep} days`
+        `Cleaned up ${deleted} logs older than ${daysToKeep} days`
       );
+      return deleted;
     } catch (error) {
       console.error('Failed to cleanup old logs:', error);
+      throw error;
     }
   }
 
@@ -327,7 +407,38 @@ export class LoggingService {
     }
 
     const timeRange = this.calculateTimeRange(logs);
-    let formattedMessage = `📊 Last ${logs.length} Log Messages\n\n`;
+    return (
+      `📊 Last ${logs.length} Log Messages\n\n` +
+      this.formatEntries(logs) +
+      `---\n📈 Total entries: ${logs.length} | 🕐 ${timeRange} | 🌍 ${environment}`
+    );
+  }
+
+  /**
+   * Get formatted logs of one user for admin display
+   */
+  async getFormattedUserLogs(
+    userId: number,
+    limit: number = 50
+  ): Promise<string> {
+    const logs = await this.getUserLogs(userId, limit);
+
+    if (logs.length === 0) {
+      return `📊 No log entries found for user ${userId}.`;
+    }
+
+    return (
+      `📊 Last ${logs.length} Log Messages of User ${userId}\n\n` +
+      this.formatEntries(logs) +
+      `---\n📈 Total entries: ${logs.length} | 🕐 ${this.calculateTimeRange(logs)}`
+    );
+  }
+
+  /**
+   * One block per entry: icon, time, level, event, user and message
+   */
+  private formatEntries(logs: LogEntry[]): string {
+    let formattedMessage = '';
 
     for (const log of logs) {
       const icon = this.getLogIcon(log.level, log.event_type);
@@ -351,15 +462,6 @@ export class LoggingService {
       formattedMessage += `\n`;
     }
 
-    formattedMessage += `---\n📈 Total entries: ${logs.length} | 🕐 ${timeRange} | 🌍 ${environment}`;
-
-    // Telegram message limit is 4096 characters
-    if (formattedMessage.length > 4000) {
-      formattedMessage =
-        formattedMessage.substring(0, 3900) +
-        '\n\n...📝 Message truncated due to length limit';
-    }
-
     return formattedMessage;
   }
 
@@ -375,6 +477,7 @@ export class LoggingService {
     if (eventType === 'AI_ANALYSIS') return '🧠';
     if (eventType === 'WEBHOOK_RECEIVED') return '📥';
     if (eventType === 'NEW_SESSION') return '🆕';
+    if (eventType === 'ADMIN_ACTION') return '🛡️';
     if (level === 'DEBUG') return '🔍';
     return '🕐';
   }
@@ -449,36 +552,42 @@ export class LoggingService {
   }
 
   /**
-   * Get admin log summary for dashboard
+   * Entry counts per level and event type for the last hours, most
+   * frequent first
    */
-  async getAdminLogSummary(hours: number = 24): Promise<string> {
-    if (!this.db) return 'Database not available';
+  async getLogStats(hours: number = 24): Promise<LogStat[]> {
+    if (!this.db) return [];
 
-    try {
-      const cutoffDate = new Date();
-      cutoffDate.setHours(cutoffDate.getHours() - hours);
+    const cutoffDate = new Date();
+    cutoffDate.setHours(cutoffDate.getHours() - hours);
 
-      const result = await this.db
-        .prepare(
-          `
+    const result = await this.db
+      .prepare(
+        `
         SELECT 
           level,
           COUNT(*) as count,
           event_type
         FROM user_logs 
-        WHERE created_at > ? 
+        WHERE timestamp > ? 
         GROUP BY level, event_type
         ORDER BY count DESC
       `
-        )
-        .bind(cutoffDate.toISOString())
-        .all();
+      )
+      .bind(cutoffDate.toISOString())
+      .all();
 
-      const stats = result.results as Array<{
-        level: string;
-        count: number;
-        event_type: string;
-      }>;
+    return result.results as unknown as LogStat[];
+  }
+
+  /**
+   * Get admin log summary for dashboard
+   */
+  async getAdminLogSummary(hours: number = 24): Promise<string> {
+    if (!this.db) return 'Database not available';
+
+    try {
+      const stats = await this.getLogStats(hours);
 
       if (stats.length === 0) {
         return `📊 No activity in the last ${hours} hours`;
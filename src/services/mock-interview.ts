@@ -0,0 +1,254 @@
+/**
+ * Mock interview service
+ *
+ * Asks one question at a time, scores every answer and picks the next
+ * question based on what the candidate said.
+ */
+
+import { JsonSchema, ValidationResult } from '../types/ai';
+import { Locale } from '../types/i18n';
+import {
+  MockAnswerEvaluation,
+  MockInterview,
+  MockInterviewTurn,
+} from '../types/interview';
+import { asNumber, asString, isRecord } from '../utils/validation';
+import { AIError, AIService, ChatMessage } from './ai';
+import { LOCALE_NAMES } from './i18n';
+
+// Keep prompts within the model context window
+const MAX_INPUT_CHARS = 4000;
+const MAX_ANSWER_CHARS = 2000;
+
+export const DEFAULT_MOCK_INTERVIEW_QUESTIONS = 6;
+
+const EVALUATION_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    score: { type: 'integer', minimum: 1, maximum: 10 },
+    feedback: { type: 'string' },
+    nextQuestion: { type: 'string' },
+  },
+  required: ['score', 'feedback'],
+};
+
+export class MockInterviewService {
+  private aiService: AIService;
+
+  constructor(aiService: AIService) {
+    this.aiService = aiService;
+  }
+
+  /**
+   * Start an interview with the opening question
+   */
+  async start(
+    resumeText: string,
+    jobAdText: string,
+    locale: Locale,
+    jobTitle?: string,
+    maxQuestions: number = DEFAULT_MOCK_INTERVIEW_QUESTIONS
+  ): Promise<MockInterview> {
+    const question = await this.aiService.chat(
+      [
+        this.systemMessage(resumeText, jobAdText, locale),
+        {
+          role: 'user',
+          content:
+            'Start the interview. Ask the first question: a short warm-up about the most relevant part of the candidate experience for this role. Answer with the question only.',
+        },
+      ],
+      { maxTokens: 300, temperature: 0.6 }
+    );
+
+    const interview: MockInterview = {
+      turns: [{ question: this.cleanQuestion(question) }],
+      maxQuestions,
+      startedAt: new Date().toISOString(),
+    };
+    if (jobTitle) {
+      interview.jobTitle = jobTitle;
+    }
+    return interview;
+  }
+
+  /**
+   * Score the answer to the current question and, unless this was the last
+   * question, ask a follow-up that depends on the answer
+   */
+  async answer(
+    interview: MockInterview,
+    answer: string,
+    resumeText: string,
+    jobAdText: string,
+    locale: Locale
+  ): Promise<MockAnswerEvaluation> {
+    const isLast = interview.turns.length >= interview.maxQuestions;
+    const language = LOCALE_NAMES[locale];
+
+    const evaluation = await this.aiService.generateStructured(
+      [
+        this.systemMessage(resumeText, jobAdText, locale),
+        ...this.historyMessages(interview.turns.slice(0, -1)),
+        {
+          role: 'user',
+          content: `Current question: ${this.currentTurn(interview)?.question ?? ''}
+Candidate answer: ${answer.slice(0, MAX_ANSWER_CHARS)}
+
+Score the answer from 1 to 10 against what this job needs and give short feedback in ${language}: what was good and what to add. ${
+            isLast
+              ? 'This was the last question, leave nextQuestion empty.'
+              : `Then ask the next question in ${language}. If the answer was vague or raised something interesting, ask a follow-up about it; otherwise move to another important requirement of the job. Do not repeat earlier questions.`
+          }`,
+        },
+      ],
+      EVALUATION_SCHEMA,
+      (raw) => this.validateEvaluation(raw, !isLast),
+      { maxTokens: 700, temperature: 0.4 }
+    );
+
+    if (isLast) {
+      delete evaluation.nextQuestion;
+    }
+    return evaluation;
+  }
+
+  /**
+   * Validate model output
+   */
+  validateEvaluation(
+    raw: unknown,
+    expectNextQuestion: boolean
+  ): ValidationResult<MockAnswerEvaluation> {
+    if (!isRecord(raw)) {
+      return { errors: ['Root value must be a JSON object'] };
+    }
+
+    const errors: string[] = [];
+    const score = asNumber(raw['score']);
+    if (score === undefined) {
+      errors.push('"score" must be a number from 1 to 10');
+    }
+
+    const evaluation: MockAnswerEvaluation = {
+      score: Math.min(10, Math.max(1, Math.round(score ?? 5))),
+      feedback: asString(raw['feedback']) ?? '',
+    };
+    const nextQuestion = asString(raw['nextQuestion']);
+    if (nextQuestion) {
+      evaluation.nextQuestion = this.cleanQuestion(nextQuestion);
+    } else if (expectNextQuestion) {
+      errors.push('"nextQuestion" is required');
+    }
+
+    return { value: evaluation, errors };
+  }
+
+  /**
+   * Write the final debrief over all answered questions
+   */
+  async debrief(
+    interview: MockInterview,
+    resumeText: string,
+    jobAdText: string,
+    locale: Locale
+  ): Promise<string> {
+    const answered = this.getAnsweredTurns(interview);
+    const transcript = answered
+      .map(
+        (turn, index) =>
+          `Q${index + 1}: ${turn.question}\nA${index + 1}: ${turn.answer}\nScore: ${turn.score}/10`
+      )
+      .join('\n\n');
+
+    const text = await this.aiService.chat(
+      [
+        this.systemMessage(resumeText, jobAdText, locale),
+        {
+          role: 'user',
+          content: `The interview is over. Here is the transcript with your scores:
+
+${transcript}
+
+Write a debrief for the candidate in ${LOCALE_NAMES[locale]}, in plain text without Markdown: overall impression, 2-3 strengths, 2-3 areas to improve with concrete advice on how to answer better, and whether they look ready for this role.`,
+        },
+      ],
+      { maxTokens: 1200, temperature: 0.4 }
+    );
+
+    return text.trim();
+  }
+
+  /**
+   * Question currently waiting for an answer
+   */
+  currentTurn(interview: MockInterview): MockInterviewTurn | undefined {
+    const last = interview.turns[interview.turns.length - 1];
+    return last && last.answer === undefined ? last : undefined;
+  }
+
+  getAnsweredTurns(interview: MockInterview): MockInterviewTurn[] {
+    return interview.turns.filter((turn) => turn.answer !== undefined);
+  }
+
+  /**
+   * Average score of answered questions, 0 when nothing was answered
+   */
+  getAverageScore(interview: MockInterview): number {
+    const scores = this.getAnsweredTurns(interview).map((t) => t.score ?? 0);
+    if (scores.length === 0) return 0;
+    return (
+      Math.round((scores.reduce((a, b) => a + b, 0) / scores.length) * 10) / 10
+    );
+  }
+
+  /**
+   * Score summary per question for the debrief message
+   */
+  formatScores(interview: MockInterview): string {
+    return this.getAnsweredTurns(interview)
+      .map((turn, index) => `${index + 1}. ${turn.score}/10 — ${turn.question}`)
+      .join('\n');
+  }
+
+  private systemMessage(
+    resumeText: string,
+    jobAdText: string,
+    locale: Locale
+  ): ChatMessage {
+    return {
+      role: 'system',
+      content: `You are a friendly but demanding interviewer hiring for the job below. Conduct the interview in ${LOCALE_NAMES[locale]}, one question at a time, and never answer for the candidate.
+
+JOB AD:
+${jobAdText.slice(0, MAX_INPUT_CHARS)}
+
+CANDIDATE RESUME:
+${resumeText.slice(0, MAX_INPUT_CHARS)}`,
+    };
+  }
+
+  /**
+   * Earlier turns as chat history so follow-ups can refer to them
+   */
+  private historyMessages(turns: MockInterviewTurn[]): ChatMessage[] {
+    return turns.flatMap((turn): ChatMessage[] =>
+      turn.answer !== undefined
+        ? [
+            { role: 'assistant', content: turn.question },
+            { role: 'user', content: turn.answer.slice(0, MAX_ANSWER_CHARS) },
+          ]
+        : []
+    );
+  }
+
+  private cleanQuestion(text: string): string {
+    const question = text
+      .trim()
+      .replace(/^(?:вопрос|question)\s*\d*[:.]\s*/i, '');
+    if (!question) {
+      throw new AIError('invalidResponse', 'AI returned an empty question');
+    }
+    return question;
+  }
+}
@@ -0,0 +1,83 @@
+/**
+ * Per-user rate limiting
+ *
+ * Sliding one-minute window of request timestamps kept in KV per user and
+ * scope. KV is eventually consistent, so limits are approximate.
+ */
+
+import {
+  RateLimitResult,
+  RateLimits,
+  RateLimitScope,
+} from '../types/rate-limit';
+
+const WINDOW_MS = 60000;
+// KV rejects expirationTtl below 60 seconds
+const WINDOW_TTL_SECONDS = 60;
+
+export class RateLimitService {
+  private kv: KVNamespace;
+  private limits: RateLimits;
+
+  constructor(kv: KVNamespace, limits: RateLimits) {
+    this.kv = kv;
+    this.limits = limits;
+  }
+
+  /**
+   * Count a request against the user's quota
+   */
+  async check(userId: number, scope: RateLimitScope): Promise<RateLimitResult> {
+    const limit = this.limits[scope];
+
+    try {
+      const key = `rate_limit:${scope}:${userId}`;
+      const now = Date.now();
+
+      // Get current request timestamps and drop the ones outside the window
+      const requestsData = await this.kv.get(key);
+      const requests: number[] = (
+        requestsData ? JSON.parse(requestsData) : []
+      ).filter((timestamp: number) => timestamp > now - WINDOW_MS);
+
+      if (requests.length >= limit) {
+        const oldest = requests[0] ?? now;
+        return {
+          allowed: false,
+          limit,
+          retryAfterSeconds: Math.max(
+            1,
+            Math.ceil((oldest + WINDOW_MS - now) / 1000)
+          ),
+          notify: await this.claimNotice(userId, scope),
+        };
+      }
+
+      requests.push(now);
+      await this.kv.put(key, JSON.stringify(requests), {
+        expirationTtl: WINDOW_TTL_SECONDS,
+      });
+      return { allowed: true, limit, retryAfterSeconds: 0, notify: false };
+    } catch (error) {
+      console.error('Rate limiting error:', error);
+      // Allow on error
+      return { allowed: true, limit, retryAfterSeconds: 0, notify: false };
+    }
+  }
+
+  /**
+   * True only for the first rejection in a window, so a flood of updates
+   * does not turn into a flood of "slow down" replies
+   */
+  private async claimNotice(
+    userId: number,
+    scope: RateLimitScope
+  ): Promise<boolean> {
+    const key = `rate_limit_notice:${scope}:${userId}`;
+    if ((await this.kv.get(key)) !== null) {
+      return false;
+    }
+    await this.kv.put(key, '1', { expirationTtl: WINDOW_TTL_SECONDS });
+    return true;
+  }
+}
@@ -0,0 +1,73 @@
+/**
+ * Resume version library service
+ *
+ * Users keep several named versions of their resume (e.g. tailored for
+ * different roles). The session fields resumeText and structuredResume are
+ * kept as a view of the active version.
+ */
+
+import { ResumeEntry } from '../types/library';
+import { UserSession } from '../types/session';
+import { I18nService, Translator } from './i18n';
+import { LibraryService } from './library';
+import { SessionService } from './session';
+
+export class ResumeLibraryService extends LibraryService<ResumeEntry> {
+  constructor(
+    kv: KVNamespace,
+    sessionService: SessionService,
+    i18nService: I18nService
+  ) {
+    super(kv, sessionService, i18nService, 'resumes');
+  }
+
+  protected defaultTitle(index: number, t: Translator): string {
+    return index === 1
+      ? t('resumes.firstTitle')
+      : t('resumes.defaultTitle', { index });
+  }
+
+  protected resetDerivedData(entry: ResumeEntry): void {
+    delete entry.structuredResume;
+  }
+
+  protected setView(session: UserSession, entry: ResumeEntry | null): void {
+    if (entry?.text) {
+      session.resumeText = entry.text;
+    } else {
+      delete session.resumeText;
+    }
+
+    if (entry?.structuredResume) {
+      session.structuredResume = entry.structuredResume;
+    } else {
+      delete session.structuredResume;
+    }
+  }
+
+  protected captureView(session: UserSession, entry: ResumeEntry): void {
+    if (session.structuredResume) {
+      entry.structuredResume = session.structuredResume;
+    }
+  }
+
+  protected importFromSession(session: UserSession): ResumeEntry | null {
+    if (!session.resumeText) return null;
+
+    const now = new Date().toISOString();
+    const entry: ResumeEntry = {
+      id: this.createId(),
+      title: this.defaultTitle(
+        1,
+        this.i18nService.getSessionTranslator(session)
+      ),
+      text: session.resumeText,
+      createdAt: now,
+      updatedAt: now,
+    };
+    if (session.structuredResume) {
+      entry.structuredResume = session.structuredResume;
+    }
+    return entry;
+  }
+}
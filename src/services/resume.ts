@@ -0,0 +1,373 @@
+/**
+ * Structured resume parsing service
+ */
+
+import { JsonSchema, ValidationResult } from '../types/ai';
+import {
+  ResumeEducation,
+  ResumeExperience,
+  ResumeLanguage,
+  ResumeSkill,
+  SkillLevel,
+  StructuredResume,
+} from '../types/resume';
+import { sha256Hex } from '../utils/hash';
+import {
+  asEnum,
+  asResumeDate,
+  asString,
+  asStringList,
+  isRecord,
+} from '../utils/validation';
+import { AIService } from './ai';
+import { Translator } from './i18n';
+import { SessionService } from './session';
+
+const SKILL_LEVELS: readonly SkillLevel[] = [
+  'beginner',
+  'intermediate',
+  'advanced',
+  'expert',
+];
+
+// Keep prompts within the model context window
+const MAX_INPUT_CHARS = 8000;
+
+const RESUME_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    contacts: {
+      type: 'object',
+      properties: {
+        name: { type: 'string' },
+        email: { type: 'string' },
+        phone: { type: 'string' },
+        location: { type: 'string' },
+        links: { type: 'array', items: { type: 'string' } },
+      },
+    },
+    desiredPositions: { type: 'array', items: { type: 'string' } },
+    summary: { type: 'string' },
+    skills: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          name: { type: 'string' },
+          level: { type: 'string', enum: SKILL_LEVELS },
+        },
+        required: ['name'],
+      },
+    },
+    experience: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          company: { type: 'string' },
+          position: { type: 'string' },
+          startDate: { type: 'string', description: 'YYYY-MM' },
+          endDate: { type: 'string', description: 'YYYY-MM or present' },
+          description: { type: 'string' },
+          achievements: { type: 'array', items: { type: 'string' } },
+        },
+        required: ['company', 'position'],
+      },
+    },
+    education: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          institution: { type: 'string' },
+          degree: { type: 'string' },
+          field: { type: 'string' },
+          endDate: { type: 'string', description: 'YYYY' },
+        },
+        required: ['institution'],
+      },
+    },
+    languages: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          language: { type: 'string' },
+          level: { type: 'string' },
+        },
+        required: ['language'],
+      },
+    },
+  },
+  required: ['desiredPositions', 'summary', 'skills', 'experience'],
+};
+
+export class ResumeService {
+  private aiService: AIService;
+  private sessionService: SessionService;
+
+  constructor(aiService: AIService, sessionService: SessionService) {
+    this.aiService = aiService;
+    this.sessionService = sessionService;
+  }
+
+  /**
+   * Get the structured resume for the user's current resume text.
+   * Returns the cached version while the resume text is unchanged.
+   */
+  async getStructuredResume(userId: number): Promise<StructuredResume | null> {
+    const session = await this.sessionService.getSession(userId);
+    if (!session?.resumeText) {
+      return null;
+    }
+
+    const sourceHash = await sha256Hex(session.resumeText);
+    if (session.structuredResume?.sourceHash === sourceHash) {
+      return session.structuredResume.data;
+    }
+
+    const data = await this.parseResume(session.resumeText);
+    await this.sessionService.saveStructuredResume(userId, {
+      sourceHash,
+      data,
+      createdAt: new Date().toISOString(),
+    });
+
+    return data;
+  }
+
+  /**
+   * Cached structured resume if it still matches the resume text; never
+   * calls the model
+   */
+  async getCachedStructuredResume(
+    userId: number
+  ): Promise<StructuredResume | null> {
+    const session = await this.sessionService.getSession(userId);
+    if (!session?.resumeText || !session.structuredResume) {
+      return null;
+    }
+
+    const sourceHash = await sha256Hex(session.resumeText);
+    return session.structuredResume.sourceHash === sourceHash
+      ? session.structuredResume.data
+      : null;
+  }
+
+  /**
+   * Parse resume text into the structured model with AI
+   */
+  async parseResume(resumeText: string): Promise<StructuredResume> {
+    return this.aiService.generateStructured(
+      [
+        {
+          role: 'system',
+          content:
+            'You extract structured data from resumes. Answer strictly with JSON matching the schema. Do not invent facts that are not in the resume.',
+        },
+        {
+          role: 'user',
+          content: `Extract structured information from this resume. Keep the resume's original language for free-text fields. Dates must be YYYY-MM (or YYYY if the month is unknown); use "present" for the current job. Skill level is one of: ${SKILL_LEVELS.join(', ')}.
+
+RESUME:
+${resumeText.slice(0, MAX_INPUT_CHARS)}`,
+        },
+      ],
+      RESUME_SCHEMA,
+      (raw) => this.validateStructuredResume(raw),
+      { maxTokens: 2500, temperature: 0.1 }
+    );
+  }
+
+  /**
+   * Validate model output, repairing what can be fixed locally
+   */
+  validateStructuredResume(raw: unknown): ValidationResult<StructuredResume> {
+    if (!isRecord(raw)) {
+      return { errors: ['Root value must be a JSON object'] };
+    }
+
+    const errors: string[] = [];
+    const contacts = isRecord(raw['contacts']) ? raw['contacts'] : {};
+
+    const experience: ResumeExperience[] = [];
+    const rawExperience = Array.isArray(raw['experience'])
+      ? raw['experience']
+      : [];
+    if (!Array.isArray(raw['experience'])) {
+      errors.push('"experience" must be an array');
+    }
+    rawExperience.forEach((item, index) => {
+      if (!isRecord(item)) return;
+      const company = asString(item['company']);
+      const position = asString(item['position']);
+      if (!company && !position) {
+        errors.push(`experience[${index}] needs "company" or "position"`);
+        return;
+      }
+
+      const entry: ResumeExperience = {
+        company: company ?? '',
+        position: position ?? '',
+        achievements: asStringList(item['achievements']),
+      };
+      const startDate = asResumeDate(item['startDate']);
+      const endDate = asResumeDate(item['endDate'], true);
+      const description = asString(item['description']);
+      if (startDate) entry.startDate = startDate;
+      if (endDate) entry.endDate = endDate;
+      if (description) entry.description = description;
+      experience.push(entry);
+    });
+
+    const skills: ResumeSkill[] = [];
+    const rawSkills = Array.isArray(raw['skills']) ? raw['skills'] : [];
+    for (const item of rawSkills) {
+      // Models sometimes return plain strings instead of objects
+      const name = isRecord(item) ? asString(item['name']) : asString(item);
+      if (!name) continue;
+      const skill: ResumeSkill = { name };
+      const level = isRecord(item)
+        ? asEnum(item['level'], SKILL_LEVELS)
+        : undefined;
+      if (level) skill.level = level;
+      skills.push(skill);
+    }
+
+    const education: ResumeEducation[] = [];
+    const rawEducation = Array.isArray(raw['education'])
+      ? raw['education']
+      : [];
+    for (const item of rawEducation) {
+      if (!isRecord(item)) continue;
+      const institution = asString(item['institution']);
+      if (!institution) continue;
+      const entry: ResumeEducation = { institution };
+      const degree = asString(item['degree']);
+      const field = asString(item['field']);
+      const endDate = asResumeDate(item['endDate']);
+      if (degree) entry.degree = degree;
+      if (field) entry.field = field;
+      if (endDate) entry.endDate = endDate;
+      education.push(entry);
+    }
+
+    const languages: ResumeLanguage[] = [];
+    const rawLanguages = Array.isArray(raw['languages'])
+      ? raw['languages']
+      : [];
+    for (const item of rawLanguages) {
+      const language = isRecord(item)
+        ? asString(item['language'])
+        : asString(item);
+      if (!language) continue;
+      const entry: ResumeLanguage = { language };
+      const level = isRecord(item) ? asString(item['level']) : undefined;
+      if (level) entry.level = level;
+      languages.push(entry);
+    }
+
+    const resume: StructuredResume = {
+      contacts: { links: asStringList(contacts['links']) },
+      desiredPositions: asStringList(raw['desiredPositions']),
+      summary: asString(raw['summary']) ?? '',
+      skills,
+      experience,
+      education,
+      languages,
+    };
+    const name = asString(contacts['name']);
+    const email = asString(contacts['email']);
+    const phone = asString(contacts['phone']);
+    const location = asString(contacts['location']);
+    if (name) resume.contacts.name = name;
+    if (email) resume.contacts.email = email;
+    if (phone) resume.contacts.phone = phone;
+    if (location) resume.contacts.location = location;
+
+    if (!resume.summary && skills.length === 0 && experience.length === 0) {
+      errors.push('Resume has no summary, skills or experience');
+    }
+
+    return { value: resume, errors };
+  }
+
+  /**
+   * Format structured resume for a Telegram message
+   */
+  formatStructuredResume(resume: StructuredResume, t: Translator): string {
+    const sections: string[] = [];
+    const { contacts } = resume;
+
+    const contactLines = [
+      contacts.name && `👤 ${contacts.name}`,
+      contacts.location && `📍 ${contacts.location}`,
+      contacts.email && `✉️ ${contacts.email}`,
+      contacts.phone && `📞 ${contacts.phone}`,
+      ...contacts.links.map((link) => `🔗 ${link}`),
+    ].filter(Boolean);
+    if (contactLines.length > 0) {
+      sections.push(contactLines.join('\n'));
+    }
+
+    if (resume.desiredPositions.length > 0) {
+      sections.push(
+        `${t('resume.desiredPositions')}\n${resume.desiredPositions.map((p) => `• ${p}`).join('\n')}`
+      );
+    }
+
+    if (resume.summary) {
+      sections.push(`${t('resume.summary')}\n${resume.summary}`);
+    }
+
+    if (resume.skills.length > 0) {
+      const skills = resume.skills.map((skill) =>
+        skill.level
+          ? `• ${skill.name} (${t(`resume.skillLevel.${skill.level}`)})`
+          : `• ${skill.name}`
+      );
+      sections.push(`${t('resume.skills')}\n${skills.join('\n')}`);
+    }
+
+    if (resume.experience.length > 0) {
+      const entries = resume.experience.map((job) => {
+        const title = [job.position, job.company].filter(Boolean).join(' — ');
+        const period = this.formatPeriod(job.startDate, job.endDate, t);
+        let entry = `▪️ ${title}${period ? ` (${period})` : ''}`;
+        if (job.description) entry += `\n${job.description}`;
+        if (job.achievements.length > 0) {
+          entry += `\n${job.achievements.map((a) => `  • ${a}`).join('\n')}`;
+        }
+        return entry;
+      });
+      sections.push(`${t('resume.experience')}\n${entries.join('\n\n')}`);
+    }
+
+    if (resume.education.length > 0) {
+      const entries = resume.education.map((edu) => {
+        const details = [edu.degree, edu.field].filter(Boolean).join(', ');
+        return `• ${edu.institution}${details ? ` — ${details}` : ''}${edu.endDate ? ` (${edu.endDate})` : ''}`;
+      });
+      sections.push(`${t('resume.education')}\n${entries.join('\n')}`);
+    }
+
+    if (resume.languages.length > 0) {
+      const entries = resume.languages.map(
+        (lang) => `• ${lang.language}${lang.level ? ` — ${lang.level}` : ''}`
+      );
+      sections.push(`${t('resume.languages')}\n${entries.join('\n')}`);
+    }
+
+    return sections.join('\n\n');
+  }
+
+  private formatPeriod(
+    startDate: string | undefined,
+    endDate: string | undefined,
+    t: Translator
+  ): string {
+    if (!startDate && !endDate) return '';
+    const end = endDate === 'present' ? t('resume.present') : endDate;
+    return [startDate ?? '…', end ?? '…'].join(' — ');
+  }
+}
@@ -2,7 +2,18 @@
  * Simplified user session management service
  */
 
-import { ConversationState, UserSession } from '../types/session';
+import { MatchReport } from '../types/analysis';
+import { CoverLetter, CoverLetterOptions } from '../types/cover-letter';
+import { Locale } from '../types/i18n';
+import { InterviewPrep, MockInterview } from '../types/interview';
+import { StructuredJobAd } from '../types/job-ad';
+import { StructuredResume } from '../types/resume';
+import { ResumeTailoring } from '../types/tailoring';
+import {
+  CachedStructure,
+  ConversationState,
+  UserSession,
+} from '../types/session';
 
 export class SessionService {
   private kv: KVNamespace;
@@ -80,89 +91,229 @@ export class SessionService {
   }
 
   /**
-   * Append text to resume
+   * Store recognised photo text until the user confirms it
    */
-  async appendResumeText(userId: number, text: string): Promise<boolean> {
+  async setPendingOcrText(userId: number, text: string): Promise<boolean> {
     const session = await this.getSession(userId);
     if (!session) {
       return false;
     }
 
-    session.resumeText = (session.resumeText || '') + text + '\n';
+    session.pendingOcrText = text;
     return await this.saveSession(session);
   }
 
   /**
-   * Append text to job ad
+   * Take and clear pending recognised photo text
    */
-  async appendJobAdText(userId: number, text: string): Promise<boolean> {
+  async takePendingOcrText(userId: number): Promise<string | null> {
+    const session = await this.getSession(userId);
+    if (!session?.pendingOcrText) {
+      return null;
+    }
+
+    const text = session.pendingOcrText;
+    delete session.pendingOcrText;
+    await this.saveSession(session);
+    return text;
+  }
+
+  /**
+   * Mark whether the next collected text starts a new library entry
+   */
+  async setNewEntryPending(userId: number, pending: boolean): Promise<boolean> {
     const session = await this.getSession(userId);
     if (!session) {
       return false;
     }
 
-    session.jobAdText = (session.jobAdText || '') + text + '\n';
+    if (pending) {
+      session.newEntryPending = true;
+    } else {
+      delete session.newEntryPending;
+    }
     return await this.saveSession(session);
   }
 
   /**
-   * Get resume text for user
+   * Take and clear the new entry mark
    */
-  async getResumeText(userId: number): Promise<string | null> {
+  async takeNewEntryPending(userId: number): Promise<boolean> {
     const session = await this.getSession(userId);
-    return session?.resumeText || null;
+    if (!session?.newEntryPending) {
+      return false;
+    }
+
+    delete session.newEntryPending;
+    await this.saveSession(session);
+    return true;
   }
 
   /**
-   * Get job ad text for user
+   * Cache structured resume parsed from the current resume text
    */
-  async getJobAdText(userId: number): Promise<string | null> {
+  async saveStructuredResume(
+    userId: number,
+    structuredResume: CachedStructure<StructuredResume>
+  ): Promise<boolean> {
     const session = await this.getSession(userId);
-    return session?.jobAdText || null;
+    if (!session) {
+      return false;
+    }
+
+    session.structuredResume = structuredResume;
+    return await this.saveSession(session);
   }
 
   /**
-   * Clear user data
+   * Cache structured job ad parsed from the current job ad text
    */
-  async clearUserData(userId: number): Promise<boolean> {
+  async saveStructuredJobAd(
+    userId: number,
+    structuredJobAd: CachedStructure<StructuredJobAd>
+  ): Promise<boolean> {
     const session = await this.getSession(userId);
     if (!session) {
       return false;
     }
 
-    delete session.resumeText;
-    delete session.jobAdText;
-    session.state = 'idle';
+    session.structuredJobAd = structuredJobAd;
     return await this.saveSession(session);
   }
 
   /**
-   * Delete session
+   * Merge cover letter choices made so far and return the result
    */
-  async deleteSession(userId: number): Promise<boolean> {
-    try {
-      await this.kv.delete(`session:${userId}`);
-      return true;
-    } catch (error) {
-      console.error('Error deleting session:', error);
+  async updateCoverLetterOptions(
+    userId: number,
+    options: Partial<CoverLetterOptions> | null
+  ): Promise<Partial<CoverLetterOptions>> {
+    const session = await this.getSession(userId);
+    if (!session) {
+      return {};
+    }
+
+    session.coverLetterOptions = options
+      ? { ...session.coverLetterOptions, ...options }
+      : {};
+    await this.saveSession(session);
+    return session.coverLetterOptions;
+  }
+
+  /**
+   * Store the latest cover letter draft
+   */
+  async saveCoverLetter(
+    userId: number,
+    coverLetter: CoverLetter
+  ): Promise<boolean> {
+    const session = await this.getSession(userId);
+    if (!session) {
       return false;
     }
+
+    session.coverLetter = coverLetter;
+    return await this.saveSession(session);
   }
 
   /**
-   * Clear resume text from session
+   * Store the latest match analysis for export
    */
-  async clearResumeText(userId: number): Promise<boolean> {
-    try {
-      const session = await this.getSession(userId);
-      if (session) {
-        session.resumeText = '';
-        await this.saveSession(session);
-        return true;
-      }
+  async saveMatchReport(
+    userId: number,
+    matchReport: MatchReport
+  ): Promise<boolean> {
+    const session = await this.getSession(userId);
+    if (!session) {
       return false;
+    }
+
+    session.matchReport = matchReport;
+    return await this.saveSession(session);
+  }
+
+  /**
+   * Store resume tailoring suggestions under review (null clears them)
+   */
+  async saveResumeTailoring(
+    userId: number,
+    tailoring: ResumeTailoring | null
+  ): Promise<boolean> {
+    const session = await this.getSession(userId);
+    if (!session) {
+      return false;
+    }
+
+    if (tailoring) {
+      session.resumeTailoring = tailoring;
+    } else {
+      delete session.resumeTailoring;
+    }
+    return await this.saveSession(session);
+  }
+
+  /**
+   * Store generated interview questions for paging
+   */
+  async saveInterviewPrep(
+    userId: number,
+    interviewPrep: InterviewPrep
+  ): Promise<boolean> {
+    const session = await this.getSession(userId);
+    if (!session) {
+      return false;
+    }
+
+    session.interviewPrep = interviewPrep;
+    return await this.saveSession(session);
+  }
+
+  /**
+   * Store the mock interview history (null clears it)
+   */
+  async saveMockInterview(
+    userId: number,
+    mockInterview: MockInterview | null
+  ): Promise<boolean> {
+    const session = await this.getSession(userId);
+    if (!session) {
+      return false;
+    }
+
+    if (mockInterview) {
+      session.mockInterview = mockInterview;
+    } else {
+      delete session.mockInterview;
+    }
+    return await this.saveSession(session);
+  }
+
+  /**
+   * Store the language chosen with /language, null follows Telegram again
+   */
+  async setLocale(userId: number, locale: Locale | null): Promise<boolean> {
+    const session = await this.getSession(userId);
+    if (!session) {
+      return false;
+    }
+
+    if (locale) {
+      session.locale = locale;
+    } else {
+      delete session.locale;
+    }
+    return await this.saveSession(session);
+  }
+
+  /**
+   * Delete session
+   */
+  async deleteSession(userId: number): Promise<boolean> {
+    try {
+      await this.kv.delete(`session:${userId}`);
+      return true;
     } catch (error) {
-      console.error('Error clearing resume text:', error);
+      console.error('Error deleting session:', error);
       return false;
     }
   }
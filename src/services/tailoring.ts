@@ -0,0 +1,231 @@
+/**
+ * Resume tailoring service
+ *
+ * Suggests rewrites of experience bullets that use the job ad's wording
+ * and applies the accepted ones to a copy of the resume.
+ */
+
+import { JsonSchema, ValidationResult } from '../types/ai';
+import { Locale } from '../types/i18n';
+import { StructuredResume } from '../types/resume';
+import { BulletSuggestion, ResumeTailoring } from '../types/tailoring';
+import { formatWordDiff } from '../utils/text-diff';
+import { asNumber, asString, isRecord } from '../utils/validation';
+import { AIService } from './ai';
+import { LOCALE_NAMES, Translator } from './i18n';
+import { ResumeService } from './resume';
+
+// Keep prompts within the model context window
+const MAX_INPUT_CHARS = 5000;
+const MAX_BULLETS = 40;
+const MAX_SUGGESTIONS = 12;
+
+const SUGGESTIONS_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    suggestions: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          id: { type: 'integer', description: 'Bullet number' },
+          rewritten: { type: 'string' },
+          reason: { type: 'string' },
+        },
+        required: ['id', 'rewritten'],
+      },
+    },
+  },
+  required: ['suggestions'],
+};
+
+interface BulletRef {
+  experienceIndex: number;
+  achievementIndex: number;
+  text: string;
+}
+
+export class ResumeTailoringService {
+  private aiService: AIService;
+  private resumeService: ResumeService;
+
+  constructor(aiService: AIService, resumeService: ResumeService) {
+    this.aiService = aiService;
+    this.resumeService = resumeService;
+  }
+
+  /**
+   * Suggest bullet rewrites that match the job ad's wording
+   */
+  async suggestRewrites(
+    resume: StructuredResume,
+    jobAdText: string,
+    locale: Locale
+  ): Promise<BulletSuggestion[]> {
+    const bullets = this.collectBullets(resume);
+    if (bullets.length === 0) {
+      return [];
+    }
+
+    const numbered = bullets
+      .map((bullet, index) => {
+        const job = resume.experience[bullet.experienceIndex];
+        const place = [job?.position, job?.company].filter(Boolean).join(', ');
+        return `[${index + 1}] (${place}) ${bullet.text}`;
+      })
+      .join('\n');
+
+    return this.aiService.generateStructured(
+      [
+        {
+          role: 'system',
+          content:
+            'You are an experienced resume writer. You tailor resume bullets to a job ad and answer strictly with JSON matching the schema.',
+        },
+        {
+          role: 'user',
+          content: `Suggest rewrites of the resume bullets below so they use the job ad's wording and highlight the most relevant results. Only suggest rewrites that really improve the match, at most ${MAX_SUGGESTIONS}. Keep the bullet's language and every fact as is: do not invent technologies, numbers or responsibilities that are not in the bullet. Refer to bullets by their number in "id" and explain each change briefly in "reason" in ${LOCALE_NAMES[locale]}.
+
+JOB AD:
+${jobAdText.slice(0, MAX_INPUT_CHARS)}
+
+RESUME BULLETS:
+${numbered}`,
+        },
+      ],
+      SUGGESTIONS_SCHEMA,
+      (raw) => this.validateSuggestions(raw, bullets),
+      { maxTokens: 2000, temperature: 0.3 }
+    );
+  }
+
+  /**
+   * Validate model output against the bullets that were sent
+   */
+  validateSuggestions(
+    raw: unknown,
+    bullets: BulletRef[]
+  ): ValidationResult<BulletSuggestion[]> {
+    if (!isRecord(raw) || !Array.isArray(raw['suggestions'])) {
+      return { errors: ['"suggestions" must be an array'] };
+    }
+
+    const errors: string[] = [];
+    const suggestions: BulletSuggestion[] = [];
+    const seen = new Set<number>();
+
+    raw['suggestions'].forEach((item, index) => {
+      if (!isRecord(item)) return;
+      const id = asNumber(item['id']);
+      const bullet = id !== undefined ? bullets[id - 1] : undefined;
+      if (!bullet || id === undefined) {
+        errors.push(`suggestions[${index}].id must be a bullet number`);
+        return;
+      }
+
+      const rewritten = asString(item['rewritten']);
+      if (!rewritten || rewritten === bullet.text || seen.has(id)) return;
+      seen.add(id);
+
+      const suggestion: BulletSuggestion = {
+        experienceIndex: bullet.experienceIndex,
+        achievementIndex: bullet.achievementIndex,
+        original: bullet.text,
+        rewritten,
+      };
+      const reason = asString(item['reason']);
+      if (reason) suggestion.reason = reason;
+      suggestions.push(suggestion);
+    });
+
+    return { value: suggestions.slice(0, MAX_SUGGESTIONS), errors };
+  }
+
+  /**
+   * Build the resume text and structure with accepted suggestions applied.
+   * Bullets are replaced in place in the original text; when a bullet cannot
+   * be found there the text is rebuilt from the structured resume.
+   */
+  applySuggestions(
+    tailoring: ResumeTailoring,
+    t: Translator
+  ): {
+    text: string;
+    resume: StructuredResume;
+  } {
+    const accepted = tailoring.suggestions.filter(
+      (s) => s.decision === 'accepted'
+    );
+
+    const resume: StructuredResume = structuredClone(tailoring.resume);
+    for (const suggestion of accepted) {
+      const job = resume.experience[suggestion.experienceIndex];
+      if (job && job.achievements[suggestion.achievementIndex] !== undefined) {
+        job.achievements[suggestion.achievementIndex] = suggestion.rewritten;
+      }
+    }
+
+    let text = tailoring.resumeText;
+    for (const suggestion of accepted) {
+      const pattern = this.createBulletPattern(suggestion.original);
+      if (!pattern.test(text)) {
+        return {
+          text: this.resumeService.formatStructuredResume(resume, t),
+          resume,
+        };
+      }
+      text = text.replace(pattern, () => suggestion.rewritten);
+    }
+
+    return { text, resume };
+  }
+
+  /**
+   * Format a suggestion with before/after text and a word diff
+   */
+  formatSuggestion(
+    tailoring: ResumeTailoring,
+    index: number,
+    t: Translator
+  ): string | null {
+    const suggestion = tailoring.suggestions[index];
+    if (!suggestion) return null;
+
+    const job = tailoring.resume.experience[suggestion.experienceIndex];
+    const place = [job?.position, job?.company].filter(Boolean).join(' — ');
+
+    const sections = [
+      `${t('tailor.suggestion', { number: index + 1, total: tailoring.suggestions.length })}${place ? `\n🏢 ${place}` : ''}`,
+      `${t('tailor.before')}\n${suggestion.original}`,
+      `${t('tailor.after')}\n${suggestion.rewritten}`,
+      `${t('tailor.changes')}\n${formatWordDiff(suggestion.original, suggestion.rewritten)}`,
+    ];
+    if (suggestion.reason) {
+      sections.push(`💡 ${suggestion.reason}`);
+    }
+
+    return sections.join('\n\n');
+  }
+
+  private collectBullets(resume: StructuredResume): BulletRef[] {
+    const bullets: BulletRef[] = [];
+    resume.experience.forEach((job, experienceIndex) => {
+      job.achievements.forEach((text, achievementIndex) => {
+        bullets.push({ experienceIndex, achievementIndex, text });
+      });
+    });
+    return bullets.slice(0, MAX_BULLETS);
+  }
+
+  /**
+   * Match a bullet in the raw text regardless of whitespace differences
+   */
+  private createBulletPattern(bullet: string): RegExp {
+    const escaped = bullet
+      .trim()
+      .split(/\s+/)
+      .map((word) => word.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+      .join('\\s+');
+    return new RegExp(escaped);
+  }
+}
@@ -0,0 +1,247 @@
+/**
+ * Telegram Bot API request layer
+ *
+ * Every Bot API call goes through TelegramApiClient. Failed calls raise a
+ * TelegramApiError. 429 responses are retried after Telegram's retry_after,
+ * network and server errors with exponential backoff only for calls that
+ * are safe to repeat, and outgoing messages are throttled per chat and
+ * globally.
+ */
+
+// Telegram API response interface
+interface TelegramApiResponse<T> {
+  ok: boolean;
+  result?: T;
+  error_code?: number;
+  description?: string;
+  parameters?: {
+    retry_after?: number; // Seconds to wait after a 429
+  };
+}
+
+const MAX_ATTEMPTS = 3;
+const BASE_BACKOFF_MS = 500;
+// Longer waits would outlast the webhook request; give up instead
+const MAX_RETRY_AFTER_SECONDS = 10;
+
+// A request that failed in transit or with a server error may still have
+// been carried out, so only calls whose repetition has no visible effect
+// are retried after one; a 429 means Telegram did not run the call
+const IDEMPOTENT_METHODS = new Set([
+  'getMe',
+  'getFile',
+  'downloadFile',
+  'answerCallbackQuery',
+  'sendChatAction',
+  'editMessageText',
+  'editMessageReplyMarkup',
+  'deleteMessage',
+  'setWebhook',
+  'deleteWebhook',
+  'setMyCommands',
+]);
+
+// Telegram's broadcast limits for bots
+const CHAT_INTERVAL_MS = 1000;
+const GLOBAL_INTERVAL_MS = 1000 / 30;
+
+/**
+ * Failed Bot API call; errorCode is Telegram's error_code, the HTTP status,
+ * or 0 when the request did not reach Telegram
+ */
+export class TelegramApiError extends Error {
+  readonly method: string;
+  readonly errorCode: number;
+  readonly description: string;
+  readonly retryAfter: number | undefined;
+
+  constructor(
+    method: string,
+    errorCode: number,
+    description: string,
+    retryAfter?: number
+  ) {
+    super(`Telegram ${method} failed (${errorCode}): ${description}`);
+    this.name = 'TelegramApiError';
+    this.method = method;
+    this.errorCode = errorCode;
+    this.description = description;
+    this.retryAfter = retryAfter;
+  }
+
+  /**
+   * Rate limits may succeed on retry; network and server errors only for
+   * idempotent methods, so a message is never sent twice
+   */
+  get retryable(): boolean {
+    if (this.errorCode === 429) return true;
+    return (
+      (this.errorCode === 0 || this.errorCode >= 500) &&
+      IDEMPOTENT_METHODS.has(this.method)
+    );
+  }
+
+  /**
+   * The user blocked the bot (or the chat is gone); nothing can be sent
+   * there
+   */
+  get botBlocked(): boolean {
+    return this.errorCode === 403;
+  }
+
+  /**
+   * An edit would leave the message as it is
+   */
+  get notModified(): boolean {
+    return (
+      this.errorCode === 400 &&
+      this.description.includes('message is not modified')
+    );
+  }
+}
+
+/**
+ * Spaces out outgoing messages: one per second in a chat and 30 per second
+ * overall. Slots are reserved before waiting, so concurrent sends queue up.
+ * The state lives in the isolate, so limits hold per Worker instance and
+ * Telegram's 429 responses remain the backstop.
+ */
+export class MessageThrottle {
+  private chatNext = new Map<string, number>();
+  private globalNext = 0;
+
+  async wait(chatId: number | string): Promise<void> {
+    const delay = this.reserve(String(chatId), Date.now());
+    if (delay > 0) await sleep(delay);
+  }
+
+  private reserve(chatId: string, now: number): number {
+    const at = Math.max(now, this.chatNext.get(chatId) ?? 0, this.globalNext);
+    this.chatNext.set(chatId, at + CHAT_INTERVAL_MS);
+    this.globalNext = at + GLOBAL_INTERVAL_MS;
+
+    // Forget chats whose slot has passed
+    if (this.chatNext.size > 1000) {
+      for (const [chat, next] of this.chatNext) {
+        if (next <= now) this.chatNext.delete(chat);
+      }
+    }
+    return at - now;
+  }
+}
+
+const sharedThrottle = new MessageThrottle();
+
+export class TelegramApiClient {
+  private botToken: string;
+  private baseUrl: string;
+  private throttle: MessageThrottle;
+
+  constructor(botToken: string, throttle: MessageThrottle = sharedThrottle) {
+    this.botToken = botToken;
+    this.baseUrl = `https://api.telegram.org/bot${botToken}`;
+    this.throttle = throttle;
+  }
+
+  /**
+   * Call a Bot API method; pass chatId for methods that send messages so
+   * they are throttled
+   */
+  async call<T>(
+    method: string,
+    payload?: object | FormData,
+    chatId?: number | string
+  ): Promise<T> {
+    return this.withRetries(method, async () => {
+      if (chatId !== undefined) await this.throttle.wait(chatId);
+      return this.request<T>(method, payload);
+    });
+  }
+
+  /**
+   * Download a file by the file_path returned from getFile
+   */
+  async download(filePath: string): Promise<ArrayBuffer> {
+    return this.withRetries('downloadFile', async () => {
+      const response = await fetch(
+        `https://api.telegram.org/file/bot${this.botToken}/${filePath}`
+      );
+      if (!response.ok) {
+        throw new TelegramApiError(
+          'downloadFile',
+          response.status,
+          response.statusText
+        );
+      }
+      return response.arrayBuffer();
+    });
+  }
+
+  private async request<T>(
+    method: string,
+    payload?: object | FormData
+  ): Promise<T> {
+    const init: RequestInit = { method: 'POST' };
+    if (payload instanceof FormData) {
+      init.body = payload;
+    } else if (payload) {
+      init.headers = { 'Content-Type': 'application/json' };
+      init.body = JSON.stringify(payload);
+    }
+
+    const response = await fetch(`${this.baseUrl}/${method}`, init);
+    const data = (await response
+      .json()
+      .catch(() => null)) as TelegramApiResponse<T> | null;
+
+    // Telegram may answer an error with HTTP 200 and ok: false
+    if (response.ok && data?.ok) {
+      return data.result as T;
+    }
+    throw new TelegramApiError(
+      method,
+      data?.error_code ?? response.status,
+      data?.description ?? response.statusText,
+      data?.parameters?.retry_after
+    );
+  }
+
+  private async withRetries<T>(
+    method: string,
+    attempt: () => Promise<T>
+  ): Promise<T> {
+    for (let attemptNumber = 1; ; attemptNumber++) {
+      try {
+        return await attempt();
+      } catch (error) {
+        const apiError =
+          error instanceof TelegramApiError
+            ? error
+            : new TelegramApiError(method, 0, String(error));
+        const delay = this.retryDelay(apiError, attemptNumber);
+        if (delay === null) throw apiError;
+
+        console.warn(`${apiError.message}; retrying in ${delay} ms`);
+        await sleep(delay);
+      }
+    }
+  }
+
+  /**
+   * Milliseconds to wait before the next attempt, or null to give up
+   */
+  private retryDelay(error: TelegramApiError, attempt: number): number | null {
+    if (!error.retryable || attempt >= MAX_ATTEMPTS) return null;
+
+    if (error.retryAfter !== undefined) {
+      return error.retryAfter <= MAX_RETRY_AFTER_SECONDS
+        ? error.retryAfter * 1000
+        : null;
+    }
+    return BASE_BACKOFF_MS * 2 ** (attempt - 1);
+  }
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
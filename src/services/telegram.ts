@@ -1,14 +1,26 @@
 /**
  * Telegram Bot API service
+ *
+ * Failed calls raise the client's TelegramApiError after its retries, so
+ * callers can tell a blocked bot or an unchanged message from other
+ * failures.
  */
 
-import { SendMessageOptions, TelegramFile } from '../types/telegram';
-
-// Telegram API response interface
-interface TelegramApiResponse<T> {
-  ok: boolean;
-  result: T;
-}
+import {
+  AnswerCallbackQueryOptions,
+  BotCommand,
+  BotUser,
+  DeleteMessageOptions,
+  EditMessageReplyMarkupOptions,
+  EditMessageTextOptions,
+  SendDocumentOptions,
+  SendLongMessageOptions,
+  SendChatActionOptions,
+  SendMessageOptions,
+  TelegramFile,
+} from '../types/telegram';
+import { MAX_MESSAGE_LENGTH, splitMessage } from '../utils/message-splitter';
+import { TelegramApiClient } from './telegram-client';
 
 // Webhook payload interface
 interface WebhookPayload {
@@ -17,167 +29,173 @@ interface WebhookPayload {
 }
 
 export class TelegramService {
-  private botToken: string;
-  private baseUrl: string;
+  private client: TelegramApiClient;
 
-  constructor(botToken: string) {
-    this.botToken = botToken;
-    this.baseUrl = `https://api.telegram.org/bot${botToken}`;
+  constructor(client: TelegramApiClient) {
+    this.client = client;
   }
 
   /**
    * Send a text message to a chat
    */
-  async sendMessage(options: SendMessageOptions): Promise<boolean> {
-    try {
-      const response = await fetch(`${this.baseUrl}/sendMessage`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(options),
-      });
-
-      if (!response.ok) {
-        const errorText = await response.text();
-        console.error('Failed to send message:', errorText);
-        console.error(
-          'Chat ID:',
-          options.chat_id,
-          'Text length:',
-          options.text?.length
-        );
-        return false;
+  async sendMessage(options: SendMessageOptions): Promise<void> {
+    await this.send('sendMessage', options, options.chat_id);
+  }
+
+  /**
+   * Send text of any length, split into several messages when it exceeds
+   * Telegram's limit; the keyboard is attached to the last part
+   */
+  async sendLongMessage(options: SendLongMessageOptions): Promise<void> {
+    const { partLabel, reply_markup, ...message } = options;
+    let parts = splitMessage(
+      message.text,
+      MAX_MESSAGE_LENGTH,
+      message.parse_mode
+    );
+
+    if (parts.length > 1 && partLabel) {
+      // Leave room for the label, however many parts there turn out to be
+      const reserve = partLabel(parts.length * 2, parts.length * 2).length + 2;
+      parts = splitMessage(
+        message.text,
+        MAX_MESSAGE_LENGTH - reserve,
+        message.parse_mode
+      );
+    }
+
+    // Parts are spaced out by the client's per-chat throttle
+    for (let i = 0; i < parts.length; i++) {
+      const text =
+        parts.length > 1 && partLabel
+          ? `${partLabel(i + 1, parts.length)}\n\n${parts[i]}`
+          : (parts[i] ?? '');
+      const part: SendMessageOptions = { ...message, text };
+      if (reply_markup && i === parts.length - 1) {
+        part.reply_markup = reply_markup;
       }
 
-      return true;
-    } catch (error) {
-      console.error('Error sending message:', error);
-      return false;
+      await this.sendMessage(part);
     }
   }
 
   /**
-   * Get file information from Telegram
+   * Replace the text (and keyboard) of a message sent by the bot
    */
-  async getFile(fileId: string): Promise<TelegramFile | null> {
-    try {
-      const response = await fetch(`${this.baseUrl}/getFile`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({ file_id: fileId }),
-      });
-
-      if (!response.ok) {
-        console.error('Failed to get file info:', await response.text());
-        return null;
-      }
+  async editMessageText(options: EditMessageTextOptions): Promise<void> {
+    await this.send('editMessageText', options);
+  }
 
-      const data = (await response.json()) as TelegramApiResponse<TelegramFile>;
-      return data.result;
-    } catch (error) {
-      console.error('Error getting file info:', error);
-      return null;
-    }
+  /**
+   * Replace or remove the inline keyboard of a message sent by the bot
+   */
+  async editMessageReplyMarkup(
+    options: EditMessageReplyMarkupOptions
+  ): Promise<void> {
+    await this.send('editMessageReplyMarkup', options);
   }
 
   /**
-   * Download file content from Telegram
+   * Delete a message; bots can delete their own messages and, in private
+   * chats, the user's messages younger than 48 hours
    */
-  async downloadFile(filePath: string): Promise<ArrayBuffer | null> {
-    try {
-      const fileUrl = `https://api.telegram.org/file/bot${this.botToken}/${filePath}`;
-      const response = await fetch(fileUrl);
-
-      if (!response.ok) {
-        console.error('Failed to download file:', response.statusText);
-        return null;
-      }
+  async deleteMessage(options: DeleteMessageOptions): Promise<void> {
+    await this.send('deleteMessage', options);
+  }
 
-      return await response.arrayBuffer();
-    } catch (error) {
-      console.error('Error downloading file:', error);
-      return null;
+  /**
+   * Show "typing…" or a similar status while a slow reply is prepared
+   */
+  async sendChatAction(options: SendChatActionOptions): Promise<void> {
+    await this.send('sendChatAction', options);
+  }
+
+  /**
+   * Stop the loading indicator on a pressed inline button
+   */
+  async answerCallbackQuery(
+    options: AnswerCallbackQueryOptions
+  ): Promise<void> {
+    await this.send('answerCallbackQuery', options);
+  }
+
+  /**
+   * Upload a file to a chat
+   */
+  async sendDocument(options: SendDocumentOptions): Promise<void> {
+    const { document, ...fields } = options;
+    const form = new FormData();
+    for (const [key, value] of Object.entries(fields)) {
+      form.append(
+        key,
+        typeof value === 'object' ? JSON.stringify(value) : String(value)
+      );
     }
+    form.append(
+      'document',
+      new Blob([document.content], {
+        type: document.mimeType ?? 'application/octet-stream',
+      }),
+      document.fileName
+    );
+
+    await this.send('sendDocument', form, options.chat_id);
   }
 
   /**
-   * Set webhook URL
+   * Get file information from Telegram
    */
-  async setWebhook(url: string, secretToken?: string): Promise<boolean> {
-    try {
-      const payload: WebhookPayload = { url };
-      if (secretToken) {
-        payload.secret_token = secretToken;
-      }
+  async getFile(fileId: string): Promise<TelegramFile> {
+    return this.client.call<TelegramFile>('getFile', { file_id: fileId });
+  }
 
-      const response = await fetch(`${this.baseUrl}/setWebhook`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(payload),
-      });
-
-      if (!response.ok) {
-        console.error('Failed to set webhook:', await response.text());
-        return false;
-      }
+  /**
+   * Download file content from Telegram
+   */
+  async downloadFile(filePath: string): Promise<ArrayBuffer> {
+    return this.client.download(filePath);
+  }
 
-      return true;
-    } catch (error) {
-      console.error('Error setting webhook:', error);
-      return false;
+  /**
+   * Information about the bot the token belongs to
+   */
+  async getMe(): Promise<BotUser> {
+    return this.client.call<BotUser>('getMe');
+  }
+
+  /**
+   * Set webhook URL
+   */
+  async setWebhook(url: string, secretToken?: string): Promise<void> {
+    const payload: WebhookPayload = { url };
+    if (secretToken) {
+      payload.secret_token = secretToken;
     }
+    await this.send('setWebhook', payload);
   }
 
   /**
    * Delete webhook
    */
-  async deleteWebhook(): Promise<boolean> {
-    try {
-      const response = await fetch(`${this.baseUrl}/deleteWebhook`, {
-        method: 'POST',
-      });
-
-      if (!response.ok) {
-        console.error('Failed to delete webhook:', await response.text());
-        return false;
-      }
-
-      return true;
-    } catch (error) {
-      console.error('Error deleting webhook:', error);
-      return false;
-    }
+  async deleteWebhook(): Promise<void> {
+    await this.send('deleteWebhook');
   }
 
   /**
    * Set bot commands
    */
-  async setMyCommands(
-    commands: Array<{ command: string; description: string }>
-  ): Promise<boolean> {
-    try {
-      const response = await fetch(`${this.baseUrl}/setMyCommands`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({ commands }),
-      });
-
-      if (!response.ok) {
-        console.error('Failed to set commands:', await response.text());
-        return false;
-      }
+  async setMyCommands(commands: BotCommand[]): Promise<void> {
+    await this.send('setMyCommands', { commands });
+  }
 
-      return true;
-    } catch (error) {
-      console.error('Error setting commands:', error);
-      return false;
-    }
+  /**
+   * Call a method whose result is not needed
+   */
+  private async send(
+    method: string,
+    payload?: object | FormData,
+    chatId?: number | string
+  ): Promise<void> {
+    await this.client.call(method, payload, chatId);
   }
 }
@@ -0,0 +1,38 @@
+/**
+ * Telegram update deduplication
+ *
+ * Telegram re-sends an update when the webhook times out or fails, so the
+ * same message could otherwise be processed (and appended) twice.
+ */
+
+export class UpdateDeduplicationService {
+  private kv: KVNamespace;
+  private ttlSeconds: number;
+
+  constructor(kv: KVNamespace, ttlSeconds: number = 86400) {
+    this.kv = kv;
+    this.ttlSeconds = ttlSeconds;
+  }
+
+  /**
+   * Record the update; false if it was already seen
+   *
+   * KV has no atomic insert, so two deliveries racing within the same
+   * moment can both pass; retries after a timeout are reliably caught.
+   */
+  async markProcessed(updateId: number): Promise<boolean> {
+    const key = `update:${updateId}`;
+    try {
+      if ((await this.kv.get(key)) !== null) {
+        return false;
+      }
+      await this.kv.put(key, new Date().toISOString(), {
+        expirationTtl: this.ttlSeconds,
+      });
+      return true;
+    } catch (error) {
+      console.error('Update deduplication error:', error);
+      return true; // Process on error rather than drop the update
+    }
+  }
+}
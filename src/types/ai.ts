@@ -16,3 +16,14 @@ export interface CloudflareAIService {
   run: (model: string, options: unknown) => Promise<unknown>;
   toMarkdown?: (files: AIFileInput[]) => Promise<AIModelResult[]>;
 }
+
+export type JsonSchema = Record<string, unknown>;
+
+/**
+ * Result of validating model output: a usable value (possibly repaired
+ * locally) and the problems that should be sent back to the model
+ */
+export interface ValidationResult<T> {
+  value?: T;
+  errors: string[];
+}
@@ -0,0 +1,20 @@
+/**
+ * Resume vs job ad analysis types
+ */
+
+export interface MatchAnalysis {
+  overallScore: number; // 0-100
+  summary: string;
+  matchedRequirements: string[];
+  missingRequirements: string[];
+  suggestions: string[];
+}
+
+/**
+ * Latest analysis kept in the session for /export
+ */
+export interface MatchReport {
+  analysis: MatchAnalysis;
+  jobTitle?: string;
+  createdAt: string;
+}
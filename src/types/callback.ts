@@ -0,0 +1,69 @@
+/**
+ * Inline keyboard callback types
+ */
+
+import {
+  CoverLetterLanguage,
+  CoverLetterLength,
+  CoverLetterTone,
+} from './cover-letter';
+import { ExportFormat, ExportKind } from './export';
+import { Locale } from './i18n';
+
+/**
+ * Arguments carried by each callback action; callback_data is
+ * "<action>[:<arg>...]" and must fit in Telegram's 64-byte limit
+ */
+export interface CallbackPayloads {
+  resume_done: [];
+  job_done: [];
+  analyze_match: [];
+  ocr_confirm: [];
+  ocr_discard: [];
+  jobs:
+    | ['list' | 'new']
+    | ['open' | 'select' | 'rename' | 'delete' | 'del_ok', string];
+  resumes:
+    | ['list' | 'new']
+    | ['open' | 'select' | 'dup' | 'rename' | 'delete' | 'del_ok', string];
+  cover:
+    | ['tone', CoverLetterTone]
+    | ['lang', CoverLetterLanguage]
+    | ['len', CoverLetterLength]
+    | ['new' | 'txt' | 'md'];
+  tailor: ['acc' | 'rej', number] | ['save' | 'cancel'];
+  prep: ['page', number];
+  lang: [Locale | 'auto'];
+  export: [] | [ExportKind] | [ExportKind, ExportFormat];
+}
+
+export type CallbackAction = keyof CallbackPayloads;
+
+export interface CallbackContext {
+  chatId: number;
+  userId: number;
+  messageId?: number; // Message carrying the pressed button
+}
+
+/**
+ * Decoded arguments are untrusted strings: old messages may carry buttons
+ * from earlier versions, so handlers validate them
+ */
+export type CallbackHandler = (
+  context: CallbackContext,
+  args: string[]
+) => Promise<void>;
+
+export interface CallbackRouteOptions {
+  // Leave the buttons active after a press, e.g. for pagination or menus
+  keepKeyboard?: boolean | ((args: string[]) => boolean);
+}
+
+/**
+ * Route found for a pressed button, run once the callback is answered
+ */
+export interface CallbackMatch {
+  action: CallbackAction;
+  keepKeyboard: boolean;
+  run: () => Promise<void>;
+}
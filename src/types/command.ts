@@ -0,0 +1,43 @@
+/**
+ * Bot command registry types
+ */
+
+import { MessageKey } from '../i18n';
+import { Translator } from '../services/i18n';
+
+export interface CommandContext {
+  chatId: number;
+  userId: number;
+  t: Translator;
+  isAdmin: boolean;
+}
+
+/**
+ * Parsed arguments, or a catalog key explaining the expected usage
+ */
+export type CommandArgsResult<T> = { value: T } | { error: MessageKey };
+
+export interface CommandDefinition<TArgs = void> {
+  name: string; // Without the leading slash
+  description: MessageKey;
+  handler: (context: CommandContext, args: TArgs) => Promise<void>;
+  adminOnly?: boolean; // Refused and hidden for non-admins
+  visibleInMenu?: boolean; // Included in setMyCommands, true by default
+  parseArgs?: (args: string[]) => CommandArgsResult<TArgs>;
+}
+
+/**
+ * Command text split into name, target bot and arguments
+ */
+export interface ParsedCommand {
+  name: string;
+  botUsername?: string; // From "/cmd@botname"
+  args: string[];
+}
+
+export type CommandDispatchResult =
+  | { status: 'handled' }
+  | { status: 'ignored' } // Addressed to another bot
+  | { status: 'forbidden'; command: string }
+  | { status: 'invalid_args'; command: string; error: MessageKey }
+  | { status: 'unknown'; command: string; suggestions: string[] };
@@ -0,0 +1,44 @@
+/**
+ * Application configuration types
+ */
+
+import { LocalizationConfig } from './i18n';
+
+export type Environment = 'development' | 'staging' | 'production';
+
+export interface WorkerConfig {
+  name: string;
+  botUsername: string;
+  description: string;
+}
+
+export interface ApplicationConfig {
+  sessionTimeoutHours: number;
+  maxFileSizeMB: number;
+  rateLimitPerMinute: number;
+  aiRateLimitPerMinute: number;
+  debugLogging: boolean; // Store DEBUG log entries
+}
+
+export interface AIConfig {
+  model: string;
+  maxTokens: number;
+  temperature: number;
+  requestTimeoutSeconds: number;
+}
+
+export interface AdminConfig {
+  userIds: number[]; // Telegram user IDs allowed to run admin commands
+}
+
+/**
+ * config.json resolved for one environment
+ */
+export interface AppConfig {
+  environment: Environment;
+  worker: WorkerConfig;
+  application: ApplicationConfig;
+  ai: AIConfig;
+  localization: LocalizationConfig;
+  admin: AdminConfig;
+}
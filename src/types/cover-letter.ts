@@ -0,0 +1,24 @@
+/**
+ * Cover letter generation types
+ */
+
+export type CoverLetterTone = 'formal' | 'friendly' | 'concise';
+
+export type CoverLetterLanguage = 'ru' | 'en';
+
+export type CoverLetterLength = 'short' | 'medium' | 'long';
+
+export interface CoverLetterOptions {
+  tone: CoverLetterTone;
+  language: CoverLetterLanguage;
+  length: CoverLetterLength;
+}
+
+export interface CoverLetter {
+  text: string;
+  options: CoverLetterOptions;
+  jobTitle?: string; // Used for the file name and Markdown heading
+  revisions: number; // Follow-up edits applied to the first draft
+  createdAt: string;
+  updatedAt: string;
+}
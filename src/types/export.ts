@@ -0,0 +1,41 @@
+/**
+ * Document export types
+ */
+
+export type ExportKind = 'resume' | 'match' | 'cover';
+
+export type ExportFormat = 'md' | 'html' | 'pdf';
+
+export type ExportBlock =
+  | { type: 'paragraph'; text: string }
+  | { type: 'subheading'; text: string; meta?: string } // e.g. job and period
+  | { type: 'list'; items: string[] };
+
+export interface ExportSection {
+  heading?: string;
+  blocks: ExportBlock[];
+}
+
+/**
+ * Layout-neutral content; templates decide how it looks in each format
+ */
+export interface ExportDocument {
+  kind: ExportKind;
+  title: string;
+  subtitle?: string;
+  sections: ExportSection[];
+  footer: string; // e.g. "Generated on 19.10.2026"
+  language: string; // BCP 47 tag for HTML lang and PDF metadata
+  fileName: string; // Without extension
+}
+
+/**
+ * Renders export documents; register another implementation in the
+ * service container to add a branded layout
+ */
+export interface ExportTemplate {
+  readonly id: string;
+  toMarkdown(document: ExportDocument): string;
+  toHtml(document: ExportDocument): string;
+  toPdf(document: ExportDocument): Uint8Array<ArrayBuffer>;
+}
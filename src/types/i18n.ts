@@ -0,0 +1,25 @@
+/**
+ * Localization types
+ */
+
+export type Locale = 'en' | 'ru';
+
+/**
+ * Plural forms selected with Intl.PluralRules by the "count" parameter
+ */
+export interface PluralMessage {
+  one: string;
+  few?: string;
+  many?: string;
+  other: string;
+}
+
+export type Message = string | PluralMessage;
+
+export type MessageParams = Record<string, string | number>;
+
+export interface LocalizationConfig {
+  defaultLanguage: string;
+  supportedLanguages: string[];
+  fallbackLanguage: string;
+}
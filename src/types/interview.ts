@@ -0,0 +1,45 @@
+/**
+ * Interview preparation types
+ */
+
+export type InterviewQuestionType = 'technical' | 'behavioral';
+
+export interface InterviewQuestion {
+  question: string;
+  type: InterviewQuestionType;
+  evidence?: string; // Resume fact the user can build the answer on
+}
+
+export interface InterviewTopic {
+  requirement: string;
+  questions: InterviewQuestion[];
+}
+
+export interface InterviewPrep {
+  topics: InterviewTopic[];
+  jobTitle?: string;
+  createdAt: string;
+}
+
+/**
+ * One question of a mock interview with the evaluated answer
+ */
+export interface MockInterviewTurn {
+  question: string;
+  answer?: string;
+  score?: number; // 1-10
+  feedback?: string;
+}
+
+export interface MockInterview {
+  turns: MockInterviewTurn[];
+  maxQuestions: number;
+  jobTitle?: string;
+  startedAt: string;
+}
+
+export interface MockAnswerEvaluation {
+  score: number;
+  feedback: string;
+  nextQuestion?: string;
+}
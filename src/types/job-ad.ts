@@ -0,0 +1,34 @@
+/**
+ * Structured job ad model
+ */
+
+export type RemotePolicy = 'onsite' | 'hybrid' | 'remote' | 'unknown';
+
+export type Seniority =
+  | 'intern'
+  | 'junior'
+  | 'middle'
+  | 'senior'
+  | 'lead'
+  | 'principal'
+  | 'unknown';
+
+export interface SalaryRange {
+  min?: number;
+  max?: number;
+  currency?: string; // ISO 4217 code, e.g. RUB, USD
+  period?: 'hour' | 'month' | 'year';
+  gross?: boolean;
+}
+
+export interface StructuredJobAd {
+  title: string;
+  company?: string;
+  location?: string;
+  remotePolicy: RemotePolicy;
+  salary?: SalaryRange;
+  seniority: Seniority;
+  mustHaveRequirements: string[];
+  niceToHaveRequirements: string[];
+  responsibilities: string[];
+}
@@ -0,0 +1,29 @@
+/**
+ * Per-user document library types (saved job ads, resume versions)
+ */
+
+import { StructuredJobAd } from './job-ad';
+import { StructuredResume } from './resume';
+import { CachedStructure } from './session';
+
+export interface LibraryEntry {
+  id: string;
+  title: string;
+  text: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface Library<T extends LibraryEntry> {
+  activeId?: string;
+  entries: T[];
+}
+
+export interface JobAdEntry extends LibraryEntry {
+  customTitle?: boolean; // Renamed by the user, keep the title as is
+  structuredJobAd?: CachedStructure<StructuredJobAd>;
+}
+
+export interface ResumeEntry extends LibraryEntry {
+  structuredResume?: CachedStructure<StructuredResume>;
+}
@@ -0,0 +1,17 @@
+/**
+ * Rate limiting types
+ */
+
+/**
+ * "general" counts every update, "ai" only requests that call the model
+ */
+export type RateLimitScope = 'general' | 'ai';
+
+export type RateLimits = Record<RateLimitScope, number>; // Requests per minute
+
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  retryAfterSeconds: number; // 0 when allowed
+  notify: boolean; // First rejection in the window, so tell the user once
+}
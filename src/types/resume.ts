@@ -0,0 +1,49 @@
+/**
+ * Structured resume model
+ */
+
+export type SkillLevel = 'beginner' | 'intermediate' | 'advanced' | 'expert';
+
+export interface ResumeContacts {
+  name?: string;
+  email?: string;
+  phone?: string;
+  location?: string;
+  links: string[];
+}
+
+export interface ResumeSkill {
+  name: string;
+  level?: SkillLevel;
+}
+
+export interface ResumeExperience {
+  company: string;
+  position: string;
+  startDate?: string; // YYYY or YYYY-MM
+  endDate?: string; // YYYY, YYYY-MM or 'present'
+  description?: string;
+  achievements: string[];
+}
+
+export interface ResumeEducation {
+  institution: string;
+  degree?: string;
+  field?: string;
+  endDate?: string;
+}
+
+export interface ResumeLanguage {
+  language: string;
+  level?: string;
+}
+
+export interface StructuredResume {
+  contacts: ResumeContacts;
+  desiredPositions: string[];
+  summary: string;
+  skills: ResumeSkill[];
+  experience: ResumeExperience[];
+  education: ResumeEducation[];
+  languages: ResumeLanguage[];
+}
@@ -2,10 +2,22 @@
  * Simplified user session and conversation state types
  */
 
+import { MatchReport } from './analysis';
+import { CoverLetter, CoverLetterOptions } from './cover-letter';
+import { Locale } from './i18n';
+import { InterviewPrep, MockInterview } from './interview';
+import { StructuredJobAd } from './job-ad';
+import { StructuredResume } from './resume';
+import { ResumeTailoring } from './tailoring';
+
 export type ConversationState =
   | 'idle'
   | 'collecting_resume'
-  | 'collecting_job_ad';
+  | 'collecting_job_ad'
+  | 'renaming_job_ad'
+  | 'renaming_resume'
+  | 'editing_cover_letter'
+  | 'mock_interview';
 
 export interface UserSession {
   userId: number;
@@ -13,6 +25,29 @@ export interface UserSession {
   state: ConversationState;
   resumeText?: string;
   jobAdText?: string;
+  pendingOcrText?: string; // Recognised photo text awaiting confirmation
+  newEntryPending?: boolean; // Next collected text starts a new library entry
+  structuredResume?: CachedStructure<StructuredResume>;
+  structuredJobAd?: CachedStructure<StructuredJobAd>;
+  renamingJobAdId?: string; // Library entry awaiting a new title
+  renamingResumeId?: string; // Resume version awaiting a new title
+  coverLetterOptions?: Partial<CoverLetterOptions>; // Choices made so far
+  coverLetter?: CoverLetter; // Latest generated draft
+  matchReport?: MatchReport; // Latest /analyze_match result
+  resumeTailoring?: ResumeTailoring; // Rewrite suggestions under review
+  interviewPrep?: InterviewPrep; // Latest questions, paged through buttons
+  mockInterview?: MockInterview; // Turn history of the running mock interview
+  locale?: Locale; // Language chosen with /language
+  languageCode?: string; // Telegram client language, used when none is chosen
   createdAt: string;
   lastActivity: string;
 }
+
+/**
+ * AI-parsed structure cached together with a hash of its source text
+ */
+export interface CachedStructure<T> {
+  sourceHash: string;
+  data: T;
+  createdAt: string;
+}
@@ -0,0 +1,28 @@
+/**
+ * Resume tailoring types
+ */
+
+import { StructuredResume } from './resume';
+
+export type SuggestionDecision = 'accepted' | 'rejected';
+
+/**
+ * Rewrite of a single experience achievement bullet
+ */
+export interface BulletSuggestion {
+  experienceIndex: number;
+  achievementIndex: number;
+  original: string;
+  rewritten: string;
+  reason?: string;
+  decision?: SuggestionDecision;
+}
+
+export interface ResumeTailoring {
+  resumeId: string; // Resume version the suggestions were made for
+  resumeText: string;
+  resume: StructuredResume;
+  jobTitle?: string;
+  suggestions: BulletSuggestion[];
+  createdAt: string;
+}
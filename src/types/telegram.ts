@@ -27,6 +27,15 @@ export interface TelegramUser {
   language_code?: string;
 }
 
+/**
+ * The bot itself, as returned by getMe
+ */
+export interface BotUser extends TelegramUser {
+  can_join_groups?: boolean;
+  can_read_all_group_messages?: boolean;
+  supports_inline_queries?: boolean;
+}
+
 export interface TelegramChat {
   id: number;
   type: 'private' | 'group' | 'supergroup' | 'channel';
@@ -66,13 +75,72 @@ export interface TelegramFile {
   file_path?: string;
 }
 
+export type ParseMode = 'Markdown' | 'HTML';
+
 export interface SendMessageOptions {
   chat_id: number | string;
   text: string;
-  parse_mode?: 'Markdown' | 'HTML';
+  parse_mode?: ParseMode;
+  reply_markup?: ReplyMarkup;
+}
+
+export interface SendLongMessageOptions extends SendMessageOptions {
+  partLabel?: (part: number, total: number) => string; // Header of each part when split
+}
+
+/**
+ * File uploaded with multipart/form-data
+ */
+export interface InputFile {
+  fileName: string;
+  content: string | ArrayBuffer | Uint8Array<ArrayBuffer>;
+  mimeType?: string;
+}
+
+export interface EditMessageTextOptions {
+  chat_id: number | string;
+  message_id: number;
+  text: string;
+  parse_mode?: ParseMode;
   reply_markup?: InlineKeyboardMarkup;
 }
 
+export interface EditMessageReplyMarkupOptions {
+  chat_id: number | string;
+  message_id: number;
+  reply_markup?: InlineKeyboardMarkup; // Omit to remove the keyboard
+}
+
+export interface AnswerCallbackQueryOptions {
+  callback_query_id: string;
+  text?: string; // Shown as a notification at the top of the chat
+  show_alert?: boolean;
+}
+
+export interface SendDocumentOptions {
+  chat_id: number | string;
+  document: InputFile;
+  caption?: string;
+  parse_mode?: ParseMode;
+  reply_markup?: ReplyMarkup;
+}
+
+export interface DeleteMessageOptions {
+  chat_id: number | string;
+  message_id: number;
+}
+
+export type ChatAction =
+  | 'typing'
+  | 'upload_photo'
+  | 'upload_document'
+  | 'find_location';
+
+export interface SendChatActionOptions {
+  chat_id: number | string;
+  action: ChatAction; // Shown for 5 seconds or until the next message
+}
+
 export interface InlineKeyboardMarkup {
   inline_keyboard: InlineKeyboardButton[][];
 }
@@ -82,3 +150,44 @@ export interface InlineKeyboardButton {
   callback_data?: string;
   url?: string;
 }
+
+/**
+ * Custom keyboard that replaces the device keyboard
+ */
+export interface ReplyKeyboardMarkup {
+  keyboard: KeyboardButton[][];
+  is_persistent?: boolean;
+  resize_keyboard?: boolean;
+  one_time_keyboard?: boolean;
+  input_field_placeholder?: string;
+  selective?: boolean;
+}
+
+export interface KeyboardButton {
+  text: string; // Sent as a message when pressed
+}
+
+export interface ReplyKeyboardRemove {
+  remove_keyboard: true;
+  selective?: boolean;
+}
+
+/**
+ * Opens the reply interface as if the user tapped "Reply" on the message
+ */
+export interface ForceReply {
+  force_reply: true;
+  input_field_placeholder?: string;
+  selective?: boolean;
+}
+
+export type ReplyMarkup =
+  | InlineKeyboardMarkup
+  | ReplyKeyboardMarkup
+  | ReplyKeyboardRemove
+  | ForceReply;
+
+export interface BotCommand {
+  command: string;
+  description: string;
+}
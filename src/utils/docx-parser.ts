@@ -0,0 +1,188 @@
+/**
+ * DOCX text extractor
+ *
+ * Reads word/document.xml from the archive and converts the body to plain
+ * text, keeping paragraphs, list items (as bullets) and tables (as rows of
+ * cells separated by "|").
+ */
+
+import { readZipEntry } from './zip';
+
+export const DOCX_DOCUMENT_PATH = 'word/document.xml';
+
+interface TableState {
+  rows: string[];
+  cells: string[] | null;
+  cellLines: string[] | null;
+}
+
+interface ParagraphState {
+  text: string;
+  listLevel: number | null;
+}
+
+// w:t text runs, or the structural tags we care about
+const TOKEN_REGEX =
+  /<w:t(?:\s[^>]*)?>([^<]*)<\/w:t>|<(\/?)w:(p|pPr|tbl|tr|tc|tab|br|cr|numPr|ilvl)\b([^>]*?)(\/?)>/g;
+
+/**
+ * Extract plain text from DOCX bytes
+ */
+export async function extractDocxText(data: ArrayBuffer): Promise<string> {
+  const xmlBytes = await readZipEntry(data, DOCX_DOCUMENT_PATH);
+  if (!xmlBytes) {
+    throw new Error('DOCX file does not contain word/document.xml');
+  }
+
+  return documentXmlToText(new TextDecoder().decode(xmlBytes));
+}
+
+/**
+ * Convert WordprocessingML body markup to plain text
+ */
+export function documentXmlToText(xml: string): string {
+  const lines: string[] = [];
+  const tables: TableState[] = [];
+  let paragraph: ParagraphState | null = null;
+  let inParagraphProps = false;
+  let inNumbering = false;
+
+  const emitLine = (line: string): void => {
+    const table = tables[tables.length - 1];
+    if (table?.cellLines) {
+      table.cellLines.push(line);
+    } else {
+      lines.push(line);
+    }
+  };
+
+  for (const match of xml.matchAll(TOKEN_REGEX)) {
+    const [, text, closing, tag, attributes = '', selfClosing] = match;
+
+    if (text !== undefined) {
+      if (paragraph) paragraph.text += decodeXmlEntities(text);
+      continue;
+    }
+
+    const isClosing = closing === '/';
+    const isSelfClosing = selfClosing === '/';
+
+    switch (tag) {
+      case 'p':
+        if (isSelfClosing) {
+          emitLine('');
+        } else if (!isClosing) {
+          paragraph = { text: '', listLevel: null };
+        } else if (paragraph) {
+          const indent = '  '.repeat(paragraph.listLevel ?? 0);
+          const bullet = paragraph.listLevel !== null ? '• ' : '';
+          emitLine(indent + bullet + paragraph.text.trim());
+          paragraph = null;
+        }
+        break;
+
+      case 'pPr':
+        inParagraphProps = !isClosing && !isSelfClosing;
+        break;
+
+      case 'numPr':
+        inNumbering = !isClosing && !isSelfClosing;
+        if (paragraph && !isClosing && paragraph.listLevel === null) {
+          paragraph.listLevel = 0;
+        }
+        break;
+
+      case 'ilvl':
+        if (paragraph && inNumbering) {
+          const level = attributes.match(/w:val="(\d+)"/)?.[1];
+          paragraph.listLevel = level ? Number(level) : 0;
+        }
+        break;
+
+      case 'tab':
+        // Tab stop definitions inside paragraph properties are not content
+        if (paragraph && !inParagraphProps) paragraph.text += '\t';
+        break;
+
+      case 'br':
+      case 'cr':
+        if (paragraph) paragraph.text += '\n';
+        break;
+
+      case 'tbl':
+        if (!isClosing) {
+          tables.push({ rows: [], cells: null, cellLines: null });
+        } else {
+          const table = tables.pop();
+          if (table) {
+            emitLine('');
+            table.rows.forEach((row) => emitLine(row));
+            emitLine('');
+          }
+        }
+        break;
+
+      case 'tr': {
+        const table = tables[tables.length - 1];
+        if (!table) break;
+        if (!isClosing) {
+          table.cells = [];
+        } else if (table.cells) {
+          if (table.cells.some((cell) => cell.length > 0)) {
+            table.rows.push(`| ${table.cells.join(' | ')} |`);
+          }
+          table.cells = null;
+        }
+        break;
+      }
+
+      case 'tc': {
+        const table = tables[tables.length - 1];
+        if (!table) break;
+        if (!isClosing) {
+          table.cellLines = [];
+        } else if (table.cellLines) {
+          const cellText = table.cellLines
+            .map((line) => line.trim())
+            .filter((line) => line.length > 0)
+            .join('; ');
+          table.cells?.push(cellText);
+          table.cellLines = null;
+        }
+        break;
+      }
+    }
+  }
+
+  return lines
+    .join('\n')
+    .replace(/[ \t]+\n/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+function decodeXmlEntities(text: string): string {
+  return text.replace(
+    /&(#x[0-9a-fA-F]+|#\d+|amp|lt|gt|quot|apos);/g,
+    (_match, entity: string) => {
+      switch (entity) {
+        case 'amp':
+          return '&';
+        case 'lt':
+          return '<';
+        case 'gt':
+          return '>';
+        case 'quot':
+          return '"';
+        case 'apos':
+          return "'";
+        default:
+          return String.fromCodePoint(
+            entity.startsWith('#x')
+              ? parseInt(entity.slice(2), 16)
+              : parseInt(entity.slice(1), 10)
+          );
+      }
+    }
+  );
+}
@@ -0,0 +1,216 @@
+/**
+ * Message splitting for Telegram's 4096 character limit
+ *
+ * Text is cut at paragraph, line or word boundaries. In Markdown and HTML
+ * messages a cut never falls inside a tag, an HTML entity, a link or an
+ * escape sequence; formatting that is still open at the cut is closed at the
+ * end of the part and reopened at the start of the next one.
+ */
+
+import { ParseMode } from '../types/telegram';
+
+export const MAX_MESSAGE_LENGTH = 4096;
+
+interface OpenEntity {
+  open: string; // Markup that starts the entity, e.g. '<b>' or '```js\n'
+  close: string;
+}
+
+type EntityStack = readonly OpenEntity[];
+
+/**
+ * Where the text may be cut and which entities are open at each index
+ */
+interface ScanResult {
+  safe: boolean[];
+  open: EntityStack[];
+}
+
+const HTML_ENTITY = /^&(?:#\d+|#x[0-9a-f]+|[a-z]+);/i;
+const HTML_TAG_NAME = /^<\/?([a-z][a-z0-9-]*)/i;
+const MARKDOWN_LINK = /^\[[^\]\n]*\]\([^)\s]*\)/;
+const PRE_LANGUAGE = /^```[\w+-]*\n/;
+
+/**
+ * Split text into parts of at most maxLength characters
+ */
+export function splitMessage(
+  text: string,
+  maxLength: number = MAX_MESSAGE_LENGTH,
+  parseMode?: ParseMode
+): string[] {
+  if (text.length <= maxLength) return [text];
+
+  const { safe, open } = scan(text, parseMode);
+  const parts: string[] = [];
+  let start = skipWhitespace(text, 0);
+
+  while (start < text.length) {
+    const prefix = (open[start] ?? []).map((entity) => entity.open).join('');
+    let limit = maxLength - prefix.length;
+    let cut: number;
+    let part: string;
+
+    // Closing markup depends on the cut, so shrink until the part fits
+    for (;;) {
+      cut =
+        start + limit >= text.length
+          ? text.length
+          : findCut(text, safe, start, start + limit);
+      const suffix = (open[cut] ?? [])
+        .map((entity) => entity.close)
+        .reverse()
+        .join('');
+      part = prefix + text.slice(start, cut).trimEnd() + suffix;
+      if (part.length <= maxLength || limit <= 1) break;
+      limit = Math.max(1, limit - (part.length - maxLength));
+    }
+
+    if (part.trim()) parts.push(part);
+    start = skipWhitespace(text, cut);
+  }
+
+  return parts;
+}
+
+/**
+ * Best cut in (start, end]: a paragraph or line break in the second half,
+ * then any whitespace, then any safe position
+ */
+function findCut(
+  text: string,
+  safe: boolean[],
+  start: number,
+  end: number
+): number {
+  const half = start + Math.floor((end - start) / 2);
+  const boundaries: [number, (i: number) => boolean][] = [
+    [half, (i) => text[i] === '\n' && text[i - 1] === '\n'],
+    [half, (i) => text[i] === '\n'],
+    [start, (i) => /\s/.test(text[i] ?? '')],
+    [start, () => true],
+  ];
+
+  for (const [lowest, isBoundary] of boundaries) {
+    for (let i = end; i > lowest; i--) {
+      if (safe[i] && isBoundary(i)) return i;
+    }
+  }
+  return end; // No safe position at all, e.g. a link longer than a message
+}
+
+function skipWhitespace(text: string, index: number): number {
+  while (index < text.length && /\s/.test(text[index] ?? '')) index++;
+  return index;
+}
+
+function scan(text: string, parseMode?: ParseMode): ScanResult {
+  const safe: boolean[] = new Array<boolean>(text.length + 1).fill(true);
+  const open: EntityStack[] = new Array<EntityStack>(text.length + 1).fill([]);
+
+  // Never separate the halves of a surrogate pair (emoji)
+  for (let i = 1; i < text.length; i++) {
+    const code = text.charCodeAt(i);
+    if (code >= 0xdc00 && code <= 0xdfff) safe[i] = false;
+  }
+
+  if (parseMode === 'HTML') scanHtml(text, safe, open);
+  if (parseMode === 'Markdown') scanMarkdown(text, safe, open);
+  return { safe, open };
+}
+
+function scanHtml(text: string, safe: boolean[], open: EntityStack[]): void {
+  let stack: EntityStack = [];
+  let i = 0;
+
+  while (i < text.length) {
+    open[i] = stack;
+    let length = 1;
+
+    if (text[i] === '<' && text.indexOf('>', i) !== -1) {
+      const tag = text.slice(i, text.indexOf('>', i) + 1);
+      length = tag.length;
+      const name = HTML_TAG_NAME.exec(tag)?.[1]?.toLowerCase();
+      if (name && tag.startsWith('</')) {
+        const index = stack
+          .map((entity) => entity.close)
+          .lastIndexOf(`</${name}>`);
+        if (index !== -1) stack = stack.slice(0, index);
+      } else if (name && !tag.endsWith('/>')) {
+        stack = [...stack, { open: tag, close: `</${name}>` }];
+      }
+    } else if (text[i] === '&') {
+      length = HTML_ENTITY.exec(text.slice(i, i + 12))?.[0].length ?? 1;
+    }
+
+    markUnsafe(safe, open, i, length, stack);
+    i += length;
+  }
+  open[text.length] = stack;
+}
+
+/**
+ * Legacy Markdown: *bold*, _italic_, `code`, ```pre``` and [text](url)
+ */
+function scanMarkdown(
+  text: string,
+  safe: boolean[],
+  open: EntityStack[]
+): void {
+  let stack: EntityStack = [];
+  let i = 0;
+
+  while (i < text.length) {
+    open[i] = stack;
+    const top = stack[stack.length - 1];
+    const char = text[i] ?? '';
+    let length = 1;
+
+    if (top?.close === '```') {
+      // Nothing is parsed inside a code block except its end
+      if (text.startsWith('```', i)) {
+        length = 3;
+        stack = stack.slice(0, -1);
+      }
+    } else if (top?.close === '`') {
+      if (char === '`') stack = stack.slice(0, -1);
+    } else if (char === '\\' && i + 1 < text.length) {
+      length = 2;
+    } else if (text.startsWith('```', i)) {
+      const opener = PRE_LANGUAGE.exec(text.slice(i, i + 40))?.[0] ?? '```';
+      length = opener.length;
+      stack = [...stack, { open: opener, close: '```' }];
+    } else if (char === '`') {
+      stack = [...stack, { open: '`', close: '`' }];
+    } else if (char === '*' || char === '_') {
+      stack =
+        top?.close === char
+          ? stack.slice(0, -1)
+          : [...stack, { open: char, close: char }];
+    } else if (char === '[') {
+      length =
+        MARKDOWN_LINK.exec(text.slice(i, i + MAX_MESSAGE_LENGTH))?.[0].length ??
+        1;
+    }
+
+    markUnsafe(safe, open, i, length, stack);
+    i += length;
+  }
+  open[text.length] = stack;
+}
+
+/**
+ * Forbid cuts inside a token of the given length starting at index
+ */
+function markUnsafe(
+  safe: boolean[],
+  open: EntityStack[],
+  index: number,
+  length: number,
+  stack: EntityStack
+): void {
+  for (let i = index + 1; i < index + length; i++) {
+    safe[i] = false;
+    open[i] = stack;
+  }
+}
@@ -0,0 +1,215 @@
+/**
+ * DejaVu Sans subsets embedded in exported PDFs
+ *
+ * Generated by scripts/build-pdf-fonts.js; do not edit. DejaVu fonts are
+ * free to embed and modify under the Bitstream Vera license (see the
+ * dejavu-fonts-ttf package).
+ */
+
+import { EmbeddedFont } from './pdf-writer';
+
+export const DEJAVU_SANS: EmbeddedFont = {
+  name: 'DejaVuSans',
+  ascent: 928,
+  descent: -236,
+  capHeight: 729,
+  stemV: 80,
+  bbox: [-52, -250, 1287, 946],
+  glyphs: [
+    32, 1, 318, 33, 2, 401, 34, 3, 460, 35, 4, 838, 36, 5, 636, 37, 6, 950, 38,
+    7, 780, 39, 8, 275, 40, 9, 390, 41, 10, 390, 42, 11, 500, 43, 12, 838, 44,
+    13, 318, 45, 14, 361, 46, 15, 318, 47, 16, 337, 48, 17, 636, 49, 18, 636,
+    50, 19, 636, 51, 20, 636, 52, 21, 636, 53, 22, 636, 54, 23, 636, 55, 24,
+    636, 56, 25, 636, 57, 26, 636, 58, 27, 337, 59, 28, 337, 60, 29, 838, 61,
+    30, 838, 62, 31, 838, 63, 32, 531, 64, 33, 1000, 65, 34, 684, 66, 35, 686,
+    67, 36, 698, 68, 37, 770, 69, 38, 632, 70, 39, 575, 71, 40, 775, 72, 41,
+    752, 73, 42, 295, 74, 43, 295, 75, 44, 656, 76, 45, 557, 77, 46, 863, 78,
+    47, 748, 79, 48, 787, 80, 49, 603, 81, 50, 787, 82, 51, 695, 83, 52, 635,
+    84, 53, 611, 85, 54, 732, 86, 55, 684, 87, 56, 989, 88, 57, 685, 89, 58,
+    611, 90, 59, 685, 91, 60, 390, 92, 61, 337, 93, 62, 390, 94, 63, 838, 95,
+    64, 500, 96, 65, 500, 97, 66, 613, 98, 67, 635, 99, 68, 550, 100, 69, 635,
+    101, 70, 615, 102, 71, 352, 103, 72, 635, 104, 73, 634, 105, 74, 278, 106,
+    75, 278, 107, 76, 579, 108, 77, 278, 109, 78, 974, 110, 79, 634, 111, 80,
+    612, 112, 81, 635, 113, 82, 635, 114, 83, 411, 115, 84, 521, 116, 85, 392,
+    117, 86, 634, 118, 87, 592, 119, 88, 818, 120, 89, 592, 121, 90, 592, 122,
+    91, 525, 123, 92, 636, 124, 93, 337, 125, 94, 636, 126, 95, 838, 160, 96,
+    318, 161, 97, 401, 162, 98, 636, 163, 99, 636, 164, 100, 636, 165, 101, 636,
+    166, 102, 337, 167, 103, 500, 168, 104, 500, 169, 105, 1000, 170, 106, 471,
+    171, 107, 612, 172, 108, 838, 173, 109, 361, 174, 110, 1000, 175, 111, 500,
+    176, 112, 500, 177, 113, 838, 178, 114, 401, 179, 115, 401, 180, 116, 500,
+    181, 117, 636, 182, 118, 636, 183, 119, 318, 184, 120, 500, 185, 121, 401,
+    186, 122, 471, 187, 123, 612, 188, 124, 969, 189, 125, 969, 190, 126, 969,
+    191, 127, 531, 192, 128, 684, 193, 129, 684, 194, 130, 684, 195, 131, 684,
+    196, 132, 684, 197, 133, 684, 198, 134, 974, 199, 135, 698, 200, 136, 632,
+    201, 137, 632, 202, 138, 632, 203, 139, 632, 204, 140, 295, 205, 141, 295,
+    206, 142, 295, 207, 143, 295, 208, 144, 775, 209, 145, 748, 210, 146, 787,
+    211, 147, 787, 212, 148, 787, 213, 149, 787, 214, 150, 787, 215, 151, 838,
+    216, 152, 787, 217, 153, 732, 218, 154, 732, 219, 155, 732, 220, 156, 732,
+    221, 157, 611, 222, 158, 605, 223, 159, 630, 224, 160, 613, 225, 161, 613,
+    226, 162, 613, 227, 163, 613, 228, 164, 613, 229, 165, 613, 230, 166, 982,
+    231, 167, 550, 232, 168, 615, 233, 169, 615, 234, 170, 615, 235, 171, 615,
+    236, 172, 278, 237, 173, 278, 238, 174, 278, 239, 175, 278, 240, 176, 612,
+    241, 177, 634, 242, 178, 612, 243, 179, 612, 244, 180, 612, 245, 181, 612,
+    246, 182, 612, 247, 183, 838, 248, 184, 612, 249, 185, 634, 250, 186, 634,
+    251, 187, 634, 252, 188, 634, 253, 189, 592, 254, 190, 635, 255, 191, 592,
+    256, 192, 684, 257, 193, 613, 258, 194, 684, 259, 195, 613, 260, 196, 684,
+    261, 197, 613, 262, 198, 698, 263, 199, 550, 264, 200, 698, 265, 201, 550,
+    266, 202, 698, 267, 203, 550, 268, 204, 698, 269, 205, 550, 270, 206, 770,
+    271, 207, 635, 272, 208, 775, 273, 209, 635, 274, 210, 632, 275, 211, 615,
+    276, 212, 632, 277, 213, 615, 278, 214, 632, 279, 215, 615, 280, 216, 632,
+    281, 217, 615, 282, 218, 632, 283, 219, 615, 284, 220, 775, 285, 221, 635,
+    286, 222, 775, 287, 223, 635, 288, 224, 775, 289, 225, 635, 290, 226, 775,
+    291, 227, 635, 292, 228, 752, 293, 229, 634, 294, 230, 916, 295, 231, 695,
+    296, 232, 295, 297, 233, 278, 298, 234, 295, 299, 235, 278, 300, 236, 295,
+    301, 237, 278, 302, 238, 295, 303, 239, 278, 304, 240, 295, 305, 241, 278,
+    306, 242, 590, 307, 243, 556, 308, 244, 295, 309, 245, 278, 310, 246, 656,
+    311, 247, 579, 312, 248, 579, 313, 249, 557, 314, 250, 278, 315, 251, 557,
+    316, 252, 278, 317, 253, 557, 318, 254, 375, 319, 255, 557, 320, 256, 342,
+    321, 257, 562, 322, 258, 284, 323, 259, 748, 324, 260, 634, 325, 261, 748,
+    326, 262, 634, 327, 263, 748, 328, 264, 634, 329, 265, 813, 330, 266, 748,
+    331, 267, 634, 332, 268, 787, 333, 269, 612, 334, 270, 787, 335, 271, 612,
+    336, 272, 787, 337, 273, 612, 338, 274, 1070, 339, 275, 1023, 340, 276, 695,
+    341, 277, 411, 342, 278, 695, 343, 279, 411, 344, 280, 695, 345, 281, 411,
+    346, 282, 635, 347, 283, 521, 348, 284, 635, 349, 285, 521, 350, 286, 635,
+    351, 287, 521, 352, 288, 635, 353, 289, 521, 354, 290, 611, 355, 291, 392,
+    356, 292, 611, 357, 293, 392, 358, 294, 611, 359, 295, 392, 360, 296, 732,
+    361, 297, 634, 362, 298, 732, 363, 299, 634, 364, 300, 732, 365, 301, 634,
+    366, 302, 732, 367, 303, 634, 368, 304, 732, 369, 305, 634, 370, 306, 732,
+    371, 307, 634, 372, 308, 989, 373, 309, 818, 374, 310, 611, 375, 311, 592,
+    376, 312, 611, 377, 313, 685, 378, 314, 525, 379, 315, 685, 380, 316, 525,
+    381, 317, 685, 382, 318, 525, 383, 319, 352, 1024, 320, 632, 1025, 321, 632,
+    1026, 322, 786, 1027, 323, 610, 1028, 324, 698, 1029, 325, 635, 1030, 326,
+    295, 1031, 327, 295, 1032, 328, 295, 1033, 329, 1094, 1034, 330, 1045, 1035,
+    331, 786, 1036, 332, 710, 1037, 333, 748, 1038, 334, 609, 1039, 335, 752,
+    1040, 336, 684, 1041, 337, 686, 1042, 338, 686, 1043, 339, 610, 1044, 340,
+    781, 1045, 341, 632, 1046, 342, 1077, 1047, 343, 641, 1048, 344, 748, 1049,
+    345, 748, 1050, 346, 710, 1051, 347, 752, 1052, 348, 863, 1053, 349, 752,
+    1054, 350, 787, 1055, 351, 752, 1056, 352, 603, 1057, 353, 698, 1058, 354,
+    611, 1059, 355, 609, 1060, 356, 861, 1061, 357, 685, 1062, 358, 776, 1063,
+    359, 686, 1064, 360, 1069, 1065, 361, 1094, 1066, 362, 833, 1067, 363, 882,
+    1068, 364, 686, 1069, 365, 698, 1070, 366, 1080, 1071, 367, 695, 1072, 368,
+    613, 1073, 369, 617, 1074, 370, 589, 1075, 371, 525, 1076, 372, 691, 1077,
+    373, 615, 1078, 374, 901, 1079, 375, 532, 1080, 376, 650, 1081, 377, 650,
+    1082, 378, 604, 1083, 379, 639, 1084, 380, 754, 1085, 381, 654, 1086, 382,
+    612, 1087, 383, 654, 1088, 384, 635, 1089, 385, 550, 1090, 386, 583, 1091,
+    387, 592, 1092, 388, 855, 1093, 389, 592, 1094, 390, 681, 1095, 391, 591,
+    1096, 392, 915, 1097, 393, 942, 1098, 394, 707, 1099, 395, 790, 1100, 396,
+    589, 1101, 397, 549, 1102, 398, 842, 1103, 399, 602, 1104, 400, 615, 1105,
+    401, 615, 1106, 402, 625, 1107, 403, 525, 1108, 404, 549, 1109, 405, 521,
+    1110, 406, 278, 1111, 407, 278, 1112, 408, 278, 1113, 409, 902, 1114, 410,
+    898, 1115, 411, 652, 1116, 412, 604, 1117, 413, 650, 1118, 414, 592, 1119,
+    415, 654, 1168, 416, 610, 1169, 417, 525, 8208, 418, 361, 8209, 419, 361,
+    8210, 420, 636, 8211, 421, 500, 8212, 422, 1000, 8213, 423, 1000, 8214, 424,
+    500, 8215, 425, 500, 8216, 426, 318, 8217, 427, 318, 8218, 428, 318, 8219,
+    429, 318, 8220, 430, 518, 8221, 431, 518, 8222, 432, 518, 8223, 433, 518,
+    8224, 434, 500, 8225, 435, 500, 8226, 436, 590, 8227, 437, 590, 8228, 438,
+    334, 8229, 439, 667, 8230, 440, 1000, 8231, 441, 318, 8240, 442, 1342, 8249,
+    443, 400, 8250, 444, 400, 8364, 445, 636, 8381, 446, 636, 8470, 447, 1040,
+    8482, 448, 1000, 8592, 449, 838, 8593, 450, 838, 8594, 451, 838, 8595, 452,
+    838, 8722, 453, 838,
+  ],
+  data: 'dHJ1ZQAJAIAAAwAQaGVhZAAAAAAAAACcAAAANmhoZWEAAAAAAAAA0gAAACRsb2NhAAAAAAAAAPYAAAeAbWF4cAAAAAAAAAh2AAAAIGN2dCAAAAAAAAAIlgAAAf5wcmVwAAAAAAAACpQAAAVoZ2x5ZgAAAAAAAA/8AAC6lGhtdHgAAAAAAADKkAAAB3xmcGdtAAAAAAAA0gwAAACrAAEAAAACXrjqmvYbXw889QAfCAAAAAAA08Ir/AAAAADTwiv899b8TA5ZCdwAAAAIAAAAAQAAAAEAAAdt/h0AAA7+99b6UQ5ZAAEAAAAAAAAAAAAAAAAAAAHfAAAAAAAAAEQAAABEAAAAqAAAARQAAAHsAAADRAAABGwAAAbUAAAHKAAAB5gAAAfwAAAIjAAACOAAAAkYAAAJRAAACWwAAAm4AAAKPAAACqwAAAusAAAMlAAADVAAAA4QAAAO6AAAD3QAABBIAAARHAAAEVwAABGsAAASJAAAEmgAABLgAAATuAAAFTgAABY0AAAW5AAAF3wAABf8AAAYXAAAGLAAABlYAAAZtAAAGfwAABpsAAAblAAAG9gAABzUAAAdfAAAHggAAB6IAAAfVAAAIGgAACFgAAAh0AAAIlQAACM0AAAk8AAAJZQAACZYAAAnGAAAJ3gAACfEAAAoGAAAKFwAACiIAAAo2AAAKgQAACqcAAArNAAAK8wAACygAAAtOAAALgAAAC54AAAuyAAAL0QAADA0AAAwcAAAMTQAADGsAAAyUAAAMvAAADOQAAA0AAAANWAAADXcAAA2YAAAN4QAADmoAAA7LAAAPPgAAD3EAAA+oAAAPtAAAD+8AABAQAAAQEAAAEDUAABBoAAAQlgAAENwAABElAAARNwAAEYkAABG3AAASAAAAEjcAABJqAAASeAAAEoMAABLWAAAS6QAAEwcAABMjAAATSwAAE3oAABOOAAATuwAAE9IAABPdAAAT9QAAFAsAABQtAAAUYQAAFGkAABRxAAAUeQAAFLcAABS9AAAUwwAAFM4AABTaAAAU5gAAFTYAABVsAAAVcgAAFXgAABV+AAAVhwAAFZAAABWWAAAVnAAAFaUAABWuAAAV4QAAFe0AABXzAAAV+QAAFgQAABYRAAAWHQAAFk8AABadAAAWowAAFqkAABa1AAAWwwAAFskAABbrAAAXNQAAFz4AABdHAAAXTwAAF1oAABdoAAAXeAAAF+cAABftAAAX8wAAF/kAABgCAAAYCwAAGBEAABgXAAAYIAAAGCkAABiVAAAYmwAAGKEAABinAAAYrwAAGLoAABjFAAAY3AAAGTkAABk/AAAZRQAAGU0AABlZAAAZXwAAGYcAABmTAAAZngAAGagAABmzAAAZuwAAGcEAABnHAAAZzQAAGdMAABncAAAZ4gAAGegAABnuAAAZ9wAAGf0AABoDAAAaDQAAGhEAABpAAAAaRgAAGk8AABpYAAAaYQAAGmcAABptAAAacwAAGnkAABqCAAAajQAAGpYAABqfAAAapQAAGqsAABq0AAAaugAAGsAAABrGAAAa0gAAGuMAABsFAAAbKgAAGzMAABs8AAAbRQAAG04AABtXAAAbYAAAG2YAABtsAAAbeAAAG4sAABuUAAAbnQAAG6YAABuvAAAbtQAAG7sAABv3AAAb/QAAHAsAABwRAAAcGgAAHCAAABwpAAAcLwAAHDwAABxbAAAcfwAAHIgAAByRAAAclwAAHJ0AABypAAActAAAHLoAABzgAAAdBwAAHRIAAB0aAAAdJQAAHS0AAB0zAAAdOQAAHWEAAB2rAAAdsQAAHbcAAB29AAAdwwAAHcwAAB3WAAAd3AAAHeIAAB3sAAAd9QAAHfsAAB4BAAAeCwAAHhUAAB4bAAAeIQAAHiwAAB41AAAeVgAAHn0AAB6IAAAekQAAHp0AAB6mAAAesQAAHroAAB7AAAAeyQAAHs8AAB7VAAAe2wAAHuEAAB7qAAAe8wAAHvwAAB8EAAAfDQAAHxMAAB8ZAAAfHwAAHykAAB8vAAAfOQAAH08AAB9VAAAffQAAH6AAAB+mAAAf0QAAH9UAAB/ZAAAf3QAAH+EAACAHAAAgKwAAIEcAACBNAAAgUwAAIFkAACBvAAAgcwAAIJMAACCXAAAgpQAAIMgAACDMAAAhCQAAITcAACFiAAAhcgAAIZcAACGvAAAhswAAIbcAACG7AAAhzQAAIdEAACHVAAAh2QAAIfoAACInAAAiKwAAIkEAACJYAAAibwAAIooAACKqAAAisAAAIs0AACL4AAAjKAAAI08AACNTAAAjhQAAI6wAACO6AAAj3AAAI+AAACQcAAAkTQAAJGkAACR5AAAknQAAJLUAACTXAAAk7QAAJPEAACUDAAAlBwAAJQsAACUcAAAlIAAAJVoAACVeAAAldAAAJZMAACWqAAAlxQAAJeQAACXqAAAmBgAAJi8AACZYAAAmfAAAJoIAACaqAAAm0wAAJtkAACcCAAAnBgAAJwoAACcOAAAnEgAAJzkAACdeAAAnggAAJ4gAACeOAAAnlAAAJ6oAACe6AAAnywAAJ9YAACfaAAAn5QAAJ/AAACf7AAAoBQAAKAsAACgRAAAoIAAAKC8AACg9AAAoRgAAKF0AACh0AAAoiwAAKJgAACiuAAAozwAAKN8AACjmAAAo8AAAKQAAACkVAAApGwAAKX4AACmaAAAptwAAKiQAACo8AAAq5gAAKwkAACs1AAArYQAAK40AACu5AAArxAAALAcAACwZAAAsQwAALGoAACyRAAAsxQAALPgAAC0PAAAtPwAALVoAAC19AAAtlQAALa0AAC2+AAAt6QAALgAAAC4JAAAuMQAALjoAAC5EAAAuXQAALmEAAC5wAAAuiwAALqUAAEAAAHfA1QAKwBoAAwAAgAQAJkACAAABBUCFgAIAAQBNQC4AMsAywDBAKoAnAGmALgAZgAAAHEAywCgArIAhQB1ALgAwwHLAYkCLQDLAKYA8ADTAKoAhwDLA6oEAAFKADMAywAAANkFAgD0AVQAtACcATkBFAE5BwYEAAROBLQEUgS4BOcEzQA3BHMEzQRgBHMBMwOiBVYFpgVWBTkDxQISAMkAHwC4Ad8AcwC6A+kDMwO8BEQEDgDfA80DqgDlA6oEBAAAAMsAjwCkAHsAuAAUAW8AfwJ7AlIAjwDHBc0AmgCaAG8AywDNAZ4B0wDwALoBgwDVAJgDBAJIAJ4B1QDBAMsA9gCDA1QCfwAAAzMCZgDTAMcApADNAI8AmgBzBAAF1QEKAP4CKwCkALQAnAAAAGIAnAAAAB0DLQXVBdUF1QXwAH8AewBUAKQGuAYUByMB0wC4AMsApgHDAewGkwCgANMDXANxA9sBhQQjBKgESACPATkBFAE5A2AAjwXVAZoGFAcjBmYBeQRgBGAEYAR7AJwAAAJ3BGABqgDpBGAHYgB7AMUAfwJ7AAAAtAJSBc0AZgC8AGYAdwYQAM0BOwGFA4kAjwB7AAAAHQDNB0oELwCcAJwAAAd9AG8AAABvAzUAagBvAHsArgCyAC0DlgCPAnsA9gCDA1QGNwX2AI8AnAThAmYAjwGNAvYAzQNEACkAZgTuAHMAABQAAJa4AoBA//v+A/oUA/klA/gyA/eWA/YOA/X+A/T+A/MlA/IOA/GWA/AlA++KQQXv/gPulgPtlgPs+gPr+gPq/gPpOgPoQgPn/gPmMgPl5FMF5ZYD5IpBBeRTA+PiLwXj+gPiLwPh/gPg/gPfMgPeFAPdlgPc/gPbEgPafQPZuwPY/gPWikEF1n0D1dRHBdV9A9RHA9PSGwXT/gPSGwPR/gPQ/gPP/gPO/gPNlgPMyx4FzP4Dyx4DyjIDyf4DxoURBcYcA8UWA8T+A8P+A8L+A8H+A8D+A7/+A77+A73+A7z+A7v+A7oRA7mGJQW5/gO4t7sFuP4Dt7ZdBbe7A7eABLa1JQW2XUD/A7ZABLUlA7T+A7OWA7L+A7H+A7D+A6/+A65kA60OA6yrJQWsZAOrqhIFqyUDqhIDqYpBBan6A6j+A6f+A6b+A6USA6T+A6OiDgWjMgOiDgOhZAOgikEFoJYDn/4Dnp0MBZ7+A50MA5ybGQWcZAObmhAFmxkDmhADmQoDmP4Dl5YNBZf+A5YNA5WKQQWVlgOUkw4FlCgDkw4DkvoDkZC7BZH+A5CPXQWQuwOQgASPjiUFj10Dj0AEjiUDjf4DjIsuBYz+A4suA4qGJQWKQQOJiAsFiRQDiAsDh4YlBYdkA4aFEQWGJQOFEQOE/gODghEFg/4DghEDgf4DgP4Df/4DQP9+fX0Ffv4DfX0DfGQDe1QVBXslA3r+A3n+A3gOA3cMA3YKA3X+A3T6A3P6A3L6A3H6A3D+A2/+A27+A2whA2v+A2oRQgVqUwNp/gNofQNnEUIFZv4DZf4DZP4DY/4DYv4DYToDYPoDXgwDXf4DW/4DWv4DWVgKBVn6A1gKA1cWGQVXMgNW/gNVVBUFVUIDVBUDUwEQBVMYA1IUA1FKEwVR/gNQCwNP/gNOTRAFTv4DTRADTP4DS0oTBUv+A0pJEAVKEwNJHQ0FSRADSA0DR/4DRpYDRZYDRP4DQwItBUP6A0K7A0FLA0D+Az/+Az49EgU+FAM9PA8FPRIDPDsNBTxA/w8DOw0DOv4DOf4DODcUBTj6Azc2EAU3FAM2NQsFNhADNQsDNB4DMw0DMjELBTL+AzELAzAvCwUwDQMvCwMuLQkFLhADLQkDLDIDKyolBStkAyopEgUqJQMpEgMoJyUFKEEDJyUDJiULBSYPAyULAyT+AyP+AyIPAyEBEAUhEgMgZAMf+gMeHQ0FHmQDHQ0DHBFCBRz+Axv6AxpCAxkRQgUZ/gMYZAMXFhkFF/4DFgEQBRYZAxX+AxT+AxP+AxIRQgUS/gMRAi0FEUIDEH0DD2QDDv4DDQwWBQ3+AwwBEAUMFgML/gMKEAMJ/gMIAi0FCP4DBxQDBmQDBAEQBQT+A0AVAwItBQP+AwIBEAUCLQMBEAMA/gMBuAFkhY0BKysrKysrKysrKysrKysrKysrKysrKysrKysrKysrKysrKysrKysrKysrKysrKysrKysrKysrKysrKysrKysrKysrKysrKysrKysrKysrKysrKysrKysrKysrKysrKysrKysrKysrKysrKysrKysrKysrKysrKysrKysrKysrKysrKysrKysrKysrKysrKysrKysrKysrKysrKysrKysrKysrKysrACsrKysrKysrKysrKysrKysrKysrKysrKysrKysrKysrKysrKysrKysrKysrKysrKysrKysrKysrKysrKysrKysrKysrKysrKysrKysrKysrKysrKysrKysrKysrKysrKysrKysrKysrKysrKysrKysrKysrKysrKysrKysrKysrKysrKysrKysrKysrKysrKysrKysrKysrKysrKysdAAIAZv6WBGYFpAADAAcAGkAMBPsABvsBCAV/AgQAL8TU7DEAENTs1OwwExEhESUhESFmBAD8cwMb/OX+lgcO+PJyBikAAgE1AAACAAXVAAMACQA1QA8HAIMEgQIIBwUBAwQAAAoQ/EuwC1RYuQAA/8A4WTzsMjk5MQAv5PzMMAG2AAsgC1ALA10lMxUjETMRAyMDATXLy8sUohX+/gXV/XH+mwFlAAAAAAIAxQOqAukF1QADAAcAQkAPBQGEBACBCAQFBgAFAgQIEPxLsBJUS7ATVFtYuQAC/8A4Wfzc7DEAEPQ87DIwAUAPMAlACVAJYAlwCaAJvwkHXQERIxEhESMRAW+qAiSqBdX91QIr/dUCKwAAAAIAngAABhcFvgADAB8AYEAxGwsAhwcEHQkFGQ0ChxcTDxURHx4cGxoXFhUUExIREA4NDAkIBwYFBAMCAQAaChgGIBD8zBc5MQAvPNQ8PPw8PNQ8PMQy7DIyMEARCwELAgsMCw0UBBoRGhIUHwgBXQEhAyELASETMwMhFSEDIRUhAyMTIQMjEyE1IRMhNSETBBf+3VQBJURoASRpoGcBOP6hUgE+/ptooGf+22ehaP7FAWBU/r4BaWYDhf6yA4f+YQGf/mGa/rKZ/mIBnv5iAZ6ZAU6aAZ8AAAMAqv7TBG0GFAAhACgALwC9QFUiAgoLCicBJigCCwsKHQEeHAIvKS8bAikpL0ITERAiChspBBcGCSohBQIXhhYGhgURIxqKFokQACqKBYkCLQgWCh4HKRoSAwAJIhAJAwEHJggNBQYwEPxLsAlUWLkABf/AOFlLsAxUS7AQVFtLsA9UW1i5AAUAQDhZPOz0Fzz8Fzz05OwxAC/k7MTU5OwyxBDuEO4REjkRORESFzkREjkwS1NYBxAE7QcQDu0RFzkHEA7tERc5BxAE7VkiASMDLgEnNR4BFxEuATU0Njc1MxUeARcVLgEnER4BFRQGBwMRDgEVFBYXET4BNTQmArRkAWnSambRb93J2sxkXa5TU69c49bj1mR0enHhf4F7/tMBLQItLbRAQQEByCSslqO8DuvoBB8bryouBP5VI7ScqcMPAwABmg1qWFZg1f5PEW5aWGgAAAAABQBx/+MHKQXwAAsAFwAjACcAMwCJQDYkDyUmJSYPJyQnQgCSDB6SLo0YkiQGkgyNJhKMKCSRNCchGyUJAw0VDgkNDyENKw4bDQ8xCzQQ/EuwCVRLsAtUW0uwDFRbS7AUVFtLsA5UW0uwDVRbWLkAMf/AOFnE7PTsEO727hE5ERI5MQAQ5DL0POTsEO727hDuMEtTWAcQBe0HEAXtWSIBIgYVFBYzMjY1NCYnMhYVFAYjIiY1NDYBIgYVFBYzMjY1NCYlMwEjEzIWFRQGIyImNTQ2BdFXY2NXVWNjVZ66u52gurv8l1ZjYldXY2QDMaD8WqAfnry7n5+5ugKRlISClZWCg5V/3Lu729u7vNsCYZWChJSUhIGWf/nzBg3bu73a27y63AAAAAACAIH/4wX+BfAACQAwAc1Alg0BDgyGERIRC4YKCxISEQmGAAkVFhUHAQYIhhYWFQIBAwGGHR4dAIYJAB4eHSAfAiEeEQoTChcWFQMYFBETCgcIAgYJERMTCgIBAgMAEQoTChcWAhgVERMKFBETEwpCEgsJAwYACh4DKBUOBignBpUYK5UnlCSRGIwOEwouCw4JAC4SFScOHgMuEichDhEPEyEDEhsQMRD87MTU1OwQxu4RORESOTkROTkRORE5MQAvxuT25u4Q7hDGERI5ERc5ERc5MEtTWAcQBe0HBe0RFzkHEAXtERc5BxAF7REXOQcF7REXOQcQBe0RFzkHEAjtBxAO7REXOQcQDu0RFzkHEAjtBxAI7QcQDu0RFzlZIrIPMgEBXUCyBwsFIgkpHAAcAR8CFwsqACoBJhI6ADQSRAteAFkBWgpVEloaWh9ZMGceewCbAJoBmQKXCJULkxWVFpUimS0fCQsJDAgRDCcMKBgCGwkZCxkMGREcFBwVFh0fMicAJwEpCSMSKhMqFCgVLzI7CTQSORM/MkoJTBRLFUYZTzJWAVoJWQxVElkTXB9fMmoMaRFgMnUBeQx6EZMAkwGXApUFnAecCJ8ImgmbC5oMkDKgMrAyOV0AXQEOARUUFjMyNjcJAT4BNzMGAgcBIycOASMiADU0NjcuATU0NjMyFhcVLgEjIgYVFBYB8ltV1KBfpkn+ewH8O0IGugxoXQEX/I9o5IPx/s6GhjAy3rhTpVVXnkRpgzsDI1GhWJLCP0ACj/34WctyhP7+fv7jk1lXARPXgOFjP308osUkJLYvMW9YM2cAAQDFA6oBbwXVAAMAN0AKAYQAgQQABQIEBBD8S7ASVEuwE1RbWLkAAv/AOFnsMQAQ9OwwAUANQAVQBWAFcAWQBaAFBl0BESMRAW+qBdX91QIrAAAAAQCw/vICewYSAA0AN0APBpgAlw4NBwADEgYAEwoOENxLsBNUWLkACv/AOFlLsA9UWLkACgBAOFnkMuwROTkxABD87DABBgIVFBIXIyYCNTQSNwJ7hoKDhaCWlZSXBhLm/j7n5/475esBxuDfAcTsAAEApP7yAm8GEgANAB9ADweYAJcOBwEACxIEEwgADhDcPPTsETk5MQAQ/OwwEzMWEhUUAgcjNhI1NAKkoJaVlZaghYODBhLs/jzf4P466+UBxefnAcIAAAABAD0CSgPDBfAAEQBOQCwQDQsABAwJBwQCBAgDmQURDJkKAQ6REggMCgMJBhEDAQMCABQPBAsJFA0GEhDUPOQy3DzkMhc5ERIXOTEAEPTUPOwyxOwyFzkSFzkwAQ0BByURIxEFJy0BNwURMxElA8P+mQFnOv6wcv6wOgFn/pk6AVByAVAE38LDYsv+hwF5y2LDwmPLAXn+h8sAAAABANkAAAXbBQQACwAjQBEACQGcBwMFAhUEABcKBhUIDBDc/Dz8POwxAC/UPPw8xDABESEVIREjESE1IREDrgIt/dOo/dMCLQUE/dOq/dMCLaoCLQABAJ7/EgHDAP4ABQAZQAwDngCDBgMEARkAGAYQ/OzUzDEAEPzsMDczFQMjE/DTpIFS/qz+wAFAAAEAZAHfAn8CgwADABG2AJwCBAEABBDczDEAENTsMBMhFSFkAhv95QKDpAAAAQDbAAABrgD+AAMAEbcAgwIBGQAYBBD87DEAL+wwNzMVI9vT0/7+AAEAAP9CArIF1QADAC1AFAAaAQIBAhoDAANCAp8AgQQCAAEDL8Q5OTEAEPTsMEtTWAcQBe0HEAXtWSIBMwEjAgiq/fiqBdX5bQAAAAACAIf/4wSPBfAACwAXACNAEwagEgCgDJESjBgJHA8eAxwVGxgQ/Oz07DEAEOT07BDuMAEiAhEQEjMyEhEQAicyABEQACMiABEQAAKLnJ2dnJ2dnZ37AQn+9/v7/vcBCQVQ/s3+zP7N/s0BMwEzATQBM6D+c/6G/of+cwGNAXkBegGNAAABAOEAAARaBdUACgBAQBVCA6AEAqAFgQcAoAkIHwYcAwAfAQsQ1EuwD1RYuQABAEA4WezE/OwxAC/sMvTs1OwwS1NYWSIBtA8DDwQCXTchEQU1JTMRIRUh/gFK/pkBZcoBSvykqgRzSLhI+tWqAAAAAQCWAAAESgXwABwAnkAnGRobAxgcEQUEABEFBQRCEKERlA2gFJEEAKACABAKAgEKHBcQAwYdEPxLsBVUS7AWVFtLsBRUW1i5AAP/wDhZxNTswMAREjkxAC/sMvTs9OwwS1NYBxAF7QcF7QGwHBARFzlZIgFAMlUEVgVWB3oEegV2G4cZBwQABBkEGgQbBRx0AHYGdRpzG3QcggCGGYIaghuCHKgAqBsRXQBdJSEVITU2ADc+ATU0JiMiBgc1PgEzMgQVFAYHBgABiQLB/ExzAY0zYU2nhl/TeHrUWOgBFEVbGf70qqqqdwGROm2XSXeWQkPMMTLowlylcB3+6wAAAAEAnP/jBHMF8AAoAHBALgAVEwqGCR+GIBOgFQ2gCZMGHKAgkyORBowVoykWHBMAAxQZHCYgEBwDFB8JBikQ/EuwFlRLsBRUW1i5AAn/wDhZxMTU7PTsERc5OTEAEOzk9OTsEObuEO4Q7hDuERI5MAFACWQeYR9hIGQhBABdAR4BFRQEISImJzUeATMyNjU0JisBNTMyNjU0JiMiBgc1PgEzMgQVFAYDP5Gj/tD+6F7HalTIbb7HuaWutpWeo5hTvnJzyVnmAQyOAyUfxJDd8iUlwzEylo+ElaZ3cHN7JCa0ICDRsnyrAAACAGQAAASkBdUAAgANAIFAHQENAw0AAwMNQgADCwegBQEDgQkBDAoAHAYIBAwOENxLsAtUS7ANVFtYuQAM/8A4WdQ8xOwyETkxAC/k1DzsMhI5MEtTWAcQBMkHEAXJWSIBQCoLACoASABZAGkAdwCKAAcWASsAJgErAzYBTgFPDE8NVgFmAXUBegOFAQ1dAF0JASEDMxEzFSMRIxEhNQMG/gIB/jX+1dXJ/V4FJfzjA838M6j+oAFgwwAAAAEAnv/jBGQF1QAdAF5AIwQaBxGGEB0aoAcUoBCJDQKgAIENjAekHhccAQoDHAAKEAYeEPwBS7AWVEuwFFRbWLkAEP/AOFlLsA9UWLkAEABAOFnE1OwQxO4xABDk5PTsEObuEP7EEO4REjkwEyEVIRE+ATMyABUUACEiJic1HgEzMjY1NCYjIgYH3QMZ/aAsWCz6AST+1P7vXsNoWsBrrcrKrVGhVAXVqv6SDw/+7urx/vUgIMsxMLacnLYkJgAAAAIAj//jBJYF8AALACQAWEAkEwYADYYMAKAWBqAcFqUQoAyJIpEcjCUMIgkcGR4THAMhHxslEPzs7PTs5DEAEOT05PzkEO4Q7hDuERI5MEAUywDLAc0CzQPNBMsFywYHpB6yHgJdAV0BIgYVFBYzMjY1NCYBFS4BIyICAz4BMzIAFRQAIyAAERAAITIWAqSIn5+IiJ+fAQlMm0zI0w87smvhAQX+8OL+/f7uAVABG0ybAzu6oqG7u6GiugJ5uCQm/vL+71dd/u/r5v7qAY0BeQFiAaUeAAAAAAEAqAAABGgF1QAGAGNAGAURAgMCAxEEBQRCBaAAgQMFAwEEAQAGBxD8zMQROTkxAC/07DBLU1gHEAXtBxAF7VkiAUuwFlRYvQAHAEAAAQAHAAf/wDgRNzhZQBJYAgEGAxoFOQVIBWcDsACwBgddAF0TIRUBIwEhqAPA/eLTAf79MwXVVvqBBSsAAAAAAwCL/+MEiwXwAAsAIwAvAENAJRgMAKAnBqAeLaASkR6MJ6MwGAwkKhwVJBwPCRwVGx4DHA8hGzAQ/MTs9MTsEO4Q7hE5OTEAEOzk9OwQ7hDuOTkwASIGFRQWMzI2NTQmJS4BNTQkMzIWFRQGBx4BFRQEIyIkNTQ2ExQWMzI2NTQmIyIGAouQpaWQkKal/qWCkQD/3t/+kYGSo/739/f+96RIkYOCk5OCg5ECxZqHh5qbhoeaViCygLPQ0LOAsiAixo/Z6OjZj8YBYXSCgnR0goIAAAACAIH/4wSHBfAAGAAkAFhAIwcfGQGGABmgCqUEoACJFh+gEJEWjCUHHBwhEx4AIiIcDRslEPzs5PTs7DEAEOT07BDm/vXuEO4REjkwQBbEGcIawBvAHMAdwh7EHweqErwS6RIDXQFdNzUeATMyEhMOASMiADU0ADMgABEQACEiJgEyNjU0JiMiBhUUFuFMnEvI0w86smzg/vsBEOIBAwER/rH+5UycAT6In5+IiJ+fH7gkJgENARJWXAEP6+YBFv5z/ob+n/5bHgKXuqKhu7uhoroAAAIA8AAAAcMEIwADAAcAHEAOBoMEpgCDAgUBAwQAGAgQ/DzsMjEAL+z07DA3MxUjETMVI/DT09PT/v4EI/4AAAACAJ7/EgHDBCMAAwAJACVAEwKDAAeeBIMApgoHCAUBGQQAGAoQ/DzsMtTMMQAQ5PzsEO4wEzMVIxEzFQMjE/DT09OkgVIEI/792az+wAFAAAEA2QBeBdsEpgAGAE1AKgKcAwQDAZwAAQQEAwGcAgEFBgUAnAYFQgUEAgEABQOoBqcHAQIAJAQjBxD87DI5MQAQ9OwXOTBLU1gHBO0HEAjtBxAI7QcQBO1ZIgkCFQE1AQXb+/gECPr+BQID8P6R/pO2AdGmAdEAAAIA2QFgBdsDogADAAcAHEANAJwCBpwECAUBBAAjCBD8PMQyMQAQ1OzU7DATIRUhFSEVIdkFAvr+BQL6/gOiqPCqAAAAAQDZAF4F2wSmAAYAT0ArBpwABgMEAwWcBAQDAJwBAgEGnAUGAgIBQgYFAwIABQSoAacHBgIkBAAjBxD8POw5MQAQ9OwXOTBLU1gHEAjtBxAE7QcQBO0HEAjtWSITNQEVATUB2QUC+v4EBgPwtv4vpv4vtgFtAAAAAgCTAAADsAXwAAMAJABlQCskHgkGBAodEwQAFIYTiBCVF5EAgwIdGg0JBQQKHgENHBoEHAUBAwAmGhMlENxLsAxUWLkAE//AOFnE/OzU7BDuETk5ERI5ERI5MQAv7vb+9O4QzRE5ORc5MAG2eQl6CnogA10lMxUjEyM1NDY/AT4BNTQmIyIGBzU+ATMyFhUUBg8BDgEHDgEVAYfLy8W/OFpaOTODbE+zYV7BZ7jfSFpYLycIBgb+/gGRmmWCVlk1XjFZbkZDvDk4wp9MiVZWLzUZFTw0AAAAAgCH/pwHcQWiAAsATACVQDIYDAMJqRkVGwOpTA80Mw+sMKk3FawkqTdDTTM0HhoAKBIGGAwoGiseKEkSKyooSSw9TRDc7PzsEP79/jzGEO4REjk5MQAQ1MT87BD+7dTGEMXuMhDE7hE5OTAAS7AJVEuwDFRbS7AQVFtLsBNUW0uwFFRbWL0ATf/AAAEATQBNAEA4ETc4WUAJD04fTi9OP04EAV0BFBYzMjY1NCYjIgYBDgEjIiY1NDYzMhYXNTMRPgE1NCYnJiQjIgYHBgIVFBIXFgQzMjY3FwYEIyIkJyYCNTQSNzYkMzIEFx4BFRAABQL6jnx7jZB6eY8CITybZ6zX2KtnnDuPkqU/QGj+1bB74mCdsXNtaQEUnYH5aFp9/tmYuf64gICGiH6BAVK91AFre0tP/sL+6AIZj6OkjoylpP5ITUn5yMj6S0yD/SAW37FrvFCDi0FAZv61wZ/+6mpobVdRb2Fng319AUm9tgFKfX+HrqBi5nv++f7QBgAAAgAQAAAFaAXVAAIACgDCQEEAEQEABAUEAhEFBQQBEQoDCgARAgADAwoHEQUEBhEFBQQJEQMKCBEKAwpCAAMHlQEDgQkFCQgHBgQDAgEACQUKCxDUxBc5MQAvPOTU7BI5MEtTWAcQBe0HBe0HEAXtBwXtBxAI7QcQBe0HEAXtBxAI7VkisiAMAQFdQEIPAQ8CDwcPCA8AWAB2AHAAjAAJBwEIAgYDCQQWARkCVgFYAlAMZwFoAngBdgJ8A3IEdwd4CIcBiAKADJgCmQOWBBddAF0JASEBMwEjAyEDIwK8/u4CJf575QI50oj9X4jVBQ79GQOu+isBf/6BAAAAAwDJAAAE7AXVAAgAEQAgAENAIxkAlQoJlRKBAZUKrR8RCwgCExkfBQAOHBYFGRwuCQAcEgQhEPzsMvzs1OwRFzk5OTEAL+zs9OwQ7jkwsg8iAQFdAREhMjY1NCYjAREhMjY1NCYjJSEyFhUUBgceARUUBCMhAZMBRKOdnaP+vAErlJGRlP4LAgTn+oB8laX+8Pv96ALJ/d2Hi4yFAmb+Pm9ycXCmwLGJohQgy5jI2gABAHP/4wUnBfAAGQA2QBoNoQ6uCpURAaEArgSVF5ERjBoHGQ0AMBQQGhD87DLsMQAQ5PTs9OwQ7vbuMLQPGx8bAgFdARUuASMgABEQACEyNjcVDgEjIAAREAAhMhYFJ2bngv8A/vABEAEAgudmau2E/q3+egGGAVOG7QVi1V9e/sf+2P7Z/sdeX9NISAGfAWcBaAGfRwAAAAIAyQAABbAF1QAIABEALkAVAJUJgQGVEAgCEAoABRkNMgAcCQQSEPzs9OwROTk5OTEAL+z07DCyYBMBAV0BETMgABEQACElISAAERAAKQEBk/QBNQEf/uH+y/5CAZ8BsgGW/mj+UP5hBS/7dwEYAS4BLAEXpv6X/oD+fv6WAAAAAQDJAAAEiwXVAAsALkAVBpUEApUAgQiVBK0KBQEJBwMcAAQMEPzsMtTExDEAL+zs9OwQ7jCyHw0BAV0TIRUhESEVIREhFSHJA7D9GgLH/TkC+Pw+BdWq/kaq/eOqAAAAAQDJAAAEIwXVAAkAKUASBpUEApUAgQStCAUBBwMcAAQKEPzsMtTEMQAv7PTsEO4wsg8LAQFdEyEVIREhFSERI8kDWv1wAlD9sMoF1ar+SKr9NwAAAQBz/+MFiwXwAB0AOUAgAAUbAZUDG5UIEqERrhWVDpEIjB4CABwRNAQzGBkLEB4Q/Oz85PzEMQAQ5PTs9OwQ/tTuETk5MCURITUhEQYEIyAAERAAITIEFxUuASMgABEQACEyNgTD/rYCEnX+5qD+ov51AYsBXpIBB29w/Iv+7v7tARMBEmuo1QGRpv1/U1UBmQFtAW4BmUhG119g/s7+0f7S/s4lAAAAAQDJAAAFOwXVAAsALEAUCJUCrQQAgQoGBwMcBTgJARwABAwQ/Owy/OwyMQAvPOQy/OwwslANAQFdEzMRIREzESMRIREjycoC3srK/SLKBdX9nAJk+isCx/05AAABAMkAAAGTBdUAAwAutwCvAgEcAAQEEPxLsBBUWLkAAABAOFnsMQAv7DABQA0wBUAFUAVgBY8FnwUGXRMzESPJysoF1forAAAB/5b+ZgGTBdUACwBCQBMLAgAHlQWwAIEMBQgGOQEcAAQMEPxLsBBUWLkAAABAOFns5Dk5MQAQ5PzsETk5MAFADTANQA1QDWANjw2fDQZdEzMREAYrATUzMjY1ycrN400/hm4F1fqT/vL0qpbCAAAAAQDJAAAFagXVAAoA70AoCBEFBgUHEQYGBQMRBAUEAhEFBQRCCAUCAwMArwkGBQEEBggBHAAECxD87DLUxBE5MQAvPOwyFzkwS1NYBxAE7QcQBe0HEAXtBxAE7VkisggDAQFdQJIUAgEEAgkIFgIoBSgINwI2BTQIRwJGBUMIVQJnAnYCdwWDAogFjwiUApsI5wIVBgMJBQkGGwMZBwUKAwoHGAMoBSsGKgc2BDYFNgY1BzAMQQNABEUFQAZAB0AMYgNgBGgFZwd3BXAMiwOLBY4GjwePDJoDnQadB7YDtQfFA8UH1wPWB+gD6QToBeoG9wP4BfkGLF1xAF1xEzMRASEJASEBESPJygKeAQT9GwMa/vb9M8oF1f2JAnf9SPzjAs/9MQAAAAABAMkAAARqBdUABQAlQAwClQCBBAEcAzoABAYQ/OzsMQAv5OwwQAkwB1AHgAOABAQBXRMzESEVIcnKAtf8XwXV+tWqAAEAyQAABh8F1QAMAL9ANAMRBwgHAhEBAggIBwIRAwIJCgkBEQoKCUIKBwIDCAMArwgLBQkIAwIBBQoGHAQ+ChwABA0Q/Oz87BEXOTEALzzE7DIRFzkwS1NYBxAF7QcQCO0HEAjtBxAF7VkisnAOAQFdQFYDBw8IDwkCChUCFAcTCiYCJgcgByYKIAo0BzUKaQJ8AnsHeQqAAoIHggqQAhYEAQsDEwEbAyMBLAMnCCgJNAE8A1YIWQllCGoJdgh5CYEBjQOVAZsDFF0AXRMhCQEhESMRASMBESPJAS0BfQF/AS3F/n/L/n/EBdX8CAP4+isFH/wABAD64QAAAAEAyQAABTMF1QAJAHlAHgcRAQIBAhEGBwZCBwIDAK8IBQYBBwIcBDYHHAAEChD87PzsETk5MQAvPOwyOTkwS1NYBxAE7QcQBO1ZIrIfCwEBXUAwNgI4B0gCRwdpAmYHgAIHBgEJBhUBGgZGAUkGVwFYBmUBaQZ5BoUBigaVAZoGnwsQXQBdEyEBETMRIQERI8kBEAKWxP7w/WrEBdX7HwTh+isE4fsfAAIAc//jBdkF8AALABcAI0ATBpUSAJUMkRKMGAkZDzMDGRUQGBD87PzsMQAQ5PTsEO4wASIAERAAMzIAERAAJyAAERAAISAAERAAAyfc/v0BA9zcAQH+/9wBOgF4/oj+xv7F/ocBeQVM/rj+5f7m/rgBSAEaARsBSKT+W/6e/p/+WwGkAWIBYgGlAAAAAgDJAAAEjQXVAAgAEwA6QBgBlRAAlQmBEhAKCAIEAAUZDT8RABwJBBQQ/Owy/OwRFzkxAC/07NTsMEALDxUfFT8VXxWvFQUBXQERMzI2NTQmIyUhMgQVFAQrAREjAZP+jZqajf44Acj7AQH+//v+ygUv/c+Sh4aSpuPb3eL9qAACAHP++AXZBfAACwAdAFJAKhEQAg8BDA0MDgENDQxCDx4MBpUSAJUYkRKMDR4NGw8MAwkZGzMDGRUQHhD87PzsETk5ETkxABDE5PTsEO45EjkwS1NYBxAF7QcQBe0XOVkiASIAERAAMzIAERAAEwEjJw4BIyAAERAAISAAERACAyfc/v0BA9zcAQH+/z8BCvTdISMQ/sX+hwF5ATsBOgF40QVM/rj+5f7m/rgBSAEaARsBSPrP/t3vAgIBpQFhAWIBpf5b/p7+/P6OAAACAMkAAAVUBdUAEwAcALFANQkIBwMKBhEDBAMFEQQEA0IGBAAVAwQVlQkUlQ2BCwQFBgMRCQAcFg4FChkZBBE/FAocDAQdEPzsMvzE7BEXORE5OTkxAC889OzU7BI5EjkSOTBLU1gHEAXtBxAF7REXOVkiskAeAQFdQEJ6EwEFAAUBBQIGAwcEFQAVARQCFgMXBCUAJQElAiYDJwYmByYIJgkgHjYBNgJGAUYCaAV1BHUFdxOIBogHmAaYBx9dAF0BHgEXEyMDLgErAREjESEgFhUUBgERMzI2NTQmIwONQXs+zdm/Sot43MoByAEA/IP9if6SlZWSArwWkH7+aAF/lmL9iQXV1tiNugJP/e6Hg4OFAAABAIf/4wSiBfAAJwB+QDwNDAIOCwIeHx4ICQIHCgIfHx5CCgseHwQVAQAVoRSUGJURBJUAlCWREYwoHgoLHxsHACIbGQ4tBxkUIigQ3MTs/OzkERI5OTk5MQAQ5PTk7BDu9u4QxhEXOTBLU1gHEA7tERc5BxAO7REXOVkisg8pAQFdth8pLylPKQNdARUuASMiBhUUFh8BHgEVFAQhIiYnNR4BMzI2NTQmLwEuATU0JDMyFgRIc8xfpbN3pnri1/7d/udq74B77HKtvIeae+LKARf1adoFpMU3NoB2Y2UfGSvZttngMC/QRUaIfm58HxgtwKvG5CYAAAH/+gAABOkF1QAHAEpADgYClQCBBAFAAxwAQAUIENTk/OQxAC/07DIwAUuwClRYvQAIAEAAAQAIAAj/wDgRNzhZQBMACR8AEAEQAh8HEAlACXAJnwkJXQMhFSERIxEhBgTv/e7L/e4F1ar61QUrAAABALL/4wUpBdUAEQBAQBYIAhELAAWVDowJAIESCBwKOAEcAEESEPxLsBBUWLkAAP/AOFns/OwxABDkMvTsETk5OTkwAbYfE48TnxMDXRMzERQWMzI2NREzERAAISAAEbLLrsPCrsv+3/7m/uX+3wXV/HXw09PwA4v8XP7c/tYBKgEkAAABABAAAAVoBdUABgC3QCcEEQUGBQMRAgMGBgUDEQQDAAEAAhEBAQBCAwQBrwAGBAMCAAUFAQcQ1MQXOTEAL+wyOTBLU1gHEAXtBxAI7QcQCO0HEAXtWSKyUAgBAV1AYgADKgNHBEcFWgN9A4MDBwYABwIIBAkGFQEUAhoEGgUqACYBJgIpBCkFJQYgCDgAMwEzAjwEPAU3BkgARQFFAkkESQVHBlkAVgZmAmkEaQV6AHYBdgJ5BHkFdQaACJgAlwYpXQBdIQEzCQEzAQJK/cbTAdkB2tL9xwXV+xcE6forAAEARAAAB6YF1QAMAXtASQUaBgUJCgkEGgoJAxoKCwoCGgECCwsKBhEHCAcFEQQFCAgHAhEDAgwADAERAAAMQgoFAgMGAwCvCwgMCwoJCAYFBAMCAQsHAA0Q1MwXOTEALzzsMjIXOTBLU1gHEAXtBxAI7QcQCO0HEAXtBxAI7QcQBe0HBe0HEAjtWSKyAA4BAV1A8gYCBgUCCgAKAAoSCigFJAogCj4CPgU0CjAKTAJNBUIKQApZAmoCawVnCmAKewJ/AnwFfwWACpYClQUdBwAJAggDAAQGBQAFAAYBBwQIAAgHCQAJBAoKDAAOGgMVBBUIGQwQDiAEIQUgBiAHIAgjCSQKJQsgDiAOPAI6AzUEMwUwCDYJOQs/DDAORgBGAUoCQARFBUAFQgZCB0IIQAhACUQKTQxADkAOWAJWCFkMUA5mAmcDYQRiBWAGYAdgCGQJZApkC3cAdgF7AngDdwR0BXkGeQd3CHAIeAx/DH8OhgKHA4gEiQWFCYoLjw6XBJ8Orw5bXQBdEzMJATMJATMBIwkBI0TMAToBOeMBOgE5zf6J/v7F/sL+BdX7EgTu+xIE7vorBRD68AAAAAEAPQAABTsF1QALAGZABg0EBgAKDBDUxNzExDG0gAB/CgJdAEAFAwCvCQYvPOwyMEuwQlBYQBQHEQYGBQkRCgsKAxEEBQQBEQALAAUHEOwHEOwHEOwHEOxAFAsKAwcACAkEBwAFCQQGAQIKAwYBDw8PD1kTMwkBMwkBIwkBIwGB2QFzAXXZ/iACANn+XP5Z2gIVBdX91QIr/TP8+AJ7/YUDHQAAAf/8AAAE5wXVAAgAlEAoAxEEBQQCEQECBQUEAhEDAggACAERAAAIQgIDAK8GAgcEQAUcAEAHCRDU5PzkEjkxAC/sMjkwS1NYBxAF7QcQCO0HEAjtBxAF7VkisgAKAQFdQDwFAhQCNQIwAjAFMAhGAkACQAVACFECUQVRCGUChAKTAhAWARoDHwomASkDNwE4A0AKZwFoA3gDcAqfCg1dAF0DMwkBMwERIxEE2QGeAZvZ/fDLBdX9mgJm/PL9OQLHAAAAAAEAXAAABR8F1QAJAJBAGwMRBwgHCBECAwJCCJUAgQOVBQgDAAFCBAAGChDcS7AJVEuwClRbWLkABv/AOFnE1OQROTkxAC/s9OwwS1NYBxAF7QcQBe1ZIgFAQAUCCgcYBykCJgc4B0gCRwdICAkFAwsIAAsWAxoIEAsvCzUDOQg/C0cDSghPC1UDWQhmA2kIbwt3A3gIfwufCxZdAF0TIRUBIRUhNQEhcwSV/FADx/s9A7D8ZwXVmvtvqpoEkQAAAAEAsP7yAlgGFAAHADtADwSpBrICqQCxCAUBA0MACBDcS7AMVFi5AAAAQDhZS7ASVEuwE1RbWLkAAP/AOFn8zDIxABD87PTsMBMhFSMRMxUhsAGo8PD+WAYUj/n8jwAAAAEAAP9CArIF1QADAC1AFAIaAQEAABoDAwJCAZ8AgQQCAAEDL8Q5OTEAEPTsMEtTWAcQBe0HEAXtWSITASMBqgIIqv34BdX5bQaTAAABAMf+8gJvBhQABwAwQBADqQGyBakAsQgAQwQGAgQIEPxLsA9US7AQVFtYuQACAEA4WTzc7DEAEPzs9OwwAREhNTMRIzUCb/5Y7+8GFPjejwYEjwABANkDqAXbBdUABgAYQAoDBAEAgQcDAQUHENzMOTEAEPTMMjkwCQEjCQEjAQO8Ah/J/kj+SMkCHwXV/dMBi/51Ai0AAAH/7P4dBBT+rAADAA+1AKkBAAIEEMTEMQDU7DABFSE1BBT72P6sj48AAAAAAQCqBPACiQZmAAMAMUAJAbQAswQDRAEEENzsMQAQ9OwwAEuwCVRLsA5UW1i9AAT/wAABAAQABABAOBE3OFkJASMBAW8BGpn+ugZm/ooBdgACAHv/4wQtBHsACgAlALxAJxkfCxcJDgCpFwa5DhEghh+6HLkjuBGMFwwAFwMYDQkICx8DCBRFJhD87MzU7DIyETk5MQAvxOT0/PTsEMbuEO4RORE5EjkwQG4wHTAeMB8wIDAhMCI/J0AdQB5AH0AgQCFAIlAdUB5QH1AgUCFQIlAncCeFHYcehx+HIIchhSKQJ6An8CceMB4wHzAgMCFAHkAfQCBAIVAeUB9QIFAhYB5gH2AgYCFwHnAfcCBwIYAegB+AIIAhGF0BXQEiBhUUFjMyNj0BNxEjNQ4BIyImNTQ2MyE1NCYjIgYHNT4BMzIWAr7frIFvmbm4uD+8iKzL/fsBAqeXYLZUZb5a8/ACM2Z7YnPZtClM/YGqZmHBor3AEn+LLi6qJyf8AAACALr/4wSkBhQACwAcADhAGQO5DA8JuRgVjA+4G5cZABISRxgMBggaRh0Q/OwyMvTsMQAv7OT0xOwQxu4wtmAegB6gHgMBXQE0JiMiBhUUFjMyNgE+ATMyABEQAiMiJicVIxEzA+WnkpKnp5KSp/2OOrF7zAD//8x7sTq5uQIvy+fny8vn5wJSZGH+vP74/vj+vGFkqAYUAAEAcf/jA+cEewAZAD9AGwCGAYgEDoYNiAq5EQS5F7gRjBoHEg0ASBRFGhD85DLsMQAQ5PTsEP707hD17jBACw8bEBuAG5AboBsFAV0BFS4BIyIGFRQWMzI2NxUOASMiABEQACEyFgPnTp1Qs8bGs1CdTk2lXf3+1gEtAQZVogQ1rCsr483N4ysrqiQkAT4BDgESATojAAAAAgBx/+MEWgYUABAAHAA4QBkauQAOFLkFCIwOuAGXAxcEAAgCRxESC0UdEPzs9OwyMjEAL+zk9MTsEMTuMLZgHoAeoB4DAV0BETMRIzUOASMiAhEQADMyFgEUFjMyNjU0JiMiBgOiuLg6sXzL/wD/y3yx/cenkpKoqJKSpwO2Al757KhkYQFEAQgBCAFEYf4Vy+fny8vn5wACAHH/4wR/BHsAFAAbAHBAJAAVAQmGCIgFFakBBbkMAbsYuRK4DIwcGxUCCBUIAEsCEg9FHBD87PTsxBESOTEAEOT07OQQ7hDuEPTuERI5MEApPx1wHaAd0B3wHQU/AD8BPwI/FT8bBSwHLwgvCSwKbwBvAW8CbxVvGwldcQFdARUhHgEzMjY3FQ4BIyAAERAAMzIABy4BIyIGBwR//LIMzbdqx2Jj0Gv+9P7HASn84gEHuAKliJq5DgJeWr7HNDSuKiwBOAEKARMBQ/7dxJe0rp4AAAEALwAAAvgGFAATAFlAHAUQAQwIqQYBhwCXDga8CgITBwAHCQUIDQ8LTBQQ/EuwClRYuQALAEA4WUuwDlRYuQAL/8A4WTzE/DzExBI5OTEAL+Qy/OwQ7jISOTkwAbZAFVAVoBUDXQEVIyIGHQEhFSERIxEjNTM1NDYzAviwY00BL/7RubCwrr0GFJlQaGOP/C8D0Y9Ou6sAAgBx/lYEWgR7AAsAKABKQCMZDB0JEoYTFrkPA7kmI7gnvAm5D70aHSYZAAgMRwYSEiBFKRD8xOz07DIyMQAvxOTs5PTE7BD+1e4REjk5MLZgKoAqoCoDAV0BNCYjIgYVFBYzMjYXEAIhIiYnNR4BMzI2PQEOASMiAhEQEjMyFhc1MwOipZWUpaWUlaW4/v76YaxRUZ5StbQ5snzO/PzOfLI5uAI9yNzcyMfc3Ov+4v7pHR6zLCq9v1tjYgE6AQMBBAE6YmOqAAABALoAAARkBhQAEwA0QBkDCQADDgEGhw4RuAyXCgECCABODQkIC0YUEPzsMvTsMQAvPOz0xOwREhc5MLJgFQEBXQERIxE0JiMiBhURIxEzET4BMzIWBGS4fHyVrLm5QrN1wcYCpP1cAp6fnr6k/YcGFP2eZWTvAAACAMEAAAF5BhQAAwAHACtADga+BLEAvAIFAQgEAEYIEPw87DIxAC/k/OwwQAsQCUAJUAlgCXAJBQFdEzMRIxEzFSPBuLi4uARg+6AGFOkAAAL/2/5WAXkGFAALAA8AREAcCwIHAA6+DAeHBb0AvAyxEAgQBQZPDQEIDABGEBD8POwy5DkSOTEAEOzk9OwQ7hESOTkwQAsQEUARUBFgEXARBQFdEzMRFAYrATUzMjY1ETMVI8G4o7VGMWlMuLgEYPuM1sCcYZkGKOkAAAABALoAAAScBhQACgC8QCkIEQUGBQcRBgYFAxEEBQQCEQUFBEIIBQIDA7wAlwkGBQEEBggBCABGCxD87DLUxBE5MQAvPOzkFzkwS1NYBxAE7QcQBe0HEAXtBxAE7VkishAMAQFdQF8EAgoIFgInAikFKwhWAmYCZwhzAncFggKJBY4IkwKWBZcIowISCQUJBgILAwoHKAMnBCgFKwYrB0AMaANgDIkDhQSJBY0GjweaA5cHqgOnBbYHxQfWB/cD8AP3BPAEGl1xAF0TMxEBMwkBIwERI7q5AiXr/a4Ca/D9x7kGFPxpAeP99P2sAiP93QABAMEAAAF5BhQAAwAitwCXAgEIAEYEEPzsMQAv7DBADRAFQAVQBWAFcAXwBQYBXRMzESPBuLgGFPnsAAABALoAAAcdBHsAIgBaQCYGEgkYDwAGHQcVDIcdIAO4G7wZEAcAEQ8ICAZQEQgPUBwYCBpGIxD87DL8/PzsERI5MQAvPDzk9DzE7DIREhc5MEATMCRQJHAkkCSgJKAkvyTfJP8kCQFdAT4BMzIWFREjETQmIyIGFREjETQmIyIGFREjETMVPgEzMhYEKUXAgq++uXJ1j6a5cneNprm5P7B5eqsDiXx29eL9XAKeoZy+pP2HAp6im7+j/YcEYK5nYnwAAAAAAQC6AAAEZAR7ABMANkAZAwkAAw4BBocOEbgMvAoBAggATg0JCAtGFBD87DL07DEALzzk9MTsERIXOTC0YBXPFQIBXQERIxE0JiMiBhURIxEzFT4BMzIWBGS4fHyVrLm5QrN1wcYCpP1cAp6fnr6k/YcEYK5lZO8AAgBx/+MEdQR7AAsAFwBKQBMGuRIAuQy4EowYCRIPUQMSFUUYEPzs9OwxABDk9OwQ7jBAIz8ZewB7Bn8Hfwh/CX8Kfwt7DH8Nfw5/D38QfxF7EqAZ8BkRAV0BIgYVFBYzMjY1NCYnMgAREAAjIgAREAACc5Ssq5WTrKyT8AES/u7w8f7vARED3+fJyefoyMfpnP7I/uz+7f7HATkBEwEUATgAAAACALr+VgSkBHsAEAAcAD5AGxq5AA4UuQUIuA6MAb0DvB0REgtHFwQACAJGHRD87DIy9OwxABDk5OT0xOwQxO4wQAlgHoAeoB7gHgQBXSURIxEzFT4BMzIAERACIyImATQmIyIGFRQWMzI2AXO5uTqxe8wA///Me7ECOKeSkqenkpKnqP2uBgqqZGH+vP74/vj+vGEB68vn58vL5+cAAAAAAgBx/lYEWgR7AAsAHAA+QBsDuQwPCbkYFbgPjBu9GbwdGAwGCBpHABISRR0Q/Oz07DIyMQAQ5OTk9MTsEMbuMEAJYB6AHqAe4B4EAV0BFBYzMjY1NCYjIgYBDgEjIgIREAAzMhYXNTMRIwEvp5KSqKiSkqcCczqxfMv/AP/LfLE6uLgCL8vn58vL5+f9rmRhAUQBCAEIAURhZKr59gAAAAEAugAAA0oEewARADBAFAYLBwARCwOHDrgJvAcKBggACEYSEPzE7DIxAC/k9OzE1MwREjkwtFATnxMCAV0BLgEjIgYVESMRMxU+ATMyFhcDSh9JLJynubk6uoUTLhwDtBIRy779sgRgrmZjBQUAAAABAG//4wPHBHsAJwDnQDwNDAIOC1MfHggJAgcKUx8fHkIKCx4fBBUAhgGJBBSGFYkYuREEuSW4EYwoHgoLHxsHAFIbCA4HCBQiRSgQ/MTs1OzkERI5OTk5MQAQ5PTsEP717hD17hIXOTBLU1gHEA7tERc5Bw7tERc5WSKyACcBAV1AbRwKHAscDC4JLAosCywMOwk7CjsLOwwLIAAgASQCKAooCyoTLxQvFSoWKB4oHykgKSEkJ4YKhguGDIYNEgAAAAECAgYKBgsDDAMNAw4DDwMQAxkDGgMbAxwEHQknLyk/KV8pfymAKZApoCnwKRhdAF1xARUuASMiBhUUFh8BHgEVFAYjIiYnNR4BMzI2NTQmLwEuATU0NjMyFgOLTqhaiYlilD/EpffYWsNsZsZhgoxlq0CrmODOZrQEP64oKFRUQEkhDiqZiZy2IyO+NTVZUUtQJQ8klYKerB4AAAAAAQA3AAAC8gWeABMAOEAZDgUIDwOpABEBvAiHCgsICQIEAAgQEg5GFBD8PMT8PMQyOTkxAC/s9DzE7DIROTkwsq8VAQFdAREhFSERFBY7ARUjIiY1ESM1MxEBdwF7/oVLc7291aKHhwWe/sKP/aCJTpqf0gJgjwE+AAAAAAIArv/jBFgEewATABQAO0AcAwkAAw4BBocOEYwKAbwUuAwNCQgUC04CCABGFRD87PQ57DIxAC/k5DL0xOwREhc5MLRvFcAVAgFdExEzERQWMzI2NREzESM1DgEjIiYBrrh8fJWtuLhDsXXByAHPAboCpv1hn5++pAJ7+6CsZmPwA6gAAAEAPQAABH8EYAAGAPtAJwMRBAUEAhEBAgUFBAIRAwIGAAYBEQAABkICAwC/BQYFAwIBBQQABxDUS7AKVFi5AAAAQDhZS7AUVEuwFVRbWLkAAP/AOFnEFzkxAC/sMjkwS1NYBxAF7QcQCO0HEAjtBxAF7VkiAUCOSAJqAnsCfwKGAoACkQKkAggGAAYBCQMJBBUAFQEaAxoEJgAmASkDKQQgCDUANQE6AzoEMAhGAEYBSQNJBEYFSAZACFYAVgFZA1kEUAhmAGYBaQNpBGcFaAZgCHUAdAF7A3sEdQV6BoUAhQGJA4kEiQWGBpYAlgGXApoDmASYBZcGqAWnBrAIwAjfCP8IPl0AXRMzCQEzASM9wwFeAV7D/lz6BGD8VAOs+6AAAAABAFYAAAY1BGAADAHrQEkFVQYFCQoJBFUKCQNVCgsKAlUBAgsLCgYRBwgHBREEBQgIBwIRAwIMAAwBEQAADEIKBQIDBgMAvwsIDAsKCQgGBQQDAgELBwANENRLsApUS7ARVFtLsBJUW0uwE1RbS7ALVFtYuQAAAEA4WQFLsAxUS7ANVFtLsBBUW1i5AAD/wDhZzBc5MQAvPOwyMhc5MEtTWAcQBe0HEAjtBxAI7QcQBe0HEAjtBxAF7QcF7QcQCO1ZIgFA/wUCFgIWBSIKNQpJAkkFRgpAClsCWwVVClAKbgJuBWYKeQJ/AnkFfwWHApkCmAWUCrwCvAXOAscDzwUdBQIJAwYECwUKCAsJBAsFDBUCGQMWBBoFGwgbCRQLFQwlACUBIwInAyEEJQUiBiIHJQgnCSQKIQsjDDkDNgQ2CDkMMA5GAkgDRgRABEIFQAZAB0AIRAlECkQLQA5ADlYAVgFWAlAEUQVSBlIHUAhTCVQKVQtjAGQBZQJqA2UEagVqBmoHbglhC2cMbw51AHUBeQJ9A3gEfQV6Bn8Gegd/B3gIeQl/CXsKdgt9DIcCiAWPDpcAlwGUApMDnASbBZgGmAeZCEAvlgyfDqYApgGkAqQDqwSrBakGqQerCKQMrw61ArEDvQS7BbgJvw7EAsMDzATKBXldAF0TMxsBMxsBMwEjCwEjVrjm5dnm5bj+29nx8tkEYPyWA2r8lgNq+6ADlvxqAAEAOwAABHkEYAALAUNARgURBgcGBBEDBAcHBgQRBQQBAgEDEQICAQsRAAEAChEJCgEBAAoRCwoHCAcJEQgIB0IKBwQBBAgAvwUCCgcEAQQIAAIIBgwQ1EuwClRLsA9UW0uwEFRbS7ARVFtYuQAGAEA4WUuwFFRYuQAG/8A4WcTUxBEXOTEALzzsMhc5MEtTWAcQBe0HEAjtBxAI7QcQBe0HEAXtBxAI7QcQCO0HEAXtWSIBQJgKBAQKGgQVCiYKPQQxClUEVwdYCmYKdgF6BHYHdAqNBIIKmQSfBJcHkgqQCqYBqQSvBKUHowqgChwKAwQFBQkKCxoDFQUVCRoLKQMmBSUJKgsgDToBOQM3BTQHNgk5CzANSQNGBUUJSgtADVkAVgFZAlkDVwVWBlkHVghWCVkLUA1vDXgBfw2bAZQHqwGkB7ANzw3fDf8NL10AXQkCIwkBIwkBMwkBBGT+awGq2f66/rrZAbP+ctkBKQEpBGD93/3BAbj+SAJKAhb+cQGPAAABAD3+VgR/BGAADwGLQEMHCAIJEQAPChELCgAADw4RDwAPDREMDQAADw0RDg0KCwoMEQsLCkINCwkQAAsFhwO9Dgu8EA4NDAoJBgMACA8EDwsQENRLsApUS7AIVFtYuQALAEA4WUuwFFRYuQAL/8A4WcTEERc5MQAQ5DL07BE5ETkSOTBLU1gHEAXtBxAI7QcQCO0HEAXtBxAI7QcF7RcyWSIBQPAGAAUIBgkDDRYKFw0QDSMNNQ1JCk8KTg1aCVoKagqHDYANkw0SCgAKCQYLBQwLDgsPFwEVAhAEEAUXChQLFAwaDhoPJwAkASQCIAQgBSkIKAklCiQLJAwnDSoOKg8gETcANQE1AjAEMAU4CjYLNgw4DTkOOQ8wEUEAQAFAAkADQARABUAGQAdACEIJRQpHDUkOSQ9AEVQAUQFRAlUDUARQBVYGVQdWCFcJVwpVC1UMWQ5ZD1ARZgFmAmgKaQ5pD2ARewh4DngPiQCKCYULhQyJDYkOiQ+ZCZULlQyaDpoPpAukDKsOqw+wEc8R3xH/EWVdAF0FDgErATUzMjY/AQEzCQEzApNOlHyTbExUMyH+O8MBXgFew2jIeppIhlQETvyUA2wAAAAAAQBYAAAD2wRgAAkAnUAaCBECAwIDEQcIB0IIqQC8A6kFCAMBAAQBBgoQ3EuwC1RLsAxUW1i5AAb/wDhZS7ATVFi5AAYAQDhZxDLEETk5MQAv7PTsMEtTWAcQBe0HEAXtWSIBQEIFAhYCJgJHAkkHBQsIDwsYAxsIKwggCzYDOQgwC0ABQAJFA0AEQAVDCFcDWQhfC2ABYAJmA2AEYAViCH8LgAuvCxtdAF0TIRUBIRUhNQEhcQNq/UwCtPx9ArT9ZQRgqPzbk6gDJQAAAQEA/rIEFwYUACQAd0A0GQ8VCwYlCRoQFR0LBSAhAwALqQkAqQHACRWpE7ElDAkKBSQWGQAdCgUTAhQAIBlDCg8FJRDUS7AMVFi5AAUAQDhZPMT8PMQyOTkREjkREjk5ERI5OTEAEPzsxPTsEO4SFzkSORE5ORESORESOTkwAbIAJgFdBRUjIiY9ATQmKwE1MzI2PQE0NjsBFSMiBh0BFAYHHgEdARQWMwQXPvmpbI49PY9rqfk+RI1WW25vWlaNvpCU3e+XdI9zlfDdk49Yjfidjhkbjpz4jVgAAAEBBP4dAa4GHQADABK3AQCxBAAFAgQQ1OwxABD8zDABESMRAa6qBh34AAgAAAAAAAEBAP6yBBcGFAAkAIdANh8lGxYMDwgbCxUZDwQFIAMAGakbAKkjwBsPqRGxJRwZGhUPAQQACBoVIxIEABofFUMQAAsEJRDUS7AKVFi5AAT/wDhZS7AOVFi5AAQAQDhZPMQy/DzEERI5ORESORESOTkREjk5MQAQ/OzE9OwQ7hIXORESOTkRORE5ORESOTABsgAmAV0FMzI2PQE0NjcuAT0BNCYrATUzMhYdARQWOwEVIyIGHQEUBisBAQBGjFVab29aVYxGP/mnbI4+Po5sp/k/vlaP+JyOGxmOnfiOV4+T3fCVc490l+/dlAAAAQDZAdMF2wMxAB0AI0AQARAbDAATBJwbE5wMHgAPHhDUxDEAENT81OwQwBESOTkwARUOASMiJyYnJicmIyIGBzU+ATMyFxYXFhcWMzI2Bdtps2FukgsFBw+bXlisYmmzYW6TCgUIDpteVqkDMbJPRDsEAgMFPk1Tsk9FPAQCAwU+TAAAAgE1/osCAARgAAMACQBlQBEHAIMEgQK8CggHBAADBQEAChD8POwyOTkxABD05PzMMAFLsAtUWL0ACgBAAAEACgAK/8A4ETc4WQFLsA9US7AQVFtLsBNUW1i9AAr/wAABAAoACgBAOBE3OFm2AAsgC1ALA10BIzUzESMREzMTAgDLy8sVohQDYv76KwKPAWX+mwAAAAIArP7HBCMFmAAGACEAUUArExYUAA8MAQsHhgiICxCGD4gMuRQWC7kdHxy4FowiHBUACR4TCw8HBBIZIhDc7NQ81Dw87DIyMQAQ5PQ8xOwQxP707hD17hI5ERI5ERI5MCURDgEVFBYBFS4BJwM+ATcVDgEHESMRJgAREAA3ETMTHgECppOkpAIQSohEAUaJSEGJTWbx/vcBCfFmAUmJgwNYEuK4ueIDoawpKgP8oAUqJ6oeIwf+5AEgFAEzAQEBAgEyFgEf/uEEIQAAAAEAgQAABGIF8AAbAGBAIQcWCAGGABIKqRQIDASgAJQZkRAMoA4ADQkLBxwTDxURHBDcPMzM/DzE1MQxAC/sMvTk7BDUPO4yEO4ROTkwAUuwDFRYvQAc/8AAAQAcABwAQDgRNzhZtDYBNgICAF0BFS4BIyIGHQEhFSERIRUhNTMRIzUzNRA2MzIWBE5MiD2UdAGH/nkCLfwf7MfH1ug9lwW0tikpm9TXj/4vqqoB0Y/uAQXzHwAAAAACAF4AUgS8BLIAIwAvAINASQMJGxUELR4AJxwCIR0MEi0UCwoDEw8BHS25E+sP7Ce5HeshMB4MABIEKiQUMBwVGyodExwYCQMkCwoBAwIkKAJzBnQqKBxzGDAQ3OTs9OTsEhc5Ejk5ERI5ORI5ORESORESFzkxABDU5Oz05OwQwBESFzkSOTkREjk5ETk5Ehc5MAE3FwceARUUBgcXBycOASMiJicHJzcuATU0NjcnNxc+ATMyFhM0JiMiBhUUFjMyNgN7z3LOJSQmKNFyzzt0PTp4Pc9xzyUlJibPc883dEA8dVybcnCenXFxnAPh0XPOO3c+P3M5z3HPKCYlJc9zzj52OkB0OM5zzyclJP58cJqacHKcnQAAAQBSAAAEwwXVABgAxkBGEAIRFhEPAg4PFhYRDwIQDwgNCA4CDQ0IQg8LCQQA0xcGEgvTFAkQDYECDAkOAwUWDwMVEhADABFmEwBlARwNZgoFZQcDGRDUPOwy7PzsMuwSFzkSOTkRFzkxAC/kMtQ87DLUPOwyERI5MEtTWAcQBe0HEAjtBxAI7QcQBe1ZIgFLsAxUWL0AGf/AAAEAGQAZAEA4ETc4WUAohg+QD6YPoA+1DwUnDCcNJw4pECgRKBI3DjkQhwyIEqYNpQ6qEKkRDl0AXQEhESMRITUhNSchNSEBMwkBMwEhFSEHFSEEjf5jyf5gAaBU/rQBCP7DvgF7AXm//sIBCP61VAGfAcf+OQHHezObewJK/UQCvP22e5szAAAAAAIBBP6iAa4FmAADAAcAHEANAfUABPUFCAQABQYCCBDcPOwyMQAQ1OzU7DABESMRExEjEQGuqqqqAZj9CgL2BAD9CgL2AAAAAAIAXP89A6IF8AALAD4AkUA8LzAqBgAXHTA2BA0niiYNigwqxibFIxDGDMU8kSM/LwYAFzAEEx0tCTYDE1c5LVcgCVcMIho5JiIDVzM/ENzs5MTU5OzU7BDuETkREjkRFzk5MQAQxPTk7BDm7hDuEO4RFzk5ORESOTABS7AKVEuwC1RbS7AMVFtLsA5UW1i9AD8AQAABAD8AP//AOBE3OFkBDgEVFBYXPgE1NCYTFS4BIyIGFRQXFhceARUUBgceARUUBiMiJic1HgEzMjY1NC8BLgE1NDY3LgE1NDYzMhYBez8+i/o/Po/MU484YWzOGg7Tg1xdPjnMrUmaWFeUOmZx3RnWgF1bOzvIpkmZA6guWi5MhYctWy5LiAKTpCcnUEdacw8Id5plWow1NG1AjqgdHaQnJ1RMZnsOeJlmW48xLHBFgp8dAAACANcFRgMpBhAAAwAHAJJADgYCzgQAzQgBZAAFZAQIENz81OwxABD8POwyMABLsApUS7ANVFtYvQAIAEAAAQAIAAj/wDgRNzhZAUuwDFRLsA1UW0uwDlRbS7AXVFtYvQAI/8AAAQAIAAgAQDgRNzhZAUuwD1RLsBlUW1i9AAgAQAABAAgACP/AOBE3OFlAEWABYAJgBWAGcAFwAnAFcAYIXQEzFSMlMxUjAl7Ly/55y8sGEMrKygAAAwEbAAAG5QXNABcALwBJAENAJj3LPjrMQcokMcswNMxHyhjJAMgkyQw3YUQ9MF4qCQZEXh4JBhJKENzM/OwQ/u0yEO4xAC/u9v797tbuEP3u1u4wATIEFxYSFRQCBwYEIyIkJyYCNTQSNzYkFyIGBw4BFRQWFx4BMzI2Nz4BNTQmJy4BFxUuASMiBhUUFjMyNjcVDgEjIiY1NDYzMhYEAJgBB21tbGxtbf75mJj++W1tbGxtbQEHmIPiXl5gYF5e4oOE415dXV5cXuOnQoJClaerm0B6QkOJRtj7+9hJiAXNbm1t/vqamP77bW1ubm1tAQWYmgEGbW1uZ15eXuWCgeNeXl9fXl3ig4XjXV5e9YEhIK+dn64fIn8dHPTQ0fIcAAAAAAMAcwHVAzsF8AADAB4AKQBfQDMoByUEHxIYEALjAB/dEADhJd0FChnfGN4V3QrgHJEqABgNHxAiBgIBKBEGawRsGCJrDSoQ3OzM/OwyMsDAERI5ORESOTEAEPTk/PTsEMTu7dbuEO4REjkSORE5OTATIRUhAREjNQ4BIyImNTQ2OwE1NCYjIgYHNT4BMzIWBSIGFRQWMzI2PQGLArD9UAKulSyQXYCYv7y2dXU+iERJkUW3s/7soX5iUmiCAlB7Arj+QHA/RIdxh4oEW1siIn8cHLDwQ09ATZByHQACAJ4AjQQlBCMABgANAIZASQPoBAUEAugBAgUFBALoAwIGAAYB6AAABgroCwwLCegICQwMCwnoCgkNBw0I6AcHDUIJAgsE5wcApg4JDAUCBwMAbwUKB28Mbg4Q/Pw81OwyETkREjkxABD0POwyOTkwS1NYBxAE7QcQCO0HEAjtBxAE7QcQBO0HEAjtBxAI7QcQBO1ZIgEVCQEVATUTFQkBFQE1BCX+0wEt/isj/tMBLf4rBCO//vT+9L8BolIBor/+9P70vwGiUgAAAAABANkBHwXbA14ABQAXQAoEnAIABgMXAQAGENzU7DEAENTE7DATIREjESHZBQKo+6YDXv3BAZUAAAEAZAHfAn8CgwADABG2AJwCBAEABBDczDEAENTsMBMhFSFkAhv95QKDpAAABAEbAAAG5QXNABcALwA4AEwAYEA2RUJDPzLJSDDJOUpDygw5ygDJGMgMySRIRTMwBDFCPD85NkkxYEs2YEM8XhIJHkteBgkeXypNENzk/OwQ/v3E7hDuMhE5ORI5Ehc5MQAv7vb+7RDtMhDu1u45Ejk5MAEiBgcOARUUFhceATMyNjc+ATU0JicuAScyBBcWEhUUAgcGBCMiJCcmAjU0Ejc2JBMjETMyNjU0JicyFhUUBgceAR8BIycuASsBESMRBACD4l5eYGBeXuKDhONeXV1eXF7jhJgBB21tbGxtbf75mJj++W1tbGxtbQEHfXt7bldYZrCuaWAYQy6JrIE7STZCmwVmXl5e5YKB415eX19eXeKDheNdXl5nbm1t/vqamP77bW1ubm1tAQWYmgEGbW1u/mL+7D5LTD9nd3lWcBEITUnf0WAz/pwDRAABANUFYgMrBfYAAwAvtwLvAO4EAQAEENTMMQAQ/OwwAEuwCVRLsA5UW1i9AAT/wAABAAQABABAOBE3OFkTIRUh1QJW/aoF9pQAAAAAAgDDA3UDPQXwAAsAGgAgQBEGwxXEAMMMkRsJWhJbA1oYGxDc7PzsMQAQ9Oz87DABIgYVFBYzMjY1NCYnMhYXHgEVFAYjIiY1NDYCAFBublBQbm9PQHYrLi65hoe0uAVvb1BPbW1PT3CBMS4tckKEt7SHhroAAAAAAgDZAAAF2wUEAAsADwAuQBgF0AcDnADQCQEMnA4NAhUEABcMCBUKBhAQ1DzsMvw87DIxAC/s1Dzs/DzsMAERIRUhESMRITUhEQEhFSEDrgIt/dOo/dMCLf3TBQL6/gUE/n2q/n0Bg6oBg/umqgAAAAEAXgKcArQF8AAYAEpAJAB9BgQAF30GBgRCBAIADt0PAN0C9wvdDxKRGQAOCH4BFQ4DGRDcxNTE7BE5MQAQ9MTs/OwQ7hESOTBLU1gHEAXtFzIHBe1ZIgEhFSE1NjcANTQmIyIGBzU+ATMyFhUUAQYBDAGo/aoiPwFYaFU0ekhNhTmRrv61OAMOcm4fOAExXkJRIyN7HByEbIv+5DAAAAABAGICjQLNBfAAKABIQCcAFRMK3Qkf3SAT3RUN3Qn4Bvcc3SD4I5EpFhMAFBl+JhB+AxQfCSkQ3MTE1OzU7BE5OTkxABD05Oz85OzU7BDuEO4REjkwAR4BFRQGIyImJzUeATMyNjU0JisBNTMyNjU0JiMiBgc1PgEzMhYVFAYCDFxlvrE5fUY0d0NteG9sVl5eYWRfKGZRSYA3kKlaBGASbVJ8hhUUeRsaT0ZKTGw/PDo9EhdzERJ2Y0VgAAEBcwTuA1IGZgADADFACQK0ALMEA0QBBBDU7DEAEPTsMABLsAlUS7AOVFtYvQAE/8AAAQAEAAQAQDgRNzhZATMBIwKLx/66mQZm/ogAAAAAAQCu/lYE5QRgACAATUAlExkfAxYGAwkMAwESDwaHHBaMCgG8AL0hGQkSCQgLTh8CCABGIRD87DL07MQSOTEAEOTkMvQ87NzEERc5ERIXOTC2HyJgIs8iAwFdExEzERQWMzI2NREzERQWMzI2NxUOASMiJicOASMiJicRrriKh5SVuCMlCSAcKUkjRVIPMpFiZo8q/lYGCv1IkZSoqAKN/KI8OQsMlBcWTlBPT05O/dcAAAAAAQCe/zsEOQXVAA0AJUASCAIEwQCBBgIOAAddBQNdAQsOENTU/NzsOTEAEMQy9OwROTABIREjESMRIxEuATU0JAJ5AcCNvo7X6wEEBdX5ZgYf+eEDThHduL7oAAABANsCSAGuA0YAAwAStwKDAAQBGQAEENTsMQAQ1OwwEzMVI9vT0wNG/gAAAAEBI/51AsEAAAATAB9ADgkGCg3zBgATABAnAwkUENzU7NTMMQAv1PzEEjkwIR4BFRQGIyImJzUeATMyNjU0JicCVDc2eHYuVysiSi87PCstPmkwWVsMDIMRDzAuHlc9AAEAiQKcAsUF3wAKACxAGAcA3QkD3QQC3Qn3BZELCHwGXQN8AXwACxDc9OT85DEAEPTs7NTsEO4yMBMzEQc1NzMRMxUhnMzf5onN/dcDCgJjKXQn/StuAAADAGAB1QNkBfAAAwAPABsALkAZAuMA4RbdCuAQ3QSRHAATDQEZawdsE2sNHBDc7PzsORESOTEAEPTs9Oz87DATIRUhATIWFRQGIyImNTQ2FyIGFRQWMzI2NTQmiwKw/VABWLPOzrOz0NCzaX5/aGl9fAJQewQb3b+/29y+v91zoYiFoKCFiaAAAgDBAI0ESAQjAAYADQCGQEkM6A0MCQoJC+gKCgkN6AcIBwzoCwwICAcF6AYFAgMCBOgDAwIG6AABAAXoBAUBAQBCDAUKA+cHAKYODAgBBQAIbwoHAW8DAHAOEPw8/NQ87BI5ERI5MQAQ9DzsMjk5MEtTWAcQCO0HEATtBxAE7QcQCO0HEAjtBxAE7QcQBO0HEAjtWSITARUBNQkBJQEVATUJAcEB1f4rAS3+0wGyAdX+KwEt/tMEI/5eUv5evwEMAQy//l5S/l6/AQwBDAAA//8Aif/jB38F8BAmAHkAABAnAcYEi/1kEAcBxwM1AAD//wCJ/+MHPwXwECYAeQAAECcAcgSL/WQQBwHHAzUAAP//AGL/4wd/BfAQJgBzAAAQJwHGBIv9ZBAHAccDNQAAAAIAj/5uA6wEYAAgACQAhkAvIBoFAgQGGQAQhg+IDAAhgyMMlRO9I7wlBiIZFgkFAQAaIgkAHAEiHCEmDwkcFiUQ3OzU/OzU7BESORESORESORI5MQAQ5PTsEP7NEPTuEjk5FzkwAUuwEFRLsBJUW0uwE1RbWL0AJf/AAAEAJQAlAEA4ETc4WUALdAR0BXQGdAd2HAVdATMVFAYPAQ4BFRQWMzI2NxUOASMiJjU0Nj8BPgE3PgE1EyM1MwH0vjdaWjozg21OtGBewGe44ElZWDAmCAcGxMrKAs+cZYJXWDVeMVluRkO8OTjCn0yJVlYvNRkVPDYBDv7//wAQAAAFaAdrEiYAIgAAEAcByAS8AXX//wAQAAAFaAdrEiYAIgAAEAcByQS8AXX//wAQAAAFaAdtEiYAIgAAEQcBygS8AXUAELQFDREKBytABQ8NABECXTEAAP//ABAAAAVoB14SJgAiAAARBwHLBLwBdQAUtAoUIwUHK0AJQBRPIyAULyMEXTEAAP//ABAAAAVoB04SJgAiAAARBwHMBLwBdQAUtAoSDQUHK0AJMBI/DQASDw0EXTEAAAADABAAAAVoB20ACwAOACEAy0BUDBENDBscGw4RHBseERwbHREcHBsNESEPIQwRDgwPDyEgEQ8hHxEhDyFCDBsPDQkDwRUJHpUNCY4gHB4dHBggHyENEgYOGAwGGwBWGBwPBlYSHCEiENTE1OwyENTuMhE5ETkREjkROTkREjk5MQAvPObW7hDU7hESOTk5MEtTWAcQBe0HBe0HEAjtBxAF7QcQBe0HBe0HBe0HEAjtWSKyICMBAV1AIBoMcwybDAMHDwgbUCNmDWkOdQ17DnkceR12IHYhgCMMXQBdATQmIyIGFRQWMzI2AwEhAS4BNTQ2MzIWFRQGBwEjAyEDIwNUWT9AV1g/P1mY/vACIf5YPT6fc3KhPzwCFNKI/V+I1QZaP1lXQT9YWP7z/RkDTilzSXOgoXJGdin6iwF//oEAAAIACAAAB0gF1QAPABMAh0A5EREODw4QEQ8PDg0RDw4MEQ4PDkIFlQMLlREBlRCVAIERB5UDrQ0JERAPDQwFDgoABAgGAhwSCg4UENTUPOwy1MTEERIXOTEALzzs7MT07OwQ7hDuMEtTWAcQBe0HBe0HEAXtBxAF7VkisoAVAQFdQBNnEXcQdxGGDIUQlhGQFaAVvxUJXQEVIREhFSERIRUhESEDIwEXASERBzX9GwLH/TkC+Pw9/fCgzQJxi/62AcsF1ar+Rqr946oBf/6BBdWe/PADEAAA//8Ac/51BScF8BImACQAABAHAHgBLQAA//8AyQAABIsHaxImACYAABAHAcgEngF1//8AyQAABIsHaxImACYAABAHAckEngF1//8AyQAABIsHbRImACYAABEHAcoEngF1AAdAA0AMAV0xAAAA//8AyQAABIsHThImACYAABEHAcwEngF1AAlABUAMQBACXTEA//8AOwAAAboHaxImACoAABAHAcgDLwF1//8AogAAAh8HaxImACoAABAHAckDLwF1/////gAAAmAHbRImACoAABEHAcoDLwF1AAi0AQYKAAcrMQAA//8ABgAAAlgHThImACoAABEHAcwDLwF1AAi0AAoHAQcrMQAAAAIACgAABboF1QAMABkAZ0AgEAmpCw2VAIESlQ4LBwcBGRMEDw0WGQQyChENHAgAeRoQ9DzsMsT07BDEFzkxAC/GMu727hDuMjBAKCAbfxuwGwOfCZ8KnwufDJ8Onw+fEJ8Rvwm/Cr8Lvwy/Dr8PvxC/ERBdAV0TISAAERAAKQERIzUzExEhFSERMyAAERAAIdMBoAGxAZb+af5Q/mDJycsBUP6w8wE1AR/+4f7LBdX+l/6A/n7+lgK8kAHj/h2Q/eoBGAEuASwBFwAA//8AyQAABTMHXhImAC8AABEHAcsE/gF1ABS0ABMiBAcrQAkwEz8iEBMfIgRdMQAA//8Ac//jBdkHaxImADAAABAHAcgFJwF1//8Ac//jBdkHaxImADAAABAHAckFJwF1//8Ac//jBdkHbRImADAAABEHAcoFJwF1ABC0DxoeFQcrQAUfGhAeAl0xAAD//wBz/+MF2QdeEiYAMAAAEQcBywUnAXUAGLQDITAJBytADTAhPzAgIS8wECEfMAZdMQAA//8Ac//jBdkHThImADAAABEHAcwFJwF1ABS0Ax8aCQcrQAlAH08aEB8fGgRdMQAAAAEBGQA/BZwExQALAIVATQqcCwoHCAcJnAgIBwScAwQHBwYFnAYHBgScBQQBAgEDnAICAQucAAEACpwJCgEBAEIKCAcGBAIBAAgFAwsJDAsKCQcFBAMBCAIACAYMENQ8zDIXOTEAENQ8zDIXOTBLU1gHEAjtBxAF7QcQBe0HEAjtBxAF7QcQCO0HEAXtBxAI7VkiCQIHCQEnCQE3CQEFnP43Acl3/jX+NXYByP44dgHLAcsETP41/jd5Acv+NXkByQHLef41AcsAAwBm/7oF5QYXAAkAEwArAJ5APB0fGg0rLBMKAQAEDSkmIBQNBComHhoElSYNlRqRJowsKywqFBcQIB4jEwoBAAQdKRAHHwcZIzMQGRcQLBD87PzswBESOTkXORI5ORESOTkROTEAEOT07BDuEMAQwBESOTkSORIXORI5ERI5OTBAKlcAWhVXGVUhahVlIXsVdhx1IQlGE1kAVhNqAGQTZBxqKHwAcxN2HHooC10BXQkBHgEzMgARNCYnLgEjIgARFBYXByYCNRAAITIWFzcXBxYSFRAAISImJwcnBLb9Mz6hX9wBASd5PaFf3P79JyeGTk8BeQE7gt1XomaqTlD+iP7GgN1bomcEWPyyQEMBSAEacLi4QEP+uP7lcLxEnmYBCKABYgGlTUu/WcZn/vae/p/+W0tLv1j//wCy/+MFKQdrEiYANgAAEAcByATuAXX//wCy/+MFKQdrEiYANgAAEAcByQTuAXX//wCy/+MFKQdtEiYANgAAEQcBygTuAXUAFLQKFBgABytACS8UIBgfFBAYBF0xAAD//wCy/+MFKQdOEiYANgAAEQcBzATuAXUAHLQBGRQJBytAEVAZXxRAGU8UIBkvFBAZHxQIXTEAAP////wAAATnB2sSJgA6AAAQBwHJBHMBdQACAMkAAASNBdUADAAVAD1AGw6VCQ2VAvYAgQsVDwkDBAESGQY/DQoBHAAEFhD87DIy/OwRFzkxAC/0/OzU7DBACQ8XHxc/F18XBAFdEzMRMzIEFRQEKwERIxMRMzI2NTQmI8nK/vsBAf7/+/7Kyv6NmpmOBdX++OHc3OL+rgQn/dGShoaRAAAAAQC6/+MErAYUAC8AmkAwLSchDAQGDSAABCoWhhcauRMquQOXE4wuDAkNHSAhJwkIJCcIBh0IJBAWLQgQAEYwEPzE/MwQxu7U7hDuETk5EjkSOTEAL+T+7hD+1e4SFzkXOTBAQA8FDwYPBw8nDyiKDIoNBwoGCgcKCwoMCg0KHw0gCiEMIgQmGQ0ZHxkgOiA6IU0fTSBJIUkiah9qIKUGpQemIBhdAV0TNDYzMhYXDgEVFBYfAR4BFRQGIyImJzUeATMyNjU0Ji8BLgE1NDY3LgEjIgYVESO679rQ2wOXqDpBOaZg4dNAiElQjEF0eDtlXGBXp5cIg3GCiLsEccjb6OAIc2AvUSolao5krLcZGKQeHV9bP1Q+NzuHW3+sHWdwi4P7kwAAAP//AHv/4wQtBmYSJgBCAAARBgBBUgAAC0AHPyYvJh8mA10xAP//AHv/4wQtBmYSJgBCAAARBgB0UgAAC0AHPyYvJh8mA10xAP//AHv/4wQtBmYSJgBCAAARBgHNUgAACLQLKCwUBysx//8Ae//jBC0GNxImAEIAABEGAc5SAAAUtBQuPAsHK0AJIC4vPBAuHzwEXTH//wB7/+MELQYQEiYAQgAAEQYAaFIAACC0FC0oCwcrQBV/KG8oUC1fKEAtTygwLT8oAC0PKApdMf//AHv/4wQtBwYSJgBCAAARBgHPUgAAJUAOJiwULCYLBzI4FDgyCwcrEMQrEMQxAEAJPzU/Lw81Dy8EXTAAAAAAAwB7/+MHbwR7AAYAMwA+AQNAQyctJT0ODQA0qSUWhhWIEgCpDjoSuRwZLoYtuioDuQ67BzEKuB8ZjCU/NDcmBg8AJTccByYPFQAIDT0mCA8tNwgiRT8Q/OzM1Pw81OzEERI5ORE5ERI5ERI5MQAQxOQy9DzE5Pw89OwQxO4yEO4Q9O4Q7hE5ETkREjkwQIEwKzAsMC0wLjAvMDBAK0AsQC1ALkAvQDBQK1AsUC1QLlAvUDCFK4UwgECQQKBAsEDAQNBA4EDgQPBAHT8APwY/DT8OPw8FMCwwLTAuMC9ALEAtQC5AL1AsUC1QLlAvbwBvBm8Nbw5vD2AsYC1gLmAvcCxwLXAucC+ALIAtgC6ALx1dcQFdAS4BIyIGBwM+ATMyAB0BIR4BMzI2NxUOASMiJicOASMiJjU0NjMhNTQmIyIGBzU+ATMyFgMiBhUUFjMyNj0BBrYBpYmZuQ5EStSE4gEI/LIMzLdoyGRk0Gqn+E1J2I+90v37AQKnl2C2VGW+Wo7V79+sgW+ZuQKUl7SungEwWl7+3fpav8g1Na4qLHl3eHi7qL3AEn+LLi6qJydg/hhme2Jz2bQpAAD//wBx/nUD5wR7EiYARAAAEAcAeACPAAD//wBx/+MEfwZmEiYARgAAEAcAQQCLAAD//wBx/+MEfwZmEiYARgAAEAcAdACLAAD//wBx/+MEfwZmEiYARgAAEQcBzQCLAAAACLQVHiIbBysxAAD//wBx/+MEfwYQEiYARgAAEQcAaACLAAAAB0ADQCABXTEAAAD////HAAABpgZmECcAQf8dAAASBgDxAAD//wCQAAACbwZmECcAdP8dAAASBgDxAAD////eAAACXAZmEiYA8QAAEQcBzf8dAAAACLQBBwsABysxAAD////0AAACRgYQEiYA8QAAEQcAaP8dAAAACLQACwgBBysxAAAAAgBx/+MEdQYUAA4AKAEnQF4leyYlHiMeJHsjIx4PeyMeKHsnKB4jHiYnKCclJCUoKCciIyIfIB8hICAfQignJiUiISAfCCMeAw8jA7kbCbkVjBsjsSkmJxIMISAYKCUjIh8FHg8GDBISUQYSGEUpEPzs9OwROTkXORI5ORESOTkxABDsxPTsEO4SORI5Ehc5MEtTWAcQDskHEAjJBxAIyQcQDskHEAjtBw7tBxAF7QcQCO1ZIrI/KgEBXUB2FiUrHygiLyMvJCklLSYtJyooNiVGJVggWCFgIGAhZiJ1IHUhdSITJSMlJCYmJicnKDYkNiVGJEUlWiBaIWIgYiF/AH8BfwJ6A3sJfwp/C38Mfw1/Dn8PfxB/EX8SfxN/FHsVeht6HH8dfx52IHYheCKgKvAqJ10AXQEuASMiBhUUFjMyNjU0JhMWEhUUACMiABE0ADMyFhcnBSclJzMXJRcFA0YyWCmnua6Ska42CX5y/uTm5/7lARTdEjQqn/7BIQEZteR/AU0h/tkDkxEQ2MO83t68erwBJo/+4K3//skBNwD/+gE3BQW0a2NczJFvYWL//wC6AAAEZAY3EiYATwAAEAcBzgCYAAD//wBx/+MEdQZmEiYAUAAAEAYAQXMAAAD//wBx/+MEdQZmEiYAUAAAEAYAdHMAAAD//wBx/+MEdQZmEiYAUAAAEQYBzXMAAAi0DxoeFQcrMf//AHH/4wR1BjcSJgBQAAARBgHOcwAAFLQVIC4PBytACSAgLy4QIB8uBF0x//8Acf/jBHUGEBImAFAAABEGAGhzAAAUtAMfGgkHK0AJQB9PGjAfPxoEXTEAAwDZAJYF2wRvAAMABwALAClAFADqAgbqBAIInAQKDAkFAXIEAAgMENzUPPw8xDEAENTE/MQQ7hDuMAEzFSMRMxUjASEVIQLf9vb29v36BQL6/gRv9v4S9QJBqgADAEj/ogScBLwACQATACsA5EA8KywmHx0aEwoBAAQNKSYgFA0EKiYeGgS5Jg25GrgmjCwrLCoUFxAgHiMTCgEABBAHHx0HEiNRKRASF0UsEPzsMvTsMsAREhc5Ejk5ERI5ORE5MQAQ5PTsEO4QwBDAERI5ORI5Ehc5ETk5ERI5MEBwKAE/LVkUVhxVHVYgahVmIX8AewR/BX8Gfwd/CH8Jfwp/C38Mew16FXsafxt/HH8dfx5/H38geyF/In8jfyR/JXsmmxmVJagZoC3wLSZZAFYTVR1aKGkAZhNlHGooegB0E3YceiiJHpUYmiSiGK0kEV0BXQkBHgEzMjY1NCYnLgEjIgYVFBYXBy4BNRAAMzIWFzcXBx4BFRAAIyImJwcnA4n+GSlnQZOsFFwqZz6XqRMUfTY2ARHxXZ9Di1+SNTb+7vBgoT+LYAMh/bAqKOjIT3WaKSnr00huLpdNxXcBFAE4MzSoT7NNxnj+7f7HNDOoTv//AK7/4wRYBmYSJgBWAAAQBgBBewAAAP//AK7/4wRYBmYSJgBWAAAQBgB0ewAAAP//AK7/4wRYBmYSJgBWAAARBgHNewAACLQLFxsBBysx//8Arv/jBFgGEBImAFYAABEGAGh7AAAYtAIbGAoHK0ANQBtPGDAbPxgAGw8YBl0x//8APf5WBH8GZhImAFoAABAGAHReAAAAAAIAuv5WBKQGFAAQABwAPkAbFLkFCBq5AA6MCLgBvQOXHRESC0cXBAAIAkYdEPzsMjL07DEAEOzk5PTE7BDG7jBACWAegB6gHuAeBAFdJREjETMRPgEzMgAREAIjIiYBNCYjIgYVFBYzMjYBc7m5OrF7zAD//8x7sQI4p5KSp6eSkqeo/a4Hvv2iZGH+vP74/vj+vGEB68vn58vL5+cAAP//AD3+VgR/BhASJgBaAAARBgBoXgAAFrQYFxIZBytACzAXPxIgFy8SHxIFXTEAAP//ABAAAAVoBzEQJwBvALwBOxMGACIAAAAQtA4DAgkHK0AFQANPAgJdMQAA//8Ae//jBC0F9hAmAG9KABMGAEIAAAAQtBgDAg8HK0AFbwJ/AwJdMf//ABAAAAVoB5IQJwHQAM4BShMGACIAAAAStBgACBMHKzEAQAVvAG8IAl0w//8Ae//jBC0GHxAmAdBP1xMGAEIAAAAItCIACBkHKzH//wAQ/nUFpQXVEiYAIgAAEAcB0QLkAAD//wB7/nUEgAR7EiYAQgAAEAcB0QG/AAD//wBz/+MFJwdrEiYAJAAAEAcByQUtAXX//wBx/+MD5wZmEiYARAAAEAcAdACJAAD//wBz/+MFJwdtECcBygVMAXUTBgAkAAAACbIEBB4QPD0vMQD//wBx/+MD5wZmEiYARAAAEAcBzQCkAAD//wBz/+MFJwdQECcB0gVMAXUSBgAkAAD//wBx/+MD5wYUECcB0wSkAAASBgBEAAD//wBz/+MFJwdtEiYAJAAAEQcB1AUtAXUAB0ADHx0BXTEAAAD//wBx/+MD5wZmEiYARAAAEAcB1QCJAAD//wDJAAAFsAdtECcB1ATsAXUSBgAlAAD//wBx/+MF2wYUEiYARQAAEQcB1gUUAAAAC0AHXx0/HR8dA10xAAAA//8ACgAABboF1RAGAJAAAAACAHH/4wT0BhQAGAAkAEpAJAcD0wkB+SK5ABYcuQ0QjBa4BZcLAh8MBAMACAgKBkcZEhNFJRD87PQ8xPwXPMQxAC/s5PTE7BDE7v087jIwtmAmgCagJgMBXQERITUhNTMVMxUjESM1DgEjIgIREAAzMhYBFBYzMjY1NCYjIgYDov66AUa4mpq4OrF8y/8A/8t8sf3Hp5KSqKiSkqcDtgFOfZOTffr8qGRhAUQBCAEIAURh/hXL5+fLy+fn//8AyQAABIsHMxImACYAABAHAG8AoQE9//8Acf/jBH8F9hAnAG8AlgAAEwYARgAAAAdAA3AAAV0xAAAA//8AyQAABIsHbRAnAdcEoQF1EwYAJgAAAAdAA0AAAV0xAAAA//8Acf/jBH8GSBAnAdAAlgAAEwYARgAAAAdAA3AAAV0xAAAA//8AyQAABIsHUBAnAdIEngF1EgYAJgAA//8Acf/jBH8GFBAnAdMElgAAEgYARgAA//8Ayf51BI0F1RImACYAABAHAdEBzAAA//8Acf51BH8EexImAEYAABAHAdEBeAAA//8AyQAABIsHZxImACYAABEHAdQEpgFvAAdAA0AMAV0xAAAA//8Acf/jBH8GYRImAEYAABEHAdUAlP/7ABC0ACEdDwcrQAUPIQAdAl0xAAD//wBz/+MFiwdtECcBygVcAXUTBgAoAAAACbIEBBUQPD0vMQD//wBx/lYEWgZmECYBzWgAEwYASAAAAAmyBAQKEDw9LzEAAAD//wBz/+MFiwdtEiYAKAAAEAcB1wUbAXX//wBx/lYEWgZIEiYASAAAEAcB0ACLAAD//wBz/+MFiwdQECcB0gVcAXUTBgAoAAAACABAAz8AAV0wAAD//wBx/lYEWgYUECcB0wRqAAASBgBIAAD//wBz/gEFiwXwECcB2AVe/+0SBgAoAAD//wBx/lYEWgY0ECcB2QPgAQwSBgBIAAD//wDJAAAFOwdtECcBygUCAXUTBgApAAAAFLQMAgYHBytACS8CIAYfAhAGBF0xAAD////lAAAEZAdtECcBygMWAXUTBgBJAAAAKrQUAgYTBysxAEuwDlFYuwAU/8AAE//AODhZQA2QFJATgBSAE0AUQBMGXQACAMkAAAaLBdUAEwAXADpAHgYCEpUJFBEMlRWtBACBDgoHDBcEHAU4Eg0UARwAGBDc7DIyzPzsMjLMMQAvPOQy/OzcMjLsMjIwATMVITUzFTMVIxEjESERIxEjNTMXFSE1AXHKAt7KqKjK/SLKqKjKAt4F1eDg4KT7rwLH/TkEUaSk4OAAAAAAAQB4AAAEnwYUABsAPkAhAwkAAxYBDhKHDRUGhxYZuBCXCgECCABOEw4RFQkIEAscENwy7DIyzMz07DEALzzs9MTs3DLsMhESFzkwAREjETQmIyIGFREjESM1MzUzFSEVIRE+ATMyFgSfuHx8lay5fX25AWD+oEKzdcHGAqT9XAKen56+pP2HBPakenqk/rxlZO8A////5AAAAngHXhAnAcsDLgF1EwYAKgAAAAi0HgkYHwcrMQAA////0wAAAmcGNxAnAc7/HQAAEwYA8QAAAAi0HAgWHQcrMQAA//8AAwAAAlkHMRAnAG//LgE7EwYAKgAAAAi0BAMCBQcrMQAA////8gAAAkgF9RAnAG//Hf//EwYA8QAAAAi0BAMCBQcrMQAA////9QAAAmcHbRAnAdcDLgF1EwYAKgAAAAi0DgAIDwcrMQAA////5AAAAlYGSBAnAdD/HQAAEwYA8QAAAAi0DgAIDwcrMQAA//8AsP51AiUF1RAnAdH/ZAAAEgYAKgAA//8Alv51AgsGFBAnAdH/SgAAEgYASgAA//8AyQAAAZUHUBImACoAABEHAdIDLwF1ABOzBgEHABA8EDwxALQ/Bz8GAl0wAAAAAAIAwQAAAXkEewADAAQALEALBLgAvwIEAQgARgUQ/Ow5MQAv7OQwQBEEBDQERAQQBkAGUAZgBnAGCAFdEzMRIxPBuLhcBGD7oAR7AP//AMn+ZgPvBdUQJwArAlwAABEGACoAAAAIQAMRBAEQ7DEAAP//AMH+VgOxBhQQJwBLAjgAABEGAEoAAAAIQAMZRgEQ7DEAAP///5b+ZgJfB20QJwHKAy4BdRMGACsAAAAItAgCBgcHKzEAAP///9v+VgJcBmYQJwHN/x0AABMGAdoAAAAItAgCBgcHKzEAAP//AMn+HgVqBdUQJwHYBRsAChIGACwAAP//ALr+HgScBhQQJwHYBKwAChIGAEwAAAABALoAAAScBGAACgC7QCgIEQUGBQcRBgYFAxEEBQQCEQUFBEIIBQIDAwC8CQYFAQQGCAEIAEYLEPzsMtTEETkxAC887DIXOTBLU1gHEATtBxAF7QcQBe0HEATtWSKyEAwBAV1AXwQCCggWAicCKQUrCFYCZgJnCHMCdwWCAokFjgiTApYFlwijAhIJBQkGAgsDCgcoAycEKAUrBisHQAxoA2AMiQOFBIkFjQaPB5oDlweqA6cFtgfFB9YH9wPwA/cE8AQaXXEAXRMzEQEzCQEjAREjurkCJev9rgJr8P3HuQRg/hsB5f3y/a4CIf3fAP//AMkAAARqB2wQJwHJA24BdhIGAC0AAP//AMEAAAJKB2wQJwHJA1oBdhMGAE0AAAAesQMEEDwxAEuwDlFYuQAAAEA4WUAHnwCPAE8AA10w//8Ayf4eBGoF1RAnAdgEmwAKEgYALQAA//8AiP4eAa0GFBAnAdgDHgAKEwYATQAAAAdAA0AAAV0xAAAA//8AyQAABGoF1RAnAdYCn//DEgYALQAA//8AwQAAAwAGFBAnAdYCOQACEQYATQAAAAlABY8AHwACXTEA//8AyQAABGoF1RAnAHcCMQB3EgYALQAA//8AwQAAAoQGFBAnAHcA1gBzEQYATQAAABdLsA1RS7ARU0uwGFFaW1i5AAAAQDhZMQAAAAAB//IAAAR1BdUADQA/QB4MCwoEAwIGAAaVAIEIAwQBCw4ABAUBHAwHOgkAeQ4Q9DzsxPw8xBESORESOTEAL+TsERc5MLQwD1APAgFdEzMRJRcBESEVIREHJzfTywE5UP53Atf8XpRN4QXV/Zjbb/7u/eOqAjtqbp4AAAAAAQACAAACSAYUAAsAXkAaCgkIBAMCBgCXBgMEAQkKAAR6BQEICnoHAAwQ1Dzk/DzkERI5ERI5MQAv7Bc5MAFLsBBUWL0ADABAAAEADAAM/8A4ETc4WUATEA1ADVANYA1zBHoKcA3gDfANCV0TMxE3FwcRIxEHJzfHuH1Mybh7SsUGFP2mWmqN/OMCmlhqjQD//wDJAAAFMwdsECcByQTFAXYTBgAvAAAAB0ADTwABXTEAAAD//wC6AAAEZAZtECYAdEIHEwYATwAAAAlABT8ATwACXTEAAAD//wDJ/h4FMwXVECcB2AUAAAoSBgAvAAD//wC6/h4EZAR7ECcB2ASQAAoSBgBPAAD//wDJAAAFMwdfEiYALwAAEQcB1AT1AWcAFLQEDwsABytACS8PIAsfDxALBF0xAAD//wC6AAAEZAZmEiYATwAAEQcB1QCNAAAAELQAGRUMBytABQ8ZABUCXTEAAP//AM0AAAW5BdUQJwBPAVUAABAGAdsbAAABAMn+VgUZBfAAHAA7QA0ZFhIYHBwSCgUcB0EdEPxLsBBUWLkAB//AOFnsMtT8zBExAEAMGZUWsAcClQ6RCIEHL+T07BD07DABECEiBhURIxEzFTY3NjMyEhkBFAcGKwE1MzI2NQRQ/s2z18rKTmlqmePpUVK1VzFmTwN/Aaz/3vyyBdXxhkND/sH+zPxv1WFgnFqgAAAAAAEAuv5WBGQEewAfADtAHA0TAAMYFQeHBhCHGBy4FrwVBw0IAE4TFwgWRiAQ/Owy9OzEMQAv5PTE7NTsERIXOTC0YCHPIQIBXQERFAcGKwE1MzI3NjURNCYjIgYVESMRMxU2NzYzMhcWBGRSUbX+6WkmJnx8lay5uUJZWnXBY2MCpP1I1mBgnDAxmQKyn56+pP2HBGCuZTIyd3gA//8Ac//jBdkHMRAnAG8BJwE7EwYAMAAAABC0DQIDBwcrQAUfAhADAl0xAAD//wBx/+MEdQX1ECYAb3P/EwYAUAAAAAi0EwIDGQcrMf//AHP/4wXZB20QJwHXBScBdRMGADAAAAAQtBEACBcHK0AFEAAfCAJdMQAA//8Acf/jBHUGSBAmAdBzABMGAFAAAAAItB0IACMHKzH//wBz/+MF2QdrECcB3AUnAXUSBgAwAAD//wBx/+MEdQZmECcB3QCgAAASBgBQAAAAAgBzAAAIDAXVABAAGQA7QB8FlQMRAZUAgRgHlQOtCRgSEAoVBgIcEQAECBUZDRAaEPzs1MTE1OwyEjk5OTkxAC/s7DL07DIQ7jABFSERIRUhESEVISAAERAAIRcjIAAREAAhMwf6/RoCx/05Avj71/5P/kEBvwGxZ4H+v/7AAUABQYEF1ar+Rqr946oBfAFwAW0BfKr+4f7g/t/+3wAAAAMAcf/jB8MEewAGACcAMwCEQDEHCAAQhg+IDACpCC4MuRYTKAO5CLsiJR+4GROMNAYAFiIxCQ8ACAdLMRIJUSsSHEU0EPzs9Pz07MQREjk5EjkxABDkMvQ8xOTsMhDE7jIQ7hD07hESOTBAJT81XzVwNZ81zzXQNfA1Bz8APwY/Bz8IPwkFbwBvBm8HbwhvCQVdcQFdAS4BIyIGBwUVIR4BMzI2NxUOASMiJicOASMiABEQADMyFhc+ATMyACUiBhUUFjMyNjU0JgcKAqSJmbkOA0j8sgzMt2rIYmTQaqDyUUfRjPH+7wER8YzTQk7oj+IBCPqwlKyrlZOsrAKUmLOunjVavsc0NK4qLG5tbm0BOQETARQBOG9sa3D+3Yfnycnn6MjH6QD//wDJAAAFVAdsECcByQSVAXYSBgAzAAD//wC6AAADlAZtECYAdEIHEgYAUwAAAAD//wDJ/h4FVAXVECcB2AUQAAoSBgAzAAD//wCC/h4DSgR7ECcB2AMYAAoSBgBTAAD//wDJAAAFVAdfEiYAMwAAEQcB1AR9AWcACABAA18dAV0wAAD//wC6AAADWgZmEiYAUwAAEQYB1RsAABC0ERcTCQcrQAUPFwATAl0x//8Ah//jBKIHbBAnAckElQF2EgYANAAA//8Ab//jA8cGbRAmAHRCBxIGAFQAAAAA//8Ah//jBKIHbRAnAcoEkwF1EwYANAAAAAu0BCAVKSkQSWM6MQAAAP//AG//4wPHBmYQJgHNJQATBgBUAAAAC7QEIBUpKRBJYzoxAP//AIf+dQSiBfASJgA0AAAQBwB4AIsAAP//AG/+dQPHBHsSJgBUAAAQBgB4FwAAAP//AIf/4wSiB20SJgA0AAARBwHUBIsBdQALtCsgDiIiEEljOjEAAAD//wBv/+MDxwZmEiYAVAAAEQcB3gQnAAAAC7QrIA4iIhBJYzoxAAAA////+v51BOkF1RAmAHhQABIGADUAAAAA//8AN/51AvIFnhAmAHjhABIGAFUAAAAA////+gAABOkHXxImADUAABEHAdQEcwFnABC0AQ0JAAcrMQBAA18IAV0wAAD//wA3AAAC/gaCEiYAVQAAEQcB1gI3AHAAB0ADjxQBXTEAAAAAAf/6AAAE6QXVAA8ARkAYBwuVBAwJAw+VAIEJBQFABwMcDABACg4QENQ85Mz8POTMMQAv9OwyENQ87DIwAUATABEfABABEAIfDxARQBFwEZ8RCV0DIRUhESEVIREjESE1IREhBgTv/e4BCf73y/73AQn97gXVqv3Aqv2/AkGqAkAAAAAAAQA3AAAC8gWeAB0AQ0AfCBapBRcEGqkAARu8DYcQEA0OAgYIBAAIFxsVGR1GHhD8PDzEMvw8PMTEMjk5MQAv7PQ8xPw83DzsMjCyrx8BAV0BESEVIRUhFSEVFBcWOwEVIyInJj0BIzUzNSM1MxEBdwF7/oUBe/6FJSZzvb3VUVGHh4eHBZ7+wo/pjumJJyeaUE/S6Y7pjwE+AAD//wCy/+MFKQdeECcBywTuAXUTBgA2AAAAELQfCRgnBytABRAJHxgCXTEAAP//AK7/4wRYBjcQJwHOAIMAABMGAFYAAAAItB4IFiYHKzEAAP//ALL/4wUpBzEQJwBvAO4BOxMGADYAAAAUtAUDAg0HK0AJLwIgAx8CEAMEXTEAAP//AK7/4wRYBfUQJwBvAIP//xMGAFYAAAAItAYDAg4HKzEAAP//ALL/4wUpB20QJwHXBO4BdRMGADYAAAAQtA8ACBcHK0AFEAAfCAJdMQAA//8Arv/jBFgGSBAnAdAAgwAAEwYAVgAAAAi0EAAIGAcrMQAA//8Asv/jBSkHbxImADYAABAHAc8A8ABp//8Arv/jBFgGyhImAFYAABEGAc98xAAJQAVAFUAhAl0xAAAA//8Asv/jBSkHaxAnAdwE7gF1EgYANgAA//8Arv/jBF4GZhAnAd0AsAAAEgYAVgAA//8Asv51BSkF1RImADYAABAHAdEA+gAA//8Arv51BOgEexImAFYAABAHAdECJwAA//8ARAAAB6YHdBAnAcoF9QF8EwYAOAAAAAi0FQIGFAcrMQAA//8AVgAABjUGbRAnAc0BRQAHEwYAWAAAAAi0FQIGFAcrMQAA/////AAABOcHdBAnAcoEcgF8EwYAOgAAAAi0CwIGBwcrMQAA//8APf5WBH8GbRAmAc1eBxMGAFoAAAAItBgCBhcHKzH////8AAAE5wdOEiYAOgAAEQcBzARzAXUACLQAEAsEBysxAAD//wBcAAAFHwdsECcByQSVAXYSBgA7AAD//wBYAAAD2wZtECYAdEIHEgYAWwAAAAD//wBcAAAFHwdQECcB0gS+AXUSBgA7AAD//wBYAAAD2wYUECcB0wQXAAATBgBbAAAADgFACU8KXwqvCt8KBF0x//8AXAAABR8HbRImADsAABAHAdQEvgF1//8AWAAAA9sGZhImAFsAABEGAdUbAAAQtAEPCwAHK0AFDw8ACwJdMQABAC8AAAL4BhQAEAAjQBILhwqXAQKpBbwBChAIBAYCTBEQ/DzM/MwxAC/07BD07DAhIxEjNTM1NDY7ARUjIgcGFQGYubCwrr2usGMnJgPRj067q5koKWf//wDJAAAEiwdrEiYBVQAAEAcByATuAXX//wDJAAAEiwdOEiYBVQAAEQcBzASdAXUAhbGSl0Kwk7CYQrGABEKxgQBCfLAAsAEjSbATsA4jSWGwgGJosBNGYbAARmCwkkOwAWAjQrCSQ7ABYEOwAFVYsA6wkkOwAWBDOLAOEbABNVmxgABCsYEAQhiwABCwE7AOsAEjSWg7sBMRsAI1ALAAsBMjSbBAUFiwE7BAOLATEbACNbABNVkAAAH/+v5mBawF1QAbADRACwUKHBsUDhYcExEcENTM/DzM3PzMMQBADwWVBLAQDpUXEBYRlROBEC/07DIQ1OwQ9OwwJRAGKwE1MzI2NRE0JiMhESMRITUhFSERITIWFQWszORMPoZvfHz+iMv+UgSL/e4BobreaP7y9KqWwgEin579OQUrqqr+RunuAAD//wDJAAAEagdrEiYBUwAAEAcByQSuAXUAAQBz/+MFJwXwABgATkAJGhILABEUGQYZENzsMtQ8zMwxAEAXE5USrRkMoQuuDpUJkRkAoQGuF5UDjBkQ9Oz07BD07PTsEPTssRIOSbEXE0lQWLMSE0ACFzhZMAEVBiEgABEQACEgFxUmISACByEVIRYSISAFJ9T+9f6x/noBhgFPAQ/Q0/8A/vjuFgMe/OIW7gEIAQABRtOQAZ8BaAFnAZ+O1b3+4++q7/7k//8Ah//jBKIF8BIGADQAAP//AMkAAAGTBdUSBgAqAAD//wAGAAACWAdOEAYAjwAA////lv5mAZMF1RIGACsAAAACAFQAAAgvBdUAFAAcADNADBcZEAAcGwsBHAoGHRDU1OzUPOzc7DEAQA4blQytFAGVCoEcBpUFFC887DL07BD87DABIRUQAgU1NhIRNSERMzIEFRQEIyElIBE0JisBEQRw/hvI/pHZlQN46vsBEP7w+/5MAaoBQJ2j4AUruP3K/fs4qi8BpgJY/v2a2t3e2qYBEYuH/d0AAAIAyQAAB8wF1QASABsANUAOExkPCAAcFwoHAhwFBBwQ/Owy3DzsMtzsMQBADRcBlQsHrQkFgRiVAAQvPOzkMvw87DIwIREhESMRMxEhETMRMzIEFRQEIwE0JisBETMyNgQN/YbKygJ6yur7ARD+8PsBNp2j4OChnwLH/TkF1f2cAmT9mtre3doBt4uH/d2HAAH/+gAABawF1QATACxACgYcAxAKEhwODRQQ1Mz8PMzc7DEAQAsKlRMMEg2VD4EFDC889OwyENTsMAEyFhURIxE0JiMhESMRITUhFSERBBS63sl8fP6Iy/5SBIv97gNx6e7+ZgGKn579OQUrqqr+Rv//AMkAAAWGB2sSJgFaAAAQBwHJBO4Bdf//AMkAAAUzB2sSJgFYAAAQBwHIBOUBdf//ACMAAAS9B20QJwHXBHIBdRIGAWMAAAABAMn+vwU7BdUACwApQA0NBAYcBwuVCQMcAgQMEPzs1PzU7OwxALcLBJUGAoEJAS885DLszDApAREzESERMxEhESMCrf4cygLeyv4cqgXV+tUFK/or/r///wAQAAAFaAXVEgYAIgAAAAIAyQAABOwF1QAIABUALkAMFwkAGRAuBAscFQQWEPzsMvTsxMwxAEAMC5UVgRQElQytBZUUL+z07BD07DABNCYjIREhMjYTFSERITIEFRQEKQERBBedo/68AUSjnWz9EAFO+wEQ/vn+/P3oAbeLh/3dhwSopv5A2t7d2gXVAAD//wDJAAAE7AXVEgYAIwAAAAEAyQAABGoF1QAFABlADASVAYEABwIEHAEEBhD8/MzEMQAv9OwwMxEhFSERyQOh/SkF1ar61QAAAgBl/r8F2wXVAAcAFwA0QA8CHA4TlRkQFwMcDRSVFxgQ3OzU7BDUzPw87DEAQAsDlQ2BEhYPABeVFC/sMjLMMvTsMCUhESEVEAMGBTY3EhkBIREzESMRIREjEQHTApT+G3AX/rGGJmEDeKqq+96qqgSB1P4N/rVEKz94ATQCJgEa+tX+FQFB/r8B6///AMkAAASLBdUSBgAmAAAAAQAoAAAIdgXVABMAmEALCAUBBAYJARwMABQQ3DzsMtTEETk5MQBAEUINDBATCAkFAggSAwCvDwoGLzw87DIyFzkwS1NYQBYHEQYIEQUJBAYFAxEEAhEFCAkJBAkECQcQPDwE7RAF7QcIEO0FEO1ZAUATDQEIDgEHDwEGEAEFEQEEEgEDABBJOkk6STpJOkk6SToAQAgTAhAFDQgMCRA8EDwQPBA8ATMRATMJASMJAREjEQkBIwkBMwED6soCqvX93wJE0/4T/v7K/v7+E9MCRP3f9QKqBdX9HgLi/bP8eAMB/un+FgHqARf8/wOIAk39HgAAAAEAh//jBJoF8AAoAD9ADBsfGQMqFhkJJRAGKRD8MtTszNT8zDEAQBYalRsMEKEPrhOVDCWhJq4ilQCRDIwpEOT07PTsEOz07BDU7DABMgQVFAYHHgEVFAQjIiQnNR4BMzI2NTQmKwE1MzI2NTQmIyIGBzU+AQJJ9gE4joORo/6d7nr+5CyZqXy80LnDzNSznqPGhlzNcewF8NGyfKshH8SQ5ulCHNBZK5CVhJWmd3BzexhNxSgiAAABAMkAAAUzBdUACQB5QB4DEQkJCAgRBAQDQggDCQavAgUJBAcDHAA2BxwGBAoQ/Oz87BE5OTEALzzsMjk5MEtTWAcQBO0HEATtWSKyHwsBAV1AMDYIOANICEcDaQhmA4AIBwYECQkVBBoJRgRJCVcEWAllBGkJeQmFBIoJlQSaCZ8LEF0AXQERIxEBIREzEQEFM8T9av7wxAKWBdX6KwTh+x8F1fsfBOEAAAD//wDJAAAFMwdtEiYBWAAAEQcB1wT1AXUAI7QGChIAByuwCktUsAtLVFuwEEtUW1i7ABIAQAAK/8A4OFkxAAAAAAEAyQAABYYF1QALAFlACwgFAQQGCQEcAAQMEPzsMtTEETk5MQBAC0IICQUCBAMArwoGLzzsMhc5MEtTWEAWBxEGCBEFCQQGBQMRBAIRBQgJCQQJBAkHEDw8BO0QBe0HCBDtBRDtWRMzEQEhCQEjCQERI8nKAtIBA/2/Al/c/fr+78oF1f0eAuL9svx5AwH+6f4WAAABAFQAAAU6BdUADwAlQAoRBAocBwscBgEQENTU7NTs7DEAQAgLlQaBAZUACS887PTsMDM1NjcSETUhESMRIRUQAwZU2T5XA3jK/htmYqovpAECAlj++isFK7j9yv74/f//AMkAAAYfBdUSBgAuAAD//wDJAAAFOwXVEgYAKQAA//8Ac//jBdkF8BIGADAAAAABAMkAAAU7BdUABwAfQBAElQeBAgYJBAMcAAQcBwQIEPzs1OzsMQAvPPTsMAERIxEhESMRBTvK/SLKBdX6KwUr+tUF1QAAAP//AMkAAASNBdUSBgAxAAD//wBz/+MFJwXwEgYAJAAA////+gAABOkF1RIGADUAAAABACMAAAS9BdUAEQA+tBMRBg0SENTE1MQxALZCEA2BBpUFL+zsMjBLU1hAEg8RAA0MEBEREQAPEQwOEQ0NDAUHEOwQ7AcQ7AgQ7FklBgcGKwE1MzI3Nj8BATMJATMCjxUgT/tNP3cuHBIt/iHZAXMBddm1MiZdqhsRKmoEa/yUA2wAAAADAHkAAAZqBdUABgANAB8APUARIRAKGRoOABUcHQ0WAxkRECAQ/OzUPDz8PDzU7OwxAEAODQCVFxQVgR8HBZUdDh8v3DzsMhD03DzsMjABDgEVFBYXMz4BNTQmJwMkABEQACU1MxUEABEQAAUVIwMN2ebm2cvZ5OTZy/7D/qkBVwE9ywE9AVX+q/7DywSiFMzFxcsUFMvFxcwU/BAXASsBCQEJAS0Xi4sX/tX+9f73/tUXsv//AD0AAAU7BdUSBgA5AAAAAQDJ/r8F5QXVAAsAKUAMDQmVAAYcBwMcAgQMEPzs1Ow8/MwxAEAIBgKBCwgElQEv7DLM9DwwKQERMxEhETMRMxEjBTv7jsoC3sqqqgXV+tUFK/rV/hUAAAEArwAABLMF1QAPACRAChEEAQ0cDgccBhAQ3OzU7DLsMQC3ApULrQ0GgQAv5DL07DAhESEiJjURMxEUFjMhETMRA+j+X7reyXx8AXjLAmTp7gGa/nafngLH+isAAQDJAAAHxQXVAAsAKkANDQQCHAMKHAsHHAYEDBD87NT81OzsMQBACAoCBoEACJUFL+wy9Dw8MCUhETMRIREzESERMwSsAk/K+QTKAk/KqgUr+isF1frVBSsAAAABAMn+vwhvBdUADwAyQA8RDZUAChwLBhwHAxwCBBAQ/OzU/NTsPPzMMQBACgYKAoEPDAgElQEv7DIyzPQ8PDApAREzESERMxEhETMRMxEjB8X5BMoCT8oCT8qqqgXV+tUFK/rVBSv61f4VAAACADwAAAYYBdUADAAXACpAFgKVA4EAEpUFrROVABANGQkSBBwBAxgQzNzsMtTszDEAL+z07BD07DAhESE1IREhMgQVFAQjATQnJiMhESEyNzYB9f5HAoMBTvsBEP7w+wE2T06j/rwBRKFQTwUrqv2a2t7d2gG3i0RD/d1EQwAA//8AyQAABkYF1RAmAWwAABAHACoEswAAAAIAyQAABOwF1QAKABUAJEATBZUNrQuBBpUVFwAZEQUMHAsEFhD87DLU7MwxAC/s5PTsMAE0JyYjIREhMjc2ATMRITIEFRQEIyEEF09Oo/68AUSjTk/8ssoBTvsBEP7w+/3oAbeLREP93URDBKj9mtre3doAAQBv/+MFIwXwABgATkAJGgUIGRMHAA4ZENw8zNTsMswxAEAXBpUHrRkNoQ6uC5UQkRkAoRiuApUWjBkQ9Oz07BD07PTsEPTssQcLSbECBklQWLMHBkACFzhZMBMWISASNyE1ISYCISAHNTYhIAAREAAhICdv0wEAAQjuFvziAx4W7v74/wDT0AEPAU8Bhv56/rH+9dQBRr0BHO+q7wEdvdWO/mH+mf6Y/mGQAAIA0//jCDAF8AAPACYAOEAfAJUUkScIlRyMJyGVJq0kgSMoDBkYBBkgECElHCQEJxD87DLUPOzU7MwxAC/k9OwQ9OwQ9OwwASIHBhEQFxYzMjc2ERAnJgESNzYhIBcWERAHBiEgJyYDIREjETMRBX7cgoGBgtzcgIGBgPxzDrS0ATsBOry8vLz+xv7FtLQO/tDKygVMpKT+5f7mpKSkpAEaARukpP3zARjNzNLT/p7+n9LTzc0BGP1rBdX9agAAAAIAiAAABMYF1QAIABYAQEALGAQUBRwRABkJDRcQ1MTs1Owy7DEAQAxCBpUQgQkVlQOtEwkvPPTsEPTsMEtTWLcVEQoWEQkKCQUHEOwQ7FkBFBYzIREhIgYJASYkNTQkKQERIxEhAQGblZIBOv7GkpX+7QGYZP8AAQQBAgIEyv7y/nYEJ4OHAhKF+1YCjRqp187g+isCd/2JAAAA//8Ae//jBC0EexIGAEIAAAACAHD/4wR/BjcAHQApADpADhMUK0UnEgNRHCESCUUqEPzsMvTs7NTEMQBAERapEZcqJLkGHrkJHAC4BowqEOT0OTnsEO4Q9OwwATIAERAAIyIAAycmNTQ3NiQlNjcXBg8BBgcGDwE2FyIGFRQWMzI2NTQmAn3wARL+7vDx/vYHBgU6WwE7AQh6NjMxLfp+TMcTB4LTlKyrlZOsrAR7/sj+7P7t/scBMAEc5XcpoHa5oAIBEZIUAREJLHWZOHec58nJ5+jIx+kAAAMAugAABD4EYAAIABEAIAAvQA0OEhYiBRIcAAkIEkYhEPzsMtTszNTsMQBACwCpCiAJqRK8AakgL+z07BDU7DABESEyNjU0JiMBETMyNjU0JiMlITIWFRQGBx4BFRQGIyEBcgEGfoSEfv768miEhGj+VgG2xdRsan+M59b+OQIE/o9fWlpeAcn+ylNKSk+TkIVneQ8YmHKWpAAAAAEAugAAA9AEYAAFABm2BwIECAFGBhD8/NzMMQC0BKkBvAAv9OwwMxEhFSERugMW/aMEYJP8MwAAAgBr/uUFHQRgAAYAFgA0QA8CCA0SqRgPFgMIDBOpFhcQ3OzU7BDUxPw87DEAQAsDqQy8ERUOABapEy/sMjLMMvTsMCUhESEVEAcFNjc2ETUhETMRIxEhESMRAbsCFv59dv7YWyhiAvWTk/x0k5MDOoz+ZNw2KFXTAanU/DP+UgEb/uUBrgAA//8Acf/jBH8EexIGAEYAAAABAEYAAAbvBGAAEwCYQAsIBQEEBgkBCAwAFBDcPOwy1MQROTkxAEARQg0MEBMICQUCCBIDALwPCgYvPDzsMjIXOTBLU1hAFgcRBggRBQkEBgUDEQQCEQUICQkECQQJBxA8PATtEAXtBwgQ7QUQ7VkBQBMNAQgOAQcPAQYQAQURAQQSAQMAEEk6STpJOkk6STpJOgBACBMCEAUNCAwJEDwQPBA8EDwBMxEBMwkBIwEHESMRJwEjCQEzAQM/twHp1v5uAczF/oe7t7v+h8UBzP5u1gHpBGD98gIO/lH9TwI2yf6TAW3J/coCsQGv/fIAAAABAIX/4wPIBHwAKABOQAsZEiYqEBIDFSAKKRDcxMTU7MzU7DEAQBYghh+IHLkjuCkUqRUpCYYKiA25BowpEPT8sAxLUVj8G/RZ7BDU7BD0/LAMS1FY/Bv0WewwAR4BFRQEIyImJzUeATMyNjU0JisBNTMyNjU0JiMiBgc1PgEzMhYVFAYCwnyK/v7uUKlaR6pdl6mWiZSbdIeLd0ehYWKqTMTjeAJcGJJsrbYcHKslJXBaWGuYWUZAXBodpxgYnY1dgQAAAQC6AAAEeQRgAAkAP0AVQggDCQa8AgULRgkEBwMIAAcIBkYKEPzs1OwROTnsMQAvPOQyOTkwS1NYQAoDEQkJCAgRBAQDBxDsBxDsWQERIxEBIxEzEQEEebf95Oy3AhsEYPugA4P8fQRg/H8DgQAA//8AugAABHkGFBImAXgAABEHAdAAmv/MACO0BwoSAwcrsA5LVLAQS1RbsBVLVFtYuwASAEAACv/AODhZMQAAAAABALoAAASRBGAACwBZQAsIBQEEBgkBCABGDBD87DLUxBE5OTEAQAtCCAkFAgQDALwKBi887DIXOTBLU1hAFgcRBggRBQkEBgUDEQQCEQUICQkECQQJBxA8PATtEAXtBwgQ7QUQ7VkTMxEBMwkBIwEHESO6twIH4v5UAePO/nPFtwRg/fICDv5P/VECNcj+kwABAEwAAARzBGAADwAkQAoRRgoIBwsIBgEQENTU7NTs7DEAtwupBrwBqQAJLzzs9OwwMzU2NzYRNSERIxEhFRAHBky2OEQC9bj+e1hemRx+sQHFt/ugA81v/lDCzwAAAAABALoAAAVPBGAADABNQBZCCgcCAwgDALwJBgwORgcIBAoIAEYNEPzs3OzsMQAvPMTsMhEXOTBLU1hAEgIRCAoJAxEHCAcCEQkBEQoKCQUHEO0Q7QcQ7QgQ7VkTIQkBIREjEQEjAREjugENAT4BPwELuf7LuP7KuQRg/RIC7vugA7D9JwLZ/FAAAQC6AAAEgQRgAAsAJ0AUCakCBAC8BwsNRggECAUJAQgARgwQ/Owy3Owy7DEALzzkMtzsMBMzESERMxEjESERI7q5AlW5uf2ruQRg/jcByfugAgT9/AAA//8Acf/jBHUEexIGAFAAAAABALoAAASBBGAABwAfQBAEqQe8AgYDCAlGAAQIB0YIEPzs1OzsMQAvPPTsMAERIxEhESMRBIG5/au5BGD7oAPN/DMEYAAAAP//ALr+VgSkBHsSBgBRAAD//wBx/+MD5wR7EgYARAAAAAEAPAAABG0EYAAHABy2CQEDCAYACBDc1PzczDEAtQMHqQC8BS/07DIwEyEVIREjESE8BDH+QrX+QgRgk/wzA80AAAD//wA9/lYEfwRgEgYAWgAAAAMAcP5WBmcF1QAKACgAMwBCQBE1RSkSIQwGGQgnLhoAEhJFNBD87NQ8PPw8PNTs7DEAQBIsCLkeFbgZlzQxA7kkD4wLvTQQ7PQ87DIQ5PQ87DIwARQWMzI3ESYjIgYBEQ4BIyICERASMzIWFxEzET4BMzISERACIyImJxEBNCYjIgcRFjMyNgEvkXticnJie5EB4DmDU6fp6adTgzm5OYNTp+npp1ODOQHgkXticnJie5ECL+vHqAIUqMf7PAI5Xk4BNQETARMBPUxeAgT9/F5M/sP+7f7t/stOXv3HA9nrx6j97KjHAP//ADsAAAR5BGASBgBZAAAAAQC6/uUFFARgAAsAKEAMDQmpBggABwMIAkYMEPzs1Dzs/MwxALcGArwLCASpAS/sMsz0PDApAREzESERMxEzESMEgfw5uQJVuZOTBGD8MwPN/DP+UgAAAAEAlgAABAAEYAARADtAEQKpDQ8HvAATRgEPCBAICAcSENzs1Owy7DEAL+Qy1OywALACI0mwDbAPI0lSWLECDbj/wLACFzhZMCERISInJjURMxEUFxYzIREzEQNI/qmZZly4NDVoASm4AddfVrgBHP71dTs7Afb7oAAAAAABALoAAAaYBGAACwApQA0NRgIIAwoICwcIBkYMEPzs1PzU7OwxALcKAga8AAipBS/sMvQ8PDAlIREzESERMxEhETMEBQHaufoiuQHZuZMDzfugBGD8MwPNAAAAAAEAuv7lBysEYAAPADJADxENqQoIAAsGCAcDCAJGEBD87NT81Dzs/MwxAEAKBgoCvA8MCASpAS/sMjLM9Dw8MCkBETMRIREzESERMxEzESMGmPoiuQHZuQHauZOTBGD8MwPN/DMDzfwz/lIAAAIAPgAABS4EYAAMABUALEALF0UTEgMOCwgIChYQxNzsMtTs7DEAQAsIqQu8Bw6pDA+pBy/s1OwQ9OwwATIWFRQGIyERITUhEQUhESEyNjU0JgNx1ufn1v44/pUCJAEH/vkBB36DgwKXo6iopAPNk/43k/6PX1paXgAAAP//ALoAAAWbBHsQJwDxBCIAABAGAYwAAAACALoAAAQ+BGAACAATACVACxVFABIPBQsICUYUEPzsMtTs7DEAtwSpCwm8BakTL+zk1OwwATQmIyERITI2ATMRITIWFRQGIyEDeoN+/voBBn6D/UC5AQ7W5+fW/jkBTFpe/o9fA27+N6OoqKQAAAAAAQBx/+MD5wR7ABgATUAJBQgSE0gHDgAZENw8zPTsMjEAQBcOhg2ICxiGAIgCuRYHqQa7C7kQuBaMGRDk9Oz07hD+9O4Q9e6xBwtJsQIGSVBYswcGQAIXOFkwNxYzMjY3ITUhLgEjIgc1NjMgABEQACEiJ3GenZPSE/3IAjIMn8eaoZ2mAQYBLf7b/v+9k9VWq9qTad9WrEb+w/7x/vL+wkgAAAACAMH/4wZMBHsACwAeADpADyBFCRISAxIYDBkdCBxGHxD87DLUPOzU7OwxAEAQALkPuBsGuRWMGxmpHhy8Gy/k1OwQ9OwQ9OwwASIGFRQWMzI2NTQmATYSMzIAERAAIyIAJyMRIxEzEQRKlKyrlZOsrP1xE/nw8AES/u7w8f75CdC4uAPf58nJ5+jIx+n+wr4BHP7I/uz+7f7HAS74/fcEYP5BAAIAdAAABCIEYAAIABYAPEAJFAUIEQASCQ0XENTE7NTsMjEAQAtCBqkQvAkVqQMTCS881OwQ9OwwS1NYtxURChYRCQoJBQcQ7BDsWQEUFjsBESMiBgkBLgE1NDYzIREjESMBAXqAd/j4d4D++gFWdJrX2QG2ueX+tgMdU14BYVz8jwHrGomPoqH7oAHZ/icA//8Acf/jBH8GaxImAXUAABAGAEFaBQAA//8Acf/jBH8GEBImAXUAABEHAGgAlgAAAIWxkpdCsJOwmEKxgARCsYEAQnywD7ABI0mwI7AeI0lhsIBiaLAjRmGwD0ZgsJJDsAFgI0KwkkOwAWBDsABVWLAesJJDsAFgQziwHhGwAjVZsYAAQrGBAEIYsA8QsCOwHrABI0loO7AjEbADNQCwErAjI0mwQFBYsCOwQDiwIxGwAzWwAjVZAAABAC/+VgSQBhQAHwA/QA8UFwgQTggdCQUIAQMARiAQ/DzM7DIyzPT8zDEAQBEUqRMfCAGpBwIEGocKDQSXHi/s1MTsENw87DIQ1OwwEyM1MxEzESEVIRE+ATMyFhEUAAc1NhI1NCYjIgYVESPfsLC5Ah3940KydrbY/qnXevV8fJqnuQPRjwG0/kyP/m1lZOn+6uL+WSmMFgEu0tCfxJ7++wAA//8AugAAA9gGbRImAXMAABAHAHQAhgAHAAEAcf/jA+cEewAYAE5ACgoLCBIQAkgWRRkQ/OQy/DLMMQBAFwKGA4gFEYYQiA65EwmpCrsFuQC4E4wZEOT07PTuEP707hD17rEJBUmxDgpJUFizCQpAAhc4WTABMhcVJiMiBgchFSEeATMyNxUGIyAAERAAAqSmnaGax58MAjL9yBPSk52ek73+//7bAS0Ee0asVt9pk9qrVqpIAT4BDgEPAT3//wBv/+MDxwR7EgYAVAAA//8AwQAAAXkGFBIGAEoAAP////QAAAJGBhAQBgCvAAD////b/lYBeQYUEgYASwAAAAIATAAABr8EYAAWAB8ANkAOIUUaEgwRCB4HEggGASAQ1NTs1Dzs1OzsMQBADh6pCR+pEBKpBrwBqQAQLzzs9OwQ7NTsMDM1Njc2ETUhETMyFhUUBiMhESEVEAcGJTI2NTQmKwERTLY4RALYq9bo59b+m/6aWF4DeH6EhH6jmRx+sQHFt/43o6iopAPNb/5Qws92X1paXv6PAAAAAAIAugAABrcEYAASABsAOEAQHUUWEgUKEggaAAsPCA1GHBD87DLcPOwy1OwxAEANE6kJGgupARASDrwJDS885DLcPOwyEOwwAREzMhYVFAYjIREhESMRMxEhEQEyNjU0JisBEQROq9bo59b+m/3eubkCIgFcfoSEfqMEYP43o6iopAIE/fwEYP43Acn8M19aWl7+jwABAC8AAASJBhQAGwA6QA8IGRMIEE4ZCQUIAQMARhwQ/DzM7DIy9OwQzDEAQA4IAakHAgQWhwoNBJcSGi887NTE7BDcPOwyMBMjNTMRMxEhFSERPgEzMhYVESMRNCYjIgYVESPfsLC5Ah3940Kzdb3KuHx8mKm5A9GPAbT+TI/+bWVk6u3+0AEqn57Bof77AP//ALoAAASRBm0SJgF6AAAQBgB0bwcAAP//ALoAAAR5BmsSJgF4AAAQBgBBXQUAAP//AD3+VgR/BhQSJgGDAAAQBgHQXswAAAABALr+5QSBBGAACwApQA0NRgYIBwupCQMIAkYMEPzs1PzU7OwxALcLBKkGArwJAS885DLszDApAREzESERMxEhESMCVP5muQJVuf5mkwRg/DMDzfug/uUAAQDJAAAEagcHAAcAG0ANAwaVAYEAAwQGHAEECBD8/NzMMQAv9OzMMDMRIREzESERyQL3qv0pBdUBMv4k+tUAAAEAugAAA9AFmgAHAB23CQMEBggBRggQ/PzczMwxALUDBqkBvAAv9OzMMDMRIREzESERugKDk/2iBGABOv4z/DMAAAAAAQBkAd8CfwKDAAMAEbYAnAIEAQAEENzMMQAQ1OwwEyEVIWQCG/3lAoOkAP//AGQB3wJ/AoMSBgGiAAAAAQBkAekEswJ5AAMAELYCqQDpBAEAL8YxABD87DATIRUhZARP+7ECeZAAAAABAGQB6QOcAnkAAwAQtgKpAOkEAQAvxjEAEPzsMBMhFSFkAzj8yAJ5kAAAAAEAZAHpB5wCeQADAA+1AqkABAEAL8wxABDU7DATIRUhZAc4+MgCeZAAAAAAAQAAAekIAAJ5AAMAD7UCqQAEAQAvzDEAENTsMBEhFSEIAPgAAnmQ//8BBP4dAvgGHRAmAF0AABAHAF0BSgAA////7P4dBBT/7hAmAEAAABAHAEAAAAFCAAEArgPpAdMF1QAFABhACwCeA4EGAwQAGQEGENz81MwxABD07DABIzUTMwMBgdOkgVID6a0BP/7BAAAAAAEAsgP+AdcF1QAFABhACwOeAIEGAwQBGQAGENzs1MwxABD07DABMxUDIxMBBNOkgVIF1Zj+wQE/AAAAAAEArv8SAdMA/gAFABhACwOeAIMGAwQBGQAGENTs1MwxABD87DAlMxUDIxMBANOkgVL+rP7AAUAAAQCyA/4B1wXVAAUAAAEVEyMDNQGFUoGkBdWY/sEBP5gAAAAAAgCuA+kDbQXVAAUACwAnQBMGAJ4JA4EMCQoGGQcDBAcAGQEMENz8zNTMEP7UzjEAEPQ87DIwASM1EzMDBSM1EzMDAYHTpIFSAZrTpIFSA+mtAT/+wa2tAT/+wQACAK4D6QNtBdUABQALACdAEwkDngYAgQwJCgcZBgEDBAEZAAwQ3OzUzBDc7tTOMQAQ9DzsMjABMxUDIxMlMxUDIxMBANOkgVIBmtOkgVIF1az+wAFArKz+wAFAAAIArv8SA20A/gAFAAsAJ0ATCQOeBgCDDAMEARkABwkKBxkGDBDc7NTMENzu1M4xABD8POwyMCUzFQMjEyUzFQMjEwKa06SBUv5m06SBUv6s/sABQKys/sABQAAAAgCuA+kDbQXVAAUACwAAARUTIwM1IRUTIwM1AYFSgaQCbVKBpAXVrf7BAT+trf7BAT+tAAEAOf87A8cF1QALACdAFAgEuQoCAIEGwgwDWQUBVwlZBwAMENQ87Pw87DEAEOT01DzsMjABMxEhFSERIxEhNSEBqLABb/6RsP6RAW8F1f5cmfujBF2ZAAABADn/OwPHBdUAEwA+QCASBrkAEAi5CgQAAg4KDIECwhQPAFkRDQFXCQVZCwcDFBDUPDzsMvw8POwyMQAQ5PTEMhDEMhDuMhDuMjAlIREjESE1IREhNSERMxEhFSERIQPH/pGw/pEBb/6RAW+wAW/+kQFv3/5cAaSaAh+ZAaT+XJn94QABATMB0QOFBCEACwAStwnHAwwGXAAMENTsMQAQ1OwwATQ2MzIWFRQGIyImATOtfnyrrH19rAL6fKurfH2srAAAAQEzAYED1QRxAAIAAAERAQEzAqIBgQLw/ogAAAEA7AAAAcEA/gADABGzARkABBDU7DEAsgCDAi/sMDczFSPs1dX+/gACAOwAAARrAP4AAwAHABq2ABkBBRkECBDU/NTsMQC0BACDBgIvPOwyMCUzFSMlMxUjA5bV1f1W1dX+/v7+AAAAAwDsAAAHFAD+AAMABwALACNAEQgEAIMKBgIEGQUAGQEJGQgMENT81OzU7DEALzw87DIyMCUzFSMlMxUjJTMVIwOW1NQCqdXV+q3V1f7+/v7+/gAAAQDcAmsBrwNpAAMAABMzFSPc09MDaf4ABwBx/+MKTAXwAAsAFwAjACcAMwA/AEsArkBEJA8lJiUmDyckJ0JAAJIMLpIejSiSGEYGkjQMjTomEowkGJFMJUlDJzErQw09CQ0PDgMNFTENGz0OSQ0VNysNGw4hC0wQ/OTs1MTs5BDuEO727hDuERI5ERI5MQAQ5DL0PDzkMuwyEO727hDuMjBLU1gHEAXtBxAF7VkiAUuwFFRLsAlUW0uwC1RbS7AMVFtLsA1UW0uwDlRbWL0ATABAAAEATABM/8A4ETc4WQEiBhUUFjMyNjU0JicyFhUUBiMiJjU0NgEyFhUUBiMiJjU0NiEzASMTIgYVFBYzMjY1NCYBMhYVFAYjIiY1NDYXIgYVFBYzMjY1NCYI9FdkZFdVY2NVnrq7naC6u/l0nry7n5+5ugQloPxaoB9WY2JXV2NkA7KeurudoLq7n1djY1dVY2MCkZSEgpWVgoOVf9y7u9vbu7zbAuDbu73a27y63PnzBY6VgoSUlISBlv2f3Lu729u7vNt/lISClZWCg5UAAAAAAQCeAI0CcwQjAAYAR0AlA+gEBQQC6AECBQUEAugDAgYABgHoAAZCAgTnAKYHAgMAbwVuBxD87DI5MQAQ9Ow5MEtTWAcE7QcQCO0HEAjtBxAE7VkiARUJARUBNQJz/tMBLf4rBCO//vT+9L8BolIAAAEAwQCNApYEIwAGAElAJgXoBgUCAwIE6AMDAgboAAEABegEBQEBAEIFA+cApgcFAW8DAHAHEPw87DkxABD07DkwS1NYBxAI7QcQBO0HEATtBxAI7VkiEwEVATUJAcEB1f4rAS3+0wQj/l5S/l6/AQwBDAAAAQAA/+MEjwXwADEBHEA6IBLTIhArB9MJGaEarhaVHQGhAK4ElS+RHYwpCTIrIiEpIyYSEAoDDQkRCCwgJhMHEQgRDRwZACYqIS881MQy/MTEEjk5Ejk5ERI5ERc5Ejk5ETk5MQAQxDLk9Oz07BDu9u4Q7jLdPO4yMAFLsAlUS7AMVFtLsA1UW0uwD1RbS7AXVFtLsBhUW1i9ADL/wAABADIAMgBAOBE3OFlAeg4ADgELAgsxVBRpDGwObg9vEG8RbxJvE2kUax9vIG8hbyJvI24kbCVpJ2ktnwefCJ8JnwqfC58Mnw2fDp8PnxCfEZ8SnxOWH58gnyGfIp8jnySfJZ8mnyefKJ8pnyqfK58snS0yAAgACRAIEAkgCCAJVRVTHmoVZx8KXQBdARUuASMiBgchByEOARUUFhchByEeATMyNjcVDgEjIgADIzczNCY1NDY1IzczEgAzMhYEj1upZp3KIAJBN/3mAgEBAgG+OP6KIMqdZqlbWblg7f7LKNM3iwEBwjecKAE27GK5BWLVaVrIu3sYLiMgLhh7u8paadNISAEiAQN7Fy8gIy8XewEBASJHAAIAQwAABNEF1QAWAB8AAAEhMgQVFAQrARUhFSERIxEjNTM1IzU7AjI2NTQmKwEBDQHI+wEB/v/7/gIq/dbKysrKysr+jZqajf4F1ePb3eKmpv70AQympqaSh4aSAAAAAAQANgAAB8EF1QATAB8AKwAvAhaxkpdCsJOwmEIAsAAvsw4PLC+wBBc8sQGV7bAAsC3dsC48sC2wHd6wI80QELEEgT+xBQqwAhc8sQuV7bAjEbALErAXObAXIEZoSLAXELApsCOwHSNJaTuxgAJCsYEAQj2wHbAXI0mwgGJpsB1GYLAURmGwkkOwAWAjQrCSQ7ABYEOwAFVYsBSwkkOwAWBDOFmwFBCyGiYgsAMXPLGAAEKxgQBCGDABsDAQsQME/rAEPLAAxLADsREc/bAQPBCwA7ENNvywDjywDbEGHP2wBzywDzmwDyBGaEgQsA2wCrAAsAMjSWg7sAs8ELANsBTWsBSwIN2wLDmwLCBGaEiwILAm1rAmsBqwFLAgI0lpO7AvsCywFCNJaDoQEBAQELAasDEjSbCSQ7ABYCNCsJJDsAFgQ7AAUFi1JhoUICwvsJJDsAFgQ7AGFzhLsApSWLANsBQjSbCSQ7ABYCNCsJJDsAFgQ7BAUFiwkkOwAWBDsEBhsJJDsAFgI0K0BgcNDg+wkkOwAWBDsAUXOFlZWbGAAkKxgQBCPbAUsBojSbCAYmmwFEZgsBdGYbCSQ7ABYCNCsJJDsAFgQ7AAVViwF7CSQ7ABYEM4WbAXELIdIymwAxc8sYAAQrGBAEIYMbAEsAcjSbAAUlgMsRAPB7APELEGEe2wEBCxBRH9CgwCDbEFBgiwBBCwBTwLCgwDDbEFBgiwBxCwBjwLClkzNTI1ESEBETQ2MxUiFREhAREUBgE0NjMyFhUUBiMiJjcUFjMyNjU0JiMiBgM1IRU2kwEQApadupP+8P1qnQTjkGdnkJBnZ5CMOTIyOTkyMjmMAe6qawTA+x8DzICVqmv7QATh/DSAlQJuir+/ioq/v4pOZ2dOTmdn/UR7ewAAAgEnA5MGRgXVAAwAFAA+QCEBBgcQCgQSDgkDBskNAgCBFQEJBWIDCWILDWMPYhNjERUQ1OT85NTs1OwROTEAEPQ8POwXMtQ8PMQROTABGwEzESMRAyMDESMRIxUjESMRIzUESq6kqnHDN8tycctyyQXV/wABAP2+AeT+0QEv/hwCQl7+HAHkXgAAAAABAGQAzAY/BDgACQCBtAIJBgAKENTUzDJACUACQAkwAjAJBF0xQAoCBQkBAAYFnAYKABDU7BE5OcwQzDBADAgJCQAIBwgHnAAJAAcFEPw8CAYQPEAMAwICAQMEAwScAQIBBwUQ/DwIBhA8sBBLU1gAswMCCAkQPBA8tAicCQkABwUQ7LQDnAICAQcFEOxZEzUBFwchFSEXB2QBiXjpBMP7Pel4AlVaAYl46arpeAAAAAEBowAABQ8F3AAJAIFACgIFCQEABgWcBgoQ1OwROTnMEMwxALQCCQYAChDU1MwyQAlPAk8JPwI/CQRdMEAMCAkJAAgHCAecAAkABwQQ/DwIBhA8QAwDAgIBAwQDBJwBAgEHBBD8PAgGEDywEEtTWAGzAwIICRA8EDy0CJwJCQAHBBDstAOcAgIBBwQQ7FkBMwEHJxEjEQcnAy1aAYh46KrqeAXc/nZ46vs8BMTqeAAAAQB1AMwGUAQ4AAkAgbQCCQAGChDU1MwyQAlPAk8JXwJfCQRdMUAKCQYCAQAFBpwFCgAQ1OwROTnMEMwwQAwICQkACAcIB5wACQAHBRD8PAgGEDxADAMCAgEDBAMEnAECAQcFEPw8CAYQPLAQS1NYALMDAggJEDwQPLQInAkJAAcFEOy0A5wCAgEHBRDsWQEVASc3ITUhJzcGUP53eOn7PQTD6XgCr1r+d3jpqul4AAABAaP/+QUPBdUACQCBQAoJBgIBAAUGnAUKENTsETk5zBDMMQC0AgkABgoQ1NTMMkAJQAJACVACUAkEXTBADAgJCQAIBwgHnAAJAAcEEPw8CAYQPEAMAwICAQMEAwScAQIBBwQQ/DwIBhA8sBBLU1gBswMCCAkQPBA8tAicCQkABwQQ7LQDnAICAQcEEOxZBSMBNxcRMxE3FwOHWv52eOqq6HgHAYp46gTE+zzqeAAAAAEA2QItBdsC1wADABG2AJwCBAEABBDUxDEAENTsMBMhFSHZBQL6/gLXqgAAAgA/ApwC9AXfAAIADQDUQBYAAwsH3QUBCfcDkQ4BDAoAXQYIBAwOENzUPMTsMhE5MQAQ9PzUPOwyEjkwAUuwDlRLsA9UW0uwEFRbS7ARVFtLsAtUW0uwClRbWL0ADgBAAAEADgAO/8A4ETc4WQBLsBFUS7AOVFtYvQAO/8AAAQAOAA4AQDgRNzhZQFQLAR0BLwE5AUkBRgNZA2kDiwOrA7sDCwEADwEPAg8FDwYPBw8IDwsPDA8NEwAfAR8CHwUfBh8HHwgfCx8MHw0iADUARwBLDVMAWw1lAIQApQC1AB5dAV0JASEDMxEzFSMVIzUhNQHd/ssBNRamh4eQ/mIFZv5dAhz95G26unkAAAH+if/jAs0F8AADACtAEwAPAQIBAg8DAANCAowAkQQBAwQQ1MwxABDk5DBLU1gHEAXtBxAF7VkiATMBIwItoPxcoAXw+fMAAAH9DATu/osF9gADAIlAEQECAwIAAwMCQgAB+gQBAwMEEMQQwDEAEPTMMEtTWAcQBckHEAXJWSIAS7AMVFi9AAT/wAABAAQABABAOBE3OFkAS7AOVFi9AAQAQAABAAQABP/AOBE3OFlAKgYABgEWABIBJAAkATUBQwFVAFUBnwCfAa8ArwEODwAPAx8AHwMvAC8DBl0BXQETIwP9x8SZ5gX2/vgBCAAAAAH9cwTu/vAF9gADAH9AEQIDAAMBAAADQgAC+gQBAwMEEMQQwDEAEPTMMEtTWAcQBckHEAXJWSIAS7AMVFi9AAT/wAABAAQABABAOBE3OFkAS7AOVFi9AAQAQAABAAQABP/AOBE3OFlAIAYCFQIlASUCNgJGAlYCagFnAgkPAA8BHwAfAS8ALwEGXQFdATMDI/43ueSZBfb++AAAAAH8zwTu/zEF+AAGAHdACgQABQL6BwQCBgcQ1MQ5MQAQ9DzEOTAAS7AMVFi9AAf/wAABAAcABwBAOBE3OFkAS7AOVFi9AAcAQAABAAcAB//AOBE3OFkBS7AOVFi9AAf/wAABAAcABwBAOBE3OFlAEw8ADwEMBB8AHwEdBC8ALwEtBAkAXQEzEyMnByP9orzTi6amiwX4/vaysgAAAAH8tgUO/0oF6QAdAHVAIRYQDwMTDAcBAAMIFwzDBBPDGwj6HhABDwAHFlYYB1YJHhDU7NTsETk5OTkxABD0POzU7DISFzkREhc5MABLsAxUWL0AHv/AAAEAHgAeAEA4ETc4WQBLsA5UWL0AHgBAAAEAHgAe/8A4ETc4WbQQCx8aAl0BJy4BIyIGHQEjNDYzMhYfAR4BMzI2PQEzDgEjIib9/DkZHwwkKH1nViQ9MDkXIg8gKH0CZ1QiOwU5IQ4LMi0GZXYQGx4NDDMpBmR3EAAC/NcFDv8pBdkAAwAHAKVADQQAzgYCCAFkAAVkBAgQ1Pzc7DEAENQ87DIwAEuwDlRLsBFUW1i9AAgAQAABAAgACP/AOBE3OFkBS7AOVEuwDVRbS7AXVFtYvQAI/8AAAQAIAAgAQDgRNzhZAUuwEVRLsBlUW1i9AAgAQAABAAgACP/AOBE3OFkAS7AYVFi9AAj/wAABAAgACABAOBE3OFlAEWABYAJgBWAGcAFwAnAFcAYIAV0BMxUjJTMVI/5ey8v+ecvLBdnLy8sAAAABAMEE7gM/BmYABgA3QAwEBQK0ALMHBAJ1BgcQ3Ow5MQAQ9OwyOTAAS7AJVEuwDlRbWL0AB//AAAEABwAHAEA4ETc4WQEzEyMnByMBtpT1i7S0iwZm/oj19QAAAAEAtgUdA0oGNwAbAGNAJAASBw4LBAESBw8LBBLDGQcEwxUL7RwPAQ4ABxVWFncHVgh2HBD07PzsETk5OTkxABD8PPzUPOwREjkREjkREjkREjkwAEuwCVRLsAxUW1i9ABz/wAABABwAHABAOBE3OFkBJy4BIyIGByM+ATMyFh8BHgEzMjY3Mw4BIyImAfw5FiENJiQCfQJmWyZAJTkWIQ0mJAJ9AmZbJkAFWjcUE0lSh5McITcUE0lSh5McAAAAAAIA7gThAxIHBgALABcAIEARA8EV8gnBD/EYAFYMeAZWEhgQ1Oz07DEAEPTs9OwwATQmIyIGFRQWMzI2NxQGIyImNTQ2MzIWAphYQEFXV0FAWHqfc3Ofn3NznwX0P1hXQEFXWEBzoKBzc5+fAAEAxwUpAzkGSAANAFdADgvwBAcAsw4HVggBVgAOENzs1OwxABD0PNTsMABLsAlUWL0ADv/AAAEADgAOAEA4ETc4WQBLsA9US7AQVFtLsBFUW1i9AA4AQAABAA4ADv/AOBE3OFkTMx4BMzI2NzMOASMiJsd2C2FXVmANdgqekZGeBkhLS0pMj5CQAAAAAQFM/nUCwQAAABMAIEAPCw4KB/MO9AABAAoEJxEUENTsxNTMMQAv/PzEEjkwITMOARUUFjMyNjcVDgEjIiY1NDYBuHctKzc2ID4fJkQeenM1PVgfLi4PD4UKClddMGkAAf2aBQ7+ZgXbAAMAR7cAzgIEAWQABBDU7DEAENTsMABLsA5US7ARVFtYvQAEAEAAAQAEAAT/wDgRNzhZAEuwGFRYvQAE/8AAAQAEAAQAQDgRNzhZATMVI/2azMwF280AAv2iBHv+WgYUAAMABAAlQAwCvgCxBLgFBAEIAAUQ1Ow5MQAQ5PzsMAABQAcEBDQERAQDXQEzFSMX/aK4uF4GFOmwAAAB/M8E7v8xBfgABgCGQAoDBAEA+gcDBQEHENTEOTEAEPTEMjkwAEuwDFRLsAlUW0uwClRbS7ALVFtYvQAH/8AAAQAHAAcAQDgRNzhZAEuwDlRYvQAHAEAAAQAHAAf/wDgRNzhZAUuwDlRYvQAH/8AAAQAHAAcAQDgRNzhZQBMAAAMDAAYQABIDEAYgACIDIAYJAF0BAzMXNzMD/aLTi6ami9ME7gEKsrL+9gAAAQDBBO4DPwZmAAYAN0AMAwC0BAGzBwMFdQEHENzsOTEAEPQ87DkwAEuwCVRLsA5UW1i9AAf/wAABAAcABwBAOBE3OFkBAzMXNzMDAbb1i7S0i/UE7gF49fX+iAAB/7kEmgDHBhIAAwAKQAMAAwQAENTMMBEzAyPHdZkGEv6IAAAB/McFBv85BfgADQBqQA4HAATDC/oOB1YIAVYADhDU7NTsMQAQ9PzMMjAAS7AMVFi9AA7/wAABAA4ADgBAOBE3OFkAS7AOVFi9AA4AQAABAA4ADv/AOBE3OFkBS7AOVEuwD1RbWL0ADv/AAAEADgAOAEA4ETc4WQEzHgEzMjY3Mw4BIyIm/Md2DWNTUmEQdgqgj5CfBfg2OTc4d3t6AAAAAf1q/hT+j/9UAAMACkADAwAEABDUzDAFMwMj/bzTpIGs/sAAAf4fA+n/RAUoAAMACkADAgEEABDUzDABIxMz/vLTpIED6QE/AAAAAAH/2/5WAXkEYAALADhAFQsCBwAHhwW9ALwMCAwFBk8BCABGDBD87OQ5EjkxABDk9OwREjk5MEALEA1ADVANYA1wDQUBXRMzERQGKwE1MzI2NcG4o7VGMWlMBGD7jNbAnGGZAP//ALID/gHXBdUQBgGrAAAAAvzmBO7/sgX2AAMABwATQAcABAMHCAAEEMwxABDUPMwyMAEzAyMDMwMj/vm55JmLueSZBfb++AEI/vgAAgDwBO4DrgZmAAMABwBCQBEGArQEALMIBAcDAAUBAwUHCBDU3NTMETkREjkxABD0POwyMABLsAlUS7AOVFtYvQAI/8AAAQAIAAgAQDgRNzhZATMDIwMzAyMC/LL4h4Gq34kGZv6IAXj+iAAAAvzFBHv/QwZmAAYABwA8QA8DALQEAbMHuAgHAwV1AQgQ3Ow5OTEAEOT0POw5MABLsAlUS7AOVFtYvQAH/8AAAQAHAAcAQDgRNzhZAQMzFzczAwf9uvWLtLSL9U4E7gF49fX+iHMAAATNAGYCiwAAAzUBNQOuAMUGtACeBRcAqgeaAHEGPQCBAjMAxQMfALADHwCkBAAAPQa0ANkCiwCeAuMAZAKLANsCsgAABRcAhwUXAOEFFwCWBRcAnAUXAGQFFwCeBRcAjwUXAKgFFwCLBRcAgQKyAPACsgCeBrQA2Qa0ANkGtADZBD8AkwgAAIcFeQAQBX0AyQWWAHMGKQDJBQ4AyQSaAMkGMwBzBgQAyQJcAMkCXP+WBT8AyQR1AMkG5wDJBfwAyQZMAHME0wDJBkwAcwWPAMkFFACHBOP/+gXbALIFeQAQB+kARAV7AD0E4//8BXsAXAMfALACsgAAAx8Axwa0ANkEAP/sBAAAqgTnAHsFFAC6BGYAcQUUAHEE7ABxAtEALwUUAHEFEgC6AjkAwQI5/9sEogC6AjkAwQfLALoFEgC6BOUAcQUUALoFFABxA0oAugQrAG8DIwA3BRIArgS8AD0GiwBWBLwAOwS8AD0EMwBYBRcBAAKyAQQFFwEABrQA2QKLAAADNQE1BRcArAUXAIEFFwBeBRcAUgKyAQQEAABcBAAA1wgAARsDxQBzBOUAnga0ANkC4wBkCAABGwQAANUEAADDBrQA2QM1AF4DNQBiBAABcwUXAK4FFwCeAosA2wQAASMDNQCJA8UAYATlAMEHwQCJB8EAiQfBAGIEPwCPBXkAEAV5ABAFeQAQBXkAEAV5ABAFeQAQB8sACAWWAHMFDgDJBQ4AyQUOAMkFDgDJAlwAOwJcAKICXP/+AlwABgYzAAoF/ADJBkwAcwZMAHMGTABzBkwAcwZMAHMGtAEZBkwAZgXbALIF2wCyBdsAsgXbALIE4//8BNcAyQUKALoE5wB7BOcAewTnAHsE5wB7BOcAewTnAHsH2wB7BGYAcQTsAHEE7ABxBOwAcQTsAHECOf/HAjkAkAI5/94COf/0BOUAcQUSALoE5QBxBOUAcQTlAHEE5QBxBOUAcQa0ANkE5QBIBRIArgUSAK4FEgCuBRIArgS8AD0FFAC6BLwAPQV5ABAE5wB7BXkAEATnAHsFeQAQBOcAewWWAHMEZgBxBZYAcwRmAHEFlgBzBGYAcQWWAHMEZgBxBikAyQUUAHEGMwAKBRQAcQUOAMkE7ABxBQ4AyQTsAHEFDgDJBOwAcQUOAMkE7ABxBQ4AyQTsAHEGMwBzBRQAcQYzAHMFFABxBjMAcwUUAHEGMwBzBRQAcQYEAMkFEv/lB1QAyQWPAHgCXP/kAjn/0wJcAAMCOf/yAlz/9QI5/+QCXACwAjkAlgJcAMkCOQDBBLgAyQRyAMECXP+WAjn/2wU/AMkEogC6BKIAugR1AMkCOQDBBHUAyQI5AIgEdQDJAwAAwQR1AMkCvADBBH//8gJGAAIF/ADJBRIAugX8AMkFEgC6BfwAyQUSALoGggDNBfwAyQUSALoGTABzBOUAcQZMAHME5QBxBkwAcwTlAHEIjwBzCC8AcQWPAMkDSgC6BY8AyQNKAIIFjwDJA0oAugUUAIcEKwBvBRQAhwQrAG8FFACHBCsAbwUUAIcEKwBvBOP/+gMjADcE4//6AyMANwTj//oDIwA3BdsAsgUSAK4F2wCyBRIArgXbALIFEgCuBdsAsgUSAK4F2wCyBRIArgXbALIFEgCuB+kARAaLAFYE4//8BLwAPQTj//wFewBcBDMAWAV7AFwEMwBYBXsAXAQzAFgC0QAvBQ4AyQUOAMkGSv/6BOEAyQWWAHMFFACHAlwAyQJcAAYCXP+WCMAAVAhcAMkGSv/6Ba4AyQX8AMkE4AAjBgQAyQV5ABAFfQDJBX0AyQThAMkGQABlBQ4AyQieACgFIQCHBfwAyQX8AMkFrgDJBgQAVAbnAMkGBADJBkwAcwYEAMkE0wDJBZYAcwTj//oE4AAjBuMAeQV7AD0GNgDJBXwArwiOAMkIwADJBqkAPAcPAMkFfQDJBZYAbwijANMFjwCIBOcAewTvAHAEtwC6BDQAugWIAGsE7ABxBzUARgRBAIUFMwC6BTMAugTVALoFHQBMBgkAugU7ALoE5QBxBTsAugUUALoEZgBxBKkAPAS8AD0G1wBwBLwAOwVyALoEugCWB1IAugeJALoFpwA+BlEAugS3ALoEZABxBrwAwQTQAHQE7ABxBOwAcQUAAC8ENAC6BGQAcQQrAG8COQDBAjn/9AI5/9sHOABMBzAAugU3AC8E1QC6BTMAugS8AD0FOwC6BOEAyQQ0ALoC4wBkAuMAZAUXAGQEAABkCAAAZAgAAAAEAAEEBAD/7AKLAK4CiwCyAosArgKLALIEJQCuBCUArgQlAK4EJQCuBAAAOQQAADkEuAEzBLgBMwKtAOwFVwDsCAAA7AKLANwKvABxAzMAngMzAMEFFwAABRcAQwhSADYIAAEnBrQAZAa0AaMGtAB1BrQBowa0ANkDNQA/AVb+iQAA/QwAAP1zAAD8zwAA/LYAAPzXBAAAwQQAALYEAADuBAAAxwQAAUwAAP2aAAD9ogAA/M8EAADBAAD/uQAA/McAAP1qAAD+HwI5/9sCiwCyAAD85gQAAPAAAPzFtwcGBQQDAgEALCAQsAIlSWSwQFFYIMhZIS0ssAIlSWSwQFFYIMhZIS0sIBAHILAAULANeSC4//9QWAQbBVmwBRywAyUIsAQlI+EgsABQsA15ILj//1BYBBsFWbAFHLADJQjhLSxLUFggsP1FRFkhLSywAiVFYEQtLEtTWLACJbACJUVEWSEhLSxFRC0ssAIlsAIlSbAFJbAFJUlgsCBjaCCKEIojOooQZTot',
+};
+
+export const DEJAVU_SANS_BOLD: EmbeddedFont = {
+  name: 'DejaVuSans-Bold',
+  ascent: 928,
+  descent: -236,
+  capHeight: 729,
+  stemV: 120,
+  bbox: [-56, -236, 1417, 935],
+  glyphs: [
+    32, 1, 348, 33, 2, 456, 34, 3, 521, 35, 4, 838, 36, 5, 696, 37, 6, 1002, 38,
+    7, 872, 39, 8, 306, 40, 9, 457, 41, 10, 457, 42, 11, 523, 43, 12, 838, 44,
+    13, 380, 45, 14, 415, 46, 15, 380, 47, 16, 365, 48, 17, 696, 49, 18, 696,
+    50, 19, 696, 51, 20, 696, 52, 21, 696, 53, 22, 696, 54, 23, 696, 55, 24,
+    696, 56, 25, 696, 57, 26, 696, 58, 27, 400, 59, 28, 400, 60, 29, 838, 61,
+    30, 838, 62, 31, 838, 63, 32, 580, 64, 33, 1000, 65, 34, 774, 66, 35, 762,
+    67, 36, 734, 68, 37, 830, 69, 38, 683, 70, 39, 683, 71, 40, 821, 72, 41,
+    837, 73, 42, 372, 74, 43, 372, 75, 44, 775, 76, 45, 637, 77, 46, 995, 78,
+    47, 837, 79, 48, 850, 80, 49, 733, 81, 50, 850, 82, 51, 770, 83, 52, 720,
+    84, 53, 682, 85, 54, 812, 86, 55, 774, 87, 56, 1103, 88, 57, 771, 89, 58,
+    724, 90, 59, 725, 91, 60, 457, 92, 61, 365, 93, 62, 457, 94, 63, 838, 95,
+    64, 500, 96, 65, 500, 97, 66, 675, 98, 67, 716, 99, 68, 593, 100, 69, 716,
+    101, 70, 678, 102, 71, 435, 103, 72, 716, 104, 73, 712, 105, 74, 343, 106,
+    75, 343, 107, 76, 665, 108, 77, 343, 109, 78, 1042, 110, 79, 712, 111, 80,
+    687, 112, 81, 716, 113, 82, 716, 114, 83, 493, 115, 84, 595, 116, 85, 478,
+    117, 86, 712, 118, 87, 652, 119, 88, 924, 120, 89, 645, 121, 90, 652, 122,
+    91, 582, 123, 92, 712, 124, 93, 365, 125, 94, 712, 126, 95, 838, 160, 96,
+    348, 161, 97, 456, 162, 98, 696, 163, 99, 696, 164, 100, 636, 165, 101, 696,
+    166, 102, 365, 167, 103, 500, 168, 104, 500, 169, 105, 1000, 170, 106, 564,
+    171, 107, 646, 172, 108, 838, 173, 109, 415, 174, 110, 1000, 175, 111, 500,
+    176, 112, 500, 177, 113, 838, 178, 114, 438, 179, 115, 438, 180, 116, 500,
+    181, 117, 736, 182, 118, 636, 183, 119, 380, 184, 120, 500, 185, 121, 438,
+    186, 122, 564, 187, 123, 646, 188, 124, 1035, 189, 125, 1035, 190, 126,
+    1035, 191, 127, 580, 192, 128, 774, 193, 129, 774, 194, 130, 774, 195, 131,
+    774, 196, 132, 774, 197, 133, 774, 198, 134, 1085, 199, 135, 734, 200, 136,
+    683, 201, 137, 683, 202, 138, 683, 203, 139, 683, 204, 140, 372, 205, 141,
+    372, 206, 142, 372, 207, 143, 372, 208, 144, 838, 209, 145, 837, 210, 146,
+    850, 211, 147, 850, 212, 148, 850, 213, 149, 850, 214, 150, 850, 215, 151,
+    838, 216, 152, 850, 217, 153, 812, 218, 154, 812, 219, 155, 812, 220, 156,
+    812, 221, 157, 724, 222, 158, 738, 223, 159, 719, 224, 160, 675, 225, 161,
+    675, 226, 162, 675, 227, 163, 675, 228, 164, 675, 229, 165, 675, 230, 166,
+    1048, 231, 167, 593, 232, 168, 678, 233, 169, 678, 234, 170, 678, 235, 171,
+    678, 236, 172, 343, 237, 173, 343, 238, 174, 343, 239, 175, 343, 240, 176,
+    687, 241, 177, 712, 242, 178, 687, 243, 179, 687, 244, 180, 687, 245, 181,
+    687, 246, 182, 687, 247, 183, 838, 248, 184, 687, 249, 185, 712, 250, 186,
+    712, 251, 187, 712, 252, 188, 712, 253, 189, 652, 254, 190, 716, 255, 191,
+    652, 256, 192, 774, 257, 193, 675, 258, 194, 774, 259, 195, 675, 260, 196,
+    774, 261, 197, 675, 262, 198, 734, 263, 199, 593, 264, 200, 734, 265, 201,
+    593, 266, 202, 734, 267, 203, 593, 268, 204, 734, 269, 205, 593, 270, 206,
+    830, 271, 207, 716, 272, 208, 838, 273, 209, 716, 274, 210, 683, 275, 211,
+    678, 276, 212, 683, 277, 213, 678, 278, 214, 683, 279, 215, 678, 280, 216,
+    683, 281, 217, 678, 282, 218, 683, 283, 219, 678, 284, 220, 821, 285, 221,
+    716, 286, 222, 821, 287, 223, 716, 288, 224, 821, 289, 225, 716, 290, 226,
+    821, 291, 227, 716, 292, 228, 837, 293, 229, 712, 294, 230, 974, 295, 231,
+    790, 296, 232, 372, 297, 233, 343, 298, 234, 372, 299, 235, 343, 300, 236,
+    372, 301, 237, 343, 302, 238, 372, 303, 239, 343, 304, 240, 372, 305, 241,
+    343, 306, 242, 744, 307, 243, 686, 308, 244, 372, 309, 245, 343, 310, 246,
+    775, 311, 247, 665, 312, 248, 665, 313, 249, 637, 314, 250, 343, 315, 251,
+    637, 316, 252, 343, 317, 253, 637, 318, 254, 479, 319, 255, 637, 320, 256,
+    557, 321, 257, 642, 322, 258, 371, 323, 259, 837, 324, 260, 712, 325, 261,
+    837, 326, 262, 712, 327, 263, 837, 328, 264, 712, 329, 265, 983, 330, 266,
+    837, 331, 267, 712, 332, 268, 850, 333, 269, 687, 334, 270, 850, 335, 271,
+    687, 336, 272, 850, 337, 273, 687, 338, 274, 1167, 339, 275, 1094, 340, 276,
+    770, 341, 277, 493, 342, 278, 770, 343, 279, 493, 344, 280, 770, 345, 281,
+    493, 346, 282, 720, 347, 283, 595, 348, 284, 720, 349, 285, 595, 350, 286,
+    720, 351, 287, 595, 352, 288, 720, 353, 289, 595, 354, 290, 682, 355, 291,
+    478, 356, 292, 682, 357, 293, 478, 358, 294, 682, 359, 295, 478, 360, 296,
+    812, 361, 297, 712, 362, 298, 812, 363, 299, 712, 364, 300, 812, 365, 301,
+    712, 366, 302, 812, 367, 303, 712, 368, 304, 812, 369, 305, 712, 370, 306,
+    812, 371, 307, 712, 372, 308, 1103, 373, 309, 924, 374, 310, 724, 375, 311,
+    652, 376, 312, 724, 377, 313, 725, 378, 314, 582, 379, 315, 725, 380, 316,
+    582, 381, 317, 725, 382, 318, 582, 383, 319, 435, 1024, 320, 683, 1025, 321,
+    683, 1026, 322, 878, 1027, 323, 637, 1028, 324, 734, 1029, 325, 720, 1030,
+    326, 372, 1031, 327, 372, 1032, 328, 372, 1033, 329, 1154, 1034, 330, 1130,
+    1035, 331, 878, 1036, 332, 817, 1037, 333, 837, 1038, 334, 771, 1039, 335,
+    837, 1040, 336, 774, 1041, 337, 762, 1042, 338, 762, 1043, 339, 637, 1044,
+    340, 891, 1045, 341, 683, 1046, 342, 1224, 1047, 343, 710, 1048, 344, 837,
+    1049, 345, 837, 1050, 346, 817, 1051, 347, 831, 1052, 348, 995, 1053, 349,
+    837, 1054, 350, 850, 1055, 351, 837, 1056, 352, 733, 1057, 353, 734, 1058,
+    354, 682, 1059, 355, 771, 1060, 356, 992, 1061, 357, 771, 1062, 358, 928,
+    1063, 359, 808, 1064, 360, 1235, 1065, 361, 1326, 1066, 362, 939, 1067, 363,
+    1036, 1068, 364, 762, 1069, 365, 734, 1070, 366, 1174, 1071, 367, 770, 1072,
+    368, 675, 1073, 369, 698, 1074, 370, 633, 1075, 371, 522, 1076, 372, 808,
+    1077, 373, 678, 1078, 374, 995, 1079, 375, 581, 1080, 376, 701, 1081, 377,
+    701, 1082, 378, 679, 1083, 379, 732, 1084, 380, 817, 1085, 381, 691, 1086,
+    382, 687, 1087, 383, 691, 1088, 384, 716, 1089, 385, 593, 1090, 386, 580,
+    1091, 387, 652, 1092, 388, 992, 1093, 389, 645, 1094, 390, 741, 1095, 391,
+    687, 1096, 392, 1062, 1097, 393, 1105, 1098, 394, 751, 1099, 395, 904, 1100,
+    396, 632, 1101, 397, 593, 1102, 398, 972, 1103, 399, 642, 1104, 400, 678,
+    1105, 401, 678, 1106, 402, 714, 1107, 403, 522, 1108, 404, 593, 1109, 405,
+    595, 1110, 406, 343, 1111, 407, 343, 1112, 408, 343, 1113, 409, 991, 1114,
+    410, 956, 1115, 411, 734, 1116, 412, 679, 1117, 413, 701, 1118, 414, 652,
+    1119, 415, 691, 1168, 416, 637, 1169, 417, 522, 8208, 418, 415, 8209, 419,
+    415, 8210, 420, 696, 8211, 421, 500, 8212, 422, 1000, 8213, 423, 1000, 8214,
+    424, 500, 8215, 425, 500, 8216, 426, 380, 8217, 427, 380, 8218, 428, 380,
+    8219, 429, 380, 8220, 430, 657, 8221, 431, 657, 8222, 432, 657, 8223, 433,
+    657, 8224, 434, 500, 8225, 435, 500, 8226, 436, 639, 8227, 437, 639, 8228,
+    438, 333, 8229, 439, 667, 8230, 440, 1000, 8231, 441, 348, 8240, 442, 1440,
+    8249, 443, 412, 8250, 444, 412, 8364, 445, 696, 8381, 446, 696, 8470, 447,
+    1203, 8482, 448, 1000, 8592, 449, 838, 8593, 450, 838, 8594, 451, 838, 8595,
+    452, 838, 8722, 453, 838,
+  ],
+  data: 'dHJ1ZQAJAIAAAwAQaGVhZAAAAAAAAACcAAAANmhoZWEAAAAAAAAA0gAAACRsb2NhAAAAAAAAAPYAAAeAbWF4cAAAAAAAAAh2AAAAIGN2dCAAAAAAAAAIlgAAAlRwcmVwAAAAAAAACuoAAAenZ2x5ZgAAAAAAABKRAACsdGhtdHgAAAAAAAC/BQAAB3xmcGdtAAAAAAAAxoEAAACsAAEAAAACXrh5lC+dXw889QAfCAAAAAAA08Ir+QAAAADTwiv593L8rg/NCWUAAQAIAAAAAQAAAAEAAAdt/h0AABAh93L5Mg/NAAEAAAAAAAAAAAAAAAAAAAHfAAAAAAAAAEwAAABMAAAAoAAAAOgAAAGsAAACwAAAA8AAAAWUAAAFxAAABiAAAAZ4AAAHDAAAB2AAAAecAAAHzAAAB/gAAAgoAAAIrAAACQgAAAnsAAAKtAAACzQAAAvUAAAMiAAADPQAAA3QAAAOhAAADswAAA8kAAAPcAAAD7QAAA/8AAAQtAAAEgwAABNIAAAUCAAAFKAAABUoAAAVjAAAFeQAABaYAAAXDAAAF1QAABfIAAAYhAAAGLwAABnIAAAaeAAAGwwAABuIAAAcVAAAHUAAAB5oAAAexAAAHzwAAB/sAAAhoAAAItQAACOcAAAkMAAAJHQAACSoAAAk7AAAJTAAACVYAAAlyAAAJtwAACd4AAAoDAAAKKgAAClUAAAp6AAAKrQAACs8AAArkAAALAgAACzMAAAtCAAALegAAC5wAAAu/AAAL5gAADA4AAAwsAAAMggAADK8AAAzTAAANEwAADYMAAA3xAAAOTwAADn0AAA6uAAAOuQAADuoAAA8LAAAPCwAADyEAAA9XAAAPfgAAD8YAABALAAAQHQAAEGcAABCHAAAQ0QAAERgAABE2AAARRAAAEVAAABGkAAARvAAAEdwAABH4AAASJAAAElcAABJsAAASlgAAEq0AABK5AAAS1wAAEvAAABMWAAATNQAAEz0AABNFAAATTQAAE3wAABOCAAATiAAAE5AAABObAAATqgAAFCcAABRkAAAUagAAFHAAABR2AAAUfAAAFIUAABSOAAAUlwAAFKEAABSuAAAU7wAAFPUAABT7AAAVAQAAFQcAABUSAAAVIgAAFT8AABWeAAAVpAAAFaoAABWyAAAVwQAAFcsAABYCAAAWQQAAFkcAABZNAAAWUwAAFlwAABZiAAAWbQAAFtAAABbWAAAW3AAAFuIAABboAAAW8QAAFvoAABcDAAAXDQAAFxoAABd7AAAXgQAAF4cAABeNAAAXlQAAF54AABenAAAXwQAAGBQAABgdAAAYIwAAGC0AABg2AAAYPAAAGGQAABhqAAAYeQAAGIIAABiRAAAYmgAAGKAAABimAAAYrAAAGLIAABi4AAAYvgAAGMQAABjKAAAY0AAAGNYAABjcAAAY5gAAGOoAABkaAAAZKAAAGTUAABk7AAAZRAAAGUoAABlQAAAZVgAAGVwAABlmAAAZbAAAGXIAABl4AAAZfgAAGYQAABmKAAAZkAAAGZYAABmcAAAZpgAAGbYAABnZAAAaAQAAGgoAABoTAAAaHgAAGicAABowAAAaOQAAGj8AABpFAAAaTgAAGl0AABpmAAAabwAAGnkAABqDAAAaiQAAGo8AABrAAAAaywAAGtsAABrkAAAa6gAAGvAAABr9AAAbAwAAGwkAABswAAAbXQAAG2MAABtpAAAbbwAAG3UAABt7AAAbgQAAG4cAABuqAAAb0wAAG+MAABvwAAAb/QAAHAgAABwOAAAcFAAAHEUAAByMAAAckgAAHJgAAByeAAAcpAAAHKoAABywAAActgAAHLwAABzCAAAcyAAAHM4AABzUAAAc2gAAHOAAABzmAAAc7AAAHPcAABz9AAAdGAAAHT4AAB1KAAAdUAAAHV4AAB1rAAAddwAAHX0AAB2DAAAdjwAAHZUAAB2eAAAdpAAAHaoAAB2yAAAdugAAHcIAAB3IAAAd0QAAHdcAAB3dAAAd4wAAHekAAB3vAAAd9QAAHgwAAB4SAAAeGAAAHjUAAB47AAAeYgAAHmYAAB5qAAAebgAAHnIAAB6NAAAepgAAHr0AAB7DAAAeyQAAHs8AAB7cAAAe4AAAHwAAAB8EAAAfEgAAHzIAAB82AAAfcQAAH6MAAB+/AAAfxQAAH+oAACAAAAAgBAAAIAgAACAMAAAgHQAAICEAACAlAAAgKQAAIEoAACB4AAAgfAAAIJIAACCpAAAgwAAAINsAACDvAAAg9QAAIRUAACErAAAhVwAAIXsAACF/AAAhsgAAIdgAACHmAAAiBgAAIgoAACJLAAAicwAAIo8AACKVAAAiwAAAItcAACL4AAAjDgAAIxIAACMjAAAjJwAAIysAACM7AAAjPwAAI3kAACN9AAAjkwAAI6kAACPAAAAj2wAAI+0AACPzAAAkEAAAJCYAACRSAAAkegAAJIAAACSGAAAknwAAJKUAACTRAAAk1QAAJNkAACTdAAAk4QAAJPsAACUSAAAlKAAAJS4AACU0AAAlOgAAJUcAACVXAAAlZwAAJXMAACV3AAAlgwAAJY8AACWbAAAlpwAAJa0AACWzAAAlwwAAJdMAACXjAAAl7AAAJgYAACYgAAAmOQAAJkcAACZeAAAmgAAAJpkAACagAAAmpwAAJrIAACbKAAAmzgAAJyQAACc2AAAnSAAAJ4wAACelAAAnyQAAJ/kAACglAAAoUQAAKH0AACipAAAotAAAKMIAACjUAAAo6gAAKQAAACkbAAApZgAAKXcAACmOAAAp2AAAKfwAACojAAAqOwAAKk0AACpcAAAqeAAAKpAAACqcAAAqvgAAKskAACrUAAAq7AAAKvAAACsEAAArGAAAKx0AAEAAAHfA04AKwB4AAwAAgAQAEAACAAABe0CIQAIAAQBZgEzAWYAvADpAAABPQCiAPoDHwACAAIAZgFmAAIAAgCsAVQA7AC8AGIBZgGBBIUBVAFmAW0EpAACAWYAfwTNAAAAAgEzAGIAcQAAACUEpAG8ALoA5QBmAYEBjQVIBVoBZgFtAAAAAAACAAIA9gXDAfAFOQI5AFgEbQQ9BLIEgQSyAWYBdQRmBIEAsARmBDkC0QScBHsEzwR7AFgBMwFmAUwBZgFMAAIArACaAUoBIwCaApoBRAEZAUQCzQDBAAABZgE/AZoBOwXLBcsA1QDVAVAArACsAHcCCgHHAfIBLwFYAbIBIwD2APYBHwEvATUCNQHuAecBMwCYANEDWAUKAJoAjwESAJgAvADNAOUA5QDyAHMEAAFmAI8F1QIrBdUAwwDhANcA5QAAAGoBAgAAAB0DLQXVBdUF8ACoAGoA7ADhAQIF1QYUByEEZgL4AOwBgwKmAvgBIwECAQIBEgEfAx8AXgPNBGAExwSJAOwBvAC6AQIDMwMfA0IDMwNcARIBHwXVAZoAmgDhBmYBeQRgBGAEYAR7AAAA7ALDArgCzQC+AN0A1QAAAGoCXAJ7ApoA3QGuAboBEgAAAIUBrgRgB2IEGwCaBpoEWADuAJoCmgDRAs0BmgFQBcsFywCLAIsGMQD2BAYA8ANMAWAEqADBAAAAJQXBAQABIQdKBhIAlgFKB4MAqAAAAzcAewAUAAAAyQEABcEFwQXBBcEBAAEIBh0AlgQnA54A7AECAn0BMwCYANEDWAF5AM0COQNiAJwAnACcAJMBuACTALgAcwAAFAADJkGEAoABJgD+AAMBJQARAAMBJAEhADoABQEkAPoAAwEjABYAAwEiASEAOgAFASIA/gADASEAOgADASAA+gADAR8AuwADAR4AZAADAR0A/gADARwAGQADARsAHgADARoA/gADARkA/gADARgA/gADARcA/gADARYA/gADARUBFAAOAAUBFQD+AAMBFAAOAAMBEwD+AAMBEgD+AAMBDwEOAH0ABQEPAP4AAwEOAH0AAwENAQwAjAAFAQ0A/gADAQ0AwAAEAQwBCwBZAAUBDACMAAMBDACAAAQBCwEKACYABQELAFkAAwELAEAABAEKACYAAwEJAP4AAwEIAP4AAwEHAAwAAwEHAIAABAEGspcuBUETAQYA+gADAQUA+gADAQQA/gADAQMAGQADAQIA+gADAQEA+gADAQBA/30D/z4D/v4D/PssBfz+A/ssA/r+A/n4RwX5fQP4RwP3+gP2/gP1/gP0/gPzuwPy/gPx/gPw/gPvHgPu/gPt7AoF7f4D7AoD7EAE6+oKBesyA+oKA+n6A+iRFgXo/gPn+gPm+gPlkRYF5f4D5P4D4/4D4v4D4f4D4P4D3/4D3voD3dwYBd1kA9wYA9ugHgXbZAPa2SUF2voD2SUD2NElBdj6A9fWFAXXFgPW1RAF1hQD1RAD1NMLBdQgA9MLA9LRJQXS+gPRkRYF0SUD0JQMBdAjA8/OFAXPJgPOzRIFzhQDzRIDzJEWBcwdA8sUA8rJuwXK/gPJyF0FybsDyYAEyED/xyUFyF0DyEAExyUDxv4DxWQDxJAQBcT+A8McA8L+A8H+A8C/OgXA+gO/rRsFvzoDvr0aBb4yA728EQW9GgO8uw8FvBEDu7oMBbsPA7oMA7mRFgW5/gO4/gO3FQO2EgO1/gO0/gOz/gOyFwOxGQOwFgOvrRsFr/oDrq0bBa76A62RFgWtGwOskRYFrH0Dq/4DqiYDqf4DqP4Dp/4Dpv4DpQoDpP4Do6IOBaP+A6IOA6JABKGgHgWh+gOgkRYFoB4Dn5EWBZ/6A56UDAWeHAOd/gOcm7sFnP4Dm5pdBZu7A5uABJqPJQWaXQOaQASZ/gOYly4FmP4Dly4DlpEWBZYeQP8DlZQMBZUgA5QMA5ORFgWTSwOSkRYFkv4DkZAQBZEWA5AQA48lA47+A43+A4z+A4v+A4r+A4n+A4iHJQWI/gOHJQOG/gOF/gOEMgODlgOC/gOB/gOAGQN/CgN+/gN9/gN8/gN7+gN6+gN5/gN3dqYFd/4DdqYDdXQbBXX6A3QbA3P6A3J9A3H+A3BvLAVvLANu+gNt+gNs+gNr/gNq/gNp/gNoYwwFaDIDZ/4DZjIDZWQKBWX+A2QKA2RABGNiCgVjDANiCgNhYBUFYZYDYAERBWAVA18KA17+A13+A1wBEQVc/gNbWhsFW/4DWgERBVobA1n+A1j6A1f+A1YBEQVA/1b+A1X+A1QeA1MUA1JRGQVS+gNRAREFURkDUE8ZBVD6A09OEQVPGQNOEQNNHgNMSxQFTBUDS0oRBUsUA0pJDgVKEQNJDgNI+gNHRhQFRxUDRhQDRfoDREMOBUQPA0MOA0JBJQVC+gNBAREFQSUDQD8PBUD+Az8+DgU/DwM+DgM9PA0FPRYDPA0DO2QDOv4DORQDOP4DNxMDNjUaBTYlAzU0FAU1GgM1wAQ0Cg0FNBQDNIAEMzIMBTMUAzNABDIMAzEwpgUx/gMwAREFMKYDLwwDLhMDLSw6BS36AywVJQUsOgMrZAMqZAMp/gMoFQMnFxEFJx4DJiADJR4DJCMRBUArJB4DIxEDIgANBSL6AyEPAyFABCAUAx8KAx4eAx0cGQUdJQMcDxMFHBkDHLgBAECRBBsNAxoZSwUafQMZAREFGUsDGP4DFxEDFhUlBRb6AxUBEQUVJQMUZAMTEQMS/gMRAREFEf4DEGQDDw4QBQ8TAw/ABA4QAw6ABA0BEQUN+gMMMgMLCg0FCxYDC4AECg0DCkAECf4DCP4DB/4DBgUKBQb+AwUKAwVABAT6AwNkAwIBEQUC/gMBAA0FAREDAA0DAbgBZIWNASsrKysrKysrKysrKysrKysrKysrKysrKysrKysrKysrKysrKysrKysrKysrKysrKysrKysrKysrKysrKysrKysrKysrKysrKysrKysrKysrKysrKysrKysrKysrKysrKysrKysrKysrKysrKysrKysrKysrKysrKysrKysrKysrKysrKysrKysrKysrKysrKysrKysrKysrKysrKysrKysrKysrKysrKysrKysrKysrKysrKysrKysrKysrKysrKysrKysrKysAKysrKysrKysrKysrKysrKysrKysrKysrKysrKysrKysrKysrKysrKysrKysrKysrKysrKysrKysrKysrKysrKysrKysrKysrKysrKysrKysrKysrKysrKysrKysrKysrKysrKysrKysrKysrKysrKysrKysrKysrKysrKysrKysrKysrKysrKysrKysrKysrKysrKysrKysrKysrKysrKysrKysrKysrKysrKysrKysrKysrKysrKysrKysrKysrKysrKysrKysrKysrKysrKysrKysrKysrKysrHQACAGb+lgRmBaQAAwAHAB+8AAQBJgAAAAYBJrYBCAWJAgQAL8TU7DEAENTs1OwwExEhESUhESFmBAD8cwMb/OX+lgcO+PJyBikAAAAAAgEfAAAChwXVAAUACQAfQA8DjAaLAI0IBAMHAQIGAAoQ1DzsMjk5MQAv5PzsMAEhEQMhAxEhESEBHwFoM/7+MwFo/pgF1f3D/l4Bov3M/pwAAAAAAgDDA6oDaAXVAAMABwAeQA8FAY4EAI0IAAQCBAQGAwgQ/Pzc7DEAEPQ87DIwAREjESMRIxEDaO3L7QXV/dUCK/3VAisAAAAAAgCLAAAGKQW+ABsAHwBLQDEZBQGSHBcHEw8Lkh4VCQMAjxENHx4dHBsaGBcWExIREA8ODQwKCQgFBAMCAQAaBhQgENTMFzkxAC885DLUPDzsMjLUPDzsMjIwAQMhEzMDIRUhAyEVIQMjEyEDIxMhNSETITUhEwEhAyEDj2ABCGHdYQEV/rZFARz+sGDdYP74YN9g/ukBSEb+5QFSYAFQ/vhGAQgFvv5/AYH+f9X+7tf+gQF//oEBf9cBEtUBgf2q/u4AAAMAoP7TBQYGFAAjACoAMQBzQD8cCgYlGxgRFxQkCx0rBBgGCSwjAgWWBpUsF5YYlRuTEhQskwACCygBHS8ABQ4GKCQRCQMBBysbEwMALwYXIDIQ1MT81Bc8/Bc81PzEERI5ERI5MQAvxOzUxPz07BD17hE5ETkREhc5ERI5ERI5Ejk5MAEjAy4BJxEeARcRJy4BNTQ2PwEzFR4BFxUuAScRFx4BFRQGBwMRDgEVFBYTET4BNTQmAxuiAX3qb3PreSHvyfXjAaJkyGVkyGUg/s3096JHVU7wV1dQ/tMBLQUuKQEGOz8EATcGKrSps8kJ5+MIIhv+Ki8F/uEGKLu3uMUOA0IBBQRFNTtD/rH+6gFCQkRDAAUAQv/jB8MF8AALABcAGwAnADMAY0A1GwsaGhkZCxgYGyUAnQwunSKZKJ0aBp0MmRgSmBwanDQZMSsbCQMIFQkJCA8xCB8JKwgPJTQQ3MTs9OwQ7vbuETkREjkxABDkMvQ85OwQ7vbuEO4wS1NYBxAF7QcQBe1ZIgEiBhUUFjMyNjU0JicyFhUUBiMiJjU0NgEjATMhMhYVFAYjIiY1NDYXIgYVFBYzMjY1NCYGM0dOTUhITE1HutbWurrX1/0l3QOl3vuNutXVurrV1bpITk5ISE1OAmh7cnN7e3Nye6jYvb3b27282fzTBg3Zvb3a2r292ah8cnN9fXNyfAAAAAACAHv/4wakBfAAJgAwATZAWQwBDQsPCQgKDwgJCCwtLi8EKzAPAQEAKAEpJw8AAQAlMCcIAQQECy0JFAAEHpEdLaEOIZ8dnhqcDpgECScqACQBHQgFBAswJB0UKiQNHRcEAQUJFyoNEQwxEPzsxNTU7BDG7hI5ERI5ORESORI5ETkSOTEAL8bk9ubuEO4Q7hE5ORESOREXOTBLU1gHEA7tERc5BxAO7REXOQcQBe0HBe0RFzlZIrIIJwEAXUCEBgAPAw8ECQkPCg4LCScLMBYAHwMfBBkJHQodCxwwJQAvCi8LJSY/Cj8LQAdLCksLSy9LMFoBWgJVB1oKWgtVKFwuXDBYMl8yZABpAmcHYAdpCmkLZCaAMiwJCwonGQsaJyoLOQs1HDAdMB41H0ACSgtJJ0koVwFXAlwLWydnAmcHbAsVXQFdCQE+ATchBgIHASEnDgEjIAA1NDY3LgE1NDYzMhYXES4BIyIGFRQWAw4BFRQWMzI2NwMfAZk1NwUBNw9vYwEl/lhiaeiC/vn+u4+iKij+01vFa16oUE1VMZdBQqp3Q3QyA9/+Pkaubrb+5Gv+vm1GRAEV25LhajVqOqPEHR3+6jAuOzYiV/7TL3dHc6IpKQABAMMDqgGwBdUAAwAVQAoBjgCNBAAEAgMEEPzsMQAQ9OwwAREjEQGw7QXV/dUCKwABALD+8gMEBhIADQAfQA8ApAejDgcBBAgACxEEEA4Q/PzEMhI5OTEAEPzsMAEhJgI1NBI3IQYCFRQSAwT+15mSk5gBKYCAf/7y9wG929sBwfXt/jvd3f46AAAAAAEApP7yAvgGEgANABxADQCkBqMODQcKEQYAAw4Q1MQy7Dk5MQAQ/OwwEzYSNTQCJyEWEhUUAgekgICAgAEpmJOSmf7y7gHG3d0Bxe31/j/b2/5D9wAAAAABACkCOQQGBfAAEQBGQCgQDQsKCQcEAgEACgwIAwWlEQwOnBIIDAoDCQYRAwEDAgAPBAsJDQYSENQ8xDLcPMQyFzkREhc5MQAQ9MQy9MQyERc5MAENAQclESMRBSctATcFETMRJQQG/rYBSkz+s6r+skwBTv6yTAFOqgFNBMGtro24/qgBWLiNrq2NtgFY/qi2AAAAAQDZAAAF2wUEAAsAIkAQAAcDpwkBpgUIBAASAgoGDBDUPMT8PMQxAC/0PPw8xDABESEVIREjESE1IRED0QIK/fbu/fYCCgUE/fTs/fQCDOwCDAAAAQBt/t0COQGDAAUAGUAMA6kAqAYDBAECABMGEPzs1MwxABD87DATIREDIxPRAWj31WQBg/7P/osBdQAAAQBvAbwC4wLfAAMAErcCqwCqBAEABBDUxDEAEPTsMBMhESFvAnT9jALf/t0AAAAAAQDRAAACOQGDAAMAEbcAqAIBAgATBBD87DEAL+wwEyERIdEBaP6YAYP+fQABAAD/QgLsBdUAAwATtwIAjQQCAAEDL8Q5OTEAEPTMMAEzASMCDt798d0F1fltAAACAGL/4wUvBfAACwAXACNAEwmsDwOsFZwPmBgAFgwXBhYSFBgQ/Oz87DEAEOT07BDuMAEQJiMiBhEQFjMyNgEQACEgABEQACEgAAOuaXx8amp8e2oBgf7A/tr+2f7AAUABJwEmAUAC7AEY5eX+6P7l6OgBGP6N/m0BkwFzAXQBk/5tAAABAOcAAAUEBdUACgAoQBUDrgQCrgWNBwCuCQgYBhoDABgFAQsQ1MTsxPzsMQAv7DL07NTsMBMhEQURJSERIREh8AFU/qMBWwFuAVT77AEKA8VIAQZI+zX+9gAAAAEAogAABN8F8AAYAItAKQAdBAUEFwEWGB0FBQQlBRgADpAPC6wSnAQArwIYFQUADggWFQEbDgMZENxLsA1UWLkAA//AOFnE/NTsETk5ETkxAC/sMvTs1OwROTkwS1NYBxAO7REXOQcQBe1ZIgFAJgIXKhYqFwMDAA4XBRgXFxcYIgAiFyIYNQA1FzUYQgBKBUYXRhgPXQBdASERIREBPgE1NCYjIgYHET4BMyAEFRQGBwJOApH7wwIhSUaNdVrWeoL+egEMASl+ygEb/uUBGwHhQn5EaYBNTAFIKy3s03rTsQAAAAEAif/jBO4F8AAoAExAKwAVrBMJlgqxDawGIJYfsRysE7AjnAaYKRYTGRQAEBkWJhAWAx8UHyAJHikQ/OTE/OzU7BI5ERI5OTEAEOT05Pz07BD+9e4Q7jkwAR4BFRQEISImJxEeATMyNjU0JisBNTMyNjU0JiMiBgcRPgEzIAQVFAYDuped/qz+unPncWzVZ5mjp6OaopGOin5dvl5y4GwBIwEhigMlJ8GV3uclJQEpNjdqY2Zp+FtdVl4qKQEaICC/wIOnAAAAAgBcAAAFMwXVAAIADQBDQCABIQ0DDQAhAwMNJQADCweuBQEDjQkBDAoAGgYIBAwUDhD81DzE7DIROTEAL+TUPOwyEjkwS1NYBxAE7QcQBe1ZIgkBIQMhETMRIxEhESERAvL+WgGmQAGs1dX+lP1qBJj9jwOu/FL+6f7wARABSgABAJ7/4wUCBdUAHQA9QCIEBx2VGqwHEJYRlRSsB7INAq8AjQ2YHgMiAAEXFgofABAeENzE/OzEEO4xABDk9OwQ5v717hD+5BI5MBMhESEVPgEzIAAVFAAhIiYnER4BMzI2NTQmIyIGB9kDvf12LFkwAREBMP61/tp/+Xt622GMoaGMU7xsBdX+5ecMDf7v9PL+7jEyAS9GRol1dogrLQAAAgB//+MFIwXuAAsAJAA3QB8TAKwWBqwcDJYNlRCsIpwcmCUMCRoZAyUTGhkXHyQlEPzs/OQQ7sQxABDk9Pz07BDu1u45MAEiBhUUFjMyNjU0JgERLgEjIgYHPgEzMgAVFAAhIAAREAAhMhYC5WVlZWVmZWUBdl+oUKzAEEKaW+UBGf7G/vj+3f7BAXUBRWfCAuGDg4ODg4ODgwLN/uwtK7+8MTH+9Nnw/t8BiQFpAXIBpyAAAQCJAAAE7gXVAAYARUAXBRkCAwIEGQMDAiUFrwCNAwUEAwMBAAcQ3MwXOTEAL/TsMEtTWAcQBe0HEAXtWSKyBwMBAV1ACwcDGgUmAzUDRgMFXRMhFQEhASGJBGX9uv6JAif9MQXV2fsEBLoAAwB9/+MFEgXwAAsAIwAvAEdAKBgMJ6wABqweALAtrBKcHpgwGBUJDAMkGg8qGhUmCRobJwMaDyYhJDAQ/OTs/Oz07BDuEjkREjkxABDk9OzkEO4Q7jk5MAEiBhUUFjMyNjU0JiUuATU0JCEgBBUUBgceARUUBCEgJDU0NhMUFjMyNjU0JiMiBgLJbHR0bGtycv58iIoBGgERAQ8BGouImJv+2f7e/t3+15vyY1xaYmJaXGMCnHZubnV1bm91fymqf73Gxb5/qikqvZDe4+PekL0BVVlgYFlZX2AAAAIAav/jBQ4F7gAYACQAN0AfBxmsCgCWAZUErBYKH6wQnBaYJRwlBxoTFwAiGg0kJRD87MT8/OQxABDk9OzEEP717hDuOTA3ER4BMzI2Nw4BIyIANTQAISAAERAAISImATI2NTQmIyIGFRQWzVyoUqzAEUSaWuX+5wE5AQcBJAFA/or+umnAAX9lZmZlZWZmIQEUKyu/vDIyAQva8QEi/nb+mP6O/lkfAu6Dg4KEhIKDgwAAAAIA5QAAAk4EYAADAAcAHEAOAqgAswSoBgUBAgQAEwgQ/DzsMjEAL+z07DATIREhESERIeUBaf6XAWn+lwRg/n3+pv59AAAAAAIAgf7dAk4EYAAFAAkAJUATCKgGA6kAqAazCgMEBwECBgATChD8POwy1MQxABDk/OwQ7jATIREDIxMRIREh5QFp+NVkAWn+lwGD/s/+iwF1BA7+fQAAAAABANkAPQXbBMcABgAfQBAFBAIBAAUDtQa0BwECAAQHENTEMjkxABD07Bc5MAkCFQE1AQXb/DwDxPr+BQIDzf60/rb6Ac/sAc8AAAAAAgDZAScF2wPbAAMABwAcQA0ApwK2BqcECAUBBAAIENQ8xDIxABDU7PzsMBMhFSEVIRUh2QUC+v4FAvr+A9vr3O0AAAABANkAPQXbBMcABgAfQBAGBQMCAAUEtQG0BwYCBAAHENQ8xDkxABD07Bc5MBM1ARUBNQHZBQL6/gPFA836/jHs/jH6AUoAAAACAI0AAAQfBfAAHQAhAEhAJx0aBQIEBhkPAIweEJEPlQyhE40eiyAGBQkBGhkACQIWDx8AAh4BIhDUPOwy1NTsEjk5ERI5OTEAL+z0/PTsEO0ROTkXOTABITU0Nj8BPgE1NCYjIgYHET4BMzIEFRQGDwEOARUFIREhAsX+l0JqQDk1YFZRvGZ5yF30AQBOXkBEKv6XAWn+lwH4MVJ/Yjo0XC5GT0NCAToqKMe/YptZOT5LLcH+nAAAAgCH/pwHbwWgAAsATQBsQDoMDwM0MExNMw8YGQkbA7gPMzAJuBkVMLgPtzckuBW3Q49OMzRMGgYYDCoaACoSHikaKEkSKCopND1OENTE7OzU7OwQ7hD+PMYSORE5MQAQ9Ozs1OzsEMTuEMQQ7jIREjkREjk5ETkREjkwARQWMzI2NTQmIyIGAQ4BIyImNTQ2MzIWFzUzET4BNTQmJyYkIyIGBwYCFRQSFxYEMzI2NxcGBCMiJCcmAjU0Ejc2JDMyBBceARUQACEjAz9pWllqa1pYaQGaHoVZrNfYq1mFHtF8jjo7X/7jpnTUWpSla2VkAQOTfvxZa33+2Zi5/riAgIaIfn4BT7TgAW57S03+uv7XJwIbe46PenmNjf5aR0/5yMj6UEeD/UsTyZ1kr0l6hD07Yv7JtZX++2RiZ15QomFng319AUm9tgFKfXyIq6Fi5X7+8f7UAAACAAoAAAYnBdUABwAKAP5AQAAdBgUHHQYGBQodCAoFBgUJHQYGBQIdBAMBHQQDCB0DBAMKHQkKBAQDJQoEAK4IBI0GAgoJCAcFBAIBAAkGAwsQ1LIfAwFdxBc5MQAvPOTU7BI5MEtTWAcQCO0HEAXtBwXtBwXtBxAF7QcQCO0HEAXtBwXtWSIBQIAYCi8KVgpmCn8AfwF/CH8JdAqKCp8Kvwq/Cs8KzwrfChASCBwJHwwlCCoJIAxJBEYFRwhICVgDWQRWBVcGaANpBGYFZwZgDHQAewF6BHUFewh0CYkEhgWGCIkJmQSWBZUImgm2CLkJywDFAcUCywfCCM0J2QDWAdYC2QfVCNoJL10AXQEhAyEBIQEhASEDBEb9pl/+fQIpAcsCKf59/agBmcwBEP7wBdX6KwIlAlIAAAAAAwC8AAAFiQXVAAgAEQAgAFBAJRIAuQ++BrkajQm5GAYABwMSHgwPCRgbBAcDFh4MFhUQBxYZAyEQ/Owy1OzU7BEXORESORESOTkxAC/s9Oz07DkwQAkAIhAiLyJQIgQBXQEyNjU0JisBERMyNjU0JisBEQEeARUUBCkBESEgBBUUBgMSW15eW9XidHV0deICSHyI/tz+1v2BAkIBNwEXZgOTUE5NUf7E/XNiY2Fh/nkCGSTCjdjUBdW8z22ZAAAAAQBm/+MFXAXwABkAO0AaDBAJABYDDRAZFq4DEK4JnAOYGhMtDAAGKxoQ/MQy7DEAEOT07BD+xBDFERI5ERI5MLQvG18bAgFdJQ4BIyAAERAAITIWFxEuASMiAhUUEjMyNjcFXGrmff6L/kwBtAF1feZqa9BzzuzsznPQa1I3OAGhAWUBZgGhODf+y0lE/vjo5/74REkAAAACALwAAAY5BdUACAAXAC5AFQDACY0BwBYIAhYKAAUtEC4AFgkDGBD87PzsETk5OTkxAC/s9OwwslAZAQFdAREzMjY1NCYjASEgBBcWEhUUAgcGBCkBAj2K7Pn47f31AZYBVAFNd2lmZml4/rD+sP5qBLL8cerf3ugBI2F0Zf74p6n+92V0YQAAAQC8AAAE4QXVAAsAMEAUBMAGvgLAAI0IwAoBBQkHAxYAAwwQ/Owy1MTEMQAv7PTs9OwwthANUA1wDQMBXRMhESERIREhESERIbwED/1yAmf9mQKk+9sF1f7d/ur+3f6q/t0AAAEAvAAABMsF1QAJACtAEQTABr4CwACNCAUBBwMWAAMKEPzsMtTEMQAv9Oz07DC2EAtQC3ALAwFdEyERIREhESERIbwED/1yAmf9mf5/BdX+3f7q/t39hwABAGb/4wX6BfAAHQBLQCUZGhYMEAkAFgMNEBq5HBauAxCuCZwDmBweGxkxDDMALxMtBiseEPzs9OT8xDEAEMTk9OwQ7hDuEMUREjkREjkREjkwsl8fAQFdJQYEIyAAERAAITIEFxEuASMiAhUUEjMyNjcRIxEhBfqQ/sql/ov+TAG8AYKVARF5ffd85vnw3TxnKesCWG9GRgGhAWUBaQGeODf+y0dG/v/v7f7+DxABIgECAAABALwAAAX2BdUACwA+QBMCwAi+BACNCgYHAxYFCQEWAAMMEPzsMtTsMjEALzz0PPTsMEAVDwMPBA8FDwYPBw8IUA1gDXANnw0KAV0TIREhESERIREhESG8AYECOAGB/n/9yP5/BdX9xwI5+isCef2HAAAAAAEAvAAAAj0F1QADACy3AMECARYAAwQQ/EuwD1RLsBBUW1i5AAAAQDhZ7DEAL+wwAbYQBUAFUAUDXRMhESG8AYH+fwXV+isAAAH/jf5mAj0F1QALAEFAEwsCAAfABcIAjQwFCAYBFgYAAwwQ/EuwD1RLsBBUW1i5AAAAQDhZxOwSOTkxABDk/OwROTkwAbYQDUANUA0DXRMhERAAISMRMzI2NbwBgf7R/s1OPHh7BdX6vP7p/uwBI4aCAAAAAQC8AAAGcQXVAAoAgUATCAUCAwMAwQkGBQEEBggBFgADCxD87DLUxBE5MQAvPOwyFzkwQFYWBRYGEAw8AzsHTANLB1sDWAVdB28DZwVnBmAGaAdgDH8DeAd/B3AMhQSGBqoHFycCMgI7CEICSwhUAlkFWAhfCGACZgVtCHACeAV7CH8IigWNCKsIE10BXRMhEQEhCQEhAREhvAGBAisBv/0xAxn+Hv2u/n8F1f3fAiH9PfzuAkz9tAAAAAABALwAAAThBdUABQAXQAsCwACNBAEWAwADBhD8xOwxAC/k7DATIREhESG8AYECpPvbBdX7Tv7dAAEAvAAABzkF1QAMAM5AMwM2BwgHAjYBAggIBwI2AwIJCgkBNgoKCSUKBwIDAAgDAMELBQkIAwIBBQoGMQQKMQADDRD87NTsERc5MQAvPOwyxBEXOTBLU1gHEAXtBxAI7QcQCO0HEAXtWSKyDwMBAV1AZgkCDwgPCR8CFQcfCB8JFQorAj8CSAJPAkwHTApXAlkHWQpoAm8HbwqVApAIkAmpArAHsAoaBAEEAwAOFgEZAxAOKgElAzoBNQNPAUADRwhWCFkJUA5oAWcDZQhqCWAOhQiKCZcIGF0AXRMhCQEhESERASMBESG8AeoBVAFWAen+lP6o9P6o/pMF1fzhAx/6KwRE/NsDJfu8AAABALwAAAX2BdUACQB8QB0HNgECAQI2BgcGJQcCAwDBCAUGAQcCMQQHMQADChD87NTsETk5MQAvPOwyOTkwS1NYBxAE7QcQBO1ZIrIPBwEAXUA0CgYACxkGOAFHAUoGVgFZBlALZwFoBmALugG2Bg4ZAhoHPgIzB0kCTwJAB1UCWgdmAmkHC10BXRMhAREhESEBESG8Aa4CHwFt/lL94f6TBdX8AAQA+isEAPwAAAAAAAIAZv/jBmYF8AALABcAMkATBq4SAK4MnBKYGAktDzcDLRUrGBD87PzsMQAQ5PTsEO4wQAsAGRcTEBkvGT8ZBQFdASICFRQSMzISNTQCAyAAERAAISAAERAAA2awwsKwscLCsQFoAZj+aP6Y/pn+ZwGZBNn+/Ozr/vwBBOvsAQQBF/5k/pX+lv5kAZwBagFrAZwAAAACALwAAAWJBdUACgATADFAFgyuBwuuAI0JEw0HAQgQLQQLCBYAAxQQ/Owy1OwROTk5OTEAL/Ts1OwwsgAVAQFdEyEgBBUUBCEjESEBETMyNjU0JiO8An8BHQEx/s/+4/7+fwGB1XB6enAF1f3q6/39+gS+/l9tZGRsAAAAAgBm/tUGZgXwAA8AGwBiQBoNFq4AEK4HnACYDhwOCgENExktCjcTLQQrHBD87PzsETk5ETkxABDE5PTsEO45MEAsCAwAHRkMEB0nAC8dVgxTDWYMYA13DHcNcA0NBwxZC1kNWRRYGGoLaQ14DAhdAV0FIyAAERAAISAAERQCBwEhASICFRQWMzISNTQCA48e/o/+ZgGZAWcBawGV18oBLf6R/uOwwr60scLCGwGYAWwBawGc/mj+kfz+lFz+sAYE/vzs8P8BBOvsAQQAAgC8AAAGAAXVAAgAHACHQDIbGgIcGR0WFxYYHRcXFiUZFgoTAK4JBq4MjRcKFhMYAxAcGQYABA0HAxYXEAkHFgsDHRD87DLUxOwRORc5ERc5MQAvPPTs1Ow5Ejk5MEtTWAcQBe0HEAXtERc5WSKyGBwBAV1AHxsYGxkaGhsbGhw2FTYWRRVFFlYVVhZQHmUVZRZgHg9dATI2NTQmKwEZAiERISAEFRQGBx4BFxMhAy4BIwLfeWlpeaL+fwJMAScBE4+QT31A0f5mtjdxXgM/WmdmWP6B/vb9ywXVxtaUvi0Sf4H+WAFzcFIAAAABAJP/4wUtBfAAJwCnQCoAJQQUGBEKCx4fBBUBwwQVwxiuEQSuJZwRmCgeCgsfGwcAGxkOFAcZIigQ3OzE1OzEERI5OTk5MQAQ5PTsEP7lEOURFzkREjkREjkwQFRwKQE5HTkeOR85IEoeSh9KIFgKXR1cHl4fXiBaIWocbx1vHm8faCBvIG4hdAt0DHQNfB98IHwhlguXDJsemh+cIJohpgumDKYNqh2qHqofqiCqIShdAV0BES4BIyIGFRQWHwEeARUUBCEiJCcRFgQzMjY1NCYvAS4BNTQkITIEBMt76miKhFl1pPnS/tv+047+4o+PAQt8foZbiJXgzwEgAQ57AQQFpv7ENzhMUDxDGCEyzLz38TY1AUVMTVRORkweITDSst/wJQAAAAEACgAABWoF1QAHADNADgYCwACNBAE4AxYAOAUIENRLsApUS7AOVFtYuQAFAEA4Wez87DEAL/TsMjABskAJAV0TIREhESERIQoFYP4R/n/+EAXV/t37TgSyAAAAAQC8/+MFwwXVABEAM0AXEQsIAgQABcAOmAkAjRIIFgo5ARYAAxIQ/Oz87DEAEOQy9OwRFzkwtkATcBOfEwMBXRMhERQWMzI2NREhERAAISAAEbwBgXmJinkBgf7C/rr+u/7CBdX8gbmfn7kDf/yB/sP+ygE2AT0AAQAKAAAGJwXVAAYAg0AnAx0EBQQCHQECBQUEAh0AAgYABgEdAAAGJQIDAMEFBgUDAgEFBAAHENS0jwAfAAJdxBc5MQAv7DI5MEtTWAcQBe0HEAjtBxAI7QcQBe1ZIgFALAACEAIgArACBAcBCAMXARgDGAQXBR8IIAhHAEcBSANIBEUFSgZXAVgDjwgRXQBdEyEJASEBIQoBgwGMAYsBg/3X/jUF1fuyBE76KwAAAAABAD0AAAiTBdUADAFtQEoGHQcIBwUdBAUICAcKNgsKBAUECTYFBQQLNgIDAgo2CQoDAwICHQMCDAAMAR0AAAwlCgUCAwYDAMELCAwLCgkIBgUEAwIBCwcADRDUS7AJVEuwClRbS7ALVFtLsAxUW1i5AAAAQDhZzBc5MQAvPOwyMhc5MEtTWAcQBe0HEAjtBxAI7QcQBe0HEAXtBxAI7QcQCO0HEAXtWSIBQMwDChUCEAIUBRAFEAolCiAKIAo6Aj8COgU/BTMKMAowCkAKQApACl4CXgVhCrgCsQqwCrAKGgUCCgUJCAkJBQsGDBYCGAMXBBkFFQgUCRoLGgwnAigDJwQoBSUIKgwvDjYCNgMyBDIFMAYwBzAIMgk0CjYLPw5JA0YESAVFCUoLXQBdAVoCWgNVBFUFUgZSB1IIWglVC10MbwBvAW8CbgNoBGgHZQhoCWsKbgtpDG8MdwN3CHgJdgt4DIgHhQiJDLcCugO2BLgFsQi+DEtdAF0TIQkBIQkBIQEhCQEhPQFxAQIBAAFzAQABAgFu/qD+RP7x/vT+RAXV+8MEPfvDBD36KwRv+5EAAAAAAQAnAAAGAgXVAAsA8EBFBB0FBgUDHQIDBgYFCh0LAAsJHQgJAAALCR0KCQYHBggdBwcGAx0EAwABAAIdAQAlCQYDAAQKB8EEAQkGAwAEBwsBBwUMENRLsApUS7APVFtLsBFUW1i5AAUAQDhZxNzEERc5MQAvPOwyFzkwS1NYBwXtBxAI7QcQBe0HEAjtBxAI7QcQBe0HEAjtBxAF7VkiAUBYCAMPAwYJAAkfAxAJLwMmCSAJPAMzCV8DUAmPA4AJvwOwCREJAgYEBggJChsCFAQUCBsKKwArAiUEJAYlCCsKOgI1BDUIOgpQDWUAagZvDbkCtQS1CLoKGl0AXQkBIQkBIQkBIQkBIQP8Agb+b/6j/qb+bQIG/g4BkgFHAUYBlAL6/QYB/v4CAvoC2/4fAeEAAAAB/+wAAAXfBdUACACVQCgDHQQFBAIdAQIFBQQCHQMCCAAIAR0AAAglAgMAwQYCBwQ6BRYAOgcJENRLsAlUS7ANVFtLsA9UW1i5AAcAQDhZ7PzsEjkxAC/sMjkwS1NYBxAF7QcQCO0HEAjtBxAF7VkiAUAsAAIQAiACJQUlCDACQAJQAmACsAIKCgAFBBUBGgMlASoDNQE6AzAKTwpvCgtdAF0DIQkBIQERIREUAaUBVAFUAab9x/5/BdX97AIU/KD9iwJ1AAAAAAEAXAAABXEF1QAJAGJAGgMdBwgHCB0CAwIlCMAAjQPABQgDAAEEAAYKENS0HwYPBgJdxNzEETk5MQAv7PTsMEtTWAcQBe0HEAXtWSIBQB8FAwsIFQMaCCUDKQg2AzkIPwtGA0gITwtWA18LbwsPXRMhFQEhESE1ASFzBOf83wM4+usDIfz2BdXp/Df+3ekDyQAAAAABALD+8gMdBhQABwAfQBAExAakAsQAowgFAQMRABAIEPz8zDIxABD87PzsMBMhFSERIRUhsAJt/ucBGf2TBhTh+qDhAAEAAP9CAuwF1QADABO3AAGNBAIAAwEvxDk5MQAQ9MwwBQEzAQIO/fLdAg++BpP5bQAAAAABAIv+8gL4BhQABwAeQA8CxACkBMQGowgAEQUBAwgQ1Mwy7DEAEPzs/OwwASE1IREhNSEC+P2TARn+5wJt/vLhBWDhAAEAzwOoBeUF1QAGABhACgMEAQCNBwMBBQcQ1Mw5MQAQ9MwyOTAJASMJASMBA9UCEPH+Zv5n8gIQBdX90wEt/tMCLQAAAQAA/h0EAP7bAAMADrQAAQQAAi/EMQAQ1MwwARUhNQQA/AD+276+AAEAXgTuApMGZgADAE63AcYAxQQBAwQQ1MwxABD07DAAS7AJVEuwDlRbWL0ABP/AAAEABAAEAEA4ETc4WQFLsAlUWL0ABP/AAAEABAAEAEA4ETc4WbQaAhoDAl0JASMBAXkBGsT+jwZm/ogBeAAAAAACAFj/4wTFBHsACgAlAJ1AKgkGABkfCwDSF88Gnw7QESDMH8scnyPKEZgMACMXAxgNCQ0LPR8DDRQ7JhD87MT07DIyETk5OTEAL+T0/PTsEObu9u45EjkREjkwQEwvJz0gPSE/J00gTSFdIF0hbiBuIX4gfiFwJ4wgjCGdIJ0hrSCtIb0gvSEVMh4wH0MeQB9THlAfYx5gH4UegB+THpAfoh6gH7IesB8QXQFdASIGFRQWMzI2PQElESE1DgEjIiY1NCQhMzU0JiMiBgcRPgEzIAQConBxW1FligFp/pdItIGu2QEPASLTho5zxlVz6HQBLwENAfhMSkRNkW0ph/2BpmZdy6LFuBxVTy4uAREcHe8AAAACAKz/4wVeBhQACwAcADhAGwahDNAPAKEVmA/KG6MY0BkDQhJAGAwJDRoQHRD87DIy9OwxAC/k7OT07BDm7jC0Tx5gHgIBXSUyNjU0JiMiBhUUFgM+ATMyABEQACMiJicVIREhAwBzeXlzc3t7e0q0dc8BCv72z3W0Sv6aAWbnqKCgqKmfn6kC1WJd/rf+/f79/rddYqIGFAAAAAABAFj/4wQ1BHsAGQA3QBoAzAHUBA7MDdQKoREEoRfKEZgaB0INABQ7GhD8xDLsMQAQ5PTsEP707hD17jC0Xxt/GwIBXQERLgEjIgYVFBYzMjY3EQ4BIyAAERAAITIWBDVJk0+Wp6eWVJdAVK1X/tH+qgFWAS9YqwQ9/twyMK+dna8yMf7bHx8BNwEVARUBNx8AAAAAAgBc/+MFDgYUABAAHAA4QBsXoQDQDhGhBdAImA7KAaMDFAQADQJAGkILOx0Q/Oz07DIyMQAv7OT05OwQ5O4wtE8eYB4CAV0BESERITUOASMiABEQADMyFgMyNjU0JiMiBhUUFgOmAWj+mEqydc/+9gEKz3SzonN5eXNyeXkDvAJY+eyiY1wBSQEDAQMBSV38yaigoKiooKCoAAAAAgBY/+MFCgR7ABQAGwBDQCEAFdgBCcwI1AWfDAHXGJ8SygyYHBsVAggVDQBEAg0POxwQ/Oz07MQREjkxABDk9OzkEP707hDuOTC0Lx0/HQIBXQEVIR4BMzI2NxEOASMgABEQACEgAAU0JiMiBgcFCvy7DZyMce19f/5//tD+rwFLASIBCAE9/pB3YGiCEAIzZn5+Q0T+7DAxATUBFwESATr+wpNmfXVuAAAAAAEAJwAAA40GFAATAFFAHBAFAQwIoQYBnwCjDgazCgITBwAHCQUNDUUPCxQQ3EuwDVRLsA5UW1i5AAsAQDhZPOz8PMTEEjk5MQAv5DL87BDuMhI5OTABQAWAB4AIAl0BFSMiBh0BIREhESERIxEzNTQ2MwONxkw8ATL+zv6asrLM1gYU6zdETv8A/KADYAEATrevAAACAFz+RgUOBHkAHAAoAEtAJhwPAwAVzBbUGZ8SHaEM0AnKDbMjoRLaANADJgwADQ5AFSBCBjspEPzsxPTsMjIxAC/k5Ozk9OTsEP717hESOTkwtE8qYCoCAV0lDgEjIgA1NAAzMhYXNSEREAAhIiYnER4BMzI2NQMiBhUUFjMyNjU0JgOmSrJ1zf70AQzNdbJKAWj+q/68acRjXrRbsKTsb3x4c3B8fL5iXAFD+vsBQVxjpvwR/vL+4yAhARc2NZqkAwaklpqfpJWWpAABAKwAAAUSBhQAFwA1QBgNBAABCtsS0BXKEKMOAQINAEcRDQ0PEBgQ/Owy9OwxAC887PTk7BE5OTkwtGAZgBkCAV0BESE1ETQmJy4BIyIGFREhESERPgEzMhYFEv6YDRAVSC5wgP6aAWZRtm7CyQKq/VZvAZmTbhojJ62Z/dkGFP2oYl3uAAAAAgCsAAACEgYUAAMABwApQA4G3QCzBKMCBQENBAAQCBD8POwyMQAv7PTsMEAJUAlgCXAJgAkEAV0TIREhESERIawBZv6aAWb+mgRg+6AGFP7cAAAAAv+8/kYCEgYUAAsADwA9QBkLAgAHnwUO3QCzBdoMoxAFCAYNAQ0MABAQEPw87DLEOTkxABDs5PTsEO4ROTkwQAlQEWARcBGAEQQBXRMhERQGKwE1MzI2NREhESGsAWbYzbE+ZkwBZv6aBGD7tOHt61yHBgD+3AAAAQCsAAAFeQYUAAoAjEAUCAUCAwOzAKMJBgUBBAYIAQ0AEAsQ/Owy1MQROTEALzzs5Bc5MEBgGQMZBBkFGQY7B0kDSQdaA10GWAdfB28DZwV/A3YEdgZ7B4gDhQSHBYsHnwOVBZYGmwe5AxoWAhYFOghEAkcFSghWAl0IZwJgAmUFdwJwAnYFfAiHAogFiwiSApcFmwgVXQFdEyERASEJASEBESGsAWYBnAGg/d0CTv5O/kv+mgYU/LEBm/3+/aIB0/4tAAEArAAAAhIGFAADAB63AKMCAQ0AEAQQ/OwxAC/sMEAJUAVgBXAFgAUEAV0TIREhrAFm/poGFPnsAAAAAAEAqgAAB7QEewAlAGlAKRsVEgkEBwAgBgcYD9sg0CMDyh6zHBMHABQSDAgNBkgUDRJIHxsNHRAmEPxLsA9UWLkAHQBAOFn8PPzs/Ow5ERI5MQAvPDzk9Dzk7DIRORE5ERc5MAFADx8nMCdQJ3AngCeQJ68nB10BPgEzMhYVESERPgE1NCYjIgYHESERNCYjIgYVESERIRU+ATMyFgS6RLtwwcr+mAEBRk5mbwL+mEBSZ3D+mAFoQqtndLIDpmht7uP9VgJIDRwad2uon/3aAki6a6md/dkEYKRfYHAAAAAAAQCsAAAFEgR7ABcANUAYDQQAAQrbEtAVyhCzDgECDQBHEQ0NDxAYEPzsMvTsMQAvPOT05OwROTk5MLRgGYAZAgFdAREhNRE0JicuASMiBhURIREhFT4BMzIWBRL+mA0QFUgucID+mgFmUbZuwskCqv1WbwGbkW4aIyetmf3ZBGCkYl3uAAAAAAIAWP/jBScEewALABcALUATBqESAKEMyhKYGAlCD0wDQhU7GBD87PzsMQAQ5PTsEO4wtjcTPxlHEwMBXQEiBhUUFjMyNjU0JgMgABEQACEgABEQAALBd319d3V8fHUBIQFF/rv+3/7e/rkBRwN7q6Ghq6uhoasBAP7I/uz+7P7IATgBFAEUATgAAAAAAgCs/lYFXgR7ABAAHAA7QB0XoQDQDhGhBdAIyg6YAd4Dsx0aQgtAFAQADQIQHRD87DIy9OwxABDk5OT05OwQ5O4wtE8eYB4CAV0lESERIRU+ATMyABEQACMiJhMiBhUUFjMyNjU0JgIS/poBZkq0dc8BCv72z3W0pHN7e3NzeXmi/bQGCqRiXf63/v3+/f63XQM3qZ+fqaigoKgAAgBc/lYFDgR5AAsAHAA7QB0GoQzQDwChGNAVyhmzG94PmB0YDAkNGkADQhI7HRD87PTsMjIxABDk5OT05OwQ5u4wtE8eYB4CAV0BIgYVFBYzMjY1NCYTDgEjIgAREAAzMhYXNSERIQK6cnl5cnN5eXlKsnXP/vYBCs91skoBaP6YA3eooKCoqKCgqP0rY1wBSQEDAQMBR1xjpvn2AAAAAAEArAAAA+wEewARADdAFhEOCQYHAAPAC5QOygmzBwoGDQAIEBIQ/EuwE1RYuQAI/8A4WcTsMjEAL+T05PzEETkREjkwAS4BIyIGFREhESEVPgEzMhYXA+wvXS+Klf6aAWZFs30SKigDLxYVsaX9/ARguG5lAwUAAAEAav/jBGIEewAnANxAQA0MAg4LNh4fHgUGBwgJBQQKNh8fHiUKCx4fBBUAzAHUBBTMFdQYnxEEnyXKEZgoHgoLHxsHAFMbUg4UB1AiTSgQ/OzE1OzkERI5OTk5MQAQ5PTsEP717hD17hIXOTBLU1gHEA7tERc5BxAO7REXOVkisggLAQFdQF4JCQkKCQsLDAsNCQ8FIxoMGg0aDhgPLAguCS4KLgsuDC4NKSA5CDsJOwo7CzoMOg1LCUoKSgtKDEgNdwx3DboIugm6CroLugy6DSUOBg4HDggOCQ4KDQs3DT8pXykJXQBdAREuASMiBhUUFh8BBBYVFAQhIiYnER4BMzI2NTQmLwEuATU0NjMyFgQXc9ZfZmNLYT8BE77++P76b+19a+F0aWpJbT/vwPT8Y9oEPf7wMDAzNSsuCwkjoKuztCMjARA0NDo5MC8NCB6ipbKsHgAAAQAbAAADpAWeABMAbUAaDgUIDwOhEQGzCKEACggLCQIJBAANEBIOVBQQ/EuwD1RLsBBUW0uwEVRbS7ASVFtYuQAOAEA4WTzE/DzExBI5OTEAL8Ts9DzsMhE5OTABQBg/AD8TAgACAAMPEA8RUAJQA1AVYAJgAwldAF0BESERIREUFjsBESEiJjURIxEzEQIzAXH+jz5cuP7N1LGysgWe/sL/AP4lTjf/ALHUAdsBAAE+AAAAAQCg/+MFBgRgABkAO0AbDwMAAQzbFNAXmBABsxIGAgATDw0RRwINABAaEPzs9OwyERI5MQAv5DL05OwROTk5MLRgG4AbAgFdExEhFRQCFRQWFx4BMzI2NREhESE1DgEjIiagAWgCDhEWRy5wgAFm/ppRtW3CywG0AqxwW/7tLod3GyMmrJkCKfugomJd7gAAAQAfAAAFGQRgAAYA00AnAx0EBQQCHQECBQUEAh0DAgYABgEdAAAGJQIDAN8FBgUDAgEFBAAHENS0nwAfAAJdxBc5MQAv7DI5MEtTWAcQBe0HEAjtBxAI7QcQBe1ZIgFAfAACAAIQAhACIAIwAkACVgJmAoACkAKgArACsAKwArACwALAAtAC0ALgAuAC4ALwAvACGQUAAgENAwoEFQATARwDGgQmACQBKwMpBDYANAE5AzkEMAhGAEYBSQNJBGAIeAaHAYgDhwWIBpYAlgGZA5kElQWaBqgDtgG5AyRdAF0TIQkBIQEhHwFmARcBFgFn/kf+dwRg/PoDBvugAAAAAAEASAAABx0EYAAMAYJASgYdBwgHBR0EBQgIBwo0CwoEBQQJNAUFBAs0AgMCCjQJCgMDAgIdAwIMAAwBHQAADCUKBQIDBgMA3wsIDAsKCQgGBQQDAgELBwANENRLsApUS7ALVFtLsAxUW1i5AAAAQDhZzBc5MQAvPOwyMhc5MEtTWAcQBe0HEAjtBxAI7QcQBe0HEAXtBxAI7QcQCO0HEAXtWSIBQOYVCiAKNQI1BTAKRwpACkAKXwpsCn8KsAKwArAFsAWwCsACwAXRCtAK4ALgBe8KFxYCFAMUBBIFEAYQBxAIEgkUChYLJgEkAisFKQYqCCsJJAslDC8ONQA1ATQCOwU6BjoHNwg4DD8ORwJJA0YESAVHCEgMWQNWBFYIWwlUC1kMXw5mAmAEYgVgBmAHYAhkCmALdQJwBHMFcAZwB3AIdApwC4cBiAaECIkJhguLDI8OlAibDJAOpgKpA6YEqQWlCKkJpguqDLYBuQa2CLkMxgHEA8oEyQbVAtkD1wTaBeUI6QnmC+oMW10AXRMhGwEhGwEhASELASFIAVy8vQErvL0BXP7Z/nm9vP55BGD8/AME/QQC/PugAwL8/gABAB8AAAUKBGAACwF5QEYKHQsACwkdCAkAAAsJHQoJBgcGCB0HBwYEHQUGBQMdAgMGBgUDHQQDAAEAAh0BAQAlCQYDAAQEAd8KBwkGAwAEAQUHAQsMENRLsApUS7APVFtLsBJUW0uwFFRbWLkACwBAOFnE1MQRFzkxAC887DIXOTBLU1gHEAXtBxAI7QcQCO0HEAXtBxAF7QcQCO0HEAjtBxAF7VkiAUDaAAMPCRADHwkgAy8JMwM8CUMDTAlSA1wJYgNsCXMDegmBA4ADjQmPCZcAkAOQA5cGnAmfCaADrwmwA7ADsAO/Cb8JvwnAA8ADzwnPCdAD0APfCd8J4APgA+8J7wn3APAD9wb/CTIDAgwEDAgDChMCHAQcCBMKHw0kAisEKwgkCjQCOwQ7CDQKMA1EAksESwhECm8NhgCAAo8EiQaPCIAKlwCVApoEmQaaCJYKpwawAr8EvwiwCsACzwTPCMAK1wDQAt8E2AbfCNAK5wDgAu8E6AbvCOAK+QD2BjpdAF0JASEbASEJASELASEBx/5sAXvl6AF7/mwBqP6F/Pn+hQI9AiP+tAFM/d/9wQFi/p4AAAEAGf5GBRIEYAAPATZAQw8dAA8FBAsMDQMOHQUFBAMdBAUEAh0BAgUFBAIdAwIPAA8BHQAADyUOCgIQBQAKnwjaAwCzEA8OCwkIBQMCAQkEABAQ1EuwClRLsBJUW0uwFFRbWLkAAABAOFnEFzkxABDkMvTsETkSORE5MEtTWAcQBe0HEAjtBxAI7QcQBe0HEAXtFzkHCO1ZIgFApAACAAIQAhACIAJAAlACZQJ0AoYCgAKUApACoAK0ArACsAKwAsACwALUAtAC4ALgAhgEAQkDBQUFBgUHBQgWARUFFQYVByQFJAYkBzUANQE4AzYGNgc5DjkPRQBFAUoDSgRFBUUGZwJlBoYChgWGBogNiA6XApYFlgaZDZkOqAKqA6oEqQ6pD7UBvAO4BLAJsAq/C7kNuQ7IAssNyw7JD9YC5QI5XQBdEyEJASEBDgErATUzMjY/ARkBZgEtAQABZv4pR72bz3BbUxcKBGD9CAL4+za7les6Sx8AAAABAFwAAARGBGAACQCJQBoIHQIDAgMdBwgHJQihALMDoQUIAwAEAQAGChDUtB8GDwYCXcTMMhE5OTEAL+z07DBLU1gHEAXtBxAF7VkiAUBEWQJWB2kCZgd5AnYHhAeTBwgAAw8IEAEQAhADEAQQBRALJgMpCC8LOQg/C0oIXwuOCJ4IsQO9CMADzwjQA98I4wPsCBldAF0TIRUBIREhNQEhdQPR/bICTvwWAk79ywRg+v2a/wD6AmYAAQEA/rIEsgYUACQAXkAxGQ8VCwYlCRoQFR0LBSAhAwAJxAvhAMQB4BXEE6MlHRkMCQoFJBYTAhQAIBkRCg8FJRDUPMz8PMQyOTk5ORESOTkSOTEAEPzs9Oz07BEXORE5Ejk5ERI5ERI5OTAFFSMiJj0BNCYrATUzMjY9ATQ2OwEVIyIGHQEUBgceAR0BFBYzBLLZ2shsjj09jmzI2tlFjVVabm9ZVY1t4bDBwJZ133SWzcGv4VeOpp2OGRuOnKaPVwAAAAEBBP4dAecGHQADABG2AQAEAAQCBBDU7DEAENTMMAERIxEB5+MGHfgACAAAAQEA/rIEsgYUACQAYEAyHyUbFgwPCBsLFRkPBAUgAwAbxBnhAMQj4A/EEaMlHBkaCBUPASMSBAAaHxUREAALBCUQ1DzMMvw8zBESOTk5ORE5Ejk5MQAQ/Oz07PTsERc5ERI5ORE5ETk5ERI5MAUzMjY9ATQ2Ny4BPQE0JisBNTMyFh0BFBY7ARUjIgYdARQGKwEBAEaMVVpvb1pVjEbZ2shsjj09jmzI2tltV4+mnI4bGY6dpo5X4a/BzZZ033WWwMGwAAEA2QGyBdsDUgAdACNAEAEQGwwAEwSnGwynEx4ADx4Q1MQxABDU7NzsEMAREjk5MAEVDgEjIicmJyYnJiMiBgc1PgEzMhcWFxYXFjMyNgXbarNga48OCAcPm15YrGJrsmBrjw8HBw+bXlapA1L0UEU6BgMDBj1NU/RQRToGAwMGPUsAAAIBH/6LAocEYAAFAAkAIkARAowGiwCNB7MKAwIIBAIGAAoQ3DzsMjk5MQAQ9OT87DABERMhExEBESERAR8zAQIz/pgBaP6LAj0Bov5e/cMEcQFk/pwAAAACAK7+xwSJBZgABgAjAFdALhgUEQYQDQALB8wI1AsRzBDUDaEUHwuhIR7KFJgWJBQLByAVDAcQBx4XAANCGyQQ1PzUPDzEMuwyMhE5OTEAEMTk9DzsxBD+9O4Q9e4SORESORESOTABDgEVFBYXAREuASsBET4BNxEOASsBESMRJAARNAAlETMTHgECvk5NTU4By0qPQQ9ZlzlTkjoKov76/vYBDgECogFHkwNaLJNsbZQqAzn+3DAy/WkBMi/+2x4g/uQBICgBLgEC9AEjIwEf/uEDHQAAAAABAH0AAATnBfAAGwBAQCEWBwgAlgGVBBIKnwgErBmcEAysFAgOAA0JCwcaDxMVERwQ1DzExPw8xNTEMQAvxDLsMvTsEO4yEPXuEjk5MAERLgEjIgYdASEVIREhESERMxEjNTM1EDYhMhYE20aUTXZxAXX+iwIa+5bjwsL+ARNctQW6/uInJn2Dqu/+uv72AQoBRu+qAQ/4GwAAAAACAEoAPQTPBMUAIwAvAI1AGBQSDAoEFQ8eABwCBCEJGxUDHSEBEwskA0EKARkAAQEYACEBGgAqABUBGQALARhAJg8wHBQTHRsVBBgSAjAKHgwSCwkDAQQGACcSfRR8GH4tAH0KfAYwENzs7DL87OwyERIXORI5ORESORESFzkROTEAENTs7DL87OwyEMAREjkREjk5Ehc5ERIXOTABByc3LgE1NDY3JzcXPgEzMhYXNxcHHgEVFAYHFwcnDgEjIiY3MjY1NCYjIgYVFBYBss+ZzxwcHh7Rmc8wbD02bDnPmM8dHB0ez5rPLmo/OmymW4B/XFuAfgEMz5rPMWs/P2wuzZrPHh0bHM+azzduNj9pL8+Zzh4dG7Z/XFx/f1xdfgABABkAAAV5BdUAGAC0QEIQHRESEQ8dAA8SEhEPHRAPDA0MDh0NDQwlDw0LBAD3FwYUCfcSCxANjQIJDAUPAxUSABFuEwBtFgEaDW4KBW0HAxkQ1DzsMuz8POwy7BI5ORI5ETk5MQAv5DLUPPw81DzsMhESOTBLU1gHEAXtBxAI7QcQCO0HEAXtWSKyAA8BAF1ALAUOChAUDhsQJA4rEDYOOhBGDkkQChAPEA8gDyAPMA9AD4APgA+QD7APsA8LXQFdASERIREhNSE1JyE1IQEhCQEhASEVIQcVIQVO/jn+g/46AcYx/msBJP6xAY8BIQEgAZD+sAEl/moxAccBoP5gAaDCQlbAAhv+MwHN/eXAVkIAAAACAQT+ogHnBZgAAwAHABxADAEABQQACAQABAYCCBDUPOwyMQAQxNTEEMYwAREjERMRIxEB5+Pj4wWY/QoC9vwA/QoC9gAAAAACAA7/PQP4BfAAMwA/AGtAOBpAFwAxBDo0CxElKwQbAQQbHugXBOgxnBdACz0hKxolNzQ6IQcRPQAHXC4hXBQ9WwAOLjdbGihAENzE7MTUxOzU7BDuERI5ERI5ORI5ETkREjkxABDE9OwQ/sUQxREXOTk5ERI5ERI5MAEVLgEjIgYVFBcWFx4BFRQGBx4BFRQGIyImJzUeATMyNjU0JyYnLgE1NDY3LgE1NDYzMhYBDgEVFBYXPgE1NCYDdWOeOUtMvBoN0p9xdU1L8tVVtWZztjlBTrQkE8ugb3FLQeXJVLT+mkRDe7ZBRooFtuMnJzEvQ08LBVmtfXWfMClxSZGnHR3tKSsyKEZKDghXs4JomjMzb0uQoh39hRxMMkNiQhdPNENqAAAAAAIAxQU7AzsGMQADAAcAXEAOBgLxBADwCAUSBAESAAgQ1PzU7DEAEPQ87DIwAEuwClRLsAtUW0uwD1RbS7ATVFtYvQAIAEAAAQAIAAj/wDgRNzhZAUuwDFRYvQAI/8AAAQAIAAgAQDgRNzhZEzMVIyUzFSPF6+sBi+vrBjH29vYAAwEbAAAG5QXNABkAMQBJAEhAKA4RCgAXBA0K7xEBBO8X6xrmMu0m5hHrPgdmFCxYDQBjOGUgWBRoREoQ1Ozs/Owy7BDuMQAv7O7+7vz+xRD+xBESORESOTABFS4BIyIGFRQWMzI2NxUOASMiJjU0NjMyFiciBgcOARUUFhceATMyNjc+ATU0JicuAScyBBcWEhUUAgcGBCMiJCcmAjU0Ejc2JAUrOW85cX9+ckBzLkGDPtP+/tNFgO550FdXV1dXVtF5e85XV1dXV1jPeZgBB21tbGxtbf75mJj++W1tbGxtbQEHBGbXJSOAcnN+JCPVFhfqwsPpFbdXV1fPennPV1ZWVVdXz3l6z1dYVppubW3++pqY/vttbW5ubW0BBZiaAQZtbW4AAAADAJ4BdQPpBfAAAwAOACkAn0AQJCcgDQoEHSMbEhAKDxsEArgBCLIABBtBDgEHABABBgAKAQIAAAEFABUAIwEDACABAgAVAQRAFyecKgAjGAEPDQQbHRwDBxFzDyMHcxgqENTsxNTsERc5OTkRORESOTEAEPTk/OQQ7e7k9s4Q7hESORESORESORESORESOTBAHT8EPwU7BjsHOwg/DT8OOxc7GDsZPxo/Gz8cOx0OXRMhFSEBIgYVFBYzMjY9ASURIzUOASMiJjU0NjsBNTQmIyIGBzU+ATMyFrADLfzTAdOFaEI6WXIBDPU3jF6RpNLiiVlVV6ZPXKlL4NgCPcgCxDQ+MzpyVxZU/kB/TEiGdI2EFDg7IyO0HByvAAIAngCJBGoEJwAGAA0ANbMJAgsEuwETAAcAAAESQA8OAgwFCQAKB3kMAwB5BQ4Q1Pw81OwyETkREjkxABD0POwyOTkwARUNARUBNQEVDQEVATUCi/7bASX+EwPM/twBJP4TBCfy3d3yAXG6AXPy3d3yAXG6AAAAAAEA2QEfBdsDjQAFABdACgSnAgAGAxIBAAYQ1NTsMQAQ1MTsMBMhESMRIdkFAuv76QON/ZIBgQAAAQBvAbwC4wLfAAMAErcCqwCqBAEABBDUxDEAEPTsMBMhESFvAnT9jALf/t0AAAAABAEbAAAG5QXNABcAIAA0AEwAYkA4LSorJxruMBjuIesA5jXtDOYyK+tBJyosAyQwLRgbBB4ZKyQSIR4xGWczHmYkYxJYO2UGWDNjR00Q1Ozs/Oz87BDuMhE5ERI5ERIXOREXOTEAL+wy7v7u/O7W7jkSOTkwASIGBw4BFRQWFx4BMzI2Nz4BNTQmJy4BAyMVMzI2NTQmJzIWFRQGBx4BHwEjJy4BKwERIxEBMgQXFhIVFAIHBgQjIiQnJgI1NBI3NiQEAHnQV1dXV1dW0Xl7zldXV1dXWM+yIyNOT00rsK5pYClHHW/layY6HQzVATGYAQdtbWxsbW3++ZiY/vltbWxsbW0BBwUzV1dXz3p5z1dWVlVXV895es9XWFb+2c81NDQyind5VnARFlA63dVOQf6cA0QBN25tbf76mpj++21tbm5tbQEFmJoBBm1tbgAAAQDFBVgDOwYUAAMARbUCAAQBAAQQ1MQxABDUzDAAS7AKVEuwDlRbWL0ABABAAAEABAAE/8A4ETc4WQFLsA5UWL0ABP/AAAEABAAEAEA4ETc4WRMhFSHFAnb9igYUvAAAAgCyA2QDTAX+AAsAHQAfQBAG5hjnAOYMHglYElkDWBseENTs/OwxABDU7PzsMAEiBhUUFjMyNjU0JicyFhceARUUBgcOASMiJjU0NgIASGRjSUhkZUdCejAvMTEtMHxEjb/BBVxkSEhiY0dIZKIzLzB4REN5LTAzv42NwQAAAAACANkAAAXbBQQACwAPAC5AGAX1BwOnAPUJAQynDg0CbAQAEgwIbAoGEBDUPOwy/DzsMjEAL+zUPOz8POwwAREhFSERIxEhNSERASEVIQPRAgr99u799gIK/fYFAvr+BQT+nuz+ngFi7AFi++ruAAAAAQBtApwDDgXwABgAXUASAAUEFwEWGAUFBCUPEgsFGA4AuAEgsgIOC7oBIgACAR5ADxKcGRgVBQAOCIgVAQ4DGRDcxNTU7BE5ORE5MQAQ9Oz8xBDuETk5ERI5MEtTWAcQBckRFzkHBclZIgEhFSE1AT4BNTQmIyIGBzU+ATMyFhUUBgcBnAFy/V8BOT00STs+jlRXo0uetEdlA0SomQEKNVAoMj4tL7obG4FvSHlWAAABAFoCjQMSBfAAKABXQAsgIxwJDQYAFRMKDbgBIrIGHxy8ASIAEwEjAAYBHkATI5wpFhMZFAAQGYgmEIgDFB8JKRDcxMTU7NTsEjkREjk5MQAQ9Ozs/MQQ/sUQzjkREjkREjkwAR4BFRQGIyImJzUeATMyNjU0JisBNTMyNjU0JiMiBgc1PgEzMhYVFAYCUFxmxslRlERCgDxfaGtySlRiWk5QNHtGQZdXp7FaBGASblGBgRcWriQlQDtAPYkvMy0tGhumERJwaUVgAAABAW0E7gOiBmYAAwA3twLGAMUEAQMEENTMMQAQ9OwwAEuwCVRLsA5UW1i9AAT/wAABAAQABABAOBE3OFm0FQEVAgIBXQEhASMChwEb/o/EBmb+iAABAK7+VAWiBGAAIABCQCESDwwJAwUBExkfAwbbHBaYCgGzAN4hGQkNEgsfAg0AECEQ/Owy3MTsOTEAEOTkMvQ87Bc5ERc5MLSAIh8iAgFdExEhERQWMzI2NREhERQWMzI2NxUOASMiJicOASMiJicRrgFpZGZnZAFoIScSIRM1XS1ZcSMvh1lKaB7+VAYM/XV0cXF0Aov9E0c4Cgz6FxZLU09PLzD+EgABAIH/OwRkBdUADQAmQBIECACNBgIOAAULBwFeAwdeBQ4Q1OzU7BDEEjkxABDEMvTEzDABIREjESMRIxEuATU0JAJcAgi+vb7M3gEEBdX5ZgYH+fkDThnbsr7oAAEA0QIGAjkDiQADABK3AgAEAQIAEwQQ/OwxABDUzDATIREh0QFo/pgDif59AAAAAAEBBv5vAssAAAATADVADAoJDQYAEwkAEAMJFBDU1Mw5ETkxAC/UzNTMMAFLsApUWL0AFP/AAAEAFAAUAEA4ETc4WSEeARUUBiMiJi8BHgEzMjY1NCYnAlo6N3t/MGY0ATJTITpBKy0+ai9fWw0NmBAPLigaUjwAAAEAewKcAw4F3wAKADe0AgQDBwC+ASAACQADAR8ABAAJAR5ADAWaCwiFBoYDAIUBCxDU5MT85DEAEPTs1OwQ7jIREjkwEzMRBzU3MxEzFSGNz+Hl4sz9fwM5Agk0oDH9Wp0AAAADAHUBdQQOBfAACwAPABsAOUEKAA4BCAAMAQUAFgECAAYBBAAQAQJADgCcHAwTCQ0ZdQMTdQkcENTs1Ow5ERI5MQAQ9Oz07PzsMAEyFhUUBiMiJjU0NgMhFSEBIgYVFBYzMjY1NCYCQtX39tbW9/fGAzf8yQGcVFtbVFNbWwXw3r6+3Ny+vt78TcgD0X50dHx8dHR+AAAAAAIAwQCJBI0EJwAGAA0ANbMMBQoDuwETAAcAAAESQA8OBQgBDAcBeQMACHkKBw4Q1Dz81DzsEjkREjkxABD0POwyOTkwCQEVATUtAgEVATUtAQKgAe3+EwEl/tv+IQHr/hUBJP7cBCf+jbr+j/Ld3fL+jbr+j/Ld3QAAAP//AGT/4weoBfAQJwHGBHr9ZBAnAccDlgAAEAYAeekA//8AZP/jB+UF8BAnAccDlgAAECcAcgTX/WQQBgB56QD//wBo/+MHqAXwECcBxgR6/WQQJwHHA5YAABAGAHMOAAACAI3+bgQfBGAAHQAhAE1AKh0aBQIEBhkAEJEPlQwAjB6LIAyhE9ogsyIGBQkBGhkWHwACHgEPCQIWIhDc7NTUPOwyETk5ERI5OTEAEOT07BD+7RD07hI5ORc5MAEhFRQGDwEOARUUFjMyNjcRDgEjIiQ1NDY/AT4BNSUhESEB5wFpQW1AODRgVlG9ZXfLXPT/AE5eQEQqAWn+lwFpAmYxUX5kOjNcL0ZQREL+xioox75jm1g6PUwtwwFk//8ACgAABicHaxImACIAABAHAcgFAAF1//8ACgAABicHaxImACIAABAHAckFAAF1//8ACgAABicHaxImACIAABEHAcoFGAF1AAaxDwoQPDH//wAKAAAGJwdzEiYAIgAAEQcBywUYAXsAELQGJhUDBytABTAVPyYCXTEAAP//AAoAAAYnB2sSJgAiAAARBwHMBRIBdQAgtAYRDgMHK0AVkA6fEXAOfxFADk8RIA4vERAOHxEKXTEAAAADAAoAAAYnB20AEgAeACEBe0BTAx0BAAIdAQEAIR0fIQABACAdAQEABR0HBgQdBwYfHQYHBiEdICEHBwYlIQcAFgOuHxziDRaPHwUBIRMgABkQHwcTBQQKBgMCARlVEAETVQoBBiIQ1MTU7BDU7hI5ORESOTkROTkREjk5ETkxAC88xubW7hDuEjk5OTBLU1gHEAjtBxAF7QcF7QcF7QcQBe0HEAjtBxAF7QcF7VkiAUuwClRYvQAi/8AAAQAiACIAQDgRNzhZQMAAFQAWABcvIS8hOiFvIX8DfwR/H38gtgm2EboTtxSwFbAWsBe3GLoZuhq/G78cvx26Hr8hvyEbBgEJBhcBGQYfIyAJIAogCy8PLxAvESATIBQvGC8ZLxogHiIfKyAgI0UASwdVAFoHYAlgCmALbw9vEG8RYBNgFG8YbxlvGmAeZh9pIGAjdAB1A3kEegd7H3QghQCKB4UfiiCVAJoHsAmwCrALsAy/Dr8PvxC/EbATsBS/GL8Zvxq3HbAesx+8IERdAF0JASEDIQMhAS4BNTQ2MzIWFRQGJRQWMzI2NTQmIyIGAyEDBAgCH/59Xv2mX/59Ah8XFqd2dKgW/ndNNjZNTjU2TUoBmcwFuPpIARD+8AW4IksrdaiodS9MezZNTTY2TU37nwJSAAAAAAIAAAAACBkF1QADABMAoUA3AR0EEwAdBAQTEh0EExEdEwQTJQAGBAjAChCuAQbACr4EjQzAARIOEhEEAQAFEwsHFg8CBQkNEy/UxMTUPOwyEhc5MQAvPMTs9OTsEO4Q7hESOTBLU1gHEAXtBwXtBxAF7QcF7VkiAUuwCVRLsApUW1i9ABT/wAABABQAFABAOBE3OFlAGQMAFgAVARkEJgFXAYYAhgGzALMBtRG1EgxdCQEhEQEhESERIREhESERIREhAyEDe/8AAXn+fQWR/XMCZv2aAqT72/4Sk/6NBNX9ngJiAQD+3f7q/t3+qv7dAV7+ov//AGb+bwVcBfASJgAkAAAQBwB4AXMAAP//ALwAAAThB2sSJgAmAAAQBwHIBLQBdf//ALwAAAThB2sSJgAmAAAQBwHJBLQBdf//ALwAAAThB2sSJgAmAAAQBwHKBLQBdf//ALwAAAThB2sSJgAmAAARBwHMBLQBdQAJQAVAD0ATAl0xAP//ABYAAAI9B2sSJgAqAAARBwHIA2QBdQAHQANABAFdMQAAAP//ALwAAAKyB2sSJgAqAAARBwHJA2QBdQAHQANABAFdMQAAAP//AAMAAAL1B2sSJgAqAAARBwHKA3wBdQALtAggAQAAEEljOjEAAAD//wBBAAACtwdrEiYAKgAAEQcBzAN8AXUAGbQBCwYABytLsBBRWLsACwBAAAb/wDg4WTEAAAIAIQAABkwF1QAMAB8AlUAfHgG5HAMAwA2NBcAaDAYaDgQCAAktFC4dBAAWGw2EIBD8POwyxPzsEMQXOTEAL+727tY87jIwQFgAIVAhYCEDLwEvAi8DLwQvHC8dLx4vH08BTwJPA08ETxxPHU8eTx9fAV8CXwNfBF8cXx1fHl8fnwGfAp8DnwSfHJ8dnx6fH78BvwK/A78Evxy/Hb8evx8oXQFdAREzESMRMzI2NTQmIwEhIAQXFhIVFAIHBgQpAREjETMCUOvriez5+O399gGVAVUBTHhoZ2doef6w/rD+a66uBLL+v/78/rbq397oASNhdGX++Kep/vdldGECbQEEAAD//wC8AAAF9gdtEiYALwAAEAcBywU1AXX//wBm/+MGZgdrEiYAMAAAEAcByAVOAXX//wBm/+MGZgdrEiYAMAAAEAcByQVOAXX//wBm/+MGZgdrEiYAMAAAEAcBygVOAXX//wBm/+MGZgdtEiYAMAAAEQcBywVnAXUAELQPMyIVBytABUAiTzMCXTEAAP//AGb/4wZmB2sSJgAwAAARBwHMBWYBdQAktA8eGxUHK0AZoBuvHoAbjx5wG38eUBtfHiAbLx4AGw8eDF0xAAAAAQEAACkFtATbAAsAL0AcCggHBgQCAQAIBQMLCQwLCgkHBQQDAQgCAAgGDBDUPMwyFzkxABDUPMwyFzkwCQIHCQEnCQE3CQEFtP5OAbKo/k7+TqgBsv5OqAGyAbIEM/5O/lCoAbD+UKgBsAGyqP5OAbIAAAADAC3/tgaWBh8ACQATACsA6EA+HR8aDSssEwoJAAQDIBoNKRQDKiYeGgOuJg2uGpwmmCwrLCoUFxAgHiMTCgkABAYpFxAdBh8GLSM3EC0XKywQ/Oz87MASORESORIXORE5ORESOTkROTEAEOT07BDuEMAQwBI5ORESORIXORE5ERI5OTBAcAAtFwAZChAtKhUnHSYhLy05FTcdNiE5KT8tRx1ZFVYcVCFZKFkpahVlGWccZSFqJWooGRgYFyQnHSkpNh04KUsURh1FIEkpWhReFVMcVh1WIFQhViJbKGoJZRNqFGwVYRxmIGMhayh4CZkJmAqqCR5dAV0BHgEzMhI1NCYvAS4BIyICFRQWFwEuATUQACEyFhc3FwceARUQACEiJicHJwJcNINTscIPEE0zglKwwg4O/upKSgGZAWea+GbHcclNTP5o/piZ/2bKcQFzPjsBBOtEdTGTOjn+/OxAcS7+6mT6lwFrAZxLTcdzx2P/mv6W/mRPT8tx//8AvP/jBcMHaxImADYAABAHAcgFJwF1//8AvP/jBcMHaxImADYAABAHAckFJwF1//8AvP/jBcMHaxImADYAABEHAcoFQAF1AAaxFgUQPDH//wC8/+MFwwdrEiYANgAAEQcBzAVAAXUAILQJGBUBBytAFaAVrxiQFZ8YcBV/GGAVbxgwFT8YCl0xAAD////sAAAF3wdrEiYAOgAAEQcByQTNAXUADUAJcAlvCV8JDwkEXTEAAAIAvAAABYkF1QAMABUAjEAYDq4ADa4FA40BFQ8MBgASLQkNBAAWAgMWEPzsMjLU7BE5OTk5MQAv5NTs1OwwAEuwCVRLsAxUW0uwDlRbS7ATVFtLsBRUW1i9ABb/wAABABYAFgBAOBE3OFlALAAXAQABAAIAAwAEMAEwAjADMARQAVACUANQBKABoAKgA6AEsAGwArADsAQUXQFdAREhESERMyAEFRQEIQMRMzI2NTQmIwI9/n8Bgf4BHQEx/s/+4/7VcHp6cAEC/v4F1f78/evq/QK6/l1tY2VuAAABAKz/4wVoBhQAMABqQDQuKCINBwUOIQYABCsXnxgbnxQrnwOjFJgvIhchGAMoJQ0OHgYKYSUuKGEGXx4NES4NABAxEPzs1Oz07BDd7hESOTkREhc5OTEAL+T+7hD+1e4SFzkXOTBADQAXABgvMk8ycDKfMgYBXRM0JCEgBB0BDgEVFBYfAR4BFRQGIyImJzUeATMyNjU0Ji8BLgE1NDY3LgEjIgYVESGsAQ4BEQEGAQyXkDFdRXRr5edBiko4czZIWDdiRlhUi5EBYFtlZv6aBFre3ODaRwpOSiU5NCVAqXW9vBkY9BscSDkvRDcnMYdadJ4yVVlubfu0AP//AFj/4wTFBmYSJgBCAAAQBwBBALoAAP//AFj/4wTFBmYSJgBCAAAQBwB0ALoAAP//AFj/4wTFBmYSJgBCAAAQBwHNALoAAP//AFj/4wTFBjkSJgBCAAARBwHOALoAAAAItAs/MB8HKzEAAP//AFj/4wTFBjESJgBCAAAQBwBoALoAAP//AFj/4wTFBxsSJgBCAAARBwHPALoAAAARQA2AJoAyTyZPMj8mPzIGXTEAAAMAWP/jCAAEewAGABEAPgDMQEI4PjYQHx4AB9I2ANgfJ8wm1CMNnzbPLSoSzD7LOwOfH9cYGxXKMCqYPwcQCgYALRggNhAKJgANHjcQDSAKDRIzOz8Q/MTs1Pw81OzEERI5ETk5EjkREjkxABDkMvQ8xOT8PPTsEMTm/jz07hDuEO4RORE5ERI5MEBOPhI+Ez9ATRJNE09AXhJeE19AbhJuE29Af0CNEo0TnRKdE5BArRKtE70SvRMWMj0wPkI9QD5SPVA+Yj1gPoM9gD6SPZA+pD2gPrI9sD4QXQFdATQmIyIGBwUiBhUUFjMyNj0BAT4BMzIWFz4BMyAAERUhHgEzMjY3EQ4BIyIkJw4BIyImNTQkITM1NCYjIgYHBo93YGeAEP3hcHFbUWWK/V5332GW2UdNzHoBCQE9/LoOm41x7X1//36z/vdIZd+LwuIBDwEi04aOc8ZVAqpmfXVuskxKRE2RbSkCShwdTU9NT/7C/vZmfn5DRP7sMDFrZGtkxajFuBxVTy4uAAAA//8AWP5vBDUEexImAEQAABAHAHgAuAAA//8AWP/jBQoGZhImAEYAABAHAEEA2QAA//8AWP/jBQoGZhImAEYAABAHAHQA2QAA//8AWP/jBQoGZhImAEYAABAHAc0A2QAA//8AWP/jBQoGMRImAEYAABEHAGgA2QAAAAlABXAccCACXTEA////1QAAAhIGZhImAPEAABEHAEH/dwAAAAlABXAEQAQCXTEA//8ArAAAAxkGZhImAPEAABEHAHT/dwAAAAdAA3AEAV0xAAAA////5QAAAtcGZhImAPEAABEHAc3/XgAAAAu0CCABAAAQSWM6MQAAAP//ACMAAAKZBjESJgDxAAARBwBo/14AAAAZtAELBgAHK0uwEFFYuwALAEAABv/AODhZMQAAAgBY/+MFJwYUAA4AKAD1QFkmJygnJSQlKCgnIiMiHyAfISAgHyIhIAMfNSgPKBwdAh41Dw8oJSgnJiUiISAfCCMeAw8jA6EbCaEVmBsjoykPJyYDEgwgISMDGCglIh8EHgYMQhIGQhg7KRD87NTsETkXORIXORESFzkxABDsxPTsEO4SORI5Ehc5MEtTWAcQBe0XOQcQBe0XMgcQDskHEAjJBxAIyQcQDslZIgFLsA9US7AQVFtYvQApAEAAAQApACn/wDgRNzhZQDZmIQEvKjcfNiI/Kk8qbwRvBW8GbwdvCG8WbxdvGG8Zbxp/BH8FfwZ/B38IfxZ/F38Yfxl/GhldAF0BLgEjIgYVFBYzMjY1NCYTFhIVEAAhIAARNAAhMhYXJwUnJSchFyUXBQOYN2w0dX+CcnV8DaN1av67/t/+3v65AS0BCC5OJL7+iyUBM7wBYG8BeCP+xQLnGxuFeZSoq6EtXAGUiP7/lP7s/sgBOAEU5wEJDQ7bd4FhynRygWAA//8ArAAABRIGORImAE8AABAHAc4A8gAA//8AWP/jBScGZhImAFAAABAHAEEA1wAA//8AWP/jBScGZhImAFAAABAHAHQA1wAA//8AWP/jBScGZhImAFAAABEHAc0AvwAAAAaxHAwQPDH//wBY/+MFJwY5EiYAUAAAEQcBzgC+AAAACLQJMSIDBysxAAD//wBY/+MFJwYxEiYAUAAAEQcAaAC+AAAACLQJHhsDBysxAAAAAwDZAFYF2wSuAAMABwALADC8AAQBFwAGAAIBF0ARAAqnBgimDAl6BQF7CHoEAAwQ1Dzs/DzsMQAQ9MT81OwQ7jABIREhESERIQUhFSECwQEz/s0BM/7N/hgFAvr+AYv+ywRY/suB7AADAE7/ogUpBMEACQATACsAuEA+Hx0aEwoJAAQDFCkrDSAaAyomHhoNoSYDoRrKJpgrKywXHiAjECoUFxMKCQAEBh0jECkXBh8QQiNMBkIXOywQ/Oz87MAREjkREjkSFzkROTkREjk5ERI5MQAv5PTsEO4QwBDAERI5ERI5ORIXORE5OTBAQDoANQo7FTcdNSE4KT8tSQBGCksVRx1EIUgpWxVWHVQhVShpAGsVZh1lIWUoFjUdOilFHUopVR1eKGkKZR1tKAldAV0BLgEjIgYVFBYfAR4BMzI2NTQmJwEuATUQACEyFhc3FwceARUQACEiJicHJwNYHUsvd30HB0gfTzB1fAcH/TtDRAFHASJqs0uTbY1GRf67/t9stk2UcANEHBuroSlBG4seHquhK0Md/eROyHsBFAE4LCyeZZVQyn7+7P7ILS2bXgAA//8AoP/jBQYGZhImAFYAABEHAEEA8gAAAAdAA0AaAV0xAAAA//8AoP/jBQYGZhImAFYAABAHAHQA8gAA//8AoP/jBQYGZhImAFYAABEHAc0A1AAAAAu0HiARAQEQSWM6MQAAAP//AKD/4wUGBjESJgBWAAARBwBoANQAAAAItBAgHQIHKzEAAP//ABn+RgUSBmYSJgBaAAAQBwB0AJwAAAACAKz+VgVeBhQAEAAcADtAHRGhBdAIF6EA0A6YCMoB3gOjHRpCC0AUBAANAhAdEPzsMjL07DEAEOzk5PTk7BDm7jC0Tx5gHgIBXSURIREhET4BMzIAERAAIyImEyIGFRQWMzI2NTQmAhL+mgFmSrR1zwEK/vbPdbSkc3t7c3N5eaL9tAe+/ahiXf63/v3+/f63XQM3qZ+fqaigoKgAAAD//wAZ/kYFEgYxEiYAWgAAEAcAaACcAAD//wAKAAAGJwdPECcAbwEYATsTBgAiAAAAILQKAgMHBytADX8CcAMvAiADHwIQAwZdMQBAAw8AAV0wAAD//wBY/+MExQYaECcAbwCJAAYTBgBCAAAAB0ADTwABXTEAAAD//wAKAAAGJwd6ECcB0AEVATQTBgAiAAAAILQUCAARBytACX8IcAAfCBAABF0xAEAHbwB/AA8AA10wAAD//wBY/+MExQY9ECcB0ADa//cTBgBCAAAAB0ADTwABXTEAAAD//wAK/m8GJwXVECcB0QLfAAASBgAiAAD//wBY/m8ExQR7ECcB0QGcAAASBgBCAAD//wBm/+MFXAdrEiYAJAAAEAcByQVmAXX//wBY/+MEdQZmEiYARAAAEAcAdADTAAD//wBm/+MFXAdrECcBygWPAXUSBgAkAAD//wBY/+MEVgZmECcBzQDdAAASBgBEAAD//wBm/+MFXAdrECcB0gWPAXUSBgAkAAD//wBY/+MENQYUECcB0wTfAAASBgBEAAD//wBm/+MFXAdrEiYAJAAAEAcB1AVmAXX//wBY/+METAZmEiYARAAAEAcB1QDTAAD//wC8AAAGOQdrEiYAJQAAEAcB1AULAXX//wBc/+MG+AYUECYARQAAEQcB1ggg/6wADUAJnx1PHT8dHx0EXTEA//8AIQAABkwF1RAGAJAAAAACAFz/4wWoBhQAGAAkAEu6AAcAAwElQCIJAR+hANAWGaEN0BCYFsoFowsCHAwEAwANCAoGQCJCEzslEPzs9DzE/Bc8xDEAL+zk9OTsEOTu3TzuMjCyTyYBAV0BESE1ITUhFTMVIxEhNQ4BIyIAERAAMzIWAzI2NTQmIyIGFRQWA6b+ugFGAWiamv6YSrJ1z/72AQrPdLOic3l5c3J5eQO8ARnNcnLN+yuiY1wBSQEDAQMBSV38yaigoKiooKCoAP//ALwAAAThB08QJwBvAMQBOxMGACYAAAActAUCAwQHK0AJTwJAAy8CIAMEXTEAQAMPAAFdMAAA//8AWP/jBQoGGxAnAG8ArQAHEwYARgAAABi0BAIDEwcrQA1PAkADLwIgAx8CEAMGXTEAAP//ALwAAAThB2sQJwHXBLQBdRIGACYAAP//AFj/4wUKBkYQJwHQANkAABMGAEYAAAAHQANPAAFdMQAAAP//ALwAAAThB2sQJwHSBLQBdRIGACYAAP//AFj/4wUKBhQQJwHTBNsAABIGAEYAAP//ALz+bwTiBdUQJwHRAeAAABIGACYAAP//AFj+bwUKBHsQJwHRAZgAABIGAEYAAP//ALwAAAThB2sSJgAmAAARBwHUBMkBdQALtA8gAQAAEEljOjEAAAD//wBY/+MFCgZmEiYARgAAEAcB1QDTAAD//wBm/+MF+gdrECcBygWkAXUSBgAoAAD//wBc/kYFDgZmECcBzQC6AAASBgBIAAD//wBm/+MF+gdrEiYAKAAAEAcB1wUxAXX//wBc/kYFDgZGEiYASAAAEAcB0ADdAAD//wBm/+MF+gdrECcB0gWkAXUSBgAoAAD//wBc/kYFDgYUECcB0wS8AAASBgBIAAD//wBm/jYF+gXwECcB2AVfAB8SBgAoAAD//wBc/kYFDgYfECcB2QRKAZ0SBgBIAAD//wC8AAAF9gdrECcBygVZAXUTBgApAAAAC7QEIAwHBxBJYzoxAAAA////7QAABRIHaxAnAcoDZgF1EwYASQAAACa0GAIGFwcrMQBLsA1RWLsAF//AABj/wDg4WUAJkBeQGIAXgBgEXQACALwAAAcOBdUAEwAXADxAHgYCEgkUERXADL4EAI0OCgcMFwQWCQUSDRQBFhAAGBDcMuwyMszUMuwyMswxAC889Dz0/NwyMswyMjABIRUhNSEVMxUjESERIREhESM1MwUVITUBSAGBAjgBgYyM/n/9yP5/jIwBgQI4BdW7u7vC+6gCef2HBFjCwry8AAEApgAABawGFAAfADxAHw0EAAEWEhkRCtsa0B3KFKMOAQINAEcXEhUZDQ0UECAQ3DLsMjLMzPTsMQAvPOz05OzcMswyETk5OTABESE1ETQmJy4BIyIGFREhESM1MzUhFSEVIRE+ATMyFgWs/pgNEBVILnCA/pqgoAFmAWv+lVG2bsLJAqr9Vm8BmZNuGiMnrZn92QTnwmtrwv7VYl3uAP//ACAAAALYB20QJwHLA3wBdRMGACoAAAAItCUbCiQHKzEAAP//AAMAAAK7BjkQJwHO/18AABMGAPEAAAAItCAZCh8HKzEAAP//AEEAAAK3B08QJwBv/3wBOxMGACoAAAAQtAUCAwQHKzEAQAMPAAFdMAAA//8AJAAAApoGGxAnAG//XwAHEwYA8QAAAAi0BQIDBAcrMQAA//8ALAAAAswHaxAnAdcDfAF1EwYAKgAAAAi0DwgADgcrMQAA//8ADwAAAq8GRhAnAdD/XwAAEwYA8QAAAAi0DwgADgcrMQAA//8AvP5vAu0F1RAmAdHrABIGACoAAAAA//8ArP5vAsIGFBAmAdHAABIGAEoAAAAA//8AvAAAAj0HaxImACoAABEHAdIDgAF1AAi0AQYHAAcrMQAAAAEArAAAAhIEYAADAB63AN8CAQ0AEAQQ/OwxAC/sMEAJUAVgBXAFgAUEAV0TIREhrAFm/poEYPugAAAA//8AvP5mBTYF1RAnACsC+QAAEQYAKgAAAAhAAxEDARDsMQAA//8ArP5GBNAGFBAnAEsCvgAAEQYASgAAAAhAAxkQARDsMQAA////jf5mAvUHaxAnAcoDfAF1EwYAKwAAAAu0BCAIBwcQSWM6MQAAAP///7z+RgLYBmYQJwHN/18AABMGAdoAAAALtAQgCAcHEEljOjEAAAD//wC8/lMGcQXVECcB2AVmADwSBgAsAAD//wCs/lMFeQYUECcB2ATiADwSBgBMAAAAAQCsAAAFeQRgAAoAi0ATCAUCAwMAswkGBQEEBggBDQAQCxD87DLUxBE5MQAvPOwyFzkwQGAZAxkEGQUZBjsHSQNJB1oDXQZYB18HbwNnBX8DdgR2BnsHiAOFBIcFiwefA5UFlgabB7kDGhYCFgU6CEQCRwVKCFYCXQhnAmACZQV3AnACdgV8CIcCiAWLCJIClwWbCBVdAV0TIREBIQkBIQERIawBZgGcAaD93QJO/k7+S/6aBGD+ZQGb/f79ogHT/i0A//8AvAAABOEHbBAnAckDvwF2EwYALQAAABFADXAAUABgAEAAMAAQAAZdMQD//wCsAAAC2wdsECcByQONAXYTBgBNAAAAI0AJgABwAGAAQAAEXTEAS7ANUVi5AAAAQDhZQAWPAJ8AAl0wAAAA//8AvP5TBOEF1RAnAdgEngA8EwYALQAAAAoAQAWgAJAAAl0w//8Akf5TAi8GFBAnAdgDLwA8EgYATQAA//8AvAAABOEF1RAnAdYGBv9vEgYALQAA//8ArAAAA9YGFBAnAdYE/v+tEQYATQAAABdLsAxRWLkAAABAOFlAB58ArwC/AANdMQAAAP//ALwAAAThBdUQJwB3AoIAuhIGAC0AAP//AKwAAAPfBhQQJwB3AaYAthAGAE0AAAAB/6QAAATsBdUADQBgQDINCgsKDAsMCwsKAwQDBAUEAgUFBCUMCwoEAwIGAAbAAI0IAwQHAQsOAAwHBQEWCQCEDhD8PPw8xC4REjkREjk5MQAv5OwRFzkwS1NYBxAEyQcQCMkHEAjJBxAEyVkiEyERNxcBESERIREHJyXHAYH+j/5zAqT725SPASMF1f5gucH+8P4G/t0CDGq+xQAB/9sAAAMfBhQACwB+QC0LCAkICgkJCAMEAwQFBAIFBQQlCgkIBAMCBgCjBgMEAQkMAAQBCgUBDQcAVAwQ/DzsMi4QwBESORESOTEAL+wXOTBLU1gHEATJBxAIyQcQBMkHEATJWSKyEA0BAV1AGnUEdAWDBANADVANYA1gDXQEcA1wDYAEgA0JXQBdEyERNxcHESERByc3xwFogW/w/ph9b+wGFP4LWJqk/McCgVaaowAAAP//ALwAAAX2B2wQJwHJBSsBdhIGAC8AAP//AKwAAAUSBm0QJgB0fQcSBgBPAAAAAP//ALz+UwX2BdUQJwHYBSkAPBIGAC8AAP//AKz+UwUSBHsQJwHYBK8APBIGAE8AAP//ALwAAAX2B2sSJgAvAAAQBwHUBXEBdf//AKwAAAUSBmYSJgBPAAAQBwHVAKkAAP//AGkAAAchBdUQJwBPAg8AABAGAdvoAAABAKz+ZgXYBfAAHQArQAoGChYAFxIWFAMeEPzsMtT8zDEAQAwHwATCFA+uGpwVjRQv5PTsEPTsMCUQBwYhIxEzMjY1ERAnJiMiBhURIREhFT4BMzISEQXYhJf+zU48eH8xQpGdsv6QAXRv6JHj7ZH+13iKASOKfgIiATZFXObK/SYF1eOHd/7E/tMAAAEArP5GBRIEewAkADBAGwefBtoaFNsd0CHKG7MaJhAHDA0ARxgcDRsQJRD87DL07MTsMQAv5PTk7BD07DABERQHBiMhNTMyNjURNCcmJyYnJiMiBwYVESERIRU2NzYzMhcWBRJubM3+56ZmTAYHEBUkJC5wQED+mgFmUVtbbsJlZAKq/WrfeXbrXIcB9pE3NxojFBNXVpn92QRgpGIuL3d3AAD//wBm/+MGZgdPECcAbwFmATsTBgAwAAAAJLQTAgMZBytAEX8CcANPAkADLwIgAw8CAAMIXTEAQAMPAAFdMAAA//8AWP/jBScGGxAnAG8AwQAHEwYAUAAAABi0EwIDGQcrQA1PAkADLwIgAx8CEAMGXTEAAP//AGb/4wZmB2sQJwHXBWABdRMGADAAAAAYtB0IACMHK0ANfwhwAE8IQAAPCAAABl0xAAD//wBY/+MFJwZMECcB0AC/AAYTBgBQAAAAELQdCAAjBytABUAATwgCXTEAAP//AGb/4wZmB2sQJwHcBU4BdRIGADAAAP//AFj/4wUnBmYQJwHdANcAABIGAFAAAAACAGb//gjBBdcACAAfAFBAIhcTHQkNwA++CwDACY0RB8ATBwEUCQQQDBYACg4SBC0aKyAQ/OzUxMTU7DISOTk5OTEAL+wy9Owy9OwQwBDAMEALACEQIT8hTyFfIQUBXQEjIAQVFAQhMwMhESERIREhESERISIGIyAAERAAITIWBJxp/t/+4gEfASBpWgRo/XMCZv2aAqT7gQ0vDP5G/iYB2gG6CzAEsuLk5eQEsv7d/ur+3f6q/t0CAYUBaQFoAYMCAAAAAwBY/+MIXgR7AAYAJwAzAHRAMiIfAxYQDAcA2AgQzA/UDJ8uoRMooQjXA58lH8oZE5g0BgAWIjEJAA0PBzENCStCHDs0EPzs1PzUxOwREjk5EjkxABDkMvQ87OTsEO7+9O4Q7jkREjkREjkwQBQvNT81TzVPNV81bzVvNX81CEYiAV0BXQE0JiMiBgcFFSEeATMyNjcRBgQjIiYnDgEjIAAREAAhMhYXPgEzIAAlIgYVFBYzMjY1NCYG7ndgaIIQA0H8uw2cjHHtfX7/AH6l1khS1YL+3v65AUcBIobOUVLHhwEWAUL6Y3d9fXd1fHwCqmZ9dW53Zn5+Q0T+7DAxUVdUVAE4ARQBFAE4UlZXUf7GOquhoauroaGrAP//ALwAAAYAB2wQJwHJBLkBdhIGADMAAP//AKwAAAQfBm0QJgB0fQcSBgBTAAAAAP//ALz+UwYABdUQJwHYBS4APBIGADMAAP//AJH+UwPsBHsQJwHYAy8APBIGAFMAAP//ALwAAAYAB2sSJgAzAAAQBwHUBMkBdf//AKwAAAPsBmYSJgBTAAAQBgHVVQAAAP//AJP/4wUtB2wQJwHJBLkBdhIGADQAAP//AGr/4wRiBm0QJgB0fQcSBgBUAAAAAP//AJP/4wUtB2sQJwHKBMEBdRIGADQAAP//AGr/4wRiBmYQJgHNWgASBgBUAAAAAP//AJP+bwUtBfASJgA0AAAQBwB4AN0AAP//AGr+bwRiBHsSJgBUAAAQBgB4YgAAAP//AJP/4wUtB2sSJgA0AAAQBwHUBMkBdf//AGr/4wRiBmYQJwHeBFwAABIGAFQAAP//AAr+bwVqBdUQJwB4AL0AABIGADUAAP//ABv+bwOkBZ4QJgB4AAASBgBVAAAAAP//AAoAAAVqB3ESJgA1AAARBwHUBLcBewAQtAENCQAHK0AFDw0ACQJdMQAA//8AGwAABA8GgxImAFUAABAHAdYFNwAdAAEACgAABWoF1QAPAC5AFwQMBwsDD8AAjQkRBQE4BwMWDAA4Cg4QENQ87Mz8POzMxDEAL/TsMtQ8zDIwEyERIREzESMRIREjETMRIQoFYP4R9/f+f/f3/hAF1f7d/kv+/P4HAfkBBAG1AAAAAAEAGwAAA6QFngAdADpAHQgWBRcEGqEdARuzDaEQHw4GAggEAA0XGxUZHVQeEPw8PMwy/Dw8zMzMzDEAL+z0PMz8PNw8zDIwAREhESEVIREhFRQXFjsBESEiJyY9ASMRMzUjETMRAjMBcf6PAXH+jx8fXLj+zdRYWbKysrIFnv7C/wCO/wBNThsc/wBYWdRNAQCOAQABPgD//wC8/+MFwwdtECcBywU/AXUTBgA2AAAAFLQuGwokBytACSAKLxsQCh8bBF0xAAD//wCg/+MFBgY5ECcBzgDyAAASBgBWAAD//wC8/+MFwwdPECcAbwFAATsTBgA2AAAAHLQOAgMEBytACX8CcAMPAgADBF0xAEADDwABXTAAAP//AKD/4wUGBhoQJwBvANMABhMGAFYAAAAYtBUCAwUHK0ANTwJAAy8CIAMfAhADBl0xAAD//wC8/+MFwwdrECcB1wVAAXUTBgA2AAAAFLQYCAAOBytACX8IcAAPCAAABF0xAAD//wCg/+MFBgZGECcB0ADyAAASBgBWAAD//wC8/+MFwwduEiYANgAAEAcBzwFEAFP//wCg/+MFBgcNEiYAVgAAEQcBzwDc//IAFUARgBqAJmAaYCZQGlAmPxo/JghdMQD//wC8/+MFwwdrECcB3AUnAXUSBgA2AAD//wCg/+MFBgZmECcB3QDyAAATBgBWAAAACgBABT8APwQCXTD//wC8/m8FwwXVEiYANgAAEAcB0QE0AAD//wCg/m8FugRgEiYAVgAAEAcB0QK4AAD//wA9AAAIkwdyECcBygZoAXwTBgA4AAAABrEEERA8Mf//AEgAAAcdBmYQJwHNAbIAABMGAFgAAAAGsQQREDwx////7AAABd8HchAnAcoE5QF8EwYAOgAAAAaxBAkQPDH//wAZ/kYFEgZmECcBzQCVAAASBgBaAAD////sAAAF3wdrEiYAOgAAEQcBzATlAXUACLQFDwwIBysxAAD//wBcAAAFcQdsECcByQS5AXYSBgA7AAD//wBcAAAERgZtECYAdH0HEgYAWwAAAAD//wBcAAAFcQdvECcB0gTSAXkSBgA7AAD//wBcAAAERgYUECcB0wRWAAASBgBbAAD//wBcAAAFcQdrEiYAOwAAEAcB1ATPAXX//wBcAAAERgZmEiYAWwAAEAYB1VQAAAAAAQAnAAADjQYUABAAI0ASC58KowEDoQSzAQoQDQRFAgURENw87PzMMQAv9OwQ9OwwKQERIxEzNTQ2MyEVIyIHBhUCP/6asrLM1gESxkweHgNgAQBOt6/rGx1DAP//ALwAAAThB2sQJwHIBTcBdRIGAVUAAP//ALwAAAThB2sQJwHMBK4BdRIGAVUAAAABAAr+ZgZiBdUAIwAAJRAHBiEjETMyNzY9ATQnJicmJyYjIREhESERIREhESEyFxYVBmKYl/7NTjx4Pj0HBhAVJCQu/pT+f/6+BLL+EQIKwGZlkf7piooBI0NDgoOTNzcaIxQT/YcEsgEj/t3+6nd15QAA//8AvAAABOEHbBAnAckEuQF2EgYBUwAAAAEAZv/jBVwF8AAYAEFACRcWAC0RBgsrGRD8xDL8xMwxAEAYFsAAvg4QEw4IAwgREwUDrggTrg6cCJgZEOT07BD+xBDFERI5ERI5EPTsMAEeATMyNxEGIyAAERAAITIXESYjIgYHIRECAxHK2NfP1vf+i/5MAbQBdffWz9fYyhECoQJYeOaN/stvAaEBZgFlAaFv/suN5nj+3QAA//8Ak//jBS0F8BIGADQAAP//ALwAAAI9BdUSBgAqAAD//wBBAAACtwdrEAYAjwAA////jf5mAj0F1RIGACsAAAACAF4AAAjRBdUACAAdAAABMjY1NCYrARETIREhFRACBREkEhkBIREzIAQVFAQGZ3lwb3p+mv3l/tvC/d0BAGQEJ5oBGwEz/s0BBl5dW13+jf76BLNc/dv+BjgBIy8BKAJBARr9x9/w7t8AAAACALwAAAh6BdUACAAbAAABNCYrAREzMjYBIREhESERMyAEFRQEKQERIREhBvlven5+eXD5wwGBAdQBgZoBGwEz/s3+5f3l/iz+fwHBW13+jV4Ecf3HAjn9x9/w7t8Cef2HAAAAAQAKAAAGYgXVABoAAAEyFxYVESE9ATQnJicmJyYjIREhESERIREhEQTXwGZl/n8HBhAVJCQu/pT+f/6+BLL+EQOcd3Xl/jVvpZM3NxojFBP9hwSyASP+3f7qAP//ALwAAAZsB2wSJgFaAAAQBwHJBTkBdv//ALwAAAX2B2sSJgFYAAAQBwHIBXABdf//ADsAAAXuB2sSJgFjAAAQBwHXBRwBdQABALz+vwX2BdUACwAAIREhESERIREhESERA+v+3P31AYECOAGB/r8BQQXV+04EsvorAAD//wAKAAAGJwXVEgYAIgAAAAIAvAAABYkF1QAKABkAJ0AVErkIvhC5DY0AuQsOBBYWCRAWDAMaEPzsMtTsxDEAL+z07PTsMAEyNzY1NCcmKwEREyERIREhETMgFxYVFAcGAx95Njo6NXri/v2BBGn9GP4BG6GSkqEBBi0xXVswLf6N/voF1f7d/up1avDuanX//wC8AAAFiQXVEgYAIwAAAAEAvAAABOEF1QAFABdACwTAAY0AAgQWAQMGEPzszDEAL/TsMDMRIREhEbwEJf1cBdX+3ftOAAAAAgB7/r8GpQXVAAUAFAAwQAwCFgsQDRQDFgoRFBUQ3MzU7BDUzNTsMQBACwPAC40PEw0AFMARL+wyMswy9OwwASERIRUQBT4BGQEhETMRIREhESERArEBoP69/d1oOgRF0/7d/Bz+3QEjA49b/YC0RcsCiAEa+079nAFB/r8CZP//ALwAAAThBdUSBgAmAAAAAQAeAAAJrQXVABMAk0ALDQoGCQsOBhYRBRQQ3DzsMtTEETk5MQBADSUNDgoHBAIIBY0ADwsvPDzsMjIXOTBLU1hAFgwdCw0dCg4JCwoIHQkHHQoNDg4JDgkJBxA8PATtEAXtBwgQ7QUQ7VkAtwQHAQoSDREOEDwQPBA8EDwBQBMSBQ0TBQwABQsBBQoCBQkDBQgGEEk6STpJOkk6STpJOjMJASEBESERASEJASEBBxEhEScBHgJj/d4BlAIyAYECMgGU/d4CY/5Y/lOy/n+y/lMDfwJW/ZgCaP2YAmj9qvyBAnXD/k4BssP9iwABAIf/4wUoBfAAKABMQCsAFawTCZYKsQ2sBiCWH7EcrBOwI5wGmCkWExkUABAZFiYQFgMfFB8gCR4pEPzkxPzs1OwSORESOTkxABDk9OT89OwQ/vXuEO45MAEeARUUBCEiJicRHgEzMjY1NCYrATUzMjY1NCYjIgYHETYkMyAEFRQGA/SXnf6s/pyT6mxs1Zmjo6fBuMCvjoqIjvZFQwEnXgFHAU2KAyUnwZXe5yYkASk2N2pjZmn4W11WXjEiARoXKb/Ag6cAAAEAvAAABfYF1QAJAD1AHQM2CQgJCDYEAwQlBAMHAMEBBQkECAMxAAgxBQMKEPzs1OwROTkxAC887DI5OTBLU1gHEATtBxAE7VkiAREhEQEhESERAQX2/pP94f5SAW0CHwXV+isEAPwABdX8AAQAAP//ALwAAAX2B2sSJgFYAAAQBwHXBTgBdQABALwAAAZsBdUACwBZQAsIBQEEBgkBFgADDBD87DLUxBE5OTEAQAslCAkFAgQDAI0KBi887DIXOTBLU1hAFgcdBggdBQkEBgUDHQQCHQUICQkECQQJBxA8PATtEAXtBwgQ7QUQ7VkTIREBIQkBIQEHESG8AYECWgG0/a8Ccv5Y/j/G/n8F1f2YAmj9o/yIAnzK/k4AAQBeAAAF6QXVAA0AILcJFgYKFgUBDhDU1OzU7DEAtwrABY0BwAAILzzs9OwwMxE2EhkBIREhESEVEAJe/mYEJ/5//tvCASMcAUsCMQEa+isEslv93P4F//8AvAAABzkF1RIGAC4AAP//ALwAAAX2BdUSBgApAAD//wBm/+MGZgXwEgYAMAAAAAEAvAAABfYF1QAHABxADgTAB40CBgMWAAQWBwMIEPzs1OwxAC889OwwAREhESERIREF9v5//cj+fwXV+isEsvtOBdX//wC8AAAFiQXVEgYAMQAA//8AZv/jBVwF8BIGACQAAP//AAoAAAVqBdUSBgA1AAAAAQA7AAAF7gXVABAAPbMQBgwRENTE1DEAQAclBsAPDY0FL+Qy7DBLU1hAEg4dAAwLDx0QEAAOHQsNHQwMCwUHEO0Q7QcQ7QgQ7VklBgcGISMRMzI3NjcBIQkBIQOjKDt4/qxGaowhCAf95wGSAUsBQgGU+FU2bQEjRQ8PBE/9WAKoAAAAAwBmAAAHiAXVAAYADQAfADpADwctExkEDhYWCg8ALRwrIBD87NQ8PPw8PNTsMQBADgoErhAfDo0YCwOuFhkYL9w87DIQ9Nw87DIwARQWFxEOAQU0JicRPgEBIRUEABEQAAUVITUkABEQACUB9JuoqJsEB5uoqJv9PAGBAW8BYf6f/pH+f/6R/p4BYgFvAvmWhg4CVQ6HlpaHDv2rDoYDcpQe/u7+6P7o/u8esrIeAREBGAEYARIe//8AJwAABgIF1RIGADkAAAABALz+vwbxBdUACwAkQBIGAo0LCATAAQAJBhYHAxYCAwwQ/OzU7NTMMQAv7DLM9DwwKQERIREhESERMxEhBc767gGBAjgBgfv+3QXV+04EsvtO/ZwAAAAAAQClAAAFuwXVAA8AILcBDRYOBxYGEBDc7NTsMjEAtwzAAr4OB40AL/Qy9OwwIREhIiY1ESERFBYzIREhEQQ6/fa+zQGBSl4BbAGBAjrq5wHK/u3seQJ4+isAAAABALwAAAklBdUACwAlQBMKAgaNAAjABQIWAwoWCwcWBgMMEPzs1PzU7DEAL+wy9Dw8MAEhESERIREhESERIQWxAfMBgfeXAYEB8wGBASMEsvorBdX7TgSyAAAAAAEAvP6/CiAF1QAPAC1AFwsPBo0DAAwIwAUDAQ4WDwoWCwcWBgMQEPzs1PzU7NTMMQAv7DIyzPQ8PDABMxEhESERIREhESERIREhCSX7/t33vwGBAfMBgQHzAYEBI/2cAUEF1ftOBLL7TgSyAAIAZAAABx4F1QAIABUAAAEyNjU0JisBEQEhESERMyAEFRQEKQEEtHlwb3ri/n/+EwNu/gEbATP+zf7l/YEBBl5dW13+jQOsASP9x9/w7t///wC8AAAHjgXVECYBbAAAEAcBRgVRAAAAAgC8AAAFiQXVAAoAFwArQBYJrhQKrhGNEAAIFA8TBC0LChMWEQMYEPzsMtTsETk5OTkxAC/k7NTsMAEyNzY1NCcmKwERJRQHBikBESERMyAXFgMfeTY6OjV64gNMkqH+5f2BAYH+ARuhkgEGLTFdWzAt/o3H7mp1BdX9x3VqAAABAIP/4wV5BfAAFwAAExYzMjY3IREhLgEjIgcRNjMgABAAISIng8/X2MoR/V8CoRHK2NfP1vcBdQG0/kz+i/fWAYeN5ngBI3jmjQE1b/5f/TX+X28AAAAAAgC8/+MI8wXwABQAIAA2QB4VrgScIRuuCpghFMAPvhKNER4tBxgtDgAPExYSAyEQ/Owy1Dzs1OwxAC/09OwQ9OwQ9OwwATY3NiEgABEQACEgJyYnIxEhESERASICFRQSMzISNTQCAvwcuroBZwFoAZj+aP6Y/pm6uhy//n8BgQO2sMLCsLHCwgN7+729/mT+lf6W/mS9vfv9qAXV/aYBXv787Ov+/AEE6+wBBAAAAAACAIMAAAVtBdUACAAWADpACRQFFhEALQkNFxDUxOzU7DIxAEAKJQSTFAaTEI0TCS889OzU7DBLU1i3FR0KFh0JCgkFBxDsEOxZARQWOwERIyIGCQEuATU0JCkBESERIwECSml5wMB5af45AXRM4gETAScCav5/g/60BABnWgF/WPuaAnor15Xg5PorAjX9y///AFj/4wTFBHsSBgBCAAAAAgBY/+MFPgZXAB4AKgA6QA4LDChCF0wiQhINAx07KxD8xOzs/OzUxDEAQBEOoQmjKyWhGh+hHRIUyhqYKxDk9Dk57BDuEPzuMBMnJjU0NzY3NiU2NxcGBQYHBgc2MyAAERAAISAAETQBIgYVFBYzMjY1NCZuBw86a492AesyOVBM/nqrRnQJk90BIQFF/rz+3v7e/rkCaHZ9fXZ2fHwCbadDQ8SA7DApJwQJ3hQiDzBPlVv+yP7s/uz+yAE4ARQmASaroaGrq6GhqwAAAwCsAAAEtgRgAAgAEQAgAC1ADAMNFgwNHBAHDRIQIRD87DLU7NTsMQBACxChCCAHoRKzEaEgL+z07BDU7DABMjY1NCYrARUTMjY1NCYrARUBITIWFRQGBx4BFRQGIyECuz5AQD6ptU9QUE+1/poCAfnfUk1jberu/c4CujMyMjLJ/iY/Pz4++gOAjZtScxwbkWqinwAAAAABAKwAAAP9BGAABQAXQAsEoQGzAAIEDQAQBhD87MwxAC/07DAzESEVIRGsA1H+FQRg3fx9AAAAAAIAc/7lBgMEYAAOABQAMEAMDw0GCgcOEA0ECw4VENzM1OwQ1MzU7DEAQAsQoQSzCQ0GEw6hCy/sMjLMMvTsMBM+ARE1IREzESERIREhEQEjFRAHIa9yYAPIuv8A/HD/AANw/FMBTwEAJv0BadT8oP3lARv+5QIbAmAf/pHSAAD//wBY/+MFCgR7EgYARgAAAAEAHgAAB9gEYAATAKtACw0KBgkLDgYNEQUUENw87DLUxBE5OTEAQA0lDQ4KBwQCCAWzAA8LLzw87DIyFzkwS1NYQBYMHQsNHQoOCQsKCB0JBx0KDQ4OCQ4JCQcQPDwE7RAF7QcIEO0FEO1ZAUAJGggLDAsNDQgEXQBABxQHCg0CBwNdALcEBwEKEg0RDhA8EDwQPBA8AUATEgUNEwUMAAULAQUKAgUJAwUIBhBJOkk6STpJOkk6STozCQEhAREhEQEhCQEhAQcRIREnAR4B+/4sAYgBewFmAXsBiP4sAfv+jv6iWv6aWv6iApkBx/6PAXH+jwFx/jn9ZwHKV/6NAXNX/jYAAQBk/+MEJAR7ACAAPEAKBFAOHVASAAkYIRDcxMTU7NTsMQBAFgnMCNQGnwvKISChACEXzBjUGp8VmCEQ9Pz07BDU7BD0/PTsMAEzMjY1NCMiBxE2MzIWFRQHFhUUBCEiJxEWMzI2NTQhIwEgpJNr7MV6ttf86Nv3/vD+3dm04IWSg/7gngK6QCxnRQEDMI+XxjM94a2uOAEUXk8yiwAAAAEArAAABO8EYAAJADxAEyUIAwkGswIFCQQHAw0ABw0GEAoQ/OzU7BE5OTEALzzkMjk5MEtTWEAKAzQJCQgINAQEAwcQ7QcQ7VkBESERASERIREBBO/+mv6X/owBZgFpBGD7oAJU/awEYP2sAlQAAP//AKwAAATvBh4SJgF4AAAQBwHQAM7/2AABAKwAAAVQBGAACwBwQAsIBQEEBgkBDQAQDBD87DLUxBE5OTEAQAslCAkFAgQDALMKBi887DIXOTBLU1hAFgcdBggdBQkEBgUDHQQCHQUICQkECQQJBxA8PATtEAXtBwgQ7QUQ7VkBQAkaAw8DCggPBwRdALYVAgACCggDXRMhEQEhCQEhAQcRIawBZgGPAYj+IgIF/o7+mWX+mgRg/oUBe/45/WcBz2D+kQAAAQBxAAAFMARgAA8AIEAQC6EGswGhAAkKDQcLDQYBEBDU1OzU7DEALzzs9OwwMxE2NzYRNSERIREjFRAHAnGxKB4DyP6a/EWMAQAkdVkBt7f7oANgJf5JgP78AAABAKwAAAXdBGAADABKQBQlCgcCAwgDALMJBgwHDQQKDQAQDRD87NzsMQAvPMTsMhEXOTBLU1hAEgI0CAoJAzQHCAcCNAkBNAoKCQUHEO0Q7QcQ7QgQ7VkTIRsBIREhEQMjAxEhrAGc/PwBnf6bveu+/poEYP3QAjD7oAJ7/lwBpP2FAAABAKwAAATbBGAACwAkQBIJoQIEALMHCwgEDQUJAQ0AEAwQ/Owy3OwyMQAvPOQy3OwwEyERIREhESERIREhrAFmAWMBZv6a/p3+mgRg/lYBqvugAdn+JwD//wBY/+MFJwR7EgYAUAAAAAEArAAABNsEYAAHABxADgShB7MCBgMNAAQNBxAIEPzs1OwxAC889OwwAREhESERIREE2/6a/p3+mgRg+6ADYPygBGD//wCs/lYFXgR7EgYAUQAA//8AWP/jBDUEexIGAEQAAAABAAgAAASaBGAABwAaQAwDB6EAswUBAw0ABggQ1Mz8zDEAL/TsMjATIRUhESERIQgEkv5q/pv+aQRg3fx9A4P//wAZ/kYFEgRgEgYAWgAAAAMAcf5WB38GFAAKACQALwBLQBAtQhIkJBoJDRcnDANCHzswEPzs1DIy7DIyENTsMQBAGCoGoRca0BwlAKENJNAPIsoY3hUcmAujMBDk5DLk9DLkMuwyEOYy7jIwASIGFRQWMzI3ESYTIRE2MzIAERAAIyInESERBiMiABEQADMyFwUiBxEWMzI2NTQmAp1BeXlBaz09PQFmapHPAQr+9s+Rav6aapHP/vYBCs+RagIOaz09a0F5eQN3qKCgqEoB/EoCnf4eSf63/v3+/f63Sf4qAdZJAUkBAwEDAUlJu0r+BEqooKCoAP//AB8AAAUKBGASBgBZAAAAAQCs/uUFlQRgAAsAJEASCASzCQWhAAEACgcNCAQNAgwMEPzs1OzUzDEAL8zsMvQyMAERIREhESERIREzEQSV/BcBZgFjAWa6/uUBGwRg/KADYPyg/eUAAAEAhAAABJYEYAAPAB+3AQ0NDgcNBhAQ3OzU7DIxALYCoQwNB7MAL+Qy1OwwIREhIiY1ESEVFBY7AREhEQMw/pCWpgFmOkzAAWYBsbGuAVDHslkB0vugAAABAKwAAAfGBGAACwAlQBMKAgazAAihBQINAwoNCwcNBhAMEPzs1PzU7DEAL+wy9Dw8MAEhESERIREhESERIQTsAXQBZvjmAWYBdAFmAQADYPugBGD8oANgAAAAAAEArP7lCIAEYAAPAC1AFwYKArMPDAgEoQEADQoNCwYNBwMNAhAQEPzs1PzU7NTMMQAv7DIyzPQ8PDApAREhESERIREhESERMxEhB4D5LAFmAXQBZgF0AWa6/wAEYPygA2D8oANg/KD95QAAAAIAKAAABbEEYAAIABQAACUyNjU0JisBFQURITUhETMyFhAGIwPDT1BPULX+mv6AAubL4/X34eA/Pz4++uADg93+V6f+lKQA//8ArAAABpYEYBAnAPEEhAAAEAYBjAAAAAIArAAABLUEYAAKABcAIUARBaENC7MGoRcADRIFDA0LEBgQ/Owy1OwxAC/s5NTsMAE0JyYrARUzMjc2ASERMzIXFhUUBwYjIQNmKCdQtbVPKCj9RgFmy+N6e3t64/3PAV4/Hx76IB8DQf5XU1S2tlJSAAAAAQCJ/+MEZgR7ABYAAAEhLgEgBxE2MyAAEAAhIicRFjMyNjchAQwB2g2P/s6Pqq4BLwFW/qr+0bCogaCblg3+JAKXS5liASQ+/sn91v7JPgElY5ZVAAAAAAIArP/jB2wEewAUACAAPkAOHkIKTBhCEQMSAg0AECEQ/Pw83DLs9OwxAEATFaEDEQ0HyhQboQ0RoQIAsw2YFC/k9NTsEO4Q9BE5OewwEyERMzY3NiEgABEQACEgJyYnIxEhASIGFRQWMzI2NTQmrAFmkhSWlgEiASEBRf67/t/+3paVFJP+mgRad319d3V8fARg/j/Ajo7+yP7s/uz+yI+QwP4+A3uroaGrq6GhqwAAAgA/AAAEegRgAAgAFgBNQAkUBQ0RAEIJDRcQ1MTs1OwyMQBACiUEoRQGoRCzEwkvPPTs1OwwS1NYtxUdChYdCQoJBQcQ7BDsWQFADwAVABYACAMHAwIAAQAAB10BFBY7AREjIgYJAS4BNTQ2MyERIREjAwHpT1uBgVtP/lYBJVV+1/ECIf6afvoC/khAAQ8+/LkB3zGrap+c+6ABmf5n//8AWP/jBQoGbRImAXUAABAHAEEAlAAH//8AWP/jBQoGMRImAXUAABAHAGgAxQAAAAEAKP5GBVoGFAAeAAATNTMRIREhFSERNjMyEhEQAAc1PgE1NCYjIgYdASERKLIBZgHw/hCewMnz/onvfHhdeFOA/poDg90BtP5M3f7Zv/7t/uj+xf60I9YT0da5fq2ZxwODAP//AKwAAAQoBm0SJgFzAAAQBwB0AIYABwABAFj/4wQ1BHsAGABXQAkAFwFCBhEMOxkQ/MQy/DLMMQBAGBihARHMEtQUB8wG1AShCQHXFKEPygmYGRDk9OzsEP707hD17hDssRgUSbEEAUlQWLMYAUACFzhZMLRfGn8aAgFdASEeATMyNxEGIyAAERAAITIXESYjIgYHIQOy/iQNlpuggaiw/tH+qgFWAS+uqo+ZmY8NAdoBzlWWY/7bPgE3ARUBFQE3Pv7cYplL//8Aav/jBGIEexIGAFQAAP//AKwAAAISBhQSBgBKAAD//wAjAAACmQYxEAYArwAA////vP5GAhIGFBIGAEsAAAACAFoAAAeKBGAAFQAeAAABIREzMhYQBiMhESMVEAcCIRE2NzYRATI2NTQmKwEVAVEDyJnj9fXj/gH8RYz+dLEoHgRLT1BQT4MEYP5Xp/6UpANgJf5JgP78AQAkdVkBt/03Pz8+PvoAAAIArAAAB0wEYAAIABoAACUyNjU0JisBFRchESERIREhESERIREzMhYQBgVeT1BTTIOZ/gH+nf6aAWYBYwFmmeP19eA/Pz4++uAB2f4nBGD+VgGq/len/pSkAAAAAQAoAAAFQAYUABsAABM1MxEhESEVIRE+ATMyFhURITU0JiMiBh0BIREosgFmAfD+EFG2bsLJ/phUVHJ+/poDg90BtP5M3f7ZYl3u4/62vOFwrZnHA4MA//8ArAAABVAGbRImAXoAABAHAHQAwwAH//8ArAAABO8GbRImAXgAABAHAEEBCgAH//8AGf5GBRIGHhImAYMAABAHAdAAlv/YAAEArP7lBNsEYAALAAABIREhESERIREhESEDRP8A/mgBZgFjAWb+af7lARsEYPygA2D7oAABALwAAAThBwcABwAbQA0EBsABjQADBAYWAQMIEPzs3MwxAC/07MwwMxEhESERIRG8AwIBI/1cBdUBMv2r+04AAQCsAAAD/QWaAAcAG0ANAwahAbMAAgUGDQAQCBD87NzMMQAv9OzMMDMRIREzESERrAJ03f4VBGABOv3p/H0AAAEAbwG8AuMC3wADABK3AqsAqgQBAAQQ1MQxABD07DATIREhbwJ0/YwC3/7dAAAA//8AbwG8AuMC3xIGAaIAAAABAG4BsAUjArIAAwATuQACARW0AKoEAQAvxjEAEPTsMBMhESFuBLX7SwKy/v4AAAABAG4BsAOSArIAAwATuQACARW0AKoEAQAvxjEAEPTsMBMhESFuAyT83AKy/v4AAAABAG4BsAeSArIAAwATuQACARW0AKoEAQAvzDEAEPTsMBMhESFuByT43AKy/v4AAAABAAABsAgAArIAAwATuQACARW0AKoEAQAvzDEAEPTsMBEhESEIAPgAArL+/gAAAP//AQT+HQMxBh0QJgBdAAAQBwBdAUoAAP//AAD+HQQA/+4QJgBAAAAQBwBAAAABEwABANMDWAKLBdUABQAbuQAAARZACQONBgMEABEBBhDc/NTMMQAQ9OwwASEREzMDAif+rOPVZANYAR0BYP6gAAAAAQCBA1gCOQXVAAUAG7kAAwEWQAkAjQYDBAERAAYQ3OzUzDEAEPTsMBMhEQMjE+UBVOPVZAXV/uP+oAFgAAAAAAEAk/8GAkwBgwAFABu5AAMBFkAJAKgGAwQBEQAGENzs1MwxABD87DATIREDIxP4AVTm02UBg/7j/qABYAAAAAABAIEDWAI5BdUABQAAARETIwMRAdVk1eMF1f7j/qABYAEdAAACANMDWASFBdUABQALACu6AAYAAAEWQBAJA40MAwQAEQEJCgEGEQcMENz8zNTMEP7UzjEAEPQ87DIwASEREzMDASEREzMDBCH+rOPVZP4G/qzj1WQDWAEbAWL+nv7lAR0BYP6gAAAAAAIAvANYBG8F1QAFAAsAK7oACQADARZAEAYAjQwJCgcRBgEDBAERAAwQ3OzUzBDc7tTOMQAQ9DzsMjABIREDIxMBIREDIxMBIQFU5NVlAfoBVOTVZQXV/uP+oAFgAR3+4f6iAV4AAAAAAgCT/wYERgGDAAUACwArugAJAAMBFkAQBgCoDAkKBxEGAQMEAREADBDc7NTMENzu1M4xABD8POwyMBMhEQMjEwEhEQMjE/gBVObTZQH6AVTk1WUBg/7j/qABYAEd/uH+ogFeAAIAvANYBG8F1QAFAAsAAAEREyMDESMREyMDEQQKZdXkpmXV5AXV/uP+oAFgAR3+4f6iAV4BHwAAAQA1/zsDwwXVAAsAKkAWCATlAgbjAI0KAuQMA1cFAVYJVwcADBDUPOT8POQxABDkMvTsEO4yMAEhESEVIREhESE1IQFWAUoBI/7d/rb+3wEhBdX+g+770QQv7gABADP/OwPDBdUAEwA/QCEQBOUCDAjlDgYK4wCNEgLkFA0UEQcDVwkFAVYRVw8LABQQ1Dw85Pw8POQyERI5MQAQ5DL0/NQ87DIQ7jIwASERIRUhESEVIREhESE1IREhNSEBVgFKASP+3QEj/t3+tv7dASP+3wEhBdX+g+7+PO7+gwF97gHE7gAAAQEnAZED9gRgABcAErcS6QYYDF0AGBDU7DEAENTsMAE0Njc+ATMyFhceARUUBgcOASMiJicuAQEnNTM1gklJgzI0NTYzM4NKSYIzMjYC+kqCMjM1NjI0gUlKgzMzNjYzM4MAAAEBJwFBBEYEsAACAAABEQEBJwMfAUEDb/5IAAABAKIAAAIKAYMAAwAAEyERIaIBaP6YAYP+fQAAAgCiAAAEtAGDAAMABwAAEyERIQEhESGiAWj+mAKqAWj+mAGD/n0Bg/59AAADAKIAAAdeAYMAAwAHAAsAI0ARCAQAqAoGAgECAAkCCAUCBAwQ3PzU/NTsMQAvPDzsMjIwASERIQEhESEBIREhBfYBaP6Y+qwBaP6YAqoBaP6YAYP+fQGD/n0Bg/59AP//ALACBgIYA4kQBgB33wAABwBC/+MLVgXwAAsAFwAjAC8AMwA/AEsAfEBDMwsyMjExCzAwMyVAAJ0MHp0qmRidJEYGnTQMmTowEpgyJJxMM0lDMSEbCQgPCQMIFUMIPSEIJz0JSQgVNxsIJwktTBDc5OzUzOzkEO4Q7hDu9u4REjkREjkxABDkMvQ8POQy7DIQ7vbuEO4yMEtTWAcQBe0HEAXtWSIBIgYVFBYzMjY1NCYnMhYVFAYjIiY1NDYBIgYVFBYzMjY1NCYnMhYVFAYjIiY1NDYBIwEzAzIWFRQGIyImNTQ2FyIGFRQWMzI2NTQmCcdITk5IR0xMR7rV1rm62Nf4xUhOTkhITU5HutXVurrV1QGH3QOl3hG61ta6utfXukdOTUhITE0CaHtyc3t7c3J7qNi9vdvbvbzZAjh8cnN9fXNyfKjZvb3a2r292fnzBg39INi9vdvbvbzZqHtyc3t7c3J7AAABAJ4AiQKLBCcABgAfvAACAAQBEwAAARK2BwIDAHkFBxDU7DI5MQAQ9Ow5MAEVDQEVATUCi/7bASX+EwQn8t3d8gFxugAAAAABAMEAiQKuBCcABgAfvAAFAAMBEwAAARK2BwUBeQMABxDUPOw5MQAQ9Ow5MBMBFQE1LQHBAe3+EwEk/twEJ/6Nuv6P8t3dAAAB/9n/4wUIBfAAMQByQDsYHBUALgMqBvcoCB8R9w8xLq4DGRyuFZwDmCEPMiooIgMlISkgEQgyDwkMKx8pEgYMICklFhAHGAAMMhDUxDLEMvzExBI5ORI5ORI5ORE5ORESOREXOTEAEMQy5PT8xBD+xBDuMt087jIREjkREjkwJQ4BIyAAJyM3My4BNTQ2NyM3MzYAITIWFxEuASMiBgchByEOARUUFhchByEeATMyNjcFCF/PcP76/plL2VhiAQEBAbpYgU0BZQEGcM9fUbhjf7MtAhtW/hMCAQEBAa1Z/tUyr35jtVRSNzgBBfXDDh8cHSAPw/YBAjg3/stOT3t2wxAkJA0fEcN6ek9PAAAAAAIAQAAABT0F1QAHAB0AAAERMzI2NCYjASEgBBAEISMVIRUhFSE1IzUzNSMRMwKhJXB6enD+WgHPAR0BMf7P/uNOAa3+U/5/4ODg4AS+/q9PtE4BF9X+LNaO5ePj5Y4BFwAAAAAEAEUAAAk8BdUABwAdACUAKQAAACIGFBYyNjQBIQERNDYhFSIGFREhAREUBiE1MjY1ACAWEAYgJhARIRUhCDVyPj5yPvhJAa4CH7gBLFcg/lL94bj+1FcgBqwBKqqq/taqAn79ggOWb85xcc4CrvwAAqrIjt0+O/uBBAD9VsiO3T47AtfD/qzExAFU/V7IAAACAScDkwZSBdUADAAUAHZAPgIGBwYBAAEHBwYBAgEICQgACQkIJQEHCQYOAAcQCgQSDu4NAgCNFQgHAgEABQkFE2oRBWkDCWkLDWoRaQ8VENTs5NTs1OwQ5BESFzkxABD0PDzsMtQ8PMQREjk5ETkwS1NYBxAFyQcQCMkHEAjJBxAFyVkiARc3MxEjEQMjAxEjESMVIxEjESM1BIF3d+OqiUyJrHGurKwF1ePj/b4Btf8AAQD+SwJCj/5NAbOPAAABAGQAswY/BFEACQCBtAIJBgAKENTUzDJACUACQAkwAjAJBF0xQAoCBQkBAAYFpwYKABDU7BE5OcwQzDBADAgJCQAIBwgHpwAJAAcFEPw8CAYQPEAMAwICAQMEAwSnAQIBBwUQ/DwIBhA8sA5LU1gAswMCCAkQPBA8tAinCQkABwUQ7LQDpwICAQcFEOxZEzUBFwchFSEXB2QBiZHGBIf7ecaRAjyMAYmRxvDGkQAAAAEBjAAABSoF3AAJAIFACgIFCQEABgWnBgoQ1OwROTnMEMwxALQCCQYAChDU1MwyQAlPAk8JPwI/CQRdMEAMCAkJAAgHCAenAAkABwQQ/DwIBhA8QAwDAgIBAwQDBKcBAgEHBBD8PAgGEDywEEtTWAGzAwIICRA8EDy0CKcJCQAHBBDstAOnAgIBBwQQ7FkBMwEHJxEjEQcnAxWMAYmRxvDGkQXc/neRxvt4BIjGkQAAAQB1ALMGUARRAAkAgbQCCQAGChDU1MwyQAlPAk8JXwJfCQRdMUAKCQYCAQAFBqcFCgAQ1OwROTnMEMwwQAwICQkACAcIB6cACQAHBRD8PAgGEDxADAMCAgEDBAMEpwECAQcFEPw8CAYQPLAOS1NYALMDAggJEDwQPLQIpwkJAAcFEOy0A6cCAgEHBRDsWQEVASc3ITUhJzcGUP53kcb7eQSHxpECyIz+d5HG8MaRAAABAYz/+QUqBdUACQCBQAoJBgIBAAUGpwUKENTsETk5zBDMMQC0AgkABgoQ1NTMMkAJQAJACVACUAkEXTBADAgJCQAIBwgHpwAJAAcEEPw8CAYQPEAMAwICAQMEAwSnAQIBBwQQ/DwIBhA8sBBLU1gBswMCCAkQPBA8tAinCQkABwQQ7LQDpwICAQcEEOxZBSMBNxcRMxE3FwOhjP53kcbwxpEHAYmRxgSI+3jGkQAAAAEA2QIMBdsC+AADABK3AqcApgQBAAQQ1MQxABD07DATIRUh2QUC+v4C+OwAAgA4ApwDLgXfAAIADQAAAQMzAzMRMxUjFSM1ITUBv+/vEviJieb+eQUc/r0CBv36m6KiqAAAAAAB/mj/4wLuBfAAAwArQBMANQECAQI1AwADJQCYApwEAwEEENTMMQAQ5OQwS1NYBxAF7QcQBe1ZIgcjATO44AOm4B0GDQAAAAAB/LIE7v6TBfYAAwA4tQABBAEDBBDUxDEAENTEMABLsAxUWL0ABP/AAAEABAAEAEA4ETc4WUANDwAPAx8AHwMvAC8DBl0BEyMB/c3GxP7jBfb++AEIAAAAAf1tBO7/TgX2AAMAOLUAAgQBAwQQ1MQxABDUxDAAS7AMVFi9AAT/wAABAAQABABAOBE3OFlADQ8ADwEfAB8BLwAvAQZdASEBI/4zARv+48QF9v74AAAAAAH8hwTu/3kF9gAGAEVACQQABQIHBAIGBxDUxDkxABDUPMQ5MABLsAxUWL0AB//AAAEABwAHAEA4ETc4WUATDwAPAQ8EHwAfAR8ELwAvAS8ECV0BIRMjJwcj/WYBNN+yx8eyBfb++KGhAAAAAAH8pATu/1wF+AAjAMNACxQTFxAIAQADCRoQuwEcAAUAFwEcQBMhCSQUARMAGg0KCBsagB4IgAokENTs1OzAERI5Ejk5OTkxABDUPOzU7DISFzkREjk5MABLsAxUWL0AJP/AAAEAJAAkAEA4ETc4WUBcCQAJAQkCCQMLDwsQCxELEgsTCRQLFgwXDBgPGQ8aDxsPHA8dDx4PHwkjGgAaARoCGgMbDxsQGxEbEhsTGxQbFRsWGxcbGB8ZHxofGx8cHx0fHh8fGiMrBg4WDgJdAV0BJyYnJiMiBh0BIzQ2NTQ2MzIWHwEeATMyNjUzFAYVFAYjIib+AjgDBy0cICiLAmtXJUonOxUnECUniwJrVyZGBR8jAgQaPDIGBRQFaoIZGCcODzw5BhQFaoEWAAL8xQUA/zsF9gADAAcAHEANBADxBgIIBRIEARIACBDU/NTsMQAQ1DzsMjABMxUjJTMVI/zF6+sBi+vrBfb29vYAAAAAAQCHBO4DeQZmAAYANkALBAUCxgDFBwQCBgcQ1Mw5MQAQ9OwyOTAAS7AJVEuwDlRbWL0AB//AAAEABwAHAEA4ETc4WQEzASMnByMBh/IBALLHx7IGZv6I4eEAAAABAKQFGwNcBjkAHgDJQBQXERADFA0IAQADHAUZGBQNCgkFFLwBHAAcARsABQEcQA8NxR8RARAACBeAGQiACh8Q1OzU7BE5OTk5MQAQ9Oz87BI5ORESOTkREhc5ERIXOTAAS7AJVEuwDlRbWL0AH//AAAEAHwAfAEA4ETc4WUBUCQAJAQkCCQMMDAwNDA4MDwwQDBEMEgwTDBQMFQ8WDxcPGA8ZDxoJHhoAGgEaAhoDGgwaDRoOGw8bEBsRGxIbExsUGxUfFh8XHxgfGR8aGh4oFQsBXQFdAScmJyYjIgYdASM0NjMyFh8BHgEzMjY9ATMUBiMiJgICNwQGLxkkJotnXSRJKT0WJQ8kKItnXSRDBVQlAgQfPjsIiJQbHisPEEA5CIiUGAAAAAIA4wThAx0HGwALABcAQ70AAwEYABUBHQAJARhACg8YBoMSOgCDDBgQ1Oz87DEAENTs/OwwAEuwCVRLsA5UW1i9ABj/wAABABgAGABAOBE3OFkBFBYzMjY1NCYjIgYHNDYzMhYVFAYjIiYBfU02N0xNNjdMmqd2dqendnanBf43TE02Nk1NNnanp3Z2p6cAAAEAsAUdA1AGRgANAGlADAQLBwAOB4EIAYEADhDU7NTsMQAQ1DzUzDAAS7AKVEuwD1RbS7AQVFtYvQAOAEAAAQAOAA7/wDgRNzhZAEuwDFRYvQAO/8AAAQAOAA4AQDgRNzhZQBEPAA8BDwcPCB8AHwEfBx8ICF0TMx4BMzI2NzMOASMiJrCPC2NTU2MLjwaunJyuBkZGSkpGkJmZAAEBVv5vAwIAAAATAB9ADQoLBw4AABEBCgQKERQQ1MTMETkROTEAL9TM1MwwITMOARUUFjMyNjcVDgEjIiY1NDYBxY0yJjsxJ00oN14pc3s2Q0kaJzEPEJwLC1xWNW0AAAH9dwUA/okF9gADACq3APECBAGCAAQQ1OwxABDU7DAAS7AMVFi9AAT/wAABAAQABABAOBE3OFkBIRUh/XcBEv7uBfb2AAAAAAH9SwTw/rEGFAADAB9ACACoAwQDAgIEENTsMQAQ1LAMS1RYuQADAEA4WewwASERIf1LAWb+mgYU/twAAAH8hwTu/3kF9gAGAEtACQMEAQAHAwUBBxDUxDkxABDUxDI5MABLsAxUWL0AB//AAAEABwAHAEA4ETc4WUAZDwEPAg8EDwUfAR8CHwQfBS8BLwIvBC8FDF0BAzMXNzMD/WbfssfHst8E7gEIoqL++AABAIcE7gN5BmYABgA2QAsDAMYEAcUHAwUBBxDUzDkxABD0POw5MABLsAlUS7AOVFtYvQAH/8AAAQAHAAcAQDgRNzhZCQEzFzczAQGH/wCyx8ey/wAE7gF44+P+iAAAAAAB/W0E7v7YBmYAAwARQAYAAwQBAwQQ1MwxABDUzDABIQMj/b0BG6fEBmb+iAAAAAAB/LAE7v9QBfYADQBTQAwEBwALDgeBCAGBAA4Q1OzU7DEAENTEMswwAEuwDFRYvQAO/8AAAQAOAA4AQDgRNzhZQB0PAA8BDwcPCB8AHwEfBx8ILwAvAS8HLwgvCS8NDl0BMx4BMzI2NzMOASMiJvywjxVgTExgFY8QrJSUrAX2PTw8PYGHhwAAAf1i/hf/AP9BAAMAEUAGAAMEAQMEENTMMQAQ1MwwBSEDI/28AUTewL/+1gAB/dQDWP9yBIIAAwARQAYCAQQDAQQQ1MwxABDUzDADIRMz6P683sADWAEqAAH/vP5GAhIEYAALADFAEgsCAAefBdoAswwFCAYBDQAQDBD87MQ5OTEAEOT07hE5OTBACVANYA1wDYANBAFdEyERFAYrATUzMjY1rAFm2M2xPmZMBGD7tOHt61yHAAAA//8AgQNYAjkF1RAGAasAAAAC/KAE7v/4BfYAAwAHACBADwAEAwcIAU8DPwMCAwUHCBDUzNRdzDEAENQ8zDIwAQEhASMDIQEj/t0BG/7jxLEBG/7jxAX2/vgBCP74AAAAAAIAwQTuA9UGZgADAAcAJUAUBAAHAwiABTAFAgVfB08HAgcBAwgQ1MzUXcxdMQAQ1DzMMjABMwMjATMBIwGD2fijAi3n/vCuBmb+iAF4/oj///yFBO7/dwZmEAcB1fv+AAAAAATNAGYCyQAAA6YBHwQrAMMGtACLBZEAoAgEAEIG+gB7AnMAwwOoALADqACkBC8AKQa0ANkDCgBtA1IAbwMKANEC7AAABZEAYgWRAOcFkQCiBZEAiQWRAFwFkQCeBZEAfwWRAIkFkQB9BZEAagMzAOUDMwCBBrQA2Qa0ANkGtADZBKQAjQgAAIcGMQAKBhkAvAXfAGYGpAC8BXcAvAV3ALwGkQBmBrIAvAL6ALwC+v+NBjMAvAUZALwH9gC8BrIAvAbNAGYF3QC8Bs0AZgYpALwFwwCTBXUACgZ/ALwGMQAKCNMAPQYrACcFy//sBc0AXAOoALAC7AAAA6gAiwa0AM8EAAAABAAAXgVmAFgFugCsBL4AWAW6AFwFbQBYA3sAJwW6AFwFsgCsAr4ArAK+/7wFUgCsAr4ArAhWAKoFsgCsBX8AWAW6AKwFugBcA/IArATDAGoD0wAbBbIAoAU3AB8HZABIBSkAHwU3ABkEqABcBbIBAALsAQQFsgEABrQA2QLJAAADpgEfBZEArgWRAH0FFwBKBZEAGQLsAQQEAAAOBAAAxQgAARsEgwCeBSsAnga0ANkDUgBvCAABGwQAAMUEAACyBrQA2QOBAG0DgQBaBAABbQXjAK4FFwCBAwoA0QQAAQYDgQB7BIMAdQUrAMEISABkCEgAZAhIAGgEpACNBjEACgYxAAoGMQAKBjEACgYxAAoGMQAKCK4AAAXfAGYFdwC8BXcAvAV3ALwFdwC8AvoAFgL6ALwC+gADAvoAQQa0ACEGsgC8Bs0AZgbNAGYGzQBmBs0AZgbNAGYGtAEABs0ALQZ/ALwGfwC8Bn8AvAZ/ALwFy//sBecAvAXBAKwFZgBYBWYAWAVmAFgFZgBYBWYAWAVmAFgIYgBYBL4AWAVtAFgFbQBYBW0AWAVtAFgCvv/VAr4ArAK+/+UCvgAjBX8AWAWyAKwFfwBYBX8AWAV/AFgFfwBYBX8AWAa0ANkFfwBOBbIAoAWyAKAFsgCgBbIAoAU3ABkFugCsBTcAGQYxAAoFZgBYBjEACgVmAFgGMQAKBWYAWAXfAGYEvgBYBd8AZgS+AFgF3wBmBL4AWAXfAGYEvgBYBqQAvAW6AFwGtAAhBboAXAV3ALwFbQBYBXcAvAVtAFgFdwC8BW0AWAV3ALwFbQBYBXcAvAVtAFgGkQBmBboAXAaRAGYFugBcBpEAZgW6AFwGkQBmBboAXAayALwFsv/tB8oAvAZSAKYC+gAgAr4AAwL6AEECvgAkAvoALAK+AA8C+gC8Ar4ArAL6ALwCvgCsBfQAvAV8AKwC+v+NAr7/vAYzALwFUgCsBVIArAUZALwCvgCsBRkAvAK+AJEFGQC8A9YArAUZALwEdACsBSP/pAL4/9sGsgC8BbIArAayALwFsgCsBrIAvAWyAKwH3QBpBrIArAWyAKwGzQBmBX8AWAbNAGYFfwBYBs0AZgV/AFgJVgBmCMEAWAYpALwD8gCsBikAvAPyAJEGKQC8A/IArAXDAJMEwwBqBcMAkwTDAGoFwwCTBMMAagXDAJMEwwBqBXUACgPTABsFdQAKA9MAGwV1AAoD0wAbBn8AvAWyAKAGfwC8BbIAoAZ/ALwFsgCgBn8AvAWyAKAGfwC8BbIAoAZ/ALwFsgCgCNMAPQdkAEgFy//sBTcAGQXL/+wFzQBcBKgAXAXNAFwEqABcBc0AXASoAFwDewAnBXcAvAV3ALwHBwAKBRkAvAXfAGYFwwCTAvoAvAL6AEEC+v+NCTwAXgkKALwHBwAKBooAvAayALwGKwA7BrIAvAYxAAoGGQC8BhkAvAUZALwHIAB7BXcAvAnLAB4FrwCHBrIAvAayALwGigC8BqUAXgf2ALwGsgC8Bs0AZgayALwF3QC8Bd8AZgV1AAoGKwA7B+8AZgYrACcHbAC8BncApQniALwKmwC8B4QAZAhKALwGGQC8Bd8AgwlkALwGKQCDBWYAWAWWAFgFEACsBC4ArAZ2AHMFbQBYB/YAHgSmAGQFmwCsBZsArAVuAKwF3ABxBooArAWHAKwFfwBYBYcArAW6AKwEvgBYBKMACAU3ABkH8ABxBSkAHwXuAKwFfgCECH8ArAjYAKwGAwAoBzwArAUPAKwEvgCJB8cArAUjAD8FbQBYBW0AWAW2ACgELgCsBL4AWATDAGoCvgCsAr4AIwK+/7wH7gBaB6YArAXgACgFbgCsBZsArAU3ABkFhwCsBRkAvAQuAKwDUgBvA1IAbwWRAG4EAABuCAAAbggAAAAEAAEEBAAAAAMKANMDCgCBAwoAkwMKAIEFQgDTBUIAvAVCAJMFQgC8BAAANQQAADMFHQEnBR0BJwKqAKIFVgCiCAAAogLJALALhQBCA0wAngNMAMEFkf/ZBZEAQAmgAEUIAAEnBrQAZAa0AYwGtAB1BrQBjAa0ANkDgQA4AVb+aAAA/LIAAP1tAAD8hwAA/KQAAPzFBAAAhwQAAKQEAADjBAAAsAQAAVYAAP13AAD9SwAA/IcEAACHAAD9bQAA/LAAAP1iAAD91AK+/7wDCgCBAAD8oAQAAMEAAPyFtwcGBQQDAgEALCAQsAIlSWSwQFFYIMhZIS0ssAIlSWSwQFFYIMhZIS0sIBAHILAAULANeSC4//9QWAQbBVmwBRywAyUIsAQlI+EgsABQsA15ILj//1BYBBsFWbAFHLADJQjhLSxLUFgguAEoRURZIS0ssAIlRWBELSxLU1iwAiWwAiVFRFkhIS0sRUQtLLACJbACJUmwBSWwBSVJYLAgY2ggihCKIzqKEGU6LQ==',
+};
@@ -0,0 +1,654 @@
+/**
+ * Minimal pure-TypeScript PDF text extractor
+ *
+ * Used as a fallback when the Cloudflare AI binding is not available.
+ * Handles FlateDecode content streams, object streams and ToUnicode
+ * CMaps, which covers text-based PDFs exported by office suites and
+ * resume builders. Scanned PDFs have no text layer and yield no text.
+ */
+
+export interface PdfTextResult {
+  text: string;
+  pageCount: number;
+  hasImages: boolean;
+  encrypted: boolean;
+}
+
+interface PdfObject {
+  dict: string;
+  stream?: Uint8Array;
+}
+
+interface CMap {
+  codeLength: number;
+  map: Map<number, string>;
+}
+
+type Token =
+  | { type: 'num'; value: number }
+  | { type: 'str'; bytes: number[] }
+  | { type: 'name'; value: string }
+  | { type: 'array'; items: Token[] }
+  | { type: 'op'; value: string }
+  | { type: 'other' };
+
+// Gap in TJ arrays (thousandths of text space) treated as a word break
+const TJ_SPACE_THRESHOLD = -200;
+
+/**
+ * Extract plain text from PDF bytes
+ */
+export async function extractPdfText(
+  data: ArrayBuffer
+): Promise<PdfTextResult> {
+  const bytes = new Uint8Array(data);
+  const raw = bytesToLatin1(bytes);
+
+  const result: PdfTextResult = {
+    text: '',
+    pageCount: 0,
+    hasImages: /\/Subtype\s*\/Image/.test(raw),
+    encrypted: /\/Encrypt\s+\d+\s+\d+\s+R/.test(raw),
+  };
+
+  if (!raw.startsWith('%PDF-') || result.encrypted) {
+    return result;
+  }
+
+  const objects = parseObjects(raw, bytes);
+  await expandObjectStreams(objects);
+
+  const globalFonts = await collectFonts(objects, null);
+  const pages = findPages(objects);
+  result.pageCount = pages.length;
+
+  const pageTexts: string[] = [];
+  for (const page of pages) {
+    const pageFonts = await collectFonts(objects, page.dict);
+    const fonts = new Map([...globalFonts, ...pageFonts]);
+
+    for (const ref of getContentRefs(page.dict)) {
+      const content = objects.get(ref);
+      if (!content?.stream) continue;
+
+      const decoded = await decodeStream(content);
+      if (!decoded) continue;
+
+      pageTexts.push(extractTextFromContent(bytesToLatin1(decoded), fonts));
+    }
+  }
+
+  result.text = normalizeText(pageTexts.join('\n\n'));
+  return result;
+}
+
+/**
+ * Parse all top-level indirect objects ("N G obj ... endobj")
+ */
+function parseObjects(raw: string, bytes: Uint8Array): Map<number, PdfObject> {
+  const objects = new Map<number, PdfObject>();
+  const objRegex = /(\d+)\s+\d+\s+obj\b/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = objRegex.exec(raw)) !== null) {
+    const objNum = Number(match[1]);
+    const bodyStart = match.index + match[0].length;
+    const endObj = raw.indexOf('endobj', bodyStart);
+    if (endObj === -1) break;
+
+    const streamKeyword = raw.indexOf('stream', bodyStart);
+    if (streamKeyword !== -1 && streamKeyword < endObj) {
+      const dict = raw.slice(bodyStart, streamKeyword);
+      let dataStart = streamKeyword + 'stream'.length;
+      if (raw[dataStart] === '\r') dataStart++;
+      if (raw[dataStart] === '\n') dataStart++;
+
+      let dataEnd = -1;
+      // \b keeps "/Length 12 0 R" from matching as a direct length of 1
+      const lengthMatch = dict.match(/\/Length\s+(\d+)\b(?!\s+\d+\s+R)/);
+      if (lengthMatch) {
+        const candidate = dataStart + Number(lengthMatch[1]);
+        if (raw.slice(candidate, candidate + 20).includes('endstream')) {
+          dataEnd = candidate;
+        }
+      }
+      if (dataEnd === -1) {
+        dataEnd = raw.indexOf('endstream', dataStart);
+        if (dataEnd === -1) break;
+        // Drop the EOL that precedes "endstream"
+        if (raw[dataEnd - 1] === '\n') dataEnd--;
+        if (raw[dataEnd - 1] === '\r') dataEnd--;
+      }
+
+      objects.set(objNum, {
+        dict,
+        stream: bytes.subarray(dataStart, dataEnd),
+      });
+      const afterStream = raw.indexOf('endobj', dataEnd);
+      objRegex.lastIndex = afterStream === -1 ? dataEnd : afterStream;
+    } else {
+      objects.set(objNum, { dict: raw.slice(bodyStart, endObj) });
+      objRegex.lastIndex = endObj;
+    }
+  }
+
+  return objects;
+}
+
+/**
+ * Unpack compressed object streams (PDF 1.5+) into the object map
+ */
+async function expandObjectStreams(
+  objects: Map<number, PdfObject>
+): Promise<void> {
+  for (const obj of [...objects.values()]) {
+    if (!/\/Type\s*\/ObjStm/.test(obj.dict)) continue;
+
+    const decoded = await decodeStream(obj);
+    if (!decoded) continue;
+
+    const count = Number(obj.dict.match(/\/N\s+(\d+)/)?.[1] ?? 0);
+    const first = Number(obj.dict.match(/\/First\s+(\d+)/)?.[1] ?? 0);
+    const content = bytesToLatin1(decoded);
+    const header = content.slice(0, first).trim().split(/\s+/).map(Number);
+
+    for (let i = 0; i < count; i++) {
+      const objNum = header[i * 2];
+      const offset = header[i * 2 + 1];
+      const nextOffset = header[i * 2 + 3];
+      if (objNum === undefined || offset === undefined) continue;
+      if (objects.has(objNum)) continue;
+
+      const end = nextOffset === undefined ? undefined : first + nextOffset;
+      objects.set(objNum, { dict: content.slice(first + offset, end) });
+    }
+  }
+}
+
+/**
+ * Decode stream data, supporting FlateDecode only
+ */
+async function decodeStream(obj: PdfObject): Promise<Uint8Array | null> {
+  if (!obj.stream) return null;
+
+  const filterMatch = obj.dict.match(/\/Filter\s*(\[[^\]]*\]|\/\w+)/);
+  const filters = filterMatch?.[1]?.match(/\/\w+/g) ?? [];
+
+  let data: Uint8Array | null = obj.stream;
+  for (const filter of filters) {
+    if (filter !== '/FlateDecode' && filter !== '/Fl') {
+      return null;
+    }
+    data = await inflate(data);
+    if (!data) return null;
+  }
+
+  return data;
+}
+
+async function inflate(data: Uint8Array): Promise<Uint8Array | null> {
+  try {
+    const stream = new Blob([data.slice()])
+      .stream()
+      .pipeThrough(new DecompressionStream('deflate'));
+    return new Uint8Array(await new Response(stream).arrayBuffer());
+  } catch (_error) {
+    return null;
+  }
+}
+
+/**
+ * Collect font resource names mapped to their ToUnicode CMaps.
+ * With no page dictionary, every font dictionary in the file is scanned.
+ */
+async function collectFonts(
+  objects: Map<number, PdfObject>,
+  pageDict: string | null
+): Promise<Map<string, CMap>> {
+  const fonts = new Map<string, CMap>();
+  const sources: string[] = [];
+
+  if (pageDict === null) {
+    for (const obj of objects.values()) sources.push(obj.dict);
+  } else {
+    const resourcesRef = pageDict.match(/\/Resources\s+(\d+)\s+\d+\s+R/);
+    const resources = resourcesRef
+      ? objects.get(Number(resourcesRef[1]))?.dict
+      : pageDict;
+    if (resources) sources.push(resources);
+  }
+
+  for (const source of sources) {
+    let fontDict: string | undefined;
+    const inline = source.match(/\/Font\s*<<([\s\S]*?)>>/);
+    const indirect = source.match(/\/Font\s+(\d+)\s+\d+\s+R/);
+    if (inline) {
+      fontDict = inline[1];
+    } else if (indirect) {
+      fontDict = objects.get(Number(indirect[1]))?.dict;
+    }
+    if (!fontDict) continue;
+
+    const entryRegex = /\/([^\s/<>[\]()]+)\s+(\d+)\s+\d+\s+R/g;
+    let entry: RegExpExecArray | null;
+    while ((entry = entryRegex.exec(fontDict)) !== null) {
+      const name = entry[1];
+      const font = objects.get(Number(entry[2]));
+      const toUnicodeRef = font?.dict.match(/\/ToUnicode\s+(\d+)\s+\d+\s+R/);
+      if (!name || !toUnicodeRef) continue;
+
+      const cmapObj = objects.get(Number(toUnicodeRef[1]));
+      if (!cmapObj) continue;
+
+      const decoded = await decodeStream(cmapObj);
+      if (decoded) {
+        fonts.set(name, parseCMap(bytesToLatin1(decoded)));
+      }
+    }
+  }
+
+  return fonts;
+}
+
+/**
+ * Parse bfchar/bfrange sections of a ToUnicode CMap
+ */
+function parseCMap(content: string): CMap {
+  const map = new Map<number, string>();
+  let codeLength = 1;
+
+  const codespace = content.match(
+    /begincodespacerange\s*<([0-9a-fA-F]+)>/
+  )?.[1];
+  if (codespace) {
+    codeLength = Math.max(1, codespace.length / 2);
+  }
+
+  const charSections = content.match(/beginbfchar([\s\S]*?)endbfchar/g) ?? [];
+  for (const section of charSections) {
+    const pairRegex = /<([0-9a-fA-F]+)>\s*<([0-9a-fA-F]*)>/g;
+    let pair: RegExpExecArray | null;
+    while ((pair = pairRegex.exec(section)) !== null) {
+      map.set(parseInt(pair[1] ?? '0', 16), hexToUnicode(pair[2] ?? ''));
+    }
+  }
+
+  const rangeSections =
+    content.match(/beginbfrange([\s\S]*?)endbfrange/g) ?? [];
+  for (const section of rangeSections) {
+    const rangeRegex =
+      /<([0-9a-fA-F]+)>\s*<([0-9a-fA-F]+)>\s*(<[0-9a-fA-F]*>|\[[^\]]*\])/g;
+    let range: RegExpExecArray | null;
+    while ((range = rangeRegex.exec(section)) !== null) {
+      const low = parseInt(range[1] ?? '0', 16);
+      const high = parseInt(range[2] ?? '0', 16);
+      const target = range[3] ?? '';
+
+      if (target.startsWith('[')) {
+        const values = target.match(/<([0-9a-fA-F]*)>/g) ?? [];
+        values.forEach((value, index) => {
+          map.set(low + index, hexToUnicode(value.slice(1, -1)));
+        });
+      } else {
+        const base = target.slice(1, -1);
+        const prefix = hexToUnicode(base.slice(0, -4));
+        const lastUnit = parseInt(base.slice(-4) || '0', 16);
+        for (let code = low; code <= high && code - low < 65536; code++) {
+          map.set(code, prefix + String.fromCharCode(lastUnit + code - low));
+        }
+      }
+    }
+  }
+
+  return { codeLength, map };
+}
+
+function hexToUnicode(hex: string): string {
+  let result = '';
+  for (let i = 0; i + 4 <= hex.length; i += 4) {
+    result += String.fromCharCode(parseInt(hex.slice(i, i + 4), 16));
+  }
+  if (hex.length === 2) {
+    result = String.fromCharCode(parseInt(hex, 16));
+  }
+  return result;
+}
+
+/**
+ * Walk the page tree from the catalog, falling back to file order
+ */
+function findPages(objects: Map<number, PdfObject>): PdfObject[] {
+  const pages: PdfObject[] = [];
+  const visited = new Set<number>();
+
+  const walk = (objNum: number): void => {
+    if (visited.has(objNum)) return;
+    visited.add(objNum);
+
+    const node = objects.get(objNum);
+    if (!node) return;
+
+    if (/\/Type\s*\/Page\b(?!s)/.test(node.dict)) {
+      pages.push(node);
+      return;
+    }
+
+    const kids = node.dict.match(/\/Kids\s*\[([^\]]*)\]/)?.[1] ?? '';
+    for (const ref of kids.matchAll(/(\d+)\s+\d+\s+R/g)) {
+      walk(Number(ref[1]));
+    }
+  };
+
+  for (const obj of objects.values()) {
+    if (!/\/Type\s*\/Catalog/.test(obj.dict)) continue;
+    const root = obj.dict.match(/\/Pages\s+(\d+)\s+\d+\s+R/);
+    if (root) walk(Number(root[1]));
+  }
+
+  if (pages.length === 0) {
+    for (const obj of objects.values()) {
+      if (/\/Type\s*\/Page\b(?!s)/.test(obj.dict)) pages.push(obj);
+    }
+  }
+
+  return pages;
+}
+
+function getContentRefs(pageDict: string): number[] {
+  const contents = pageDict.match(
+    /\/Contents\s*(\[[^\]]*\]|\d+\s+\d+\s+R)/
+  )?.[1];
+  if (!contents) return [];
+
+  return [...contents.matchAll(/(\d+)\s+\d+\s+R/g)].map((m) => Number(m[1]));
+}
+
+/**
+ * Interpret text operators of a decoded content stream
+ */
+function extractTextFromContent(
+  content: string,
+  fonts: Map<string, CMap>
+): string {
+  let pos = 0;
+  let output = '';
+  let font: CMap | undefined;
+  let lineY: number | null = null;
+  const operands: Token[] = [];
+
+  const isWhitespace = (ch: string | undefined): boolean =>
+    ch === ' ' ||
+    ch === '\n' ||
+    ch === '\r' ||
+    ch === '\t' ||
+    ch === '\f' ||
+    ch === '\0';
+  const isDelimiter = (ch: string | undefined): boolean =>
+    ch !== undefined && '()<>[]{}/%'.includes(ch);
+
+  const newline = (): void => {
+    if (output.length > 0 && !output.endsWith('\n')) output += '\n';
+  };
+  const space = (): void => {
+    if (output.length > 0 && !/\s$/.test(output)) output += ' ';
+  };
+  const show = (bytes: number[]): void => {
+    output += decodeString(bytes, font);
+  };
+
+  const readLiteralString = (): number[] => {
+    const bytes: number[] = [];
+    let depth = 1;
+    pos++; // opening "("
+    while (pos < content.length && depth > 0) {
+      const ch = content[pos]!;
+      if (ch === '\\') {
+        const next = content[pos + 1] ?? '';
+        const escapes: Record<string, number> = {
+          n: 10,
+          r: 13,
+          t: 9,
+          b: 8,
+          f: 12,
+        };
+        if (next in escapes) {
+          bytes.push(escapes[next]!);
+          pos += 2;
+        } else if (/[0-7]/.test(next)) {
+          const octal = content.slice(pos + 1, pos + 4).match(/^[0-7]{1,3}/);
+          const digits = octal?.[0] ?? '0';
+          bytes.push(parseInt(digits, 8) & 0xff);
+          pos += 1 + digits.length;
+        } else if (next === '\r' || next === '\n') {
+          pos += 2;
+          if (next === '\r' && content[pos] === '\n') pos++;
+        } else {
+          bytes.push(next.charCodeAt(0));
+          pos += 2;
+        }
+        continue;
+      }
+      if (ch === '(') depth++;
+      if (ch === ')') depth--;
+      if (depth > 0) bytes.push(ch.charCodeAt(0));
+      pos++;
+    }
+    return bytes;
+  };
+
+  const readToken = (): Token | null => {
+    while (pos < content.length) {
+      const ch = content[pos];
+      if (isWhitespace(ch)) {
+        pos++;
+      } else if (ch === '%') {
+        while (pos < content.length && content[pos] !== '\n') pos++;
+      } else {
+        break;
+      }
+    }
+    if (pos >= content.length) return null;
+
+    const ch = content[pos]!;
+
+    if (ch === '(') {
+      return { type: 'str', bytes: readLiteralString() };
+    }
+
+    if (ch === '<' && content[pos + 1] === '<') {
+      // Skip inline dictionaries (marked content properties)
+      let depth = 0;
+      while (pos < content.length) {
+        if (content.startsWith('<<', pos)) {
+          depth++;
+          pos += 2;
+        } else if (content.startsWith('>>', pos)) {
+          depth--;
+          pos += 2;
+          if (depth === 0) break;
+        } else {
+          pos++;
+        }
+      }
+      return { type: 'other' };
+    }
+
+    if (ch === '<') {
+      const end = content.indexOf('>', pos);
+      const hex = content
+        .slice(pos + 1, end === -1 ? undefined : end)
+        .replace(/\s+/g, '');
+      pos = end === -1 ? content.length : end + 1;
+      const padded = hex.length % 2 === 0 ? hex : hex + '0';
+      const bytes: number[] = [];
+      for (let i = 0; i < padded.length; i += 2) {
+        bytes.push(parseInt(padded.slice(i, i + 2), 16));
+      }
+      return { type: 'str', bytes };
+    }
+
+    if (ch === '[') {
+      pos++;
+      const items: Token[] = [];
+      for (;;) {
+        const saved = pos;
+        while (isWhitespace(content[pos])) pos++;
+        if (content[pos] === ']' || pos >= content.length) {
+          pos++;
+          break;
+        }
+        pos = saved;
+        const item = readToken();
+        if (!item) break;
+        items.push(item);
+      }
+      return { type: 'array', items };
+    }
+
+    if (ch === '/') {
+      const start = ++pos;
+      while (
+        pos < content.length &&
+        !isWhitespace(content[pos]) &&
+        !isDelimiter(content[pos])
+      ) {
+        pos++;
+      }
+      return { type: 'name', value: content.slice(start, pos) };
+    }
+
+    const start = pos;
+    while (
+      pos < content.length &&
+      !isWhitespace(content[pos]) &&
+      !isDelimiter(content[pos])
+    ) {
+      pos++;
+    }
+    if (pos === start) {
+      pos++; // stray delimiter such as ")" or "]"
+      return { type: 'other' };
+    }
+
+    const word = content.slice(start, pos);
+    if (/^[+-]?(\d+\.?\d*|\.\d+)$/.test(word)) {
+      return { type: 'num', value: Number(word) };
+    }
+    return { type: 'op', value: word };
+  };
+
+  const num = (token: Token | undefined): number =>
+    token?.type === 'num' ? token.value : 0;
+
+  for (;;) {
+    const token = readToken();
+    if (!token) break;
+
+    if (token.type !== 'op') {
+      operands.push(token);
+      continue;
+    }
+
+    switch (token.value) {
+      case 'Tf': {
+        const name = operands[operands.length - 2];
+        font = name?.type === 'name' ? fonts.get(name.value) : undefined;
+        break;
+      }
+      case 'Tj': {
+        const str = operands[operands.length - 1];
+        if (str?.type === 'str') show(str.bytes);
+        break;
+      }
+      case "'":
+      case '"': {
+        newline();
+        const str = operands[operands.length - 1];
+        if (str?.type === 'str') show(str.bytes);
+        break;
+      }
+      case 'TJ': {
+        const arr = operands[operands.length - 1];
+        if (arr?.type === 'array') {
+          for (const item of arr.items) {
+            if (item.type === 'str') show(item.bytes);
+            else if (item.type === 'num' && item.value < TJ_SPACE_THRESHOLD) {
+              space();
+            }
+          }
+        }
+        break;
+      }
+      case 'Td':
+      case 'TD': {
+        const ty = num(operands[operands.length - 1]);
+        if (Math.abs(ty) > 0.5) {
+          newline();
+          lineY = lineY === null ? ty : lineY + ty;
+        } else {
+          space();
+        }
+        break;
+      }
+      case 'Tm': {
+        const y = num(operands[operands.length - 1]);
+        if (lineY !== null && Math.abs(y - lineY) > 1) newline();
+        else space();
+        lineY = y;
+        break;
+      }
+      case 'T*':
+        newline();
+        break;
+      case 'ET':
+        space();
+        break;
+      case 'ID': {
+        // Skip inline image binary data
+        const end = content.indexOf('EI', pos);
+        pos = end === -1 ? content.length : end + 2;
+        break;
+      }
+    }
+
+    operands.length = 0;
+  }
+
+  return output;
+}
+
+function decodeString(bytes: number[], font: CMap | undefined): string {
+  if (!font) {
+    return String.fromCharCode(...bytes);
+  }
+
+  let result = '';
+  for (let i = 0; i + font.codeLength <= bytes.length; i += font.codeLength) {
+    let code = 0;
+    for (let j = 0; j < font.codeLength; j++) {
+      code = (code << 8) | (bytes[i + j] ?? 0);
+    }
+    result += font.map.get(code) ?? '';
+  }
+  return result;
+}
+
+function normalizeText(text: string): string {
+  return text
+    .replace(/\0/g, '')
+    .replace(/[ \t]+/g, ' ')
+    .split('\n')
+    .map((line) => line.trim())
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+function bytesToLatin1(bytes: Uint8Array): string {
+  let result = '';
+  const chunkSize = 0x8000;
+  for (let i = 0; i < bytes.length; i += chunkSize) {
+    result += String.fromCharCode(...bytes.subarray(i, i + chunkSize));
+  }
+  return result;
+}
@@ -0,0 +1,426 @@
+/**
+ * Minimal pure-TypeScript PDF writer
+ *
+ * Lays out wrapped text on A4 pages in DejaVu Sans. The regular and bold
+ * subsets (Latin, Cyrillic and common punctuation) are embedded as
+ * Identity-H TrueType fonts, so the text looks the same in every viewer,
+ * and a ToUnicode CMap keeps it searchable and copyable. Characters outside
+ * the subsets are dropped (emoji) or replaced with "?".
+ */
+
+import { DEJAVU_SANS, DEJAVU_SANS_BOLD } from './pdf-fonts';
+
+export interface PdfTextStyle {
+  size: number;
+  bold?: boolean;
+  color?: [number, number, number]; // RGB, 0-1
+  indent?: number; // Points from the left margin
+  spaceBefore?: number;
+  spaceAfter?: number;
+}
+
+export interface PdfWriterOptions {
+  title?: string;
+  language?: string;
+  margin?: number;
+}
+
+/**
+ * TrueType font subset generated by scripts/build-pdf-fonts.js
+ */
+export interface EmbeddedFont {
+  name: string; // PostScript name
+  ascent: number; // Metrics in 1/1000 em
+  descent: number;
+  capHeight: number;
+  stemV: number;
+  bbox: [number, number, number, number];
+  glyphs: number[]; // Code point, glyph id and advance width triples
+  data: string; // Base64 font file
+}
+
+/**
+ * Embedded font with its lookup tables
+ */
+interface FontFace {
+  font: EmbeddedFont;
+  resource: string; // Name in the page resources
+  tag: string; // Subset prefix of the PostScript name
+  glyphIds: Map<number, number>; // Code point to glyph id
+  widths: Map<number, number>; // Glyph id to advance width
+  unicode: Map<number, number>; // Glyph id back to code point
+}
+
+// A4 in points
+const PAGE_WIDTH = 595.28;
+const PAGE_HEIGHT = 841.89;
+const LINE_HEIGHT = 1.35;
+
+const REGULAR = loadFace(DEJAVU_SANS, 'F1', 'AAAAAA');
+const BOLD = loadFace(DEJAVU_SANS_BOLD, 'F2', 'AAAAAB');
+
+function loadFace(font: EmbeddedFont, resource: string, tag: string): FontFace {
+  const face: FontFace = {
+    font,
+    resource,
+    tag,
+    glyphIds: new Map(),
+    widths: new Map(),
+    unicode: new Map(),
+  };
+  for (let i = 0; i + 2 < font.glyphs.length; i += 3) {
+    const [codePoint = 0, glyphId = 0, width = 0] = font.glyphs.slice(i, i + 3);
+    face.glyphIds.set(codePoint, glyphId);
+    face.widths.set(glyphId, width);
+    if (!face.unicode.has(glyphId)) face.unicode.set(glyphId, codePoint);
+  }
+  return face;
+}
+
+function faceFor(style: PdfTextStyle): FontFace {
+  return style.bold ? BOLD : REGULAR;
+}
+
+interface Line {
+  glyphs: number[]; // Glyph ids in the style's font
+  x: number;
+  y: number;
+  style: PdfTextStyle;
+}
+
+interface Rule {
+  y: number;
+  color: [number, number, number];
+}
+
+interface Page {
+  lines: Line[];
+  rules: Rule[];
+}
+
+export class PdfWriter {
+  private pages: Page[] = [];
+  private y = 0;
+  private margin: number;
+  private title: string;
+  private language: string;
+
+  constructor(options: PdfWriterOptions = {}) {
+    this.margin = options.margin ?? 56;
+    this.title = options.title ?? '';
+    this.language = options.language ?? 'en';
+    this.addPage();
+  }
+
+  /**
+   * Add wrapped text; line breaks in the text start new lines
+   */
+  text(text: string, style: PdfTextStyle): this {
+    const face = faceFor(style);
+    const indent = style.indent ?? 0;
+    const width = PAGE_WIDTH - 2 * this.margin - indent;
+    const lineHeight = style.size * LINE_HEIGHT;
+
+    this.y -= style.spaceBefore ?? 0;
+    for (const paragraph of text.split('\n')) {
+      const glyphs = encodeText(paragraph, face);
+      for (const line of this.wrap(glyphs, width, style.size, face)) {
+        if (this.y - lineHeight < this.margin) this.addPage();
+        this.y -= lineHeight;
+        this.currentPage().lines.push({
+          glyphs: line,
+          x: this.margin + indent,
+          // Baseline above the descenders, centered in the line
+          y: this.y + (lineHeight - style.size) / 2 + style.size * 0.2,
+          style,
+        });
+      }
+    }
+    this.y -= style.spaceAfter ?? 0;
+    return this;
+  }
+
+  /**
+   * Horizontal line across the text area
+   */
+  rule(color: [number, number, number] = [0.8, 0.8, 0.8]): this {
+    if (this.y - 8 < this.margin) this.addPage();
+    this.y -= 4;
+    this.currentPage().rules.push({ y: this.y, color });
+    this.y -= 4;
+    return this;
+  }
+
+  space(points: number): this {
+    this.y -= points;
+    return this;
+  }
+
+  /**
+   * Serialize the document to PDF bytes
+   */
+  toBytes(): Uint8Array<ArrayBuffer> {
+    const objects: Uint8Array[] = [];
+    const add = (...parts: (string | Uint8Array)[]): number =>
+      objects.push(concatBytes(parts));
+    const stream = (
+      content: string | Uint8Array,
+      entries = ''
+    ): (string | Uint8Array)[] => {
+      const bytes =
+        typeof content === 'string' ? encodeAscii(content) : content;
+      return [
+        `<< /Length ${bytes.length}${entries} >>\nstream\n`,
+        bytes,
+        '\nendstream',
+      ];
+    };
+
+    const catalog = add('');
+    const pages = add('');
+
+    // Only faces that appear in the document are embedded
+    const used = new Set(
+      this.pages.flatMap((page) =>
+        page.lines.map((line) => faceFor(line.style))
+      )
+    );
+    const fonts = [...used].map((face) => {
+      const name = `${face.tag}+${face.font.name}`;
+      const file = decodeBase64(face.font.data);
+      const fontFile = add(...stream(file, ` /Length1 ${file.length}`));
+      const descriptor = add(
+        `<< /Type /FontDescriptor /FontName /${name} /Flags 32 /FontBBox [${face.font.bbox.join(' ')}] /ItalicAngle 0 /Ascent ${face.font.ascent} /Descent ${face.font.descent} /CapHeight ${face.font.capHeight} /StemV ${face.font.stemV} /FontFile2 ${fontFile} 0 R >>`
+      );
+      const cidFont = add(
+        `<< /Type /Font /Subtype /CIDFontType2 /BaseFont /${name} /CIDSystemInfo << /Registry (Adobe) /Ordering (Identity) /Supplement 0 >> /FontDescriptor ${descriptor} 0 R /W [${glyphWidths(face)}] /CIDToGIDMap /Identity >>`
+      );
+      const toUnicode = add(...stream(toUnicodeCMap(face)));
+      const font = add(
+        `<< /Type /Font /Subtype /Type0 /BaseFont /${name} /Encoding /Identity-H /DescendantFonts [${cidFont} 0 R] /ToUnicode ${toUnicode} 0 R >>`
+      );
+      return `/${face.resource} ${font} 0 R`;
+    });
+    const resources = `<< /Font << ${fonts.join(' ')} >> >>`;
+
+    const kids = this.pages.map((page) => {
+      const content = add(...stream(this.renderPage(page)));
+      return add(
+        `<< /Type /Page /Parent ${pages} 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] /Resources ${resources} /Contents ${content} 0 R >>`
+      );
+    });
+    objects[catalog - 1] = encodeAscii(
+      `<< /Type /Catalog /Pages ${pages} 0 R /Lang ${pdfString(this.language)} >>`
+    );
+    objects[pages - 1] = encodeAscii(
+      `<< /Type /Pages /Kids [${kids.map((kid) => `${kid} 0 R`).join(' ')}] /Count ${kids.length} >>`
+    );
+    const info = add(
+      `<< /Title ${pdfString(this.title)} /Producer (help-find-job) /CreationDate (D:${pdfDate(new Date())}) >>`
+    );
+
+    // The binary comment marks the file as binary for transfer tools
+    const parts: (string | Uint8Array)[] = [
+      '%PDF-1.4\n',
+      new Uint8Array([0x25, 0xe2, 0xe3, 0xcf, 0xd3, 0x0a]),
+    ];
+    let length = 15;
+    const offsets = objects.map((body, index) => {
+      const offset = length;
+      const header = `${index + 1} 0 obj\n`;
+      parts.push(header, body, '\nendobj\n');
+      length += header.length + body.length + 8;
+      return offset;
+    });
+    const xref = length;
+    parts.push(
+      `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`,
+      offsets
+        .map((offset) => `${String(offset).padStart(10, '0')} 00000 n \n`)
+        .join(''),
+      `trailer\n<< /Size ${objects.length + 1} /Root ${catalog} 0 R /Info ${info} 0 R >>\nstartxref\n${xref}\n%%EOF\n`
+    );
+
+    return concatBytes(parts);
+  }
+
+  private renderPage(page: Page): string {
+    const commands: string[] = [];
+    for (const rule of page.rules) {
+      commands.push(
+        `${rule.color.join(' ')} RG 0.5 w ${this.margin} ${rule.y.toFixed(2)} m ${(PAGE_WIDTH - this.margin).toFixed(2)} ${rule.y.toFixed(2)} l S`
+      );
+    }
+    for (const line of page.lines) {
+      const color = (line.style.color ?? [0, 0, 0]).join(' ');
+      commands.push(
+        `BT /${faceFor(line.style).resource} ${line.style.size} Tf ${color} rg ${line.x.toFixed(2)} ${line.y.toFixed(2)} Td <${line.glyphs.map(hex4).join('')}> Tj ET`
+      );
+    }
+    return commands.join('\n');
+  }
+
+  /**
+   * Break glyphs into lines that fit the width, at spaces when possible
+   */
+  private wrap(
+    glyphs: number[],
+    width: number,
+    size: number,
+    face: FontFace
+  ): number[][] {
+    const space = face.glyphIds.get(0x20);
+    const glyphWidth = (glyph: number): number =>
+      ((face.widths.get(glyph) ?? 0) * size) / 1000;
+    const lines: number[][] = [];
+    let line: number[] = [];
+    let lineWidth = 0;
+    let lastSpace = -1;
+
+    for (const glyph of glyphs) {
+      line.push(glyph);
+      lineWidth += glyphWidth(glyph);
+      if (glyph === space) lastSpace = line.length - 1;
+      if (lineWidth <= width || line.length === 1) continue;
+
+      // Move the overflowing word (or character) to the next line
+      const breakAt = lastSpace > 0 ? lastSpace : line.length - 1;
+      lines.push(trimSpaces(line.slice(0, breakAt), space));
+      line = line.slice(lastSpace > 0 ? breakAt + 1 : breakAt);
+      lineWidth = line.reduce((sum, g) => sum + glyphWidth(g), 0);
+      lastSpace = space === undefined ? -1 : line.lastIndexOf(space);
+    }
+
+    lines.push(trimSpaces(line, space));
+    return lines;
+  }
+
+  private addPage(): void {
+    this.pages.push({ lines: [], rules: [] });
+    this.y = PAGE_HEIGHT - this.margin;
+  }
+
+  private currentPage(): Page {
+    const page = this.pages[this.pages.length - 1];
+    if (!page) throw new Error('PDF has no pages');
+    return page;
+  }
+}
+
+/**
+ * Map text to glyph ids of a face; accents are stripped from letters
+ * the subset lacks
+ */
+function encodeText(text: string, face: FontFace): number[] {
+  const glyphs: number[] = [];
+  for (const char of text.replace(/\t/g, '    ')) {
+    const glyph = face.glyphIds.get(char.codePointAt(0) ?? 0);
+    if (glyph !== undefined) {
+      glyphs.push(glyph);
+      continue;
+    }
+    if (/\p{Extended_Pictographic}|\p{M}|\u200d|\ufe0f/u.test(char)) continue;
+
+    const base = char.normalize('NFD').replace(/\p{M}/gu, '');
+    const baseGlyph =
+      base.length === 1 ? face.glyphIds.get(base.charCodeAt(0)) : undefined;
+    const fallback = baseGlyph ?? face.glyphIds.get(0x3f);
+    if (fallback !== undefined) glyphs.push(fallback);
+  }
+  return glyphs;
+}
+
+function trimSpaces(line: number[], space: number | undefined): number[] {
+  let start = 0;
+  let end = line.length;
+  while (start < end && line[start] === space) start++;
+  while (end > start && line[end - 1] === space) end--;
+  return line.slice(start, end);
+}
+
+/**
+ * /W entries: runs of consecutive glyph ids with their widths
+ */
+function glyphWidths(face: FontFace): string {
+  const ids = [...face.widths.keys()].sort((a, b) => a - b);
+  const runs: string[] = [];
+  let run: number[] = [];
+  ids.forEach((id, index) => {
+    run.push(face.widths.get(id) ?? 0);
+    if (ids[index + 1] !== id + 1) {
+      runs.push(`${id - run.length + 1} [${run.join(' ')}]`);
+      run = [];
+    }
+  });
+  return runs.join(' ');
+}
+
+function hex4(value: number): string {
+  return value.toString(16).padStart(4, '0').toUpperCase();
+}
+
+function encodeAscii(text: string): Uint8Array {
+  return new TextEncoder().encode(text);
+}
+
+function decodeBase64(data: string): Uint8Array {
+  return Uint8Array.from(atob(data), (char) => char.charCodeAt(0));
+}
+
+function concatBytes(parts: (string | Uint8Array)[]): Uint8Array<ArrayBuffer> {
+  const chunks = parts.map((part) =>
+    typeof part === 'string' ? encodeAscii(part) : part
+  );
+  const bytes = new Uint8Array(
+    chunks.reduce((sum, chunk) => sum + chunk.length, 0)
+  );
+  let offset = 0;
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return bytes;
+}
+
+/**
+ * Text string in UTF-16BE hex, readable in any PDF metadata field
+ */
+function pdfString(text: string): string {
+  let hex = 'FEFF';
+  for (let i = 0; i < text.length; i++) {
+    hex += hex4(text.charCodeAt(i));
+  }
+  return `<${hex}>`;
+}
+
+function pdfDate(date: Date): string {
+  return date
+    .toISOString()
+    .replace(/[-:T]/g, '')
+    .replace(/\.\d+Z$/, 'Z');
+}
+
+function toUnicodeCMap(face: FontFace): string {
+  const entries = [...face.unicode].map(
+    ([glyph, unicode]) => `<${hex4(glyph)}> <${hex4(unicode)}>`
+  );
+  const chunks: string[] = [];
+  for (let i = 0; i < entries.length; i += 100) {
+    const chunk = entries.slice(i, i + 100);
+    chunks.push(`${chunk.length} beginbfchar\n${chunk.join('\n')}\nendbfchar`);
+  }
+  return [
+    '/CIDInit /ProcSet findresource begin',
+    '12 dict begin',
+    'begincmap',
+    '/CIDSystemInfo << /Registry (Adobe) /Ordering (UCS) /Supplement 0 >> def',
+    '/CMapName /Adobe-Identity-UCS def',
+    '/CMapType 2 def',
+    '1 begincodespacerange\n<0000> <FFFF>\nendcodespacerange',
+    ...chunks,
+    'endcmap',
+    'CMapName currentdict /CMapType get /CMapName exch defineresource pop',
+    'end',
+    'end',
+  ].join('\n');
+}
@@ -0,0 +1,114 @@
+/**
+ * Minimal HTTP router for the Worker fetch handler
+ */
+
+export type RouteParams = Record<string, string>;
+
+export type RouteHandler<E> = (
+  request: Request,
+  env: E,
+  params: RouteParams
+) => Promise<Response>;
+
+type Method = 'GET' | 'POST' | 'DELETE' | '*';
+
+interface Route<E> {
+  method: Method;
+  segments: string[];
+  handler: RouteHandler<E>;
+}
+
+/**
+ * JSON response with the content type set
+ */
+export function jsonResponse(body: unknown, status: number = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+export class Router<E> {
+  private routes: Route<E>[] = [];
+
+  get(path: string, handler: RouteHandler<E>): this {
+    return this.add('GET', path, handler);
+  }
+
+  post(path: string, handler: RouteHandler<E>): this {
+    return this.add('POST', path, handler);
+  }
+
+  delete(path: string, handler: RouteHandler<E>): this {
+    return this.add('DELETE', path, handler);
+  }
+
+  /**
+   * Route every method; the handler checks it itself
+   */
+  all(path: string, handler: RouteHandler<E>): this {
+    return this.add('*', path, handler);
+  }
+
+  /**
+   * Run the route matching the request; 405 when only the method differs,
+   * null when no path matches
+   */
+  async handle(request: Request, env: E): Promise<Response | null> {
+    const segments = this.split(new URL(request.url).pathname);
+    const allowed: string[] = [];
+
+    for (const route of this.routes) {
+      const params = this.match(route.segments, segments);
+      if (!params) continue;
+
+      if (route.method === '*' || route.method === request.method) {
+        return route.handler(request, env, params);
+      }
+      allowed.push(route.method);
+    }
+
+    if (allowed.length === 0) return null;
+    const response = jsonResponse(
+      {
+        error: 'Method Not Allowed',
+        message: `Use ${allowed.join(', ')} for this endpoint.`,
+      },
+      405
+    );
+    response.headers.set('Allow', allowed.join(', '));
+    return response;
+  }
+
+  private add(method: Method, path: string, handler: RouteHandler<E>): this {
+    this.routes.push({ method, segments: this.split(path), handler });
+    return this;
+  }
+
+  /**
+   * Parameters captured by ":name" segments, or null when the path differs
+   */
+  private match(pattern: string[], segments: string[]): RouteParams | null {
+    if (pattern.length !== segments.length) return null;
+
+    const params: RouteParams = {};
+    for (let i = 0; i < pattern.length; i++) {
+      const expected = pattern[i] ?? '';
+      const actual = segments[i] ?? '';
+      if (expected.startsWith(':')) {
+        try {
+          params[expected.slice(1)] = decodeURIComponent(actual);
+        } catch {
+          return null; // Malformed escape sequence
+        }
+      } else if (expected !== actual) {
+        return null;
+      }
+    }
+    return params;
+  }
+
+  private split(path: string): string[] {
+    return path.split('/').filter(Boolean);
+  }
+}
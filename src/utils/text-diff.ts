@@ -0,0 +1,92 @@
+/**
+ * Word-level text diff for before/after previews
+ */
+
+export type DiffOperation = 'equal' | 'removed' | 'added';
+
+export interface DiffPart {
+  op: DiffOperation;
+  text: string;
+}
+
+// Quadratic LCS; bullets are short, longer inputs are not diffed word by word
+const MAX_DIFF_WORDS = 200;
+
+/**
+ * Diff two strings by words using the longest common subsequence
+ */
+export function diffWords(before: string, after: string): DiffPart[] {
+  const a = before.split(/\s+/).filter(Boolean);
+  const b = after.split(/\s+/).filter(Boolean);
+
+  if (a.length > MAX_DIFF_WORDS || b.length > MAX_DIFF_WORDS) {
+    return [
+      { op: 'removed', text: a.join(' ') },
+      { op: 'added', text: b.join(' ') },
+    ];
+  }
+
+  // LCS length of a[i..] and b[j..], stored row by row
+  const width = b.length + 1;
+  const lcs = new Uint16Array((a.length + 1) * width);
+  const at = (i: number, j: number): number => lcs[i * width + j] ?? 0;
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i * width + j] =
+        a[i] === b[j]
+          ? at(i + 1, j + 1) + 1
+          : Math.max(at(i + 1, j), at(i, j + 1));
+    }
+  }
+
+  const parts: DiffPart[] = [];
+  const push = (op: DiffOperation, word: string): void => {
+    const last = parts[parts.length - 1];
+    if (last?.op === op) {
+      last.text += ' ' + word;
+    } else {
+      parts.push({ op, text: word });
+    }
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    const wordA = a[i];
+    const wordB = b[j];
+    if (wordA !== undefined && wordA === wordB) {
+      push('equal', wordA);
+      i++;
+      j++;
+    } else if (
+      wordA !== undefined &&
+      (wordB === undefined || at(i + 1, j) >= at(i, j + 1))
+    ) {
+      push('removed', wordA);
+      i++;
+    } else if (wordB !== undefined) {
+      push('added', wordB);
+      j++;
+    }
+  }
+
+  return parts;
+}
+
+/**
+ * Render a diff as plain text in the git word-diff style: [-old-] {+new+}
+ */
+export function formatWordDiff(before: string, after: string): string {
+  return diffWords(before, after)
+    .map((part) => {
+      switch (part.op) {
+        case 'removed':
+          return `[-${part.text}-]`;
+        case 'added':
+          return `{+${part.text}+}`;
+        default:
+          return part.text;
+      }
+    })
+    .join(' ');
+}
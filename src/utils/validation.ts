@@ -0,0 +1,97 @@
+/**
+ * Helpers for validating and coercing loosely typed AI output
+ */
+
+export function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Trimmed non-empty string, or undefined
+ */
+export function asString(value: unknown): string | undefined {
+  if (typeof value === 'number') return String(value);
+  if (typeof value !== 'string') return undefined;
+  const trimmed = value.trim();
+  return trimmed.length > 0 ? trimmed : undefined;
+}
+
+/**
+ * List of trimmed non-empty strings; a single string becomes a one-item list
+ */
+export function asStringList(value: unknown): string[] {
+  const items = Array.isArray(value) ? value : [value];
+  return items
+    .map((item) => asString(item))
+    .filter((item): item is string => item !== undefined);
+}
+
+/**
+ * Value from an allowed set (case-insensitive), or undefined
+ */
+export function asEnum<T extends string>(
+  value: unknown,
+  allowed: readonly T[]
+): T | undefined {
+  const text = asString(value)?.toLowerCase();
+  return allowed.find((option) => option === text);
+}
+
+/**
+ * Finite number, accepting numeric strings such as "150 000"
+ */
+export function asNumber(value: unknown): number | undefined {
+  if (typeof value === 'number') {
+    return Number.isFinite(value) ? value : undefined;
+  }
+  if (typeof value !== 'string') return undefined;
+  const parsed = Number(value.replace(/[\s,]/g, ''));
+  return value.trim().length > 0 && Number.isFinite(parsed)
+    ? parsed
+    : undefined;
+}
+
+const PRESENT_WORDS = [
+  'present',
+  'current',
+  'now',
+  'настоящее время',
+  'по настоящее время',
+  'н.в.',
+  'по н.в.',
+  'сейчас',
+];
+
+/**
+ * Normalize a date to YYYY, YYYY-MM or 'present' when allowed
+ */
+export function asResumeDate(
+  value: unknown,
+  allowPresent: boolean = false
+): string | undefined {
+  const text = asString(value)?.toLowerCase();
+  if (!text) return undefined;
+
+  if (PRESENT_WORDS.includes(text)) {
+    return allowPresent ? 'present' : undefined;
+  }
+
+  const isoMatch = text.match(/^(\d{4})(?:[-./](\d{1,2}))?/);
+  if (isoMatch) {
+    const month = Number(isoMatch[2]);
+    return month >= 1 && month <= 12
+      ? `${isoMatch[1]}-${String(month).padStart(2, '0')}`
+      : isoMatch[1];
+  }
+
+  const monthFirst = text.match(/^(\d{1,2})[-./](\d{4})$/);
+  if (monthFirst) {
+    const month = Number(monthFirst[1]);
+    return month >= 1 && month <= 12
+      ? `${monthFirst[2]}-${String(month).padStart(2, '0')}`
+      : monthFirst[2];
+  }
+
+  const yearOnly = text.match(/\b(19|20)\d{2}\b/);
+  return yearOnly?.[0];
+}
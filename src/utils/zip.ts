@@ -0,0 +1,156 @@
+/**
+ * Minimal ZIP archive reader (stored and deflate entries)
+ *
+ * Enough to read Office Open XML containers such as DOCX.
+ */
+
+export interface ZipEntry {
+  name: string;
+  method: number;
+  compressedSize: number;
+  uncompressedSize: number; // As declared by the archive, not trusted
+  localHeaderOffset: number;
+}
+
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const END_OF_CENTRAL_DIR_SIGNATURE = 0x06054b50;
+
+const METHOD_STORED = 0;
+const METHOD_DEFLATE = 8;
+
+// Inflated entries beyond this would exhaust Worker memory (zip bombs)
+const MAX_ENTRY_SIZE = 32 * 1024 * 1024;
+
+/**
+ * Check for the local file header signature ("PK\x03\x04")
+ */
+export function isZip(data: ArrayBuffer): boolean {
+  if (data.byteLength < 4) return false;
+  return new DataView(data).getUint32(0, true) === LOCAL_HEADER_SIGNATURE;
+}
+
+/**
+ * List entries from the central directory
+ */
+export function listZipEntries(data: ArrayBuffer): ZipEntry[] {
+  const view = new DataView(data);
+  const eocdOffset = findEndOfCentralDirectory(view);
+  if (eocdOffset === -1) {
+    throw new Error('Invalid ZIP archive');
+  }
+
+  const entryCount = view.getUint16(eocdOffset + 10, true);
+  let offset = view.getUint32(eocdOffset + 16, true);
+  const decoder = new TextDecoder();
+  const entries: ZipEntry[] = [];
+
+  for (let i = 0; i < entryCount; i++) {
+    if (
+      offset + 46 > view.byteLength ||
+      view.getUint32(offset, true) !== CENTRAL_HEADER_SIGNATURE
+    ) {
+      throw new Error('Corrupted ZIP central directory');
+    }
+
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+
+    entries.push({
+      name: decoder.decode(new Uint8Array(data, offset + 46, nameLength)),
+      method: view.getUint16(offset + 10, true),
+      compressedSize: view.getUint32(offset + 20, true),
+      uncompressedSize: view.getUint32(offset + 24, true),
+      localHeaderOffset: view.getUint32(offset + 42, true),
+    });
+
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return entries;
+}
+
+/**
+ * Read and decompress a single entry, or return null when it is missing.
+ * Throws when the entry inflates beyond maxSize bytes.
+ */
+export async function readZipEntry(
+  data: ArrayBuffer,
+  name: string,
+  maxSize: number = MAX_ENTRY_SIZE
+): Promise<Uint8Array | null> {
+  const entry = listZipEntries(data).find((e) => e.name === name);
+  if (!entry) return null;
+  if (entry.uncompressedSize > maxSize) {
+    throw new Error(`ZIP entry ${name} is too large`);
+  }
+
+  const view = new DataView(data);
+  const headerOffset = entry.localHeaderOffset;
+  if (view.getUint32(headerOffset, true) !== LOCAL_HEADER_SIGNATURE) {
+    throw new Error('Corrupted ZIP entry header');
+  }
+
+  const nameLength = view.getUint16(headerOffset + 26, true);
+  const extraLength = view.getUint16(headerOffset + 28, true);
+  const dataStart = headerOffset + 30 + nameLength + extraLength;
+  const compressed = new Uint8Array(data, dataStart, entry.compressedSize);
+
+  if (entry.method === METHOD_STORED) {
+    return compressed;
+  }
+
+  if (entry.method === METHOD_DEFLATE) {
+    const stream = new Blob([compressed])
+      .stream()
+      .pipeThrough(new DecompressionStream('deflate-raw'));
+    return readLimited(stream, maxSize, name);
+  }
+
+  throw new Error(`Unsupported ZIP compression method: ${entry.method}`);
+}
+
+/**
+ * Collect a stream, aborting once it passes maxSize; the declared size
+ * of an entry can be forged
+ */
+async function readLimited(
+  stream: ReadableStream<Uint8Array>,
+  maxSize: number,
+  name: string
+): Promise<Uint8Array> {
+  const reader = stream.getReader();
+  const chunks: Uint8Array[] = [];
+  let total = 0;
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    total += value.length;
+    if (total > maxSize) {
+      await reader.cancel();
+      throw new Error(`ZIP entry ${name} is too large`);
+    }
+    chunks.push(value);
+  }
+
+  const result = new Uint8Array(total);
+  let offset = 0;
+  for (const chunk of chunks) {
+    result.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return result;
+}
+
+function findEndOfCentralDirectory(view: DataView): number {
+  // The record is 22 bytes plus an optional comment of up to 64KB
+  const minOffset = Math.max(0, view.byteLength - 22 - 0xffff);
+  for (let offset = view.byteLength - 22; offset >= minOffset; offset--) {
+    if (view.getUint32(offset, true) === END_OF_CENTRAL_DIR_SIGNATURE) {
+      return offset;
+    }
+  }
+  return -1;
+}